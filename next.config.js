@@ -1,7 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'standalone',
-  serverExternalPackages: ['mammoth'],
+  serverExternalPackages: ['mammoth', 'sql.js'],
 };
 
 module.exports = nextConfig;
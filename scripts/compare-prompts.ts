@@ -0,0 +1,130 @@
+/**
+ * Run two prompt configurations side by side on the same interviews and compare the
+ * themes and/or opportunities they produce. Nothing in the data store is changed.
+ *
+ * Run from project root:
+ *   npm run compare:prompts -- --b theme-group@v2 [--a theme-group@v1]
+ *     [--interviews t-001,t-002] [--out comparison.json]
+ *
+ * --a and --b list "name@version" pairs; prompts not listed use the configured versions
+ * (KFCX_PROMPT_VERSIONS, else the latest built-in). Extra versions can be loaded from
+ * "{name}@{version}.txt" files in KFCX_PROMPTS_DIR. Only artifacts whose prompts differ
+ * are generated. Model calls count towards the usage log.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+
+const PROJECT_ROOT = process.cwd();
+const ENV_LOCAL = path.join(PROJECT_ROOT, ".env.local");
+
+async function loadEnvLocal(): Promise<void> {
+  try {
+    const content = await fs.readFile(ENV_LOCAL, "utf-8");
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      const eq = trimmed.indexOf("=");
+      if (eq <= 0) continue;
+      const key = trimmed.slice(0, eq).trim();
+      const value = trimmed.slice(eq + 1).trim();
+      if (value.startsWith('"') && value.endsWith('"')) {
+        process.env[key] = value.slice(1, -1).replace(/\\n/g, "\n");
+      } else {
+        process.env[key] = value;
+      }
+    }
+    console.log("Loaded .env.local");
+  } catch {
+    console.warn(".env.local not found; using existing env.");
+  }
+}
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function parseVersions(spec: string | undefined): Record<string, string> {
+  const versions: Record<string, string> = {};
+  for (const part of (spec ?? "").split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [name, version] = part.split("@");
+    if (!name || !version) throw new Error(`Expected name@version, got "${part}"`);
+    versions[name] = version;
+  }
+  return versions;
+}
+
+async function main(): Promise<void> {
+  await loadEnvLocal();
+
+  const { llmConfigError } = await import("../src/lib/ai/provider");
+  const configError = llmConfigError();
+  if (configError) {
+    console.error(configError);
+    process.exit(1);
+  }
+
+  const specA = argValue("--a");
+  const specB = argValue("--b");
+  if (!specB) {
+    console.error(
+      "Usage: npm run compare:prompts -- --b name@version[,...] [--a name@version[,...]]"
+    );
+    process.exit(1);
+  }
+  const interviews = argValue("--interviews")?.split(",").map((id) => id.trim());
+  const out = argValue("--out");
+
+  const { PROMPT_NAMES } = await import("../src/lib/ai/prompt-registry");
+  const a = parseVersions(specA);
+  const b = parseVersions(specB);
+  for (const name of Object.keys({ ...a, ...b })) {
+    if (!(PROMPT_NAMES as string[]).includes(name)) {
+      console.error(`Unknown prompt "${name}". Prompts: ${PROMPT_NAMES.join(", ")}`);
+      process.exit(1);
+    }
+  }
+
+  const { comparePromptVersions } = await import("../src/lib/ai/prompt-experiments");
+  const { flushUsage } = await import("../src/lib/ai/usage");
+  console.log(`Comparing A (${specA || "configured"}) with B (${specB})...`);
+  const comparison = await comparePromptVersions(
+    { label: specA || "configured", versions: a },
+    { label: specB, versions: b },
+    { interviewIds: interviews }
+  );
+  await flushUsage();
+
+  if (comparison.themes) {
+    const { diff } = comparison.themes;
+    console.log(`\nThemes (B against A): ${diff.unchanged} unchanged`);
+    for (const t of diff.changed) {
+      const group = t.previousGroup === t.group ? t.group : `${t.previousGroup} -> ${t.group}`;
+      const label = t.previousLabel === t.label ? t.label : `${t.previousLabel} -> ${t.label}`;
+      console.log(
+        `  ~ [${group}] ${label} (${t.previousFrequency} -> ${t.frequency} interviews)`
+      );
+    }
+    for (const t of diff.added) console.log(`  + [${t.group}] ${t.label}`);
+    for (const t of diff.removed) console.log(`  - [${t.group}] ${t.label}`);
+  }
+  if (comparison.opportunities) {
+    const count = (side: "a" | "b") =>
+      comparison.opportunities!.reduce((n, row) => n + row[side].length, 0);
+    console.log(`\nOpportunities: A ${count("a")}, B ${count("b")}`);
+    for (const row of comparison.opportunities) {
+      if (row.a.length === row.b.length) continue;
+      console.log(`  ${row.client}, ${row.company}: A ${row.a.length}, B ${row.b.length}`);
+    }
+  }
+
+  if (out) {
+    await fs.writeFile(path.resolve(PROJECT_ROOT, out), JSON.stringify(comparison, null, 2));
+    console.log(`\nFull comparison written to ${out}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
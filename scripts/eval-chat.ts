@@ -0,0 +1,157 @@
+/**
+ * Run the golden chat questions through each chat path, score the answers and save the
+ * run in the data store (see src/lib/ai/chat-eval.ts for the metrics).
+ *
+ * Run from project root:
+ *   npm run eval:chat -- [--paths local,exhaustive] [--questions id1,id2]
+ *     [--mode semantic|keyword|hybrid] [--set data/eval/chat-golden.json] [--compare <run id>]
+ *
+ * The summary is compared with --compare, else with the latest earlier run of the same
+ * question set. Model calls count towards the usage log.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+
+const PROJECT_ROOT = process.cwd();
+const ENV_LOCAL = path.join(PROJECT_ROOT, ".env.local");
+
+async function loadEnvLocal(): Promise<void> {
+  try {
+    const content = await fs.readFile(ENV_LOCAL, "utf-8");
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      const eq = trimmed.indexOf("=");
+      if (eq <= 0) continue;
+      const key = trimmed.slice(0, eq).trim();
+      const value = trimmed.slice(eq + 1).trim();
+      if (value.startsWith('"') && value.endsWith('"')) {
+        process.env[key] = value.slice(1, -1).replace(/\\n/g, "\n");
+      } else {
+        process.env[key] = value;
+      }
+    }
+    console.log("Loaded .env.local");
+  } catch {
+    console.warn(".env.local not found; using existing env.");
+  }
+}
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function argList(flag: string): string[] | undefined {
+  return argValue(flag)
+    ?.split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function formatMetric(value: number | null, percent = true): string {
+  if (value === null) return "-";
+  return percent ? `${Math.round(value * 100)}%` : `${Math.round(value)}ms`;
+}
+
+function formatDelta(value: number | undefined, percent = true): string {
+  if (value === undefined || value === 0) return "";
+  const sign = value > 0 ? "+" : "";
+  return percent ? ` (${sign}${Math.round(value * 100)})` : ` (${sign}${Math.round(value)}ms)`;
+}
+
+async function main(): Promise<void> {
+  await loadEnvLocal();
+
+  const { llmConfigError } = await import("../src/lib/ai/provider");
+  const configError = llmConfigError();
+  if (configError) {
+    console.error(configError);
+    process.exit(1);
+  }
+
+  const { CHAT_PATHS, compareChatEvalRuns, runChatEval } = await import(
+    "../src/lib/ai/chat-eval"
+  );
+  const { listChatEvalRuns, readChatEvalRun } = await import("../src/lib/data/store");
+  const { flushUsage } = await import("../src/lib/ai/usage");
+
+  const paths = argList("--paths");
+  const unknownPath = paths?.find((p) => !(CHAT_PATHS as string[]).includes(p));
+  if (unknownPath) {
+    console.error(`Unknown path "${unknownPath}". Paths: ${CHAT_PATHS.join(", ")}`);
+    process.exit(1);
+  }
+  const { isRetrievalMode, RETRIEVAL_MODES } = await import("../src/lib/ai/retrieval");
+  const mode = argValue("--mode");
+  if (mode !== undefined && !isRetrievalMode(mode)) {
+    console.error(`Unknown mode "${mode}". Modes: ${RETRIEVAL_MODES.join(", ")}`);
+    process.exit(1);
+  }
+  const setArg = argValue("--set");
+  const compareWith = argValue("--compare");
+
+  const earlierRuns = await listChatEvalRuns();
+  console.log("Running chat evaluation...");
+  const run = await runChatEval({
+    setPath: setArg ? path.resolve(PROJECT_ROOT, setArg) : undefined,
+    paths: paths as typeof CHAT_PATHS | undefined,
+    questionIds: argList("--questions"),
+    mode,
+  });
+  await flushUsage();
+
+  console.log(
+    `\nRun ${run.id}: set v${run.evalSet.version} (${run.evalSet.hash}), ` +
+      `${run.evalSet.questions} questions, ${run.provider}/${run.model}, ` +
+      `${run.retrievalMode} retrieval`
+  );
+
+  const base = compareWith
+    ? await readChatEvalRun(compareWith)
+    : [...earlierRuns].reverse().find((r) => r.evalSet.hash === run.evalSet.hash) ?? null;
+  if (compareWith && !base) console.warn(`Run ${compareWith} not found; not comparing.`);
+  const comparison = base ? compareChatEvalRuns(base, run) : null;
+  if (comparison) {
+    console.log(
+      `Compared with ${comparison.base}` +
+        (comparison.sameEvalSet ? "" : " (different question set)")
+    );
+  }
+
+  for (const s of run.summary) {
+    if (s.skipped) {
+      console.log(`\n${s.path}: skipped. ${s.skipped}`);
+      continue;
+    }
+    const deltas = comparison?.paths.find((p) => p.path === s.path)?.deltas ?? {};
+    console.log(`\n${s.path}: ${s.questions} questions, ${s.errors} errors`);
+    console.log(
+      `  retrieval recall   ${formatMetric(s.retrievalRecall)}${formatDelta(deltas.retrievalRecall)}`
+    );
+    console.log(
+      `  citation accuracy  ${formatMetric(s.citationAccuracy)}${formatDelta(deltas.citationAccuracy)}`
+    );
+    console.log(
+      `  faithfulness       ${formatMetric(s.faithfulness)}${formatDelta(deltas.faithfulness)}`
+    );
+    console.log(
+      `  fact recall        ${formatMetric(s.factRecall)}${formatDelta(deltas.factRecall)}`
+    );
+    console.log(
+      `  router accuracy    ${formatMetric(s.routerAccuracy)}${formatDelta(deltas.routerAccuracy)}`
+    );
+    console.log(
+      `  mean latency       ${formatMetric(s.meanLatencyMs, false)}${formatDelta(deltas.meanLatencyMs, false)}`
+    );
+  }
+
+  for (const r of run.results.filter((r) => r.error)) {
+    console.log(`\n! ${r.path} ${r.questionId}: ${r.error}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
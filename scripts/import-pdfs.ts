@@ -20,6 +20,8 @@ import {
   parseFilenameMetadata,
   parsePdfBuffer,
 } from "../src/lib/data/pdf-parser";
+import { DEFAULT_TAXONOMY } from "../src/lib/data/taxonomy";
+import type { Taxonomy } from "../src/types";
 
 const PROJECT_ROOT = process.cwd();
 const STORE_ROOT = path.join(PROJECT_ROOT, "data", "store");
@@ -64,6 +66,15 @@ async function importPdfs(): Promise<void> {
     };
   }
 
+  // Filename codes are resolved against the stored taxonomy (or the default one)
+  let taxonomy: Taxonomy = DEFAULT_TAXONOMY;
+  try {
+    const raw = await fs.readFile(path.join(STORE_ROOT, "metadata", "taxonomy.json"), "utf-8");
+    taxonomy = JSON.parse(raw);
+  } catch {
+    // No taxonomy saved yet
+  }
+
   // Get current max interview ID
   const existingMaxId = metadataIndex.interviews.reduce((max, item) => {
     const num = parseInt(item.id.replace("t-", ""));
@@ -101,7 +112,7 @@ async function importPdfs(): Promise<void> {
 
     try {
       // 1. Parse filename metadata
-      const filenameMeta = parseFilenameMetadata(filename);
+      const filenameMeta = parseFilenameMetadata(filename, taxonomy);
 
       // 2. Read and parse PDF
       const pdfPath = path.join(PDF_SOURCE_DIR, filename);
@@ -22,7 +22,13 @@ import {
   parseTranscriptPdfBuffer,
   getTranscriptNumber,
 } from "../src/lib/data/transcript-parser";
-import type { InterviewMetadata, NormalizedTranscript, MetadataIndex } from "../src/types";
+import { DEFAULT_TAXONOMY } from "../src/lib/data/taxonomy";
+import type {
+  InterviewMetadata,
+  NormalizedTranscript,
+  MetadataIndex,
+  Taxonomy,
+} from "../src/types";
 
 const PROJECT_ROOT = process.cwd();
 const STORE_ROOT = path.join(PROJECT_ROOT, "data", "store");
@@ -80,6 +86,11 @@ async function ingestTranscripts(): Promise<void> {
 
   console.log(`Loaded ${metadataIndex.interviews.length} interviews from index\n`);
 
+  // Filename codes are resolved against the stored taxonomy (or the default one)
+  const taxonomy =
+    (await readJSON<Taxonomy>(path.join(STORE_ROOT, "metadata", "taxonomy.json"))) ??
+    DEFAULT_TAXONOMY;
+
   // List all transcript PDF files
   const allFiles = await fs.readdir(TRANSCRIPT_SOURCE_DIR);
   const transcriptFiles = allFiles
@@ -108,7 +119,7 @@ async function ingestTranscripts(): Promise<void> {
   for (const filename of transcriptFiles) {
     try {
       // 1. Parse filename metadata
-      const filenameMeta = parseTranscriptFilename(filename);
+      const filenameMeta = parseTranscriptFilename(filename, taxonomy);
       const transcriptCode = filenameMeta.transcriptCode; // "T1", "T10", etc.
       const transcriptNum = getTranscriptNumber(transcriptCode); // 1, 10, etc.
       const reportCode = `R${transcriptNum}`; // "R1", "R10", etc.
@@ -170,6 +181,7 @@ async function ingestTranscripts(): Promise<void> {
         sections: [], // No structured sections
         fullTranscript: parsed.fullTranscript,
         rawText: parsed.rawText,
+        format: parsed.format,
       };
 
       // 6. Save transcript JSON
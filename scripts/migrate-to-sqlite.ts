@@ -0,0 +1,138 @@
+/**
+ * Copies the JSON file store (data/store) into the embedded SQLite database used when
+ * KFCX_STORAGE=sqlite: metadata index, transcripts, reports, themes, opportunities,
+ * embeddings and the keyword index, pipeline state and chat evaluation runs.
+ * Original PDFs, job records and the AI usage log stay on disk, where the SQLite backend
+ * keeps them too; the embedding vectors are written next to the database.
+ *
+ * Run from project root: npm run migrate:sqlite [-- --force]
+ * Writes to KFCX_SQLITE_PATH if set, otherwise data/store/kfcx.db. Refuses to overwrite
+ * an existing database unless --force is passed.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+
+const PROJECT_ROOT = process.cwd();
+const ENV_LOCAL = path.join(PROJECT_ROOT, ".env.local");
+
+async function loadEnvLocal(): Promise<void> {
+  try {
+    const content = await fs.readFile(ENV_LOCAL, "utf-8");
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      const eq = trimmed.indexOf("=");
+      if (eq <= 0) continue;
+      const key = trimmed.slice(0, eq).trim();
+      const value = trimmed.slice(eq + 1).trim();
+      if (value.startsWith('"') && value.endsWith('"')) {
+        process.env[key] = value.slice(1, -1).replace(/\\n/g, "\n");
+      } else {
+        process.env[key] = value;
+      }
+    }
+    console.log("Loaded .env.local");
+  } catch {
+    console.warn(".env.local not found; using existing env.");
+  }
+}
+
+async function main(): Promise<void> {
+  await loadEnvLocal();
+
+  const force = process.argv.includes("--force");
+  const { FsStorageBackend } = await import("../src/lib/data/backends/fs-backend");
+  const { SqliteStorageBackend, getSqlitePath } = await import(
+    "../src/lib/data/backends/sqlite-backend"
+  );
+
+  // Read the source first so the data root is resolved before the SQLite path
+  const source = new FsStorageBackend();
+  const index = await source.readMetadataIndex();
+  if (!index) {
+    console.error("No metadata/index.json found in the data store; nothing to migrate.");
+    process.exit(1);
+  }
+
+  const dbPath = getSqlitePath();
+  const exists = await fs
+    .stat(dbPath)
+    .then(() => true)
+    .catch(() => false);
+  if (exists && !force) {
+    console.error(`${dbPath} already exists. Pass --force to overwrite it.`);
+    process.exit(1);
+  }
+  if (exists) {
+    await fs.unlink(dbPath);
+    await fs.rm(`${dbPath}-vectors.f32`, { force: true });
+  }
+
+  const target = new SqliteStorageBackend(dbPath);
+  console.log(`Migrating ${index.interviews.length} interviews to ${dbPath}...`);
+
+  await target.writeMetadataIndex(index);
+
+  let transcripts = 0;
+  let reports = 0;
+  for (const meta of index.interviews) {
+    const transcript = await source.readTranscript(meta.id);
+    if (transcript) {
+      await target.writeTranscript(meta.id, transcript);
+      transcripts++;
+    }
+    const report = await source.readReport(meta.id);
+    if (report) {
+      await target.writeReport(meta.id, report);
+      reports++;
+    }
+  }
+  console.log(`  ${transcripts} transcripts, ${reports} reports`);
+
+  const themes = await source.readThemeAnalysis();
+  if (themes) await target.writeThemeAnalysis(themes);
+  const snapshotIds = await source.listThemeSnapshotIds();
+  for (const id of snapshotIds) {
+    const snapshot = await source.readThemeSnapshot(id);
+    if (snapshot) await target.writeThemeSnapshot(id, snapshot);
+  }
+  const candidates = await source.readThemeCandidates();
+  if (candidates) await target.writeThemeCandidates(candidates);
+  const segments = await source.readThemeSegments();
+  if (segments) await target.writeThemeSegments(segments);
+  const opportunities = await source.readOpportunities();
+  if (opportunities) await target.writeOpportunities(opportunities);
+  const embeddings = await source.readEmbeddingIndex();
+  if (embeddings) await target.writeEmbeddingIndex(embeddings);
+  const lexical = await source.readLexicalIndex();
+  if (lexical) await target.writeLexicalIndex(lexical);
+  const pipeline = await source.readPipelineState();
+  if (pipeline) await target.writePipelineState(pipeline);
+  const taxonomy = await source.readTaxonomy();
+  if (taxonomy) await target.writeTaxonomy(taxonomy);
+  console.log(
+    `  themes: ${themes ? "yes" : "no"} (${snapshotIds.length} snapshots), opportunities: ${opportunities?.opportunities.length ?? 0}, ` +
+      `embedding chunks: ${embeddings?.chunks.length ?? 0}, pipeline state: ${pipeline ? "yes" : "no"}, ` +
+      `taxonomy: ${taxonomy ? "yes" : "default"}`
+  );
+
+  const evalRunIds = await source.listChatEvalRunIds();
+  for (const id of evalRunIds) {
+    const run = await source.readChatEvalRun(id);
+    if (run) await target.writeChatEvalRun(run);
+  }
+  console.log(`  ${evalRunIds.length} chat evaluation runs`);
+
+  // Sanity check: the SQL queries should agree with the file store
+  const [fsStats, sqlStats] = [await source.getStats(), await target.getStats()];
+  if (JSON.stringify(fsStats) !== JSON.stringify(sqlStats)) {
+    console.warn("Warning: stats differ between the file store and SQLite.");
+  }
+
+  console.log("Done. Set KFCX_STORAGE=sqlite in .env.local to use the database.");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
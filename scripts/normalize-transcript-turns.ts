@@ -0,0 +1,53 @@
+/**
+ * Upgrades stored transcripts to structured turn timestamps: turns whose offset was folded
+ * into the speaker ("Interviewer 1:53") get a normalized speaker and startTime, and rawText
+ * is rebuilt in the "[1:53] Interviewer: text" form. Idempotent.
+ *
+ * Run from project root: npm run normalize:transcripts [-- --dry-run]
+ * Run an incremental reindex afterwards to refresh embeddings for the changed transcripts.
+ */
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes("--dry-run");
+  const { readMetadataIndex, readTranscript, writeTranscript } = await import(
+    "../src/lib/data/store"
+  );
+  const { formatTurnLine, normalizeTranscriptTurn } = await import(
+    "../src/lib/data/transcript-formats"
+  );
+
+  const index = await readMetadataIndex();
+  const all = [...index.interviews, ...(index.archived ?? [])];
+  let updated = 0;
+
+  for (const meta of all) {
+    if (!meta.hasTranscript) continue;
+    const transcript = await readTranscript(meta.id);
+    if (!transcript || transcript.fullTranscript.length === 0) continue;
+
+    const fullTranscript = transcript.fullTranscript.map(normalizeTranscriptTurn);
+    if (JSON.stringify(fullTranscript) === JSON.stringify(transcript.fullTranscript)) continue;
+
+    updated++;
+    console.log(`  ${meta.id}: ${fullTranscript.length} turns normalized`);
+    if (dryRun) continue;
+
+    // rawText is only rebuilt when it was derived from the turns (PDF transcripts)
+    const derived =
+      transcript.rawText ===
+      transcript.fullTranscript.map((t) => `${t.speaker}: ${t.text}`).join("\n\n");
+    await writeTranscript(meta.id, {
+      ...transcript,
+      fullTranscript,
+      rawText: derived ? fullTranscript.map(formatTurnLine).join("\n\n") : transcript.rawText,
+    });
+  }
+
+  console.log(
+    `${dryRun ? "Would update" : "Updated"} ${updated} of ${all.length} transcripts.`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
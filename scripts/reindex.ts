@@ -1,9 +1,12 @@
 /**
  * Reindex script: builds embeddings, syncs OpenAI vector store, generates themes and opportunities.
+ * Incremental by default: only interviews whose transcript/report changed are reprocessed and
+ * themes are marked stale. Pass --full to rebuild everything, --themes to regenerate themes.
  * Writes OPENAI_VECTOR_STORE_ID to .env.local when created.
  *
- * Run from project root: npm run reindex
- * Requires OPENAI_API_KEY in .env.local (or env).
+ * Run from project root: npm run reindex [-- --full] [-- --themes]
+ * Requires OPENAI_API_KEY in .env.local (or env), or another KFCX_LLM_PROVIDER.
+ * Refuses to start once this month's AI budget is reached (KFCX_MONTHLY_BUDGET_USD).
  */
 import { promises as fs } from "fs";
 import path from "path";
@@ -36,37 +39,36 @@ async function loadEnvLocal(): Promise<void> {
 async function main(): Promise<void> {
   await loadEnvLocal();
 
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("OPENAI_API_KEY is not set. Add it to .env.local and run again.");
+  const { llmConfigError } = await import("../src/lib/ai/provider");
+  const configError = llmConfigError();
+  if (configError) {
+    console.error(configError);
     process.exit(1);
   }
 
-  const { buildEmbeddingIndex } = await import("../src/lib/ai/embeddings");
-  const { syncVectorStore } = await import("../src/lib/ai/vector-store");
-  const { generateThemeAnalysis, generateOpportunityAnalysis } = await import("../src/lib/ai/analysis");
-
-  console.log("Building embedding index...");
-  const embeddingIndex = await buildEmbeddingIndex();
-  console.log(`  Embeddings: ${embeddingIndex.chunks.length} chunks indexed`);
-
-  console.log("Syncing OpenAI vector store...");
-  const { vectorStoreId, fileCount } = await syncVectorStore();
-  console.log(`  Vector store: ${vectorStoreId} (${fileCount} file(s)); Chat will use Responses API + file_search`);
-  console.log("  OPENAI_VECTOR_STORE_ID written to .env.local");
+  const full = process.argv.includes("--full");
+  const themes = process.argv.includes("--themes");
+  const { runReindex } = await import("../src/lib/ai/pipeline");
+  const { assertReindexBudget, BudgetExceededError, flushUsage } = await import(
+    "../src/lib/ai/usage"
+  );
+  try {
+    await assertReindexBudget();
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
 
-  console.log("Generating theme and opportunity analysis (in parallel)...");
-  const [themes, opps] = await Promise.all([
-    generateThemeAnalysis(),
-    generateOpportunityAnalysis(),
-  ]);
-  const totalThemes =
-    themes.whyClientsChoose.themes.length +
-    themes.promoterExperience.themes.length +
-    themes.whereFallsShort.themes.length +
-    (themes.additionalThemes?.reduce((s, g) => s + g.themes.length, 0) ?? 0);
-  console.log(`  Themes: ${totalThemes} identified`);
-  console.log(`  Opportunities: ${opps.opportunities.length} identified`);
+  console.log(`Running ${full ? "full" : "incremental"} reindex...`);
+  const { success, results } = await runReindex({ full, themes });
+  await flushUsage();
+  for (const line of results) console.log(`  ${line}`);
 
+  if (!success) {
+    console.error("One or more steps failed; they will be retried on the next run.");
+    process.exit(1);
+  }
   console.log("Reindex complete.");
 }
 
@@ -33,8 +33,10 @@ async function loadEnvLocal(): Promise<void> {
 
 async function main(): Promise<void> {
   await loadEnvLocal();
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("OPENAI_API_KEY not set. Add to .env.local");
+  const { llmConfigError } = await import("../src/lib/ai/provider");
+  const configError = llmConfigError();
+  if (configError) {
+    console.error(configError);
     process.exit(1);
   }
 
@@ -1,7 +1,9 @@
 /**
  * Regenerate only themes and opportunities from current interview data.
- * Run from project root: npx tsx scripts/themes-opportunities.ts
- * Requires OPENAI_API_KEY in .env.local (or env).
+ * Run from project root: npx tsx scripts/themes-opportunities.ts [--refresh]
+ * Per-interview theme candidates are reused from the cache unless --refresh is given.
+ * Requires OPENAI_API_KEY in .env.local (or env), or another KFCX_LLM_PROVIDER.
+ * Refuses to start once this month's AI budget is reached (KFCX_MONTHLY_BUDGET_USD).
  */
 import { promises as fs } from "fs";
 import path from "path";
@@ -34,28 +36,54 @@ async function loadEnvLocal(): Promise<void> {
 async function main(): Promise<void> {
   await loadEnvLocal();
 
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("OPENAI_API_KEY is not set. Add it to .env.local and run again.");
+  const { llmConfigError } = await import("../src/lib/ai/provider");
+  const configError = llmConfigError();
+  if (configError) {
+    console.error(configError);
     process.exit(1);
   }
 
   const { generateThemeAnalysis, generateOpportunityAnalysis } = await import(
     "../src/lib/ai/analysis"
   );
+  const { assertReindexBudget, BudgetExceededError, flushUsage } = await import(
+    "../src/lib/ai/usage"
+  );
+  try {
+    await assertReindexBudget();
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
 
   console.log("Generating theme analysis...");
-  const themes = await generateThemeAnalysis();
+  const themes = await generateThemeAnalysis({ refresh: process.argv.includes("--refresh") });
   const totalThemes =
     themes.whyClientsChoose.themes.length +
     themes.promoterExperience.themes.length +
     themes.whereFallsShort.themes.length +
     (themes.additionalThemes?.reduce((s, g) => s + g.themes.length, 0) ?? 0);
   console.log(`  Themes: ${totalThemes} identified`);
+  if (themes.extraction) {
+    console.log(
+      `  Candidates: ${themes.extraction.candidates} from ${themes.extraction.interviews} interviews ` +
+        `(${themes.extraction.extracted} extracted, ${themes.extraction.cached} cached)`
+    );
+  }
 
   console.log("Generating opportunity analysis...");
-  const opps = await generateOpportunityAnalysis();
-  console.log(`  Opportunities: ${opps.opportunities.length} identified`);
+  const { analysis: opps, failedInterviewIds } = await generateOpportunityAnalysis();
+  const superseded = opps.opportunities.filter((o) => o.status === "superseded").length;
+  console.log(
+    `  Opportunities: ${opps.opportunities.length - superseded} identified, ${superseded} superseded`
+  );
+  if (failedInterviewIds.length > 0) {
+    console.error(`  No usable output for: ${failedInterviewIds.join(", ")}`);
+    process.exitCode = 1;
+  }
 
+  await flushUsage();
   console.log("Done.");
 }
 
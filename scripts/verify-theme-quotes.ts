@@ -0,0 +1,51 @@
+/**
+ * Verifies the quotes of the stored theme analysis against the cited interviews and
+ * labels them with the interviews' metadata, as theme generation now does. For analyses
+ * generated before quote verification existed; lastGenerated is left unchanged.
+ *
+ * Run from project root: npm run verify:quotes [-- --dry-run] [-- --drop-unverified]
+ */
+import {
+  readMetadataIndex,
+  readReport,
+  readTranscript,
+  readThemeAnalysis,
+  writeThemeAnalysis,
+} from "../src/lib/data/store";
+import { verifyThemeAnalysisQuotes } from "../src/lib/ai/quote-verification";
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes("--dry-run");
+  const dropUnverified = process.argv.includes("--drop-unverified");
+
+  const analysis = await readThemeAnalysis();
+  if (!analysis) {
+    console.log("No theme analysis stored; nothing to verify.");
+    return;
+  }
+
+  const index = await readMetadataIndex();
+  const documents = [];
+  for (const metadata of index.interviews) {
+    documents.push({
+      metadata,
+      report: metadata.hasReport ? await readReport(metadata.id) : null,
+      transcript: metadata.hasTranscript ? await readTranscript(metadata.id) : null,
+    });
+  }
+
+  const verified = verifyThemeAnalysisQuotes(analysis, documents, { dropUnverified });
+  const { exact, fuzzy, unverified, dropped } = verified.quoteVerification!;
+  console.log(
+    `Quotes: ${exact} exact, ${fuzzy} fuzzy, ${unverified} unverified, ${dropped} dropped.`
+  );
+  if (dryRun) return;
+
+  await writeThemeAnalysis(verified);
+  console.log("Theme analysis updated.");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
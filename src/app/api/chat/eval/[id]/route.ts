@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { compareChatEvalRuns } from "@/lib/ai/chat-eval";
+import { listChatEvalRuns, readChatEvalRun } from "@/lib/data/store";
+
+/**
+ * One chat evaluation run with its per-question results, compared with an earlier run:
+ * the one in ?against=<run id>, else the latest earlier run of the same question set.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const run = await readChatEvalRun(id);
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    const against = request.nextUrl.searchParams.get("against")?.trim();
+    const base = against
+      ? await readChatEvalRun(against)
+      : (await listChatEvalRuns())
+          .filter((r) => r.startedAt < run.startedAt && r.evalSet.hash === run.evalSet.hash)
+          .pop() ?? null;
+    if (against && !base) {
+      return NextResponse.json({ error: `Run ${against} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...run,
+      comparison: base ? compareChatEvalRuns(base, run) : null,
+    });
+  } catch (error) {
+    console.error("Chat eval read error:", error);
+    return NextResponse.json({ error: "Could not read the chat evaluation run" }, { status: 500 });
+  }
+}
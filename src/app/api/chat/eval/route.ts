@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CHAT_PATHS, InvalidChatEvalSetError, runChatEval } from "@/lib/ai/chat-eval";
+import { llmConfigError } from "@/lib/ai/provider";
+import { isRetrievalMode, RETRIEVAL_MODES } from "@/lib/ai/retrieval";
+import { listChatEvalRuns } from "@/lib/data/store";
+import type { ChatPath } from "@/types";
+
+/** Saved chat evaluation runs (summaries only), oldest first. */
+export async function GET() {
+  try {
+    return NextResponse.json({ runs: await listChatEvalRuns() });
+  } catch (error) {
+    console.error("Chat eval list error:", error);
+    return NextResponse.json({ error: "Could not read chat evaluation runs" }, { status: 500 });
+  }
+}
+
+/**
+ * Run the golden chat questions and return the saved run. Runs in the request: a full set
+ * takes about a minute with a hosted model (npm run eval:chat does the same from a shell).
+ *
+ * Body (optional JSON):
+ * - paths: chat paths to evaluate ("exhaustive", "vector-store", "local"); default all
+ * - questions: question ids; default the whole set
+ * - mode: retrieval of the local path ("semantic", "keyword", "hybrid"); default hybrid
+ */
+export async function POST(request: NextRequest) {
+  const configError = llmConfigError();
+  if (configError) {
+    return NextResponse.json({ error: configError }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const paths: unknown = body?.paths;
+  const questions: unknown = body?.questions;
+  const mode: unknown = body?.mode;
+  if (
+    paths !== undefined &&
+    (!Array.isArray(paths) || paths.some((p) => !CHAT_PATHS.includes(p as ChatPath)))
+  ) {
+    return NextResponse.json(
+      { error: `paths must be a subset of ${CHAT_PATHS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (
+    questions !== undefined &&
+    (!Array.isArray(questions) || questions.some((q) => typeof q !== "string"))
+  ) {
+    return NextResponse.json({ error: "questions must be an array of ids" }, { status: 400 });
+  }
+  if (mode !== undefined && !isRetrievalMode(mode)) {
+    return NextResponse.json(
+      { error: `mode must be one of ${RETRIEVAL_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const run = await runChatEval({
+      paths: paths as ChatPath[] | undefined,
+      questionIds: questions as string[] | undefined,
+      mode,
+    });
+    return NextResponse.json(run);
+  } catch (error) {
+    if (error instanceof InvalidChatEvalSetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Chat eval error:", error);
+    return NextResponse.json({ error: "Chat evaluation failed" }, { status: 500 });
+  }
+}
@@ -5,43 +5,17 @@ import {
   streamStaticResponse,
 } from "@/lib/ai/chat";
 import { getVectorStoreIdIfReady } from "@/lib/ai/vector-store";
+import { isRetrievalMode, RETRIEVAL_MODES } from "@/lib/ai/retrieval";
 import { readEmbeddingIndex } from "@/lib/data/store";
-import { exhaustiveSearchInterviews } from "@/lib/ai/exhaustive-search";
-
-function isExhaustiveListQuery(text: string): boolean {
-  return /\b(list|all|every|which|who|count|by region|by solution|by engagement|by account)\b/i.test(
-    text
-  );
-}
-
-function formatExhaustiveMatches(query: string, matches: Awaited<ReturnType<typeof exhaustiveSearchInterviews>>): string {
-  if (matches.length === 0) {
-    return `## No matches found\n\nNo interviews matched this query using a full scan. Try adding a specific phrase in quotes (e.g. \"more information\") or another keyword.`;
-  }
-
-  const lines = [
-    `## Matches (${matches.length})`,
-    "",
-  ];
-
-  for (const m of matches) {
-    const meta = m.interview;
-    lines.push(
-      `- **${meta.client}, ${meta.company}** — ${meta.region} | ${meta.solution} | ${meta.accountType} | NPS ${meta.score} (${meta.npsCategory}) | ${meta.id}`
-    );
-    if (m.snippet) {
-      lines.push(`  > ${m.snippet}`);
-    }
-  }
-
-  lines.push("");
-  lines.push(`_Matched using full scan for query:_ ${query}`);
-  return lines.join("\n");
-}
+import {
+  exhaustiveSearchInterviews,
+  formatExhaustiveMatches,
+  isExhaustiveListQuery,
+} from "@/lib/ai/exhaustive-search";
 
 export async function POST(request: NextRequest) {
   try {
-    const { messages, filters } = await request.json();
+    const { messages, filters, mode } = await request.json();
 
     if (!messages || messages.length === 0) {
       return new Response(JSON.stringify({ error: "No messages provided" }), {
@@ -49,6 +23,12 @@ export async function POST(request: NextRequest) {
         headers: { "Content-Type": "application/json" },
       });
     }
+    if (mode !== undefined && !isRetrievalMode(mode)) {
+      return new Response(
+        JSON.stringify({ error: `mode must be one of ${RETRIEVAL_MODES.join(", ")}` }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
     const latestMessage = messages[messages.length - 1]?.content ?? "";
 
@@ -56,7 +36,10 @@ export async function POST(request: NextRequest) {
     if (latestMessage && isExhaustiveListQuery(latestMessage)) {
       const matches = await exhaustiveSearchInterviews(latestMessage);
       const content = formatExhaustiveMatches(latestMessage, matches);
-      const stream = streamStaticResponse(content);
+      const stream = streamStaticResponse(
+        content,
+        matches.map((m) => ({ interview: m.interview, quote: m.snippet || null }))
+      );
       return new Response(stream, {
         headers: {
           "Content-Type": "text/event-stream",
@@ -91,7 +74,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const stream = await streamChatResponse(messages, filters);
+    const stream = await streamChatResponse(messages, filters, { mode });
 
     return new Response(stream, {
       headers: {
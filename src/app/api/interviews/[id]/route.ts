@@ -1,18 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { readMetadataIndex, readTranscript, readReport } from "@/lib/data/store";
+import {
+  readTranscript,
+  readReport,
+  readTaxonomy,
+  ConcurrencyConflictError,
+  LockTimeoutError,
+} from "@/lib/data/store";
+import {
+  findInterview,
+  parseInterviewUpdate,
+  updateInterview,
+  archiveInterview,
+  restoreInterview,
+  purgeInterview,
+  type InterviewUpdate,
+} from "@/lib/data/interviews";
+import { enqueueJob } from "@/lib/jobs/queue";
+import type { InterviewMetadata } from "@/types";
+
+function storeErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ConcurrencyConflictError) {
+    return NextResponse.json(
+      { error: error.message, currentVersion: error.currentVersion },
+      { status: 409 }
+    );
+  }
+  if (error instanceof LockTimeoutError) {
+    return NextResponse.json({ error: error.message }, { status: 503 });
+  }
+  throw error;
+}
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  const index = await readMetadataIndex();
-  const metadata = index.interviews.find((i) => i.id === id);
+  const found = await findInterview(id);
 
-  if (!metadata) {
+  if (!found) {
     return NextResponse.json({ error: "Interview not found" }, { status: 404 });
   }
 
+  const { metadata, archived, version } = found;
   const transcript = metadata.hasTranscript ? await readTranscript(id) : null;
   const report = metadata.hasReport ? await readReport(id) : null;
 
@@ -20,5 +50,141 @@ export async function GET(
     metadata,
     transcript,
     report,
+    archived,
+    version,
   });
 }
+
+/**
+ * Edit metadata (client, company, interviewDate, score, region, solution, accountType);
+ * npsCategory and monthYear are recomputed. `{ archived: false }` restores an archived
+ * interview. Pass the index `version` from GET to get a 409 on concurrent edits.
+ * A reindex job is queued only when something changed; otherwise `jobId` is null.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseInterviewUpdate(body, await readTaxonomy());
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { update } = parsed;
+  if (body.archived !== undefined && body.archived !== false) {
+    return NextResponse.json(
+      { error: "Use DELETE to archive an interview; PATCH only accepts archived: false" },
+      { status: 400 }
+    );
+  }
+  if (Object.keys(update).length === 0 && body.archived === undefined) {
+    return NextResponse.json({ error: "No editable fields provided" }, { status: 400 });
+  }
+  const expectedVersion = Number.isInteger(body.version) ? (body.version as number) : undefined;
+
+  try {
+    const found = await findInterview(id);
+    if (!found) {
+      return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+    }
+
+    const restore = body.archived === false && found.archived;
+    const changes: InterviewUpdate = Object.fromEntries(
+      Object.entries(update).filter(
+        ([key, value]) => found.metadata[key as keyof InterviewUpdate] !== value
+      )
+    );
+    const changed = restore || Object.keys(changes).length > 0;
+
+    // Each write returns null if the interview was purged (or restored) since the lookup
+    let metadata: InterviewMetadata | null = found.metadata;
+    if (restore) {
+      metadata = await restoreInterview(id, { expectedVersion });
+    }
+    if (metadata && Object.keys(changes).length > 0) {
+      // A restore above already bumped the version, so only check it once
+      metadata = await updateInterview(id, changes, {
+        expectedVersion: restore ? undefined : expectedVersion,
+      });
+    }
+    if (!metadata) {
+      return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+    }
+
+    // Refresh embeddings, vector-store files and opportunities for the change
+    const job = changed ? await enqueueJob("reindex", { interviewId: id }) : null;
+    const current = await findInterview(id);
+
+    return NextResponse.json({
+      success: true,
+      metadata,
+      archived: current?.archived ?? false,
+      version: current?.version,
+      jobId: job?.id ?? null,
+    });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+/**
+ * Archive (soft delete) by default. With `?purge=true` the interview is removed for good,
+ * together with its transcript, report and originals; a queued "purge" job (`jobId`) then
+ * removes its embedding chunks, vector-store file, theme references and opportunities.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const purge = searchParams.get("purge") === "true";
+  const versionParam = searchParams.get("version");
+  const expectedVersion = versionParam ? parseInt(versionParam, 10) : undefined;
+  if (expectedVersion !== undefined && isNaN(expectedVersion)) {
+    return NextResponse.json({ error: "version must be an integer" }, { status: 400 });
+  }
+
+  try {
+    if (purge) {
+      const purged = await purgeInterview(id, { expectedVersion });
+      if (!purged) {
+        return NextResponse.json({ error: "Interview not found" }, { status: 404 });
+      }
+      // Embeddings, vector store, themes and opportunities are cleaned up by a queued job,
+      // after any reindex that is running
+      const job = await enqueueJob("purge", { interviewId: id });
+      const results =
+        purged.deletedOriginals.length > 0
+          ? [`Originals: ${purged.deletedOriginals.join(", ")} deleted`]
+          : [];
+      return NextResponse.json({ success: true, purged: true, results, jobId: job.id });
+    }
+
+    const archived = await archiveInterview(id, { expectedVersion });
+    if (!archived) {
+      const found = await findInterview(id);
+      return found
+        ? NextResponse.json({ error: "Interview is already archived" }, { status: 409 })
+        : NextResponse.json({ error: "Interview not found" }, { status: 404 });
+    }
+
+    // Drop it from embeddings and the vector store; its opportunities become superseded
+    const job = await enqueueJob("reindex", { interviewId: id });
+    const current = await findInterview(id);
+    return NextResponse.json({
+      success: true,
+      archived: true,
+      metadata: archived,
+      version: current?.version,
+      jobId: job.id,
+    });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
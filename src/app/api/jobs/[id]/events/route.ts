@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { getJob, isJobFinished, subscribeToJob } from "@/lib/jobs/queue";
+import { readJob } from "@/lib/data/store";
+import type { Job } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+/** Fallback poll interval, for jobs updated by another server process. */
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * SSE progress stream for a job. Sends the full job as `data:` on every change and
+ * closes once the job has completed or failed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const initial = await getJob(id);
+
+  if (!initial) {
+    return new Response(JSON.stringify({ error: "Job not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastUpdatedAt = "";
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (job: Job) => {
+        if (closed || job.updatedAt === lastUpdatedAt) return;
+        lastUpdatedAt = job.updatedAt;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(job)}\n\n`));
+        if (isJobFinished(job)) close();
+      };
+
+      const unsubscribe = subscribeToJob(id, send);
+      const timer = setInterval(async () => {
+        const job = await readJob(id);
+        if (job) send(job);
+      }, POLL_INTERVAL_MS);
+      const onAbort = () => close();
+      request.signal.addEventListener("abort", onAbort);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(timer);
+        request.signal.removeEventListener("abort", onAbort);
+      };
+
+      send(initial);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
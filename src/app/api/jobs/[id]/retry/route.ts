@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, retryJob } from "@/lib/jobs/queue";
+
+/** Re-queue a failed job; only its failed steps run again. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const existing = await getJob(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const job = await retryJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { error: `Only failed jobs can be retried (status: ${existing.status})` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ jobId: job.id, job }, { status: 202 });
+}
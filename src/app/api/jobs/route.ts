@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueJob, listRecentJobs } from "@/lib/jobs/queue";
+import type { JobType } from "@/types";
+
+const QUEUEABLE_TYPES: JobType[] = ["reindex", "vector_store_sync"];
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const limit = parseInt(searchParams.get("limit") || "20", 10);
+  const jobs = await listRecentJobs(isNaN(limit) ? 20 : limit);
+  return NextResponse.json({ jobs });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const type = body?.type as JobType | undefined;
+
+  if (!type || !QUEUEABLE_TYPES.includes(type)) {
+    return NextResponse.json(
+      { error: `type must be one of: ${QUEUEABLE_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const job = await enqueueJob(type, {
+    full: body?.full === true,
+    themes: body?.themes === true,
+  });
+  return NextResponse.json({ jobId: job.id, job }, { status: 202 });
+}
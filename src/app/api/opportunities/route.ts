@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { readOpportunities, writeOpportunities } from "@/lib/data/store";
+import {
+  readOpportunities,
+  updateOpportunities,
+  ConcurrencyConflictError,
+  LockTimeoutError,
+} from "@/lib/data/store";
+import { USER_OPPORTUNITY_STATUSES } from "@/lib/data/opportunity-merge";
+import type { Opportunity, OpportunityStatus } from "@/types";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -32,38 +39,97 @@ export async function GET(request: NextRequest) {
 
   return NextResponse.json({
     lastGenerated: data.lastGenerated,
+    version: data.version ?? 0,
     opportunities,
   });
 }
 
 export async function PATCH(request: NextRequest) {
-  const { id, status } = await request.json();
+  const { id, status, notes, version } = await request.json();
 
-  if (!id || !status) {
+  if (!id || (status === undefined && notes === undefined)) {
     return NextResponse.json(
-      { error: "id and status are required" },
+      { error: "id and at least one of status or notes are required" },
       { status: 400 }
     );
   }
 
-  const data = await readOpportunities();
-  if (!data) {
+  if (status !== undefined && !USER_OPPORTUNITY_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status. Must be one of: ${USER_OPPORTUNITY_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (notes !== undefined && typeof notes !== "string") {
     return NextResponse.json(
-      { error: "No opportunities data found" },
-      { status: 404 }
+      { error: "notes must be a string" },
+      { status: 400 }
     );
   }
 
-  const opp = data.opportunities.find((o) => o.id === id);
-  if (!opp) {
+  if (version !== undefined && !Number.isInteger(version)) {
     return NextResponse.json(
-      { error: "Opportunity not found" },
-      { status: 404 }
+      { error: "version must be an integer" },
+      { status: 400 }
     );
   }
 
-  opp.status = status;
-  await writeOpportunities(data);
+  let found = false;
+  let opp: Opportunity | undefined;
+  try {
+    const saved = await updateOpportunities(
+      (data) => {
+        if (!data) return null;
+        found = true;
+        opp = data.opportunities.find((o) => o.id === id);
+        if (!opp) return null;
 
-  return NextResponse.json({ success: true, opportunity: opp });
+        const now = new Date().toISOString();
+        opp.history = opp.history ?? [];
+        if (status !== undefined && status !== opp.status) {
+          opp.history.push({
+            at: now,
+            event: "status_changed",
+            status: status as OpportunityStatus,
+            from: opp.status,
+          });
+          opp.status = status;
+        }
+        if (notes !== undefined && notes !== (opp.notes ?? "")) {
+          opp.history.push({ at: now, event: "notes_updated", note: notes });
+          opp.notes = notes;
+        }
+        return data;
+      },
+      // Optional: the version the client last loaded; stale edits get a 409
+      { expectedVersion: version }
+    );
+
+    if (!found) {
+      return NextResponse.json(
+        { error: "No opportunities data found" },
+        { status: 404 }
+      );
+    }
+    if (!opp) {
+      return NextResponse.json(
+        { error: "Opportunity not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, opportunity: opp, version: saved?.version ?? 0 });
+  } catch (error) {
+    if (error instanceof ConcurrencyConflictError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: 409 }
+      );
+    }
+    if (error instanceof LockTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    throw error;
+  }
 }
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { listPrompts } from "@/lib/ai/prompt-registry";
+
+/**
+ * Every prompt version (built-in and from KFCX_PROMPTS_DIR) with its hash and temperature.
+ * `active` marks the versions generation currently uses; artifacts record theirs under
+ * `provenance.prompts`.
+ */
+export async function GET() {
+  return NextResponse.json({ prompts: listPrompts() });
+}
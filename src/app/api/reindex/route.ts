@@ -1,107 +1,33 @@
-import { NextResponse } from "next/server";
-import { buildEmbeddingIndex } from "@/lib/ai/embeddings";
-import { generateThemeAnalysis, generateOpportunityAnalysis } from "@/lib/ai/analysis";
-import { syncVectorStore } from "@/lib/ai/vector-store";
-
-// Reindex can take 1–2 minutes (embeddings + vector store + AI analysis)
-export const maxDuration = 120;
-
-export async function POST() {
-  const results: string[] = [];
-  let allOk = true;
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { assertReindexBudget, BudgetExceededError } from "@/lib/ai/usage";
+
+/**
+ * Queue a reindex job and return its id immediately (202). Follow progress with
+ * GET /api/jobs/:id or the SSE stream at /api/jobs/:id/events.
+ *
+ * Body (optional JSON):
+ * - full: recompute every step for every interview
+ * - themes: regenerate theme analysis (otherwise it is only marked stale when content changes)
+ *
+ * Returns 429 when this month's AI budget is used up (see GET /api/usage).
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const full = body?.full === true;
+  const themes = body?.themes === true;
 
   try {
-    // Build local embeddings (for search API if used elsewhere)
-    try {
-      const embeddingIndex = await buildEmbeddingIndex();
-      results.push(
-        `Embeddings: ${embeddingIndex.chunks.length} chunks indexed`
-      );
-    } catch (error) {
-      allOk = false;
-      const msg = error instanceof Error ? error.message : String(error);
-      results.push(`Embeddings: Failed - ${msg}`);
-    }
-
-    // Sync OpenAI vector store (for Chat)
-    try {
-      const { vectorStoreId, fileCount } = await syncVectorStore();
-      results.push(
-        `Vector store: synced (${fileCount} file(s)); Chat ready (Responses API + file_search)`
-      );
-    } catch (error) {
-      allOk = false;
-      const msg = error instanceof Error ? error.message : String(error);
-      results.push(`Vector store: Failed - ${msg}`);
-    }
-
-    // Generate theme and opportunity analysis in parallel (independent steps)
-    const [themesResult, oppsResult] = await Promise.allSettled([
-      generateThemeAnalysis(),
-      generateOpportunityAnalysis(),
-    ]);
-
-    try {
-      if (themesResult.status === "fulfilled") {
-        const themes = themesResult.value;
-        const totalThemes =
-          themes.whyClientsChoose.themes.length +
-          themes.promoterExperience.themes.length +
-          themes.whereFallsShort.themes.length;
-        results.push(`Themes: ${totalThemes} themes identified`);
-      } else {
-        allOk = false;
-        const msg =
-          themesResult.reason instanceof Error
-            ? themesResult.reason.message
-            : String(themesResult.reason);
-        results.push(`Themes: Failed - ${msg}`);
-      }
-    } catch (error) {
-      allOk = false;
-      const msg = error instanceof Error ? error.message : String(error);
-      results.push(`Themes: Failed - ${msg}`);
-    }
-
-    try {
-      if (oppsResult.status === "fulfilled") {
-        const opps = oppsResult.value;
-        results.push(
-          `Opportunities: ${opps.opportunities.length} opportunities identified`
-        );
-      } else {
-        allOk = false;
-        const msg =
-          oppsResult.reason instanceof Error
-            ? oppsResult.reason.message
-            : String(oppsResult.reason);
-        results.push(`Opportunities: Failed - ${msg}`);
-      }
-    } catch (error) {
-      allOk = false;
-      const msg = error instanceof Error ? error.message : String(error);
-      results.push(`Opportunities: Failed - ${msg}`);
-    }
-
-    if (!allOk) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "One or more steps failed. See details below.",
-          results,
-        },
-        { status: 422 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      results,
-    });
+    await assertReindexBudget();
+    const job = await enqueueJob("reindex", { full, themes });
+    return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 429 });
+    }
     const msg = error instanceof Error ? error.message : String(error);
     return NextResponse.json(
-      { success: false, error: "Reindex failed", details: msg, results },
+      { success: false, error: "Could not queue reindex", details: msg },
       { status: 500 }
     );
   }
@@ -17,7 +17,7 @@ export async function GET(
     return NextResponse.json({ error: "Report not found" }, { status: 404 });
   }
 
-  // Serve original PDF if available
+  // Serve original PDF (or DOCX) if available
   if (metadata.originalPdfFile) {
     const pdfData = await readOriginalPdf(metadata.originalPdfFile);
     if (pdfData) {
@@ -26,7 +26,9 @@ export async function GET(
 
       return new NextResponse(new Uint8Array(pdfData), {
         headers: {
-          "Content-Type": "application/pdf",
+          "Content-Type": metadata.originalPdfFile.toLowerCase().endsWith(".docx")
+            ? "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            : "application/pdf",
           "Content-Disposition": `attachment; filename="${filename}"`,
         },
       });
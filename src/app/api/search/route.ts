@@ -1,80 +1,59 @@
 import { NextRequest, NextResponse } from "next/server";
-import { readMetadataIndex, readTranscript, readReport } from "@/lib/data/store";
-import type { SearchResult } from "@/types";
-
+import { searchContent } from "@/lib/data/store";
+import { llmConfigError } from "@/lib/ai/provider";
+import { isRetrievalMode, RETRIEVAL_MODES, searchInterviewsRanked } from "@/lib/ai/retrieval";
+import type { InterviewFilters } from "@/types";
+
+/**
+ * Search interview content.
+ *
+ * Query: q, region, solution, npsCategory, and mode:
+ * - no mode: exact substring matches, in interview order
+ * - keyword | semantic | hybrid: chunks ranked by BM25, embeddings or both (see
+ *   src/lib/ai/retrieval.ts), grouped by interview, best first. Needs a reindex; semantic
+ *   and hybrid also embed the query.
+ */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const query = searchParams.get("q")?.toLowerCase();
+  const query = searchParams.get("q");
   const region = searchParams.get("region");
   const solution = searchParams.get("solution");
   const npsCategory = searchParams.get("npsCategory");
-
+  const modeParam = searchParams.get("mode");
+  const mode = isRetrievalMode(modeParam) ? modeParam : null;
+
+  if (modeParam && !mode) {
+    return NextResponse.json(
+      { error: `mode must be one of ${RETRIEVAL_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
   if (!query) {
     return NextResponse.json({ results: [] });
   }
 
-  const index = await readMetadataIndex();
-  let interviews = index.interviews;
-
-  if (region) interviews = interviews.filter((i) => i.region === region);
-  if (solution) interviews = interviews.filter((i) => i.solution === solution);
-  if (npsCategory)
-    interviews = interviews.filter((i) => i.npsCategory === npsCategory);
-
-  const results: SearchResult[] = [];
-
-  for (const meta of interviews) {
-    const matches: { text: string; section: string }[] = [];
-
-    if (meta.hasReport) {
-      const report = await readReport(meta.id);
-      if (report) {
-        const sections = [
-          { name: "Overview", items: [report.overview] },
-          { name: "What Went Well", items: report.whatWentWell },
-          { name: "Challenges", items: report.challengesPainPoints },
-          { name: "Gaps", items: report.gapsIdentified },
-          { name: "Key Themes", items: report.keyThemes },
-          { name: "Actions", items: report.actionsRecommendations },
-          { name: "Additional Insight", items: [report.additionalInsight] },
-        ];
+  const filters = {
+    region: (region || undefined) as InterviewFilters["region"],
+    solution: (solution || undefined) as InterviewFilters["solution"],
+    npsCategory: (npsCategory || undefined) as InterviewFilters["npsCategory"],
+  };
 
-        for (const section of sections) {
-          for (const item of section.items) {
-            if (item.toLowerCase().includes(query)) {
-              matches.push({ text: item, section: section.name });
-            }
-          }
-        }
-      }
-    }
-
-    if (meta.hasTranscript) {
-      const transcript = await readTranscript(meta.id);
-      if (transcript && transcript.rawText.toLowerCase().includes(query)) {
-        // Find matching segments
-        const lines = transcript.rawText.split("\n");
-        for (const line of lines) {
-          if (line.toLowerCase().includes(query) && line.trim().length > 20) {
-            matches.push({ text: line.trim(), section: "Transcript" });
-            if (matches.filter((m) => m.section === "Transcript").length >= 3)
-              break;
-          }
-        }
-      }
-    }
+  if (!mode) {
+    const results = await searchContent(query, filters);
+    return NextResponse.json({ results });
+  }
 
-    if (matches.length > 0) {
-      results.push({
-        interviewId: meta.id,
-        client: meta.client,
-        company: meta.company,
-        score: meta.score,
-        npsCategory: meta.npsCategory,
-        matches,
-      });
+  if (mode !== "keyword") {
+    const configError = llmConfigError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 503 });
     }
   }
-
-  return NextResponse.json({ results });
+  try {
+    const results = await searchInterviewsRanked(query, mode, filters);
+    return NextResponse.json({ results, mode });
+  } catch (error) {
+    console.error("Ranked search error:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
 }
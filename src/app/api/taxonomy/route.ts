@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  readMetadataIndex,
+  readTaxonomy,
+  updateTaxonomy,
+  ConcurrencyConflictError,
+  LockTimeoutError,
+} from "@/lib/data/store";
+import { findRemovedValuesInUse, parseTaxonomyInput } from "@/lib/data/taxonomy";
+
+/** The taxonomy of regions, solutions and account types (the default until one is saved). */
+export async function GET() {
+  return NextResponse.json(await readTaxonomy());
+}
+
+/**
+ * Replace the taxonomy. Body: { regions, solutions, accountTypes, version }, where each list
+ * holds { value, code, parent? } entries. Values still used by interviews cannot be removed.
+ */
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (body.version !== undefined && !Number.isInteger(body.version)) {
+    return NextResponse.json({ error: "version must be an integer" }, { status: 400 });
+  }
+
+  const parsed = parseTaxonomyInput(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const [current, index] = await Promise.all([readTaxonomy(), readMetadataIndex()]);
+    const inUse = findRemovedValuesInUse(current, parsed.taxonomy, [
+      ...index.interviews,
+      ...(index.archived ?? []),
+    ]);
+    if (inUse.length > 0) {
+      return NextResponse.json(
+        { error: `Cannot remove values that interviews still use: ${inUse.join("; ")}.` },
+        { status: 400 }
+      );
+    }
+
+    // Pin the version that was checked, so a concurrent edit is reported rather than lost
+    const taxonomy = await updateTaxonomy(
+      (next) => {
+        Object.assign(next, parsed.taxonomy);
+      },
+      { expectedVersion: body.version ?? current.version }
+    );
+    return NextResponse.json(taxonomy);
+  } catch (error) {
+    if (error instanceof ConcurrencyConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof LockTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    throw error;
+  }
+}
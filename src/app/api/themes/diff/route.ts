@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listThemeSnapshots,
+  readThemeAnalysis,
+  readThemeSnapshot,
+} from "@/lib/data/store";
+import { diffThemeAnalyses } from "@/lib/ai/theme-lineage";
+
+/**
+ * Themes added, removed and changed between two analyses, matched by theme id.
+ * Query: from (snapshot id, default the latest snapshot), to (snapshot id or "current",
+ * the default).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const to = searchParams.get("to") || "current";
+  let from = searchParams.get("from");
+  if (!from) {
+    const snapshots = await listThemeSnapshots();
+    if (snapshots.length === 0) {
+      return NextResponse.json(
+        { error: "No snapshots yet: themes have only been generated once." },
+        { status: 404 }
+      );
+    }
+    from = snapshots[snapshots.length - 1].id;
+  }
+
+  const [before, after] = await Promise.all([
+    readThemeSnapshot(from),
+    to === "current" ? readThemeAnalysis() : readThemeSnapshot(to),
+  ]);
+  if (!before) {
+    return NextResponse.json({ error: `Snapshot "${from}" not found` }, { status: 404 });
+  }
+  if (!after) {
+    return NextResponse.json(
+      { error: to === "current" ? "No current theme analysis" : `Snapshot "${to}" not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(diffThemeAnalyses(before, after, { from, to }));
+}
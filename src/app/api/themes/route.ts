@@ -1,7 +1,51 @@
-import { NextResponse } from "next/server";
-import { readThemeAnalysis } from "@/lib/data/store";
+import { NextRequest, NextResponse } from "next/server";
+import { readThemeAnalysis, readPipelineState, readTaxonomy } from "@/lib/data/store";
+import { LockTimeoutError } from "@/lib/data/lock";
+import { requireTaxonomyValue, UnknownTaxonomyValueError } from "@/lib/data/taxonomy";
+import { isThemeAnalysisStale } from "@/lib/ai/pipeline";
+import { readSegmentThemeAnalysis } from "@/lib/ai/analysis";
+import { assertThemesBudget, BudgetExceededError } from "@/lib/ai/usage";
+import { enqueueJob, findActiveJob } from "@/lib/jobs/queue";
+import {
+  InvalidThemeSegmentError,
+  parseThemeSegment,
+  segmentSampleNote,
+  themeSegmentKey,
+} from "@/lib/ai/theme-segments";
+import type { ThemeAnalysisResponse, ThemeSegment } from "@/types";
+
+/**
+ * The theme analysis. With segment filters (region, solution, accountType, npsCategory,
+ * from/to months) the themes are computed from that segment's interviews only, cached
+ * per segment, and flagged with a note when the sample is too small to be credible.
+ *
+ * A segment that is not cached, or whose interviews changed, is generated by a
+ * theme_segment job: the response is 202 with { pending: true, jobId }, and the themes
+ * are returned once the job has finished. Returns 429 when the AI budget is used up.
+ */
+export async function GET(request: NextRequest) {
+  let segment: ThemeSegment | null;
+  try {
+    segment = parseThemeSegment(new URL(request.url).searchParams);
+    if (segment) {
+      const taxonomy = await readTaxonomy();
+      if (segment.region) {
+        segment.region = requireTaxonomyValue(taxonomy, "regions", segment.region);
+      }
+      if (segment.solution) {
+        segment.solution = requireTaxonomyValue(taxonomy, "solutions", segment.solution);
+      }
+      if (segment.accountType) {
+        segment.accountType = requireTaxonomyValue(taxonomy, "accountTypes", segment.accountType);
+      }
+    }
+  } catch (error) {
+    if (error instanceof InvalidThemeSegmentError || error instanceof UnknownTaxonomyValueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
 
-export async function GET() {
   const themes = await readThemeAnalysis();
 
   if (!themes) {
@@ -14,5 +58,51 @@ export async function GET() {
     );
   }
 
-  return NextResponse.json(themes);
+  if (segment) {
+    try {
+      const analysis = await readSegmentThemeAnalysis(segment);
+      if (analysis) {
+        const response: ThemeAnalysisResponse = {
+          ...analysis,
+          stale: false, // regenerated whenever the segment's interviews change
+          staleSince: null,
+          sampleNote: segmentSampleNote(analysis.sampleSize),
+        };
+        return NextResponse.json(response);
+      }
+
+      const key = themeSegmentKey(segment);
+      let job = await findActiveJob(
+        "theme_segment",
+        (j) => !!j.options.segment && themeSegmentKey(j.options.segment) === key
+      );
+      if (!job) {
+        await assertThemesBudget();
+        job = await enqueueJob("theme_segment", { segment });
+      }
+      return NextResponse.json({ pending: true, jobId: job.id }, { status: 202 });
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        return NextResponse.json({ error: error.message }, { status: 429 });
+      }
+      if (error instanceof LockTimeoutError) {
+        return NextResponse.json({ error: error.message }, { status: 503 });
+      }
+      console.error("Segment themes error:", error);
+      const message = error instanceof Error ? error.message : "An unexpected error occurred.";
+      return NextResponse.json(
+        { error: `Could not load themes for this segment: ${message}` },
+        { status: 500 }
+      );
+    }
+  }
+
+  const pipeline = await readPipelineState();
+  const stale = isThemeAnalysisStale(themes, pipeline);
+
+  return NextResponse.json({
+    ...themes,
+    stale,
+    staleSince: stale ? pipeline.themes.staleSince : null,
+  });
 }
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readThemeSnapshot } from "@/lib/data/store";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const snapshot = await readThemeSnapshot(id);
+  if (!snapshot) {
+    return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+  }
+  return NextResponse.json(snapshot);
+}
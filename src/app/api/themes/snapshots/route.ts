@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { listThemeSnapshots } from "@/lib/data/store";
+
+/** Dated snapshots of previous theme analyses, oldest first. */
+export async function GET() {
+  return NextResponse.json({ snapshots: await listThemeSnapshots() });
+}
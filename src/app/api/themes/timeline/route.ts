@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readMetadataIndex, readThemeAnalysis } from "@/lib/data/store";
+import { buildThemeTimelineResponse } from "@/lib/ai/theme-timeline";
+import type { TimelineGranularity } from "@/types";
+
+/**
+ * Theme prevalence per month or quarter, and the themes rising and falling between two
+ * periods. Query: granularity=month|quarter (default month), from/to period keys
+ * ("2025-09", "2025-Q3"; default the last two periods). Computed from the current
+ * interview metadata, so edited interview dates are reflected without regenerating.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const granularity = (searchParams.get("granularity") || "month") as TimelineGranularity;
+  if (granularity !== "month" && granularity !== "quarter") {
+    return NextResponse.json(
+      { error: 'granularity must be "month" or "quarter"' },
+      { status: 400 }
+    );
+  }
+
+  const analysis = await readThemeAnalysis();
+  if (!analysis) {
+    return NextResponse.json(
+      {
+        error: "Theme analysis has not been generated yet. Run the reindex process.",
+        empty: true,
+      },
+      { status: 200 }
+    );
+  }
+
+  const index = await readMetadataIndex();
+  const timeline = buildThemeTimelineResponse(analysis, index.interviews, {
+    granularity,
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+  });
+
+  for (const [name, period] of [
+    ["from", searchParams.get("from")],
+    ["to", searchParams.get("to")],
+  ] as const) {
+    if (period && !timeline.points.some((p) => p.period === period)) {
+      return NextResponse.json(
+        { error: `No analysed interviews in ${name} period "${period}"` },
+        { status: 400 }
+      );
+    }
+  }
+
+  return NextResponse.json(timeline);
+}
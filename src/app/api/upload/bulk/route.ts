@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConcurrencyConflictError, LockTimeoutError } from "@/lib/data/store";
+import { runBulkImport, summarizeBulkImport, type BulkImportFile } from "@/lib/data/bulk-import";
+import { enqueueJob } from "@/lib/jobs/queue";
+import type { BulkImportResponse } from "@/types";
+
+/**
+ * Bulk import: multipart `files` (repeatable) holding coded R{n}_NPS… / T{n}_NPS… files
+ * and/or ZIP archives of them. Metadata comes from the filenames; transcripts and reports
+ * are paired by number and matched to existing interviews. `overwrite=true` replaces
+ * documents already present on a matched interview. Returns a per-file result table.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const uploads = formData.getAll("files").filter((f): f is File => f instanceof File);
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: "No files provided. Send one or more `files` (PDF, DOCX, transcript exports or ZIP)." },
+        { status: 400 }
+      );
+    }
+
+    const overwrite = formData.get("overwrite") === "true";
+    const expectedVersionStr = formData.get("expectedVersion") as string | null;
+    const expectedVersion = expectedVersionStr ? parseInt(expectedVersionStr, 10) : undefined;
+    if (expectedVersion !== undefined && isNaN(expectedVersion)) {
+      return NextResponse.json(
+        { error: "expectedVersion must be an integer." },
+        { status: 400 }
+      );
+    }
+
+    const files: BulkImportFile[] = [];
+    for (const upload of uploads) {
+      files.push({ name: upload.name, data: Buffer.from(await upload.arrayBuffer()) });
+    }
+
+    const results = await runBulkImport(files, { overwrite, expectedVersion });
+    const summary = summarizeBulkImport(results);
+
+    // One incremental reindex picks up every created or updated interview
+    const job =
+      summary.created + summary.updated > 0 ? await enqueueJob("reindex") : null;
+
+    const response: BulkImportResponse = { results, summary, jobId: job?.id ?? null };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof ConcurrencyConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof LockTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error("Bulk upload error:", error);
+    const message =
+      error instanceof Error ? error.message : "An unexpected error occurred.";
+    return NextResponse.json(
+      { error: `Bulk upload failed: ${message}` },
+      { status: 500 }
+    );
+  }
+}
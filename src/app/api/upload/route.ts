@@ -1,55 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   readMetadataIndex,
-  writeMetadataIndex,
+  readTaxonomy,
+  updateMetadataIndex,
   getNextInterviewId,
+  ConcurrencyConflictError,
+  LockTimeoutError,
   writeTranscript,
   writeReport,
   writeOriginalPdf,
 } from "@/lib/data/store";
-import { parsePdfBuffer } from "@/lib/data/pdf-parser";
 import {
-  parseTranscriptPdfBuffer,
-  parseTranscriptFilename,
-  getTranscriptNumber,
-} from "@/lib/data/transcript-parser";
-import { getNPSCategory } from "@/lib/utils/nps";
-import { getMonthYear } from "@/lib/utils/dates";
-import type {
-  InterviewMetadata,
-  NormalizedTranscript,
-  NormalizedReport,
-  Region,
-  Solution,
-  MetadataIndex,
-} from "@/types";
-
-function isPdfFile(file: File): boolean {
-  return (
-    file.name.toLowerCase().endsWith(".pdf") ||
-    file.type === "application/pdf"
-  );
-}
-
-/**
- * Detect if a PDF is a transcript based on filename pattern.
- * Transcripts use the pattern: T{N}_NPS{Score}_{Region}_{Solution}_{AccountType}_{Month}.pdf
- */
-function isTranscriptPdf(filename: string): boolean {
-  return /^T\d+_NPS\d+_/.test(filename);
-}
+  unsupportedFileError,
+  parseUploadFiles,
+  suggestUploadFields,
+  finalizeUpload,
+  buildUploadMetadata,
+  nextInterviewIdNum,
+  findUploadConflicts,
+} from "@/lib/data/upload";
+import {
+  requireTaxonomyValue,
+  UnknownTaxonomyValueError,
+  UNKNOWN_ACCOUNT_TYPE,
+} from "@/lib/data/taxonomy";
+import { TranscriptParseError } from "@/lib/data/transcript-parser";
+import { enqueueJob } from "@/lib/jobs/queue";
+import type { Region, Solution, UploadFormData, UploadPreviewResponse } from "@/types";
 
 /**
- * Detect if a PDF is a report based on filename pattern.
- * Reports use the pattern: R{N}_NPS{Score}_{Region}_{Solution}_{AccountType}_{Month}.pdf
+ * Create an interview from an uploaded transcript and/or report plus form metadata.
+ *
+ * With `dryRun=true` (form field or query parameter) the files are parsed and the
+ * would-be metadata, transcript and report are returned together with conflicts against
+ * the form and the existing index; nothing is written and the form may be incomplete.
  */
-function isReportPdf(filename: string): boolean {
-  return /^R\d+_NPS\d+_/.test(filename);
-}
-
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
+    const dryRun =
+      formData.get("dryRun") === "true" ||
+      new URL(request.url).searchParams.get("dryRun") === "true";
 
     // --- Extract files ---
     const transcriptFile = formData.get("transcriptFile") as File | null;
@@ -62,18 +53,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // --- Extract metadata fields ---
-    const clientName = formData.get("clientName") as string | null;
-    const companyName = formData.get("companyName") as string | null;
-    const interviewDate = formData.get("interviewDate") as string | null;
-    const scoreStr = formData.get("score") as string | null;
-    const region = formData.get("region") as Region | null;
-    const solution = formData.get("solution") as Solution | null;
-    const accountType =
-      (formData.get("accountType") as string | null) || "Unknown";
+    const unsupported = unsupportedFileError(transcriptFile, reportFile);
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 400 });
+    }
 
-    // --- Validate required metadata ---
-    if (!clientName || !companyName || !interviewDate || !scoreStr || !region || !solution) {
+    // --- Extract metadata fields ---
+    const clientName = (formData.get("clientName") as string | null)?.trim() || null;
+    const companyName = (formData.get("companyName") as string | null)?.trim() || null;
+    const interviewDate = (formData.get("interviewDate") as string | null) || null;
+    const scoreStr = (formData.get("score") as string | null) || null;
+    const regionStr = (formData.get("region") as string | null) || null;
+    const solutionStr = (formData.get("solution") as string | null) || null;
+    const accountTypeStr = (formData.get("accountType") as string | null)?.trim() || null;
+    // Optional: index version the client last saw; a stale one gets a 409
+    const expectedVersionStr = formData.get("expectedVersion") as string | null;
+    const expectedVersion = expectedVersionStr ? parseInt(expectedVersionStr, 10) : undefined;
+
+    // --- Validate metadata (a dry run only rejects values that are present and invalid) ---
+    if (
+      !dryRun &&
+      (!clientName || !companyName || !interviewDate || !scoreStr || !regionStr || !solutionStr)
+    ) {
       return NextResponse.json(
         {
           error:
@@ -83,236 +84,127 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const score = parseInt(scoreStr, 10);
-    if (isNaN(score) || score < 0 || score > 10) {
+    const score = scoreStr !== null ? parseInt(scoreStr, 10) : undefined;
+    if (score !== undefined && (isNaN(score) || score < 0 || score > 10)) {
       return NextResponse.json(
         { error: "Score must be a number between 0 and 10." },
         { status: 400 }
       );
     }
 
-    const validRegions: Region[] = ["NA", "EMEA", "APAC", "LATAM"];
-    if (!validRegions.includes(region)) {
+    if (expectedVersion !== undefined && isNaN(expectedVersion)) {
       return NextResponse.json(
-        { error: `Invalid region. Must be one of: ${validRegions.join(", ")}` },
+        { error: "expectedVersion must be an integer." },
         { status: 400 }
       );
     }
 
-    const validSolutions: Solution[] = [
-      "Executive Search",
-      "Professional Search",
-      "Consulting",
-    ];
-    if (!validSolutions.includes(solution)) {
-      return NextResponse.json(
-        {
-          error: `Invalid solution. Must be one of: ${validSolutions.join(", ")}`,
-        },
-        { status: 400 }
-      );
-    }
-
-    // --- Read current metadata index and generate ID ---
-    const index: MetadataIndex = await readMetadataIndex();
-    const id = getNextInterviewId(index);
-    const interviewIdNum =
-      index.interviews.reduce((max, item) => {
-        const num = parseInt(item.id.replace("t-", ""));
-        return num > max ? num : max;
-      }, 0) + 1;
-
-    // --- Process transcript file ---
-    let transcriptSourceFile = "";
-    let originalTranscriptFile: string | null = null;
-    let transcriptCode: string | undefined;
-
-    if (transcriptFile) {
-      if (isPdfFile(transcriptFile) && isTranscriptPdf(transcriptFile.name)) {
-        // PDF transcript: parse structured content and save original
-        const arrayBuffer = await transcriptFile.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-
-        // Save original PDF
-        const pdfFilename = transcriptFile.name;
-        await writeOriginalPdf(pdfFilename, buffer);
-        originalTranscriptFile = `originals/${pdfFilename}`;
-
-        // Parse filename metadata
-        const filenameMeta = parseTranscriptFilename(pdfFilename);
-        transcriptCode = filenameMeta.transcriptCode;
-
-        // Parse PDF into structured transcript
-        const parsed = await parseTranscriptPdfBuffer(buffer);
-        const normalizedTranscript: NormalizedTranscript = {
-          id,
-          sourceFile: transcriptFile.name,
-          client: parsed.clientName,
-          interviewDate: parsed.interviewDate,
-          project: parsed.project,
-          score: parsed.score,
-          overview: "",
-          sections: [],
-          fullTranscript: parsed.fullTranscript,
-          rawText: parsed.rawText,
-        };
-
-        await writeTranscript(id, normalizedTranscript);
-        transcriptSourceFile = `transcripts/${id}.json`;
-      } else {
-        // JSON transcript: existing behavior
-        const transcriptText = await transcriptFile.text();
-        const transcriptJSON = JSON.parse(transcriptText);
-
-        let rawText = "";
-        if (Array.isArray(transcriptJSON.paragraphs)) {
-          rawText = transcriptJSON.paragraphs.join("\n\n");
-        } else if (typeof transcriptJSON.text === "string") {
-          rawText = transcriptJSON.text;
-        } else {
-          rawText = transcriptText;
+    // Region, solution and account type must be in the taxonomy (canonical casing is applied)
+    const taxonomy = await readTaxonomy();
+    const region: Region | null = regionStr && requireTaxonomyValue(taxonomy, "regions", regionStr);
+    const solution: Solution | null =
+      solutionStr && requireTaxonomyValue(taxonomy, "solutions", solutionStr);
+    const accountType =
+      accountTypeStr && requireTaxonomyValue(taxonomy, "accountTypes", accountTypeStr);
+
+    // --- Parse the files (nothing is written yet); unknown filename codes are rejected ---
+    const parsed = await parseUploadFiles(transcriptFile, reportFile, taxonomy);
+
+    const formFields: Partial<UploadFormData> = {};
+    if (clientName) formFields.clientName = clientName;
+    if (companyName) formFields.companyName = companyName;
+    if (interviewDate) formFields.interviewDate = interviewDate;
+    if (score !== undefined) formFields.score = score;
+    if (region) formFields.region = region;
+    if (solution) formFields.solution = solution;
+    if (accountType) formFields.accountType = accountType;
+
+    if (dryRun) {
+      const index = await readMetadataIndex();
+      const suggested = suggestUploadFields(parsed);
+      // Form values win; suggestions fill the gaps so the preview is as complete as possible
+      const fields = {
+        clientName: "",
+        companyName: "",
+        interviewDate: "",
+        score: 0,
+        region: "" as Region,
+        solution: "" as Solution,
+        accountType: UNKNOWN_ACCOUNT_TYPE,
+        ...suggested,
+        ...formFields,
+      };
+      const conflicts = findUploadConflicts(formFields, parsed, index);
+      const required = ["clientName", "companyName", "interviewDate", "region", "solution"] as const;
+      for (const field of required) {
+        if (!fields[field]) {
+          conflicts.push({ field, message: `${field} is required and could not be read from the files.` });
         }
-
-        const normalizedTranscript: NormalizedTranscript = {
-          id,
-          sourceFile: transcriptFile.name,
-          overview: "",
-          sections: [],
-          fullTranscript: [],
-          rawText,
-        };
-
-        await writeTranscript(id, normalizedTranscript);
-        transcriptSourceFile = `transcripts/${id}.json`;
       }
-    }
-
-    // --- Process report file ---
-    let originalPdfFile: string | null = null;
-    let reportCode: string | undefined;
-
-    if (reportFile) {
-      if (isPdfFile(reportFile)) {
-        // PDF report: parse structured content and save original
-        const arrayBuffer = await reportFile.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-
-        // Save original PDF
-        const pdfFilename = reportFile.name;
-        await writeOriginalPdf(pdfFilename, buffer);
-        originalPdfFile = `originals/${pdfFilename}`;
-
-        // Extract report code from filename if it's a coded report
-        if (isReportPdf(pdfFilename)) {
-          const match = pdfFilename.match(/^(R\d+)_/);
-          if (match) {
-            reportCode = match[1];
-          }
-        }
+      if (formFields.score === undefined && suggested.score === undefined) {
+        conflicts.push({ field: "score", message: "score is required and could not be read from the files." });
+      }
 
-        // Parse PDF into structured report
-        const parsed = await parsePdfBuffer(buffer);
-        const normalizedReport: NormalizedReport = {
-          id,
-          client: parsed.client || clientName,
-          interviewDate: parsed.interviewDate || interviewDate,
-          project: parsed.engagement || solution,
-          score,
-          overview: parsed.overview,
-          whatWentWell: parsed.whatWentWell,
-          challengesPainPoints: parsed.challengesPainPoints,
-          gapsIdentified: parsed.gapsIdentified,
-          keyThemes: parsed.keyThemes,
-          actionsRecommendations: parsed.actionsRecommendations,
-          additionalInsight: parsed.additionalInsight,
-        };
-        await writeReport(id, normalizedReport);
-      } else {
-        // JSON report: existing behavior
-        const reportText = await reportFile.text();
-        const reportJSON = JSON.parse(reportText);
+      const id = getNextInterviewId(index);
+      const { transcript, report } = finalizeUpload(parsed, fields);
+      const preview: UploadPreviewResponse = {
+        dryRun: true,
+        metadata: buildUploadMetadata(id, nextInterviewIdNum(index), fields, parsed, new Date().toISOString()),
+        transcript: transcript ? { id, ...transcript } : null,
+        report: report ? { id, ...report } : null,
+        suggested,
+        conflicts,
+        version: index.version,
+      };
+      return NextResponse.json(preview);
+    }
 
-        const normalizedReport: NormalizedReport = {
-          id,
-          client: reportJSON.client || clientName,
-          interviewDate: reportJSON.interview_date || reportJSON.interviewDate || interviewDate,
-          project: reportJSON.project || "",
-          score: reportJSON.score ?? score,
-          overview: reportJSON.overview || "",
-          whatWentWell: reportJSON.what_went_well || reportJSON.whatWentWell || [],
-          challengesPainPoints:
-            reportJSON.challenges_pain_points ||
-            reportJSON.challengesPainPoints ||
-            [],
-          gapsIdentified:
-            reportJSON.gaps_identified || reportJSON.gapsIdentified || [],
-          keyThemes: reportJSON.key_themes || reportJSON.keyThemes || [],
-          actionsRecommendations:
-            reportJSON.actions_recommendations ||
-            reportJSON.actionsRecommendations ||
-            [],
-          additionalInsight:
-            reportJSON.additional_insight ||
-            reportJSON.additionalInsight ||
-            "",
-        };
+    const fields: UploadFormData = {
+      clientName: clientName!,
+      companyName: companyName!,
+      interviewDate: interviewDate!,
+      score: score!,
+      region: region!,
+      solution: solution!,
+      accountType: accountType || UNKNOWN_ACCOUNT_TYPE,
+    };
+    const { transcript, report } = finalizeUpload(parsed, fields);
 
-        await writeReport(id, normalizedReport);
-      }
+    // Save originals
+    for (const original of parsed.originals) {
+      await writeOriginalPdf(original.filename, original.data);
     }
 
-    // --- Create metadata entry ---
+    // --- Allocate the id and register the interview atomically ---
+    // The index lock makes concurrent uploads get distinct ids and see each other's entries
     const now = new Date().toISOString();
-    const npsCategory = getNPSCategory(score);
-    const monthYear = getMonthYear(interviewDate);
+    const interviewId = await updateMetadataIndex(async (index) => {
+      const id = getNextInterviewId(index);
 
-    // Determine data status based on what was uploaded
-    const hasTranscript = !!transcriptFile;
-    const hasReport = !!reportFile;
-    let dataStatus: "complete" | "transcript_only" | "report_only";
-    if (hasTranscript && hasReport) {
-      dataStatus = "complete";
-    } else if (hasTranscript) {
-      dataStatus = "transcript_only";
-    } else {
-      dataStatus = "report_only";
-    }
+      if (transcript) await writeTranscript(id, { id, ...transcript });
+      if (report) await writeReport(id, { id, ...report });
 
-    const metadata: InterviewMetadata = {
-      id,
-      interviewId: interviewIdNum,
-      client: clientName,
-      company: companyName,
-      interviewDate,
-      score,
-      npsCategory,
-      region,
-      solution,
-      accountType,
-      monthYear,
-      hasTranscript,
-      hasReport,
-      transcriptFile: transcriptSourceFile,
-      reportFile: reportFile ? `reports/${id}.json` : null,
-      originalPdfFile,
-      // New correlation fields
-      transcriptCode,
-      reportCode,
-      originalTranscriptFile,
-      originalReportFile: originalPdfFile,
-      dataStatus,
-      createdAt: now,
-      updatedAt: now,
-    };
+      index.interviews.push(buildUploadMetadata(id, nextInterviewIdNum(index), fields, parsed, now));
+      return id;
+    }, { expectedVersion });
 
-    index.interviews.push(metadata);
-    await writeMetadataIndex(index);
+    // Bring embeddings, vector store and opportunities up to date in the background
+    const job = await enqueueJob("upload", { interviewId });
 
     return NextResponse.json(
-      { success: true, interviewId: id },
+      { success: true, interviewId, jobId: job.id },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof UnknownTaxonomyValueError || error instanceof TranscriptParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof ConcurrencyConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof LockTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     console.error("Upload error:", error);
     const message =
       error instanceof Error ? error.message : "An unexpected error occurred.";
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { currentMonth, flushUsage, summarizeUsage } from "@/lib/ai/usage";
+
+/**
+ * Token usage and cost of AI calls for one month: totals, daily and per-feature rollups,
+ * per-model totals and budget status.
+ *
+ * Query: month=YYYY-MM (default: the current month, UTC)
+ */
+export async function GET(request: NextRequest) {
+  const month = request.nextUrl.searchParams.get("month")?.trim() || currentMonth();
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    return NextResponse.json({ error: "month must be YYYY-MM" }, { status: 400 });
+  }
+
+  try {
+    await flushUsage();
+    return NextResponse.json(await summarizeUsage(month));
+  } catch (error) {
+    console.error("Usage summary error:", error);
+    return NextResponse.json({ error: "Could not read the usage log" }, { status: 500 });
+  }
+}
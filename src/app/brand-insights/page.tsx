@@ -1,16 +1,16 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useMemo } from "react";
 import Link from "next/link";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
 import EmptyState from "@/components/shared/EmptyState";
 import MetadataLabel from "@/components/shared/MetadataLabel";
 import NPSBadge from "@/components/shared/NPSBadge";
+import QuoteSourceLink from "@/components/shared/QuoteSourceLink";
+import ThemeSegmentFilters from "@/components/themes/ThemeSegmentFilters";
 import { formatDate } from "@/lib/utils/dates";
-import type { ThemeAnalysis, Theme, InterviewMetadata, QuoteReference } from "@/types";
-
-const REGION_OPTIONS = ["All", "NA", "EMEA", "APAC", "LATAM"] as const;
-const NPS_OPTIONS = ["All", "Promoters", "Passives", "Detractors"] as const;
+import { useSegmentThemes } from "@/lib/hooks/use-segment-themes";
+import type { Theme, QuoteReference, ThemeSegment } from "@/types";
 
 // Categories for brand insights
 const BRAND_CATEGORIES = {
@@ -59,12 +59,7 @@ function QuoteCard({ quote }: { quote: QuoteReference }) {
           </span>
         )}
       </div>
-      <Link
-        href={`/interviews/${quote.interviewId}`}
-        className="text-xs font-medium text-kf-primary hover:underline"
-      >
-        View Interview →
-      </Link>
+      <QuoteSourceLink quote={quote} />
     </div>
   );
 }
@@ -118,84 +113,10 @@ function ThemeCard({ theme }: { theme: Theme }) {
 }
 
 export default function BrandInsightsPage() {
-  const [data, setData] = useState<ThemeAnalysis | null>(null);
-  const [interviews, setInterviews] = useState<InterviewMetadata[]>([]);
-  const [isEmpty, setIsEmpty] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const [segment, setSegment] = useState<ThemeSegment>({});
+  const { data, isEmpty, loading, error } = useSegmentThemes(segment);
   const [activeCategory, setActiveCategory] = useState<CategoryKey | "all">("all");
 
-  // Filter state
-  const [region, setRegion] = useState("All");
-  const [npsCategory, setNpsCategory] = useState("All");
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
-
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      try {
-        const [themesRes, interviewsRes] = await Promise.all([
-          fetch("/api/themes"),
-          fetch("/api/interviews"),
-        ]);
-        const themesJson = await themesRes.json();
-        const interviewsJson = await interviewsRes.json();
-
-        if (themesJson.empty) {
-          setIsEmpty(true);
-          setData(null);
-        } else {
-          setData(themesJson as ThemeAnalysis);
-          setIsEmpty(false);
-        }
-        setInterviews(interviewsJson.interviews || []);
-      } catch (error) {
-        console.error("Failed to fetch data:", error);
-        setData(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
-
-  // Build lookup for interview dates
-  const interviewDateMap = useMemo(() => {
-    const map: Record<string, string> = {};
-    for (const interview of interviews) {
-      map[interview.id] = interview.interviewDate;
-    }
-    return map;
-  }, [interviews]);
-
-  // Filter function for quotes
-  const quoteMatchesFilters = (quote: QuoteReference): boolean => {
-    if (region !== "All" && quote.region !== region) {
-      return false;
-    }
-    if (npsCategory !== "All") {
-      const categoryMap: Record<string, string> = {
-        Promoters: "promoter",
-        Passives: "passive",
-        Detractors: "detractor",
-      };
-      if (quote.npsCategory !== categoryMap[npsCategory]) {
-        return false;
-      }
-    }
-    const interviewDate = interviewDateMap[quote.interviewId];
-    if (interviewDate) {
-      if (dateFrom && interviewDate < dateFrom) {
-        return false;
-      }
-      if (dateTo && interviewDate > dateTo) {
-        return false;
-      }
-    }
-    return true;
-  };
-
   // Check if text matches category keywords
   const matchesCategory = (text: string, category: CategoryKey): boolean => {
     const lowerText = text.toLowerCase();
@@ -239,20 +160,7 @@ export default function BrandInsightsPage() {
       const textToCheck = `${theme.label} ${theme.description}`;
       for (const category of Object.keys(BRAND_CATEGORIES) as CategoryKey[]) {
         if (matchesCategory(textToCheck, category)) {
-          const filteredTheme = {
-            ...theme,
-            supportingQuotes: theme.supportingQuotes.filter(quoteMatchesFilters),
-          };
-          if (
-            region === "All" &&
-            npsCategory === "All" &&
-            !dateFrom &&
-            !dateTo
-          ) {
-            result[category].themes.push(filteredTheme);
-          } else if (filteredTheme.supportingQuotes.length > 0) {
-            result[category].themes.push(filteredTheme);
-          }
+          result[category].themes.push(theme);
         }
       }
     }
@@ -262,7 +170,6 @@ export default function BrandInsightsPage() {
     for (const theme of allThemes) {
       for (const quote of theme.supportingQuotes) {
         if (seenQuotes.has(quote.text)) continue;
-        if (!quoteMatchesFilters(quote)) continue;
 
         for (const category of Object.keys(BRAND_CATEGORIES) as CategoryKey[]) {
           if (matchesCategory(quote.text, category)) {
@@ -274,7 +181,7 @@ export default function BrandInsightsPage() {
     }
 
     return result;
-  }, [data, region, npsCategory, dateFrom, dateTo, interviewDateMap]);
+  }, [data]);
 
   // Get total counts
   const totalThemes = Object.values(insightsByCategory).reduce(
@@ -295,9 +202,20 @@ export default function BrandInsightsPage() {
         }
       : insightsByCategory[activeCategory] || { themes: [], quotes: [] };
 
+  // Additional theme groups (AI, sector, competitors...) are listed as groups on the All
+  // tab, so their themes are not repeated among the brand-related ones there
+  const additionalGroups =
+    activeCategory === "all" && data
+      ? (data.additionalThemes ?? []).filter((group) => group.themes.length > 0)
+      : [];
+  const additionalThemeIds = new Set(
+    additionalGroups.flatMap((g) => g.themes.map((t) => t.id))
+  );
+
   // Deduplicate
   const uniqueThemes = activeInsights.themes.filter(
-    (theme, idx, arr) => arr.findIndex((t) => t.id === theme.id) === idx
+    (theme, idx, arr) =>
+      arr.findIndex((t) => t.id === theme.id) === idx && !additionalThemeIds.has(theme.id)
   );
   const uniqueQuotes = activeInsights.quotes.filter(
     (quote, idx, arr) => arr.findIndex((q) => q.text === quote.text) === idx
@@ -313,7 +231,7 @@ export default function BrandInsightsPage() {
         </p>
       </div>
 
-      {loading ? (
+      {loading && !data ? (
         <LoadingSpinner />
       ) : isEmpty || !data ? (
         <div className="section-card p-8 max-w-lg">
@@ -362,69 +280,18 @@ export default function BrandInsightsPage() {
             </nav>
           </div>
 
-          {/* Filter Bar */}
-          <div className="flex flex-wrap gap-3 mb-6">
-            <select
-              value={region}
-              onChange={(e) => setRegion(e.target.value)}
-              className="filter-select"
-            >
-              {REGION_OPTIONS.map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt === "All" ? "All Regions" : opt}
-                </option>
-              ))}
-            </select>
-
-            <select
-              value={npsCategory}
-              onChange={(e) => setNpsCategory(e.target.value)}
-              className="filter-select"
-            >
-              {NPS_OPTIONS.map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt === "All" ? "All NPS Categories" : opt}
-                </option>
-              ))}
-            </select>
-
-            <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-500">From:</label>
-              <input
-                type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-                className="filter-select"
-              />
-            </div>
-
-            <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-500">To:</label>
-              <input
-                type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-                className="filter-select"
-              />
-            </div>
+          {/* Filter Bar: themes are recomputed for the selected segment */}
+          <ThemeSegmentFilters
+            segment={segment}
+            onChange={setSegment}
+            sampleNote={data.sampleNote}
+          />
+          {error && <p className="text-sm text-red-600 mb-6">{error}</p>}
 
-            {(region !== "All" || npsCategory !== "All" || dateFrom || dateTo) && (
-              <button
-                onClick={() => {
-                  setRegion("All");
-                  setNpsCategory("All");
-                  setDateFrom("");
-                  setDateTo("");
-                }}
-                className="text-sm text-kf-primary hover:underline"
-              >
-                Clear filters
-              </button>
-            )}
-          </div>
+          {loading && <LoadingSpinner />}
 
           {/* Themes */}
-          {uniqueThemes.length > 0 && (
+          {!loading && uniqueThemes.length > 0 && (
             <div className="mb-8">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">
                 {activeCategory === "all"
@@ -440,8 +307,25 @@ export default function BrandInsightsPage() {
             </div>
           )}
 
+          {/* Additional theme groups */}
+          {!loading && additionalGroups.map((group) => (
+            <div key={group.name} className="mb-8">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {group.name} ({group.themes.length})
+              </h2>
+              {group.description && (
+                <p className="text-sm text-gray-500 mt-1">{group.description}</p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                {group.themes.map((theme) => (
+                  <ThemeCard key={theme.id} theme={theme} />
+                ))}
+              </div>
+            </div>
+          ))}
+
           {/* Direct Quotes */}
-          {uniqueQuotes.length > 0 && (
+          {!loading && uniqueQuotes.length > 0 && (
             <div>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">
                 Client Quotes ({uniqueQuotes.length})
@@ -459,7 +343,10 @@ export default function BrandInsightsPage() {
             </div>
           )}
 
-          {uniqueThemes.length === 0 && uniqueQuotes.length === 0 && (
+          {!loading &&
+            uniqueThemes.length === 0 &&
+            uniqueQuotes.length === 0 &&
+            additionalGroups.length === 0 && (
             <EmptyState
               title="No brand insights found"
               description="No themes or quotes matching brand-related criteria were found. Try adjusting your filters."
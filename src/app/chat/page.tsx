@@ -1,13 +1,17 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback, type KeyboardEvent } from "react";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { readChatEvents } from "@/lib/utils/chat-events";
+import type { ChatCitation, ChatSource } from "@/types";
 
 interface ChatMessage {
   role: "user" | "assistant";
   content: string;
-  sources?: string[];
+  sources?: ChatSource[];
+  citations?: ChatCitation[];
 }
 
 const SUGGESTED_QUERIES = [
@@ -18,6 +22,41 @@ const SUGGESTED_QUERIES = [
   "How does the promoter experience differ from detractors?",
 ];
 
+/**
+ * The answer with a GFM footnote after each cited passage, numbered in order of first
+ * citation, and the footnotes linking to the interview passage.
+ */
+function withFootnotes(text: string, citations: ChatCitation[], sources: ChatSource[]): string {
+  if (citations.length === 0) return text;
+  const numbers = new Map<string, number>();
+  const definitions: string[] = [];
+  const markers = citations.map((citation) => {
+    const key = `${citation.anchor}|${citation.quote ?? ""}`;
+    let n = numbers.get(key);
+    if (n === undefined) {
+      n = numbers.size + 1;
+      numbers.set(key, n);
+      const label =
+        sources.find((s) => s.interviewId === citation.interviewId)?.label ?? citation.interviewId;
+      const quote = citation.quote?.replace(/\s+/g, " ");
+      const excerpt = quote ? `: “${quote.length > 120 ? `${quote.slice(0, 120)}…` : quote}”` : "";
+      definitions.push(`[^${n}]: [${label}](/interviews/${citation.anchor})${excerpt}`);
+    }
+    return { offset: Math.min(citation.offset, text.length), n };
+  });
+
+  let result = text;
+  const placed = new Set<string>();
+  for (const { offset, n } of [...markers].sort((a, b) => b.offset - a.offset)) {
+    if (placed.has(`${offset}:${n}`)) continue;
+    placed.add(`${offset}:${n}`);
+    // "[tag][^1]" would read as a reference link
+    const space = result[offset - 1] === "]" ? " " : "";
+    result = `${result.slice(0, offset)}${space}[^${n}]${result.slice(offset)}`;
+  }
+  return `${result}\n\n${definitions.join("\n")}`;
+}
+
 /** Renders assistant message content as Markdown (headings, lists, bold, blockquotes, etc.). */
 function FormattedContent({ text }: { text: string }) {
   return (
@@ -42,11 +81,17 @@ function FormattedContent({ text }: { text: string }) {
           ) : (
             <code className="bg-gray-100 px-1 rounded text-sm" {...props}>{children}</code>
           ),
-        a: ({ href, children }) => (
-          <a href={href} target="_blank" rel="noopener noreferrer" className="text-kf-primary underline hover:no-underline">
-            {children}
-          </a>
-        ),
+        a: ({ href, children }) =>
+          href?.startsWith("#") ? (
+            // Footnote reference and back-reference
+            <a href={href} className="text-kf-primary no-underline hover:underline">
+              {children}
+            </a>
+          ) : (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-kf-primary underline hover:no-underline">
+              {children}
+            </a>
+          ),
       }}
     >
       {text}
@@ -59,6 +104,8 @@ export default function ChatPage() {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  // Latest retrieval / file search progress of the answer being generated
+  const [status, setStatus] = useState("");
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -79,6 +126,7 @@ export default function ChatPage() {
       if (!trimmed || isLoading) return;
 
       setError("");
+      setStatus("");
       setInput("");
 
       const userMessage: ChatMessage = { role: "user", content: trimmed };
@@ -126,101 +174,51 @@ export default function ChatPage() {
           return;
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
+        if (!response.body) {
           setMessages(updatedMessages);
           setError("Failed to read response stream.");
           setIsLoading(false);
           return;
         }
 
-        const decoder = new TextDecoder();
         let accumulatedContent = "";
-        let sources: string[] = [];
-        let buffer = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-
-          // Process complete lines from buffer
-          const lines = buffer.split("\n");
-          // Keep the last incomplete line in the buffer
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (!trimmedLine.startsWith("data: ")) continue;
-
-            const jsonStr = trimmedLine.slice(6);
-            if (!jsonStr) continue;
-
-            try {
-              const data = JSON.parse(jsonStr);
-
-              if (data.error) {
-                setMessages(updatedMessages);
-                setError(data.error);
-                setIsLoading(false);
-                reader.cancel();
-                return;
-              }
-
-              if (data.content) {
-                accumulatedContent += data.content;
-                setMessages([
-                  ...updatedMessages,
-                  { role: "assistant", content: accumulatedContent },
-                ]);
-              }
-
-              if (data.sources && Array.isArray(data.sources)) {
-                sources = data.sources;
-              }
-
-              if (data.done) {
-                setMessages([
-                  ...updatedMessages,
-                  {
-                    role: "assistant",
-                    content: accumulatedContent,
-                    sources: sources.length > 0 ? sources : undefined,
-                  },
-                ]);
-              }
-            } catch {
-              // Skip malformed JSON lines
-            }
+        const sources: ChatSource[] = [];
+        const citations: ChatCitation[] = [];
+        const showAnswer = () =>
+          setMessages([
+            ...updatedMessages,
+            {
+              role: "assistant",
+              content: accumulatedContent,
+              sources: sources.length > 0 ? [...sources] : undefined,
+              citations: citations.length > 0 ? [...citations] : undefined,
+            },
+          ]);
+
+        for await (const event of readChatEvents(response.body)) {
+          switch (event.event) {
+            case "delta":
+              accumulatedContent += event.data.text;
+              break;
+            case "source":
+              sources.push(event.data);
+              break;
+            case "citation":
+              citations.push(event.data);
+              break;
+            case "status":
+              setStatus(event.data.message);
+              continue;
+            case "error":
+              setMessages(updatedMessages);
+              setError(event.data.message);
+              return;
+            case "done":
+              break;
           }
+          showAnswer();
         }
-
-        // Process any remaining buffer content
-        if (buffer.trim().startsWith("data: ")) {
-          const jsonStr = buffer.trim().slice(6);
-          try {
-            const data = JSON.parse(jsonStr);
-            if (data.content) {
-              accumulatedContent += data.content;
-            }
-            if (data.sources && Array.isArray(data.sources)) {
-              sources = data.sources;
-            }
-          } catch {
-            // ignore
-          }
-        }
-
-        // Ensure final message is set with sources
-        setMessages([
-          ...updatedMessages,
-          {
-            role: "assistant",
-            content: accumulatedContent,
-            sources: sources.length > 0 ? sources : undefined,
-          },
-        ]);
+        showAnswer();
       } catch (err) {
         setMessages(updatedMessages);
         setError(
@@ -316,7 +314,13 @@ export default function ChatPage() {
                   {message.role === "assistant" ? (
                     <>
                       {message.content ? (
-                        <FormattedContent text={message.content} />
+                        <FormattedContent
+                          text={withFootnotes(
+                            message.content,
+                            message.citations ?? [],
+                            message.sources ?? []
+                          )}
+                        />
                       ) : (
                         <div className="flex items-center gap-2 text-gray-400">
                           <div className="w-2 h-2 bg-gray-300 rounded-full animate-bounce" />
@@ -328,6 +332,7 @@ export default function ChatPage() {
                             className="w-2 h-2 bg-gray-300 rounded-full animate-bounce"
                             style={{ animationDelay: "0.3s" }}
                           />
+                          {status && <span className="text-xs ml-1">{status}</span>}
                         </div>
                       )}
 
@@ -338,13 +343,14 @@ export default function ChatPage() {
                             Sources
                           </p>
                           <div className="flex flex-wrap gap-1">
-                            {message.sources.map((source, si) => (
-                              <span
-                                key={si}
-                                className="inline-block text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded"
+                            {message.sources.map((source) => (
+                              <Link
+                                key={source.interviewId}
+                                href={`/interviews/${source.anchor}`}
+                                className="inline-block text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded hover:bg-gray-200 hover:text-kf-primary"
                               >
-                                {source}
-                              </span>
+                                {source.label}
+                              </Link>
                             ))}
                           </div>
                         </div>
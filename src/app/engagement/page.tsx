@@ -1,16 +1,16 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useMemo } from "react";
 import Link from "next/link";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
 import EmptyState from "@/components/shared/EmptyState";
 import MetadataLabel from "@/components/shared/MetadataLabel";
 import NPSBadge from "@/components/shared/NPSBadge";
+import QuoteSourceLink from "@/components/shared/QuoteSourceLink";
+import ThemeSegmentFilters from "@/components/themes/ThemeSegmentFilters";
 import { formatDate } from "@/lib/utils/dates";
-import type { ThemeAnalysis, Theme, InterviewMetadata, QuoteReference } from "@/types";
-
-const REGION_OPTIONS = ["All", "NA", "EMEA", "APAC", "LATAM"] as const;
-const NPS_OPTIONS = ["All", "Promoters", "Passives", "Detractors"] as const;
+import { useSegmentThemes } from "@/lib/hooks/use-segment-themes";
+import type { Theme, QuoteReference, ThemeSegment } from "@/types";
 
 // Keywords that indicate engagement preferences
 const ENGAGEMENT_KEYWORDS = [
@@ -58,12 +58,7 @@ function QuoteCard({ quote }: { quote: QuoteReference }) {
           </span>
         )}
       </div>
-      <Link
-        href={`/interviews/${quote.interviewId}`}
-        className="text-xs font-medium text-kf-primary hover:underline"
-      >
-        View Interview →
-      </Link>
+      <QuoteSourceLink quote={quote} />
     </div>
   );
 }
@@ -117,82 +112,8 @@ function ThemeCard({ theme }: { theme: Theme }) {
 }
 
 export default function EngagementPage() {
-  const [data, setData] = useState<ThemeAnalysis | null>(null);
-  const [interviews, setInterviews] = useState<InterviewMetadata[]>([]);
-  const [isEmpty, setIsEmpty] = useState(false);
-  const [loading, setLoading] = useState(true);
-
-  // Filter state
-  const [region, setRegion] = useState("All");
-  const [npsCategory, setNpsCategory] = useState("All");
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
-
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      try {
-        const [themesRes, interviewsRes] = await Promise.all([
-          fetch("/api/themes"),
-          fetch("/api/interviews"),
-        ]);
-        const themesJson = await themesRes.json();
-        const interviewsJson = await interviewsRes.json();
-
-        if (themesJson.empty) {
-          setIsEmpty(true);
-          setData(null);
-        } else {
-          setData(themesJson as ThemeAnalysis);
-          setIsEmpty(false);
-        }
-        setInterviews(interviewsJson.interviews || []);
-      } catch (error) {
-        console.error("Failed to fetch data:", error);
-        setData(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
-
-  // Build lookup for interview dates
-  const interviewDateMap = useMemo(() => {
-    const map: Record<string, string> = {};
-    for (const interview of interviews) {
-      map[interview.id] = interview.interviewDate;
-    }
-    return map;
-  }, [interviews]);
-
-  // Filter function for quotes
-  const quoteMatchesFilters = (quote: QuoteReference): boolean => {
-    if (region !== "All" && quote.region !== region) {
-      return false;
-    }
-    if (npsCategory !== "All") {
-      const categoryMap: Record<string, string> = {
-        Promoters: "promoter",
-        Passives: "passive",
-        Detractors: "detractor",
-      };
-      if (quote.npsCategory !== categoryMap[npsCategory]) {
-        return false;
-      }
-    }
-    const interviewDate = interviewDateMap[quote.interviewId];
-    if (interviewDate) {
-      if (dateFrom && interviewDate < dateFrom) {
-        return false;
-      }
-      if (dateTo && interviewDate > dateTo) {
-        return false;
-      }
-    }
-    return true;
-  };
+  const [segment, setSegment] = useState<ThemeSegment>({});
+  const { data, isEmpty, loading, error } = useSegmentThemes(segment);
 
   // Check if theme is related to engagement
   const isEngagementRelated = (theme: Theme): boolean => {
@@ -212,22 +133,8 @@ export default function EngagementPage() {
     ];
 
     // Filter for engagement-related themes
-    const filtered = allThemes
-      .filter(isEngagementRelated)
-      .map((theme) => ({
-        ...theme,
-        supportingQuotes: theme.supportingQuotes.filter(quoteMatchesFilters),
-      }))
-      .filter((theme) => {
-        // Only show if quotes match filters (or no filters applied)
-        if (region === "All" && npsCategory === "All" && !dateFrom && !dateTo) {
-          return true;
-        }
-        return theme.supportingQuotes.length > 0;
-      });
-
-    return filtered;
-  }, [data, region, npsCategory, dateFrom, dateTo, interviewDateMap]);
+    return allThemes.filter(isEngagementRelated);
+  }, [data]);
 
   // Get all quotes related to engagement from non-theme sources
   const engagementQuotes = useMemo(() => {
@@ -244,9 +151,7 @@ export default function EngagementPage() {
       for (const quote of theme.supportingQuotes) {
         const quoteText = quote.text.toLowerCase();
         if (ENGAGEMENT_KEYWORDS.some((keyword) => quoteText.includes(keyword))) {
-          if (quoteMatchesFilters(quote)) {
-            quotes.push(quote);
-          }
+          quotes.push(quote);
         }
       }
     }
@@ -258,7 +163,7 @@ export default function EngagementPage() {
       seen.add(q.text);
       return true;
     });
-  }, [data, region, npsCategory, dateFrom, dateTo, interviewDateMap]);
+  }, [data]);
 
   return (
     <div>
@@ -270,7 +175,7 @@ export default function EngagementPage() {
         </p>
       </div>
 
-      {loading ? (
+      {loading && !data ? (
         <LoadingSpinner />
       ) : isEmpty || !data ? (
         <div className="section-card p-8 max-w-lg">
@@ -287,69 +192,18 @@ export default function EngagementPage() {
         </div>
       ) : (
         <>
-          {/* Filter Bar */}
-          <div className="flex flex-wrap gap-3 mb-6">
-            <select
-              value={region}
-              onChange={(e) => setRegion(e.target.value)}
-              className="filter-select"
-            >
-              {REGION_OPTIONS.map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt === "All" ? "All Regions" : opt}
-                </option>
-              ))}
-            </select>
-
-            <select
-              value={npsCategory}
-              onChange={(e) => setNpsCategory(e.target.value)}
-              className="filter-select"
-            >
-              {NPS_OPTIONS.map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt === "All" ? "All NPS Categories" : opt}
-                </option>
-              ))}
-            </select>
-
-            <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-500">From:</label>
-              <input
-                type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-                className="filter-select"
-              />
-            </div>
-
-            <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-500">To:</label>
-              <input
-                type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-                className="filter-select"
-              />
-            </div>
+          {/* Filter Bar: themes are recomputed for the selected segment */}
+          <ThemeSegmentFilters
+            segment={segment}
+            onChange={setSegment}
+            sampleNote={data.sampleNote}
+          />
+          {error && <p className="text-sm text-red-600 mb-6">{error}</p>}
 
-            {(region !== "All" || npsCategory !== "All" || dateFrom || dateTo) && (
-              <button
-                onClick={() => {
-                  setRegion("All");
-                  setNpsCategory("All");
-                  setDateFrom("");
-                  setDateTo("");
-                }}
-                className="text-sm text-kf-primary hover:underline"
-              >
-                Clear filters
-              </button>
-            )}
-          </div>
+          {loading && <LoadingSpinner />}
 
           {/* Engagement Themes */}
-          {engagementThemes.length > 0 && (
+          {!loading && engagementThemes.length > 0 && (
             <div className="mb-8">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">
                 Engagement Themes ({engagementThemes.length})
@@ -363,7 +217,7 @@ export default function EngagementPage() {
           )}
 
           {/* Direct Quotes */}
-          {engagementQuotes.length > 0 && (
+          {!loading && engagementQuotes.length > 0 && (
             <div>
               <h2 className="text-lg font-semibold text-gray-900 mb-4">
                 Client Quotes on Engagement ({engagementQuotes.length})
@@ -381,7 +235,7 @@ export default function EngagementPage() {
             </div>
           )}
 
-          {engagementThemes.length === 0 && engagementQuotes.length === 0 && (
+          {!loading && engagementThemes.length === 0 && engagementQuotes.length === 0 && (
             <EmptyState
               title="No engagement insights found"
               description="No themes or quotes matching engagement criteria were found. Try adjusting your filters."
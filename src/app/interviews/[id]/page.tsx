@@ -1,23 +1,34 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import NPSBadge from "@/components/shared/NPSBadge";
 import MetadataLabel from "@/components/shared/MetadataLabel";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
 import EmptyState from "@/components/shared/EmptyState";
-import { formatDate } from "@/lib/utils/dates";
+import { formatDate, formatTimestamp } from "@/lib/utils/dates";
+import { useTaxonomy } from "@/lib/hooks/use-taxonomy";
+import { taxonomyValues } from "@/lib/data/taxonomy";
+import { tabForAnchor } from "@/lib/utils/quotes";
 import type {
   InterviewMetadata,
   NormalizedTranscript,
   NormalizedReport,
+  Region,
+  Solution,
 } from "@/types";
 
 type ActiveTab = "report" | "transcript";
 
+type EditableFields = Pick<
+  InterviewMetadata,
+  "client" | "company" | "interviewDate" | "score" | "region" | "solution" | "accountType"
+>;
+
 export default function InterviewDetailPage() {
   const params = useParams();
+  const router = useRouter();
   const id = params.id as string;
 
   const [metadata, setMetadata] = useState<InterviewMetadata | null>(null);
@@ -28,6 +39,14 @@ export default function InterviewDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<ActiveTab>("report");
+  // Passage a theme quote links to (#turn-3, #report-keyThemes-1), highlighted once loaded
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [archived, setArchived] = useState(false);
+  // Index version from the last load; sent with edits so concurrent changes get a 409
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchDetail = async () => {
@@ -41,14 +60,26 @@ export default function InterviewDetailPage() {
           metadata: InterviewMetadata;
           transcript: NormalizedTranscript | null;
           report: NormalizedReport | null;
+          archived: boolean;
+          version: number;
         } = await res.json();
 
         setMetadata(data.metadata);
         setTranscript(data.transcript);
         setReport(data.report);
+        setArchived(data.archived);
+        setVersion(data.version);
 
-        // Default to report tab if report exists, otherwise transcript
-        setActiveTab(data.report ? "report" : "transcript");
+        // Open the tab a quote link points into; otherwise default to report tab if
+        // report exists, otherwise transcript
+        const anchor = window.location.hash.slice(1);
+        const anchorTab = tabForAnchor(anchor);
+        if (anchorTab) {
+          setActiveTab(anchorTab);
+          setHighlighted(anchor);
+        } else {
+          setActiveTab(data.report ? "report" : "transcript");
+        }
       } catch (err) {
         console.error("Failed to fetch interview detail:", err);
         setError("Could not load interview details. Please try again.");
@@ -60,6 +91,85 @@ export default function InterviewDetailPage() {
     if (id) fetchDetail();
   }, [id]);
 
+  useEffect(() => {
+    if (loading || !highlighted) return;
+    document.getElementById(highlighted)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [loading, highlighted, activeTab]);
+
+  const conflictMessage =
+    "This interview was changed by someone else. Reload the page to see the latest version.";
+
+  const handleSave = async (fields: EditableFields) => {
+    setSaving(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/interviews/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...fields, version }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setActionError(res.status === 409 ? conflictMessage : data.error || "Save failed");
+        return;
+      }
+      setMetadata(data.metadata);
+      setVersion(data.version);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (archive: boolean) => {
+    setSaving(true);
+    setActionError(null);
+    try {
+      const res = archive
+        ? await fetch(`/api/interviews/${id}?version=${version ?? ""}`, { method: "DELETE" })
+        : await fetch(`/api/interviews/${id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ archived: false, version }),
+          });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setActionError(res.status === 409 ? conflictMessage : data.error || "Update failed");
+        return;
+      }
+      setMetadata(data.metadata);
+      setArchived(data.archived);
+      setVersion(data.version);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (
+      !window.confirm(
+        "Permanently delete this interview? Its transcript, report, original files, search index entries, themes quotes and opportunities will be removed. This cannot be undone."
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/interviews/${id}?purge=true&version=${version ?? ""}`, {
+        method: "DELETE",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setActionError(res.status === 409 ? conflictMessage : data.error || "Delete failed");
+        return;
+      }
+      router.push("/interviews");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="py-16">
@@ -121,7 +231,42 @@ export default function InterviewDetailPage() {
         Back to Interviews
       </Link>
 
+      {/* Archived banner */}
+      {archived && (
+        <div className="section-card p-4 mt-4 flex flex-wrap items-center justify-between gap-4 border-amber-200 bg-amber-50">
+          <p className="text-sm text-amber-800">
+            This interview is archived: it is hidden from lists, stats, themes and chat.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => handleArchive(false)}
+              disabled={saving}
+              className="btn-secondary disabled:opacity-50"
+            >
+              Restore
+            </button>
+            <button
+              onClick={handlePurge}
+              disabled={saving}
+              className="text-sm text-red-600 hover:underline disabled:opacity-50"
+            >
+              Delete permanently
+            </button>
+          </div>
+        </div>
+      )}
+
+      {actionError && <p className="text-sm text-red-600 mt-4">{actionError}</p>}
+
       {/* Header */}
+      {editing ? (
+        <EditMetadataForm
+          metadata={metadata}
+          saving={saving}
+          onSave={handleSave}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
       <div className="flex items-start justify-between mb-6 mt-4">
         <div>
           <h1 className="text-2xl font-bold text-kf-primary font-serif">
@@ -138,8 +283,28 @@ export default function InterviewDetailPage() {
             <MetadataLabel type="account" value={metadata.accountType} />
           </div>
         </div>
-        <NPSBadge score={metadata.score} size="lg" />
+        <div className="flex flex-col items-end gap-3">
+          <NPSBadge score={metadata.score} size="lg" />
+          <div className="flex gap-3 text-sm">
+            <button
+              onClick={() => setEditing(true)}
+              className="text-kf-primary hover:underline"
+            >
+              Edit
+            </button>
+            {!archived && (
+              <button
+                onClick={() => handleArchive(true)}
+                disabled={saving}
+                className="text-gray-500 hover:underline disabled:opacity-50"
+              >
+                Archive
+              </button>
+            )}
+          </div>
+        </div>
       </div>
+      )}
 
       {/* Tabs */}
       <div className="border-b border-gray-200 mb-6">
@@ -168,19 +333,164 @@ export default function InterviewDetailPage() {
       </div>
 
       {/* Tab Content */}
-      {activeTab === "report" && <ReportTab report={report} id={id} />}
-      {activeTab === "transcript" && <TranscriptTab transcript={transcript} />}
+      {activeTab === "report" && (
+        <ReportTab report={report} id={id} highlighted={highlighted} />
+      )}
+      {activeTab === "transcript" && (
+        <TranscriptTab transcript={transcript} highlighted={highlighted} />
+      )}
     </div>
   );
 }
 
+// ----- Edit Metadata Form -----
+function EditMetadataForm({
+  metadata,
+  saving,
+  onSave,
+  onCancel,
+}: {
+  metadata: InterviewMetadata;
+  saving: boolean;
+  onSave: (fields: EditableFields) => void;
+  onCancel: () => void;
+}) {
+  const taxonomy = useTaxonomy();
+  // The current value stays selectable even if it is not in the taxonomy (e.g. "Unknown")
+  const optionsFor = (values: string[], current: string) =>
+    values.includes(current) ? values : [current, ...values];
+  const [fields, setFields] = useState<EditableFields>({
+    client: metadata.client,
+    company: metadata.company,
+    interviewDate: metadata.interviewDate.slice(0, 10),
+    score: metadata.score,
+    region: metadata.region,
+    solution: metadata.solution,
+    accountType: metadata.accountType,
+  });
+
+  const set = <K extends keyof EditableFields>(key: K, value: EditableFields[K]) =>
+    setFields((prev) => ({ ...prev, [key]: value }));
+
+  const inputClass =
+    "w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-kf-primary";
+
+  return (
+    <form
+      className="section-card p-5 mb-6 mt-4 grid grid-cols-1 md:grid-cols-2 gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(fields);
+      }}
+    >
+      <label className="text-sm text-gray-700">
+        Client
+        <input
+          className={inputClass}
+          value={fields.client}
+          onChange={(e) => set("client", e.target.value)}
+          required
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        Company
+        <input
+          className={inputClass}
+          value={fields.company}
+          onChange={(e) => set("company", e.target.value)}
+          required
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        Interview date
+        <input
+          type="date"
+          className={inputClass}
+          value={fields.interviewDate}
+          onChange={(e) => set("interviewDate", e.target.value)}
+          required
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        NPS score (0–10)
+        <input
+          type="number"
+          min={0}
+          max={10}
+          className={inputClass}
+          value={fields.score}
+          onChange={(e) => set("score", parseInt(e.target.value, 10))}
+          required
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        Region
+        <select
+          className={inputClass}
+          value={fields.region}
+          onChange={(e) => set("region", e.target.value as Region)}
+        >
+          {optionsFor(taxonomyValues(taxonomy, "regions"), fields.region).map((r) => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-gray-700">
+        Solution
+        <select
+          className={inputClass}
+          value={fields.solution}
+          onChange={(e) => set("solution", e.target.value as Solution)}
+        >
+          {optionsFor(taxonomyValues(taxonomy, "solutions"), fields.solution).map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-gray-700">
+        Account type
+        <select
+          className={inputClass}
+          value={fields.accountType}
+          onChange={(e) => set("accountType", e.target.value)}
+        >
+          {optionsFor(taxonomyValues(taxonomy, "accountTypes"), fields.accountType).map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="md:col-span-2 flex gap-3">
+        <button type="submit" disabled={saving} className="btn-primary disabled:opacity-50">
+          {saving ? "Saving…" : "Save changes"}
+        </button>
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** Marks the passage a theme quote linked to. */
+function highlightClass(anchor: string, highlighted: string | null): string {
+  return anchor === highlighted ? " bg-amber-50 ring-2 ring-amber-300" : "";
+}
+
 // ----- Report Tab -----
 function ReportTab({
   report,
   id,
+  highlighted,
 }: {
   report: NormalizedReport | null;
   id: string;
+  highlighted: string | null;
 }) {
   if (!report) {
     return (
@@ -195,7 +505,10 @@ function ReportTab({
     <div className="space-y-6">
       {/* Overview */}
       {report.overview && (
-        <div className="section-card p-5 border-l-4 border-l-kf-primary">
+        <div
+          id="report-overview-0"
+          className={`section-card p-5 border-l-4 border-l-kf-primary${highlightClass("report-overview-0", highlighted)}`}
+        >
           <h2 className="section-title">Overview</h2>
           <p className="text-sm text-gray-700 leading-relaxed">
             {report.overview}
@@ -209,7 +522,11 @@ function ReportTab({
           <h2 className="section-title">What Went Well</h2>
           <div className="space-y-0">
             {report.whatWentWell.map((item, i) => (
-              <div key={i} className="list-item list-item-positive">
+              <div
+                key={i}
+                id={`report-whatWentWell-${i}`}
+                className={`list-item list-item-positive${highlightClass(`report-whatWentWell-${i}`, highlighted)}`}
+              >
                 {item}
               </div>
             ))}
@@ -223,7 +540,11 @@ function ReportTab({
           <h2 className="section-title">Challenges &amp; Pain Points</h2>
           <div className="space-y-0">
             {report.challengesPainPoints.map((item, i) => (
-              <div key={i} className="list-item list-item-negative">
+              <div
+                key={i}
+                id={`report-challengesPainPoints-${i}`}
+                className={`list-item list-item-negative${highlightClass(`report-challengesPainPoints-${i}`, highlighted)}`}
+              >
                 {item}
               </div>
             ))}
@@ -237,7 +558,11 @@ function ReportTab({
           <h2 className="section-title">Gaps Identified</h2>
           <div className="space-y-0">
             {report.gapsIdentified.map((item, i) => (
-              <div key={i} className="list-item list-item-neutral">
+              <div
+                key={i}
+                id={`report-gapsIdentified-${i}`}
+                className={`list-item list-item-neutral${highlightClass(`report-gapsIdentified-${i}`, highlighted)}`}
+              >
                 {item}
               </div>
             ))}
@@ -251,7 +576,11 @@ function ReportTab({
           <h2 className="section-title">Key Themes</h2>
           <div className="space-y-0">
             {report.keyThemes.map((item, i) => (
-              <div key={i} className="list-item list-item-info">
+              <div
+                key={i}
+                id={`report-keyThemes-${i}`}
+                className={`list-item list-item-info${highlightClass(`report-keyThemes-${i}`, highlighted)}`}
+              >
                 {item}
               </div>
             ))}
@@ -265,7 +594,11 @@ function ReportTab({
           <h2 className="section-title">Actions &amp; Recommendations</h2>
           <div className="space-y-0">
             {report.actionsRecommendations.map((item, i) => (
-              <div key={i} className="list-item list-item-info">
+              <div
+                key={i}
+                id={`report-actionsRecommendations-${i}`}
+                className={`list-item list-item-info${highlightClass(`report-actionsRecommendations-${i}`, highlighted)}`}
+              >
                 {item}
               </div>
             ))}
@@ -275,7 +608,10 @@ function ReportTab({
 
       {/* Additional Insight */}
       {report.additionalInsight && (
-        <div className="section-card p-5">
+        <div
+          id="report-additionalInsight-0"
+          className={`section-card p-5${highlightClass("report-additionalInsight-0", highlighted)}`}
+        >
           <h2 className="section-title">Additional Insight</h2>
           <p className="text-sm text-gray-700 leading-relaxed">
             {report.additionalInsight}
@@ -313,8 +649,10 @@ function ReportTab({
 // ----- Transcript Tab -----
 function TranscriptTab({
   transcript,
+  highlighted,
 }: {
   transcript: NormalizedTranscript | null;
+  highlighted: string | null;
 }) {
   if (!transcript) {
     return (
@@ -329,7 +667,11 @@ function TranscriptTab({
     <div className="space-y-4">
       {transcript.fullTranscript.length > 0 ? (
         transcript.fullTranscript.map((turn, i) => (
-          <div key={i} className="flex gap-3">
+          <div
+            key={i}
+            id={`turn-${i}`}
+            className={`flex gap-3 rounded-md${highlightClass(`turn-${i}`, highlighted)}`}
+          >
             <div className="flex-shrink-0 pt-1">
               <span className="inline-flex items-center justify-center w-8 h-8 rounded-full bg-kf-primary text-white text-xs font-bold">
                 {turn.speaker
@@ -343,6 +685,12 @@ function TranscriptTab({
             <div className="flex-1 min-w-0">
               <p className="text-sm font-bold text-gray-900 mb-1">
                 {turn.speaker}
+                {turn.startTime !== undefined && (
+                  <span className="ml-2 text-xs font-normal text-gray-400">
+                    {formatTimestamp(turn.startTime)}
+                    {turn.endTime !== undefined && ` – ${formatTimestamp(turn.endTime)}`}
+                  </span>
+                )}
               </p>
               <p className="text-sm text-gray-700 leading-relaxed">
                 {turn.text}
@@ -7,15 +7,10 @@ import MetadataLabel from "@/components/shared/MetadataLabel";
 import EmptyState from "@/components/shared/EmptyState";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
 import { formatDate } from "@/lib/utils/dates";
+import { useTaxonomy } from "@/lib/hooks/use-taxonomy";
+import { taxonomyValues } from "@/lib/data/taxonomy";
 import type { InterviewMetadata } from "@/types";
 
-const REGION_OPTIONS = ["All", "NA", "EMEA", "APAC", "LATAM"] as const;
-const SOLUTION_OPTIONS = [
-  "All",
-  "Executive Search",
-  "Professional Search",
-  "Consulting",
-] as const;
 const NPS_OPTIONS = ["All", "Promoters", "Passives", "Detractors"] as const;
 const SORT_OPTIONS = [
   { label: "Date Newest", value: "date-desc" },
@@ -25,6 +20,9 @@ const SORT_OPTIONS = [
 ] as const;
 
 export default function InterviewsPage() {
+  const taxonomy = useTaxonomy();
+  const regionOptions = ["All", ...taxonomyValues(taxonomy, "regions")];
+  const solutionOptions = ["All", ...taxonomyValues(taxonomy, "solutions")];
   const [interviews, setInterviews] = useState<InterviewMetadata[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
@@ -35,6 +33,7 @@ export default function InterviewsPage() {
   const [solution, setSolution] = useState("All");
   const [npsCategory, setNpsCategory] = useState("All");
   const [sort, setSort] = useState("date-desc");
+  const [showArchived, setShowArchived] = useState(false);
 
   useEffect(() => {
     const fetchInterviews = async () => {
@@ -54,6 +53,7 @@ export default function InterviewsPage() {
           params.set("npsCategory", categoryMap[npsCategory]);
         }
         params.set("sort", sort);
+        if (showArchived) params.set("archived", "true");
 
         const queryString = params.toString();
         const url = `/api/interviews${queryString ? `?${queryString}` : ""}`;
@@ -73,7 +73,7 @@ export default function InterviewsPage() {
     };
 
     fetchInterviews();
-  }, [search, region, solution, npsCategory, sort]);
+  }, [search, region, solution, npsCategory, sort, showArchived]);
 
   return (
     <div>
@@ -100,7 +100,7 @@ export default function InterviewsPage() {
           onChange={(e) => setRegion(e.target.value)}
           className="filter-select"
         >
-          {REGION_OPTIONS.map((opt) => (
+          {regionOptions.map((opt) => (
             <option key={opt} value={opt}>
               {opt === "All" ? "All Regions" : opt}
             </option>
@@ -112,7 +112,7 @@ export default function InterviewsPage() {
           onChange={(e) => setSolution(e.target.value)}
           className="filter-select"
         >
-          {SOLUTION_OPTIONS.map((opt) => (
+          {solutionOptions.map((opt) => (
             <option key={opt} value={opt}>
               {opt === "All" ? "All Solutions" : opt}
             </option>
@@ -142,12 +142,21 @@ export default function InterviewsPage() {
             </option>
           ))}
         </select>
+
+        <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Archived only
+        </label>
       </div>
 
       {/* Results Count */}
       {!loading && (
         <p className="text-sm text-gray-500 mb-4">
-          {total} interview{total !== 1 ? "s" : ""} found
+          {total} {showArchived ? "archived " : ""}interview{total !== 1 ? "s" : ""} found
         </p>
       )}
 
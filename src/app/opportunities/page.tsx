@@ -7,6 +7,8 @@ import EmptyState from "@/components/shared/EmptyState";
 import ReindexButton from "@/components/shared/ReindexButton";
 import MetadataLabel from "@/components/shared/MetadataLabel";
 import NPSBadge from "@/components/shared/NPSBadge";
+import { useTaxonomy } from "@/lib/hooks/use-taxonomy";
+import { taxonomyValues } from "@/lib/data/taxonomy";
 import type { InterviewMetadata } from "@/types";
 
 // --- Types ---
@@ -18,7 +20,7 @@ type OpportunityType =
   | "improvement";
 
 type Urgency = "high" | "medium" | "low";
-type Status = "identified" | "in_progress" | "actioned";
+type Status = "identified" | "in_progress" | "actioned" | "superseded";
 
 interface Opportunity {
   id: string;
@@ -32,15 +34,17 @@ interface Opportunity {
   supportingQuote: string;
   suggestedAction: string;
   status: Status;
+  notes?: string;
+  firstIdentifiedAt?: string;
 }
 
 interface OpportunitiesResponse {
   lastGenerated: string;
+  version?: number;
   opportunities: Opportunity[];
   empty?: boolean;
 }
 
-const REGION_OPTIONS = ["All", "NA", "EMEA", "APAC", "LATAM"] as const;
 const NPS_OPTIONS = ["All", "Promoters", "Passives", "Detractors"] as const;
 
 // --- Constants ---
@@ -88,7 +92,8 @@ const URGENCY_CONFIG: Record<
   low: { label: "Low", color: "text-green-700", bgColor: "bg-green-100" },
 };
 
-const STATUS_OPTIONS: { value: Status; label: string }[] = [
+// "superseded" is set by reindex when an opportunity no longer appears in the analysis
+const STATUS_OPTIONS: { value: Exclude<Status, "superseded">; label: string }[] = [
   { value: "identified", label: "Identified" },
   { value: "in_progress", label: "In Progress" },
   { value: "actioned", label: "Actioned" },
@@ -104,6 +109,8 @@ const TYPE_ORDER: OpportunityType[] = [
 // --- Component ---
 
 export default function OpportunitiesPage() {
+  const taxonomy = useTaxonomy();
+  const regionOptions = ["All", ...taxonomyValues(taxonomy, "regions")];
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
   const [interviews, setInterviews] = useState<InterviewMetadata[]>([]);
   const [lastGenerated, setLastGenerated] = useState<string | null>(null);
@@ -126,6 +133,9 @@ export default function OpportunitiesPage() {
 
   // Status update loading
   const [updatingId, setUpdatingId] = useState<string | null>(null);
+  // Data version last loaded; sent with edits so concurrent changes are detected
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [conflictMessage, setConflictMessage] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -145,6 +155,7 @@ export default function OpportunitiesPage() {
           setIsEmpty(false);
           setOpportunities(oppData.opportunities || []);
           setLastGenerated(oppData.lastGenerated || null);
+          setVersion(oppData.version);
         }
         setInterviews(interviewsData.interviews || []);
       } catch (error) {
@@ -171,6 +182,7 @@ export default function OpportunitiesPage() {
   const filtered = opportunities.filter((opp) => {
     if (filterType !== "all" && opp.type !== filterType) return false;
     if (filterUrgency !== "all" && opp.urgency !== filterUrgency) return false;
+    if (filterStatus === "all" && opp.status === "superseded") return false;
     if (filterStatus !== "all" && opp.status !== filterStatus) return false;
 
     // Get interview metadata for region/NPS/date filtering
@@ -222,7 +234,7 @@ export default function OpportunitiesPage() {
     improvement: 0,
   };
   for (const opp of opportunities) {
-    countByType[opp.type]++;
+    if (opp.status !== "superseded") countByType[opp.type]++;
   }
 
   // --- Toggle section collapse ---
@@ -231,31 +243,50 @@ export default function OpportunitiesPage() {
   };
 
   // --- Status update handler ---
-  const handleStatusChange = async (id: string, newStatus: Status) => {
+  const updateOpportunity = async (
+    id: string,
+    changes: { status?: Status; notes?: string }
+  ) => {
     setUpdatingId(id);
     try {
       const res = await fetch("/api/opportunities", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id, status: newStatus }),
+        body: JSON.stringify({ id, ...changes, version }),
       });
 
       if (res.ok) {
+        const data = await res.json();
+        setVersion(data.version);
+        setConflictMessage(null);
         setOpportunities((prev) =>
-          prev.map((opp) =>
-            opp.id === id ? { ...opp, status: newStatus } : opp
-          )
+          prev.map((opp) => (opp.id === id ? data.opportunity : opp))
+        );
+      } else if (res.status === 409) {
+        // Someone else changed opportunities since we loaded them: show the latest
+        const latest: OpportunitiesResponse = await fetch("/api/opportunities").then((r) => r.json());
+        setOpportunities(latest.opportunities || []);
+        setLastGenerated(latest.lastGenerated || null);
+        setVersion(latest.version);
+        setConflictMessage(
+          "Opportunities were updated elsewhere, so your change was not saved. The latest data is shown; please re-apply it."
         );
       } else {
-        console.error("Failed to update opportunity status");
+        console.error("Failed to update opportunity");
       }
     } catch (error) {
-      console.error("Failed to update opportunity status:", error);
+      console.error("Failed to update opportunity:", error);
     } finally {
       setUpdatingId(null);
     }
   };
 
+  const handleStatusChange = (id: string, newStatus: Status) =>
+    updateOpportunity(id, { status: newStatus });
+
+  const handleNotesChange = (id: string, notes: string) =>
+    updateOpportunity(id, { notes });
+
   // --- Format last generated timestamp ---
   const formatTimestamp = (iso: string) => {
     const date = new Date(iso);
@@ -278,6 +309,12 @@ export default function OpportunitiesPage() {
         </p>
       </div>
 
+      {conflictMessage && (
+        <div className="section-card p-4 mb-6 border-amber-200 bg-amber-50">
+          <p className="text-sm text-amber-800">{conflictMessage}</p>
+        </div>
+      )}
+
       {loading ? (
         <LoadingSpinner />
       ) : isEmpty || opportunities.length === 0 ? (
@@ -361,10 +398,11 @@ export default function OpportunitiesPage() {
               onChange={(e) => setFilterStatus(e.target.value)}
               className="filter-select"
             >
-              <option value="all">All Status</option>
+              <option value="all">All Active</option>
               <option value="identified">Identified</option>
               <option value="in_progress">In Progress</option>
               <option value="actioned">Actioned</option>
+              <option value="superseded">Superseded</option>
             </select>
 
             <select
@@ -372,7 +410,7 @@ export default function OpportunitiesPage() {
               onChange={(e) => setFilterRegion(e.target.value)}
               className="filter-select"
             >
-              {REGION_OPTIONS.map((opt) => (
+              {regionOptions.map((opt) => (
                 <option key={opt} value={opt}>
                   {opt === "All" ? "All Regions" : opt}
                 </option>
@@ -508,6 +546,7 @@ export default function OpportunitiesPage() {
                             interview={interviewMap[opp.sourceInterviewId]}
                             updatingId={updatingId}
                             onStatusChange={handleStatusChange}
+                            onNotesChange={handleNotesChange}
                           />
                         ))}
                       </div>
@@ -537,15 +576,19 @@ function OpportunityCard({
   interview,
   updatingId,
   onStatusChange,
+  onNotesChange,
 }: {
   opportunity: Opportunity;
   interview?: InterviewMetadata;
   updatingId: string | null;
   onStatusChange: (id: string, status: Status) => void;
+  onNotesChange: (id: string, notes: string) => void;
 }) {
   const typeConfig = TYPE_CONFIG[opportunity.type];
   const urgencyConfig = URGENCY_CONFIG[opportunity.urgency];
   const isUpdating = updatingId === opportunity.id;
+  const isSuperseded = opportunity.status === "superseded";
+  const [notesDraft, setNotesDraft] = useState(opportunity.notes ?? "");
 
   return (
     <div className="section-card p-5">
@@ -561,6 +604,14 @@ function OpportunityCard({
         >
           {urgencyConfig.label} Urgency
         </span>
+        {isSuperseded && (
+          <span
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-500"
+            title="No longer identified by the latest analysis"
+          >
+            Superseded
+          </span>
+        )}
       </div>
 
       {/* Title */}
@@ -634,6 +685,21 @@ function OpportunityCard({
         </div>
       )}
 
+      {/* Notes (kept across reindex) */}
+      <textarea
+        value={notesDraft}
+        onChange={(e) => setNotesDraft(e.target.value)}
+        onBlur={() => {
+          if (notesDraft !== (opportunity.notes ?? "")) {
+            onNotesChange(opportunity.id, notesDraft);
+          }
+        }}
+        disabled={isUpdating}
+        placeholder="Add notes…"
+        rows={2}
+        className="w-full mb-3 px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-kf-primary"
+      />
+
       {/* Status Toggle */}
       <div className="flex items-center gap-1 rounded-lg bg-gray-100 p-1">
         {STATUS_OPTIONS.map((opt) => {
@@ -93,8 +93,10 @@ export default async function DashboardPage() {
     : [];
 
   // --- Opportunities summary ---
-  const opportunitiesCount = opportunitiesData?.opportunities?.length ?? 0;
-  const sampleOpportunities = opportunitiesData?.opportunities?.slice(0, 3) ?? [];
+  const activeOpportunities =
+    opportunitiesData?.opportunities?.filter((o) => o.status !== "superseded") ?? [];
+  const opportunitiesCount = activeOpportunities.length;
+  const sampleOpportunities = activeOpportunities.slice(0, 3);
 
   return (
     <div>
@@ -329,7 +331,7 @@ export default async function DashboardPage() {
             </Link>
           </div>
           <div className="p-6">
-            {opportunitiesData && opportunitiesData.opportunities.length > 0 ? (
+            {opportunitiesData && opportunitiesCount > 0 ? (
               <>
                 <div className="flex items-baseline gap-2 mb-4">
                   <span className="text-2xl font-bold text-gray-900">
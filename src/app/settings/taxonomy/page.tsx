@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import LoadingSpinner from "@/components/shared/LoadingSpinner";
+import { formatDate } from "@/lib/utils/dates";
+import type { Taxonomy, TaxonomyEntry, TaxonomyKind } from "@/types";
+
+const SECTIONS: { kind: TaxonomyKind; title: string; description: string }[] = [
+  {
+    kind: "regions",
+    title: "Regions",
+    description: "A sub-region names its parent region; both can be used on interviews.",
+  },
+  { kind: "solutions", title: "Solutions", description: "" },
+  { kind: "accountTypes", title: "Account Types", description: "" },
+];
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+export default function TaxonomySettingsPage() {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/taxonomy");
+      setTaxonomy(await res.json());
+      setError("");
+    } catch {
+      setError("Could not load the taxonomy.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const updateEntries = (kind: TaxonomyKind, entries: TaxonomyEntry[]) => {
+    setTaxonomy((prev) => (prev ? { ...prev, [kind]: entries } : prev));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!taxonomy) return;
+    setSaving(true);
+    setError("");
+    setSaved(false);
+    try {
+      const res = await fetch("/api/taxonomy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          regions: taxonomy.regions,
+          solutions: taxonomy.solutions,
+          accountTypes: taxonomy.accountTypes,
+          version: taxonomy.version,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(
+          res.status === 409
+            ? "Someone else changed the taxonomy since it was loaded. Reload to see their changes, then edit again."
+            : data.error || "Save failed."
+        );
+        return;
+      }
+      setTaxonomy(data);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !taxonomy) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-10 px-4">
+      <h1 className="page-title mb-2">Taxonomy</h1>
+      <p className="text-gray-500 mb-8">
+        Regions, solutions and account types used for filters, stats, upload validation and
+        coded filenames. The <em>code</em> is the filename segment, e.g.{" "}
+        <code className="text-xs">ES</code> in{" "}
+        <code className="text-xs">R12_NPS9_EMEA_ES_HOUSE_OCT25.pdf</code>. Values that
+        interviews still use cannot be removed.
+        {taxonomy.lastUpdated
+          ? ` Last saved ${formatDate(taxonomy.lastUpdated)}.`
+          : " Showing the built-in default; nothing has been saved yet."}
+      </p>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-4 mb-6">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {SECTIONS.map(({ kind, title, description }) => (
+          <EntryTable
+            key={kind}
+            title={title}
+            description={description}
+            entries={taxonomy[kind]}
+            withParent={kind === "regions"}
+            onChange={(entries) => updateEntries(kind, entries)}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-3 mt-8">
+        {saved && <span className="text-sm text-green-700">Saved.</span>}
+        <button type="button" onClick={load} disabled={saving} className="btn-secondary">
+          Reload
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Saving…" : "Save taxonomy"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function EntryTable({
+  title,
+  description,
+  entries,
+  withParent,
+  onChange,
+}: {
+  title: string;
+  description: string;
+  entries: TaxonomyEntry[];
+  withParent: boolean;
+  onChange: (entries: TaxonomyEntry[]) => void;
+}) {
+  const setEntry = (index: number, patch: Partial<TaxonomyEntry>) => {
+    onChange(entries.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+  };
+  const parents = entries.filter((e) => !e.parent && e.value);
+
+  return (
+    <div className="section-card p-5">
+      <h2 className="section-title mb-1">{title}</h2>
+      {description && <p className="text-sm text-gray-500 mb-3">{description}</p>}
+      <table className="min-w-full text-sm mt-2">
+        <thead className="text-left text-xs font-semibold text-gray-500 uppercase">
+          <tr>
+            <th className="py-2 pr-3">Value</th>
+            <th className="py-2 pr-3 w-40">Filename code</th>
+            {withParent && <th className="py-2 pr-3 w-40">Parent</th>}
+            <th className="py-2 w-16" />
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, i) => (
+            <tr key={i}>
+              <td className="py-1 pr-3">
+                <input
+                  className={inputClass}
+                  value={entry.value}
+                  onChange={(e) => setEntry(i, { value: e.target.value })}
+                />
+              </td>
+              <td className="py-1 pr-3">
+                <input
+                  className={inputClass}
+                  value={entry.code}
+                  onChange={(e) => setEntry(i, { code: e.target.value.toUpperCase() })}
+                />
+              </td>
+              {withParent && (
+                <td className="py-1 pr-3">
+                  <select
+                    className={inputClass}
+                    value={entry.parent ?? ""}
+                    onChange={(e) => setEntry(i, { parent: e.target.value || undefined })}
+                  >
+                    <option value="">—</option>
+                    {parents
+                      .filter((p) => p !== entry)
+                      .map((p) => (
+                        <option key={p.value} value={p.value}>
+                          {p.value}
+                        </option>
+                      ))}
+                  </select>
+                </td>
+              )}
+              <td className="py-1 text-right">
+                <button
+                  type="button"
+                  onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                  className="text-xs text-red-500 hover:text-red-700 underline"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        onClick={() => onChange([...entries, { value: "", code: "" }])}
+        className="text-sm text-blue-600 hover:text-blue-800 mt-3"
+      >
+        + Add
+      </button>
+    </div>
+  );
+}
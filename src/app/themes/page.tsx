@@ -1,31 +1,38 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
-import Link from "next/link";
+import { useState } from "react";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
 import EmptyState from "@/components/shared/EmptyState";
 import ReindexButton from "@/components/shared/ReindexButton";
 import MetadataLabel from "@/components/shared/MetadataLabel";
 import NPSBadge from "@/components/shared/NPSBadge";
+import QuoteSourceLink from "@/components/shared/QuoteSourceLink";
+import ThemeTimelineChart from "@/components/themes/ThemeTimelineChart";
+import ThemeSegmentFilters from "@/components/themes/ThemeSegmentFilters";
 import { formatDate } from "@/lib/utils/dates";
-import type { ThemeAnalysis, ThemeGroup, Theme, InterviewMetadata, QuoteReference } from "@/types";
-
-type TabKey = "whyClientsChoose" | "promoterExperience" | "whereFallsShort";
+import { useSegmentThemes } from "@/lib/hooks/use-segment-themes";
+import type {
+  ThemeGroup,
+  Theme,
+  ThemeLineage,
+  ThemeSegment,
+} from "@/types";
+
+type GroupKey = "whyClientsChoose" | "promoterExperience" | "whereFallsShort";
+// Additional theme groups get a tab each, keyed by their index
+type TabKey = GroupKey | `additional-${number}`;
 
 interface TabDefinition {
   key: TabKey;
   label: string;
 }
 
-const TABS: TabDefinition[] = [
+const FIXED_TABS: TabDefinition[] = [
   { key: "whyClientsChoose", label: "Why Clients Choose KF" },
   { key: "promoterExperience", label: "Promoter Experience" },
   { key: "whereFallsShort", label: "Where Falls Short" },
 ];
 
-const REGION_OPTIONS = ["All", "NA", "EMEA", "APAC", "LATAM"] as const;
-const NPS_OPTIONS = ["All", "Promoters", "Passives", "Detractors"] as const;
-
 function SentimentDot({ sentiment }: { sentiment: Theme["sentiment"] }) {
   const colorClass =
     sentiment === "positive"
@@ -49,14 +56,32 @@ function SentimentDot({ sentiment }: { sentiment: Theme["sentiment"] }) {
   );
 }
 
-function ThemeCard({ theme }: { theme: Theme }) {
+/** "Since 9 Feb 2026: 2 new, 1 retired, 1 merged" */
+function lineageSummary(lineage: ThemeLineage): string {
+  const counts = (["new", "split", "merged", "retired"] as const)
+    .map((type) => [type, lineage.events.filter((e) => e.type === type).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([type, n]) => `${n} ${type}`);
+  return `Since ${formatDate(lineage.previousGenerated)}: ${
+    counts.length > 0 ? counts.join(", ") : "no new or retired themes"
+  }`;
+}
+
+function ThemeCard({ theme, isNew }: { theme: Theme; isNew: boolean }) {
   const [quotesOpen, setQuotesOpen] = useState(false);
 
   return (
     <div className="section-card p-5">
       {/* Header */}
       <div className="flex items-start justify-between gap-4 mb-2">
-        <h3 className="font-bold text-gray-900">{theme.label}</h3>
+        <h3 className="font-bold text-gray-900">
+          {theme.label}
+          {isNew && (
+            <span className="ml-2 align-middle inline-flex items-center rounded-full bg-kf-accent/20 px-2 py-0.5 text-xs font-medium text-kf-dark">
+              New
+            </span>
+          )}
+        </h3>
         <SentimentDot sentiment={theme.sentiment} />
       </div>
 
@@ -116,12 +141,7 @@ function ThemeCard({ theme }: { theme: Theme }) {
                     )}
                   </div>
                   <div className="mt-2">
-                    <Link
-                      href={`/interviews/${quote.interviewId}`}
-                      className="text-xs font-medium text-kf-primary hover:underline"
-                    >
-                      View Interview →
-                    </Link>
+                    <QuoteSourceLink quote={quote} />
                   </div>
                 </div>
               ))}
@@ -134,102 +154,24 @@ function ThemeCard({ theme }: { theme: Theme }) {
 }
 
 export default function ThemesPage() {
-  const [data, setData] = useState<ThemeAnalysis | null>(null);
-  const [interviews, setInterviews] = useState<InterviewMetadata[]>([]);
-  const [isEmpty, setIsEmpty] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const [segment, setSegment] = useState<ThemeSegment>({});
+  const { data, isEmpty, loading, error } = useSegmentThemes(segment);
   const [activeTab, setActiveTab] = useState<TabKey>("whyClientsChoose");
 
-  // Filter state
-  const [region, setRegion] = useState("All");
-  const [npsCategory, setNpsCategory] = useState("All");
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
-
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      try {
-        const [themesRes, interviewsRes] = await Promise.all([
-          fetch("/api/themes"),
-          fetch("/api/interviews"),
-        ]);
-        const themesJson = await themesRes.json();
-        const interviewsJson = await interviewsRes.json();
-
-        if (themesJson.empty) {
-          setIsEmpty(true);
-          setData(null);
-        } else {
-          setData(themesJson as ThemeAnalysis);
-          setIsEmpty(false);
-        }
-        setInterviews(interviewsJson.interviews || []);
-      } catch (error) {
-        console.error("Failed to fetch data:", error);
-        setData(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-  }, []);
-
-  // Build lookup for interview dates
-  const interviewDateMap = useMemo(() => {
-    const map: Record<string, string> = {};
-    for (const interview of interviews) {
-      map[interview.id] = interview.interviewDate;
-    }
-    return map;
-  }, [interviews]);
-
-  // Filter function for quotes
-  const quoteMatchesFilters = (quote: QuoteReference): boolean => {
-    // Region filter
-    if (region !== "All" && quote.region !== region) {
-      return false;
-    }
-    // NPS category filter
-    if (npsCategory !== "All") {
-      const categoryMap: Record<string, string> = {
-        Promoters: "promoter",
-        Passives: "passive",
-        Detractors: "detractor",
-      };
-      if (quote.npsCategory !== categoryMap[npsCategory]) {
-        return false;
-      }
-    }
-    // Date filter
-    const interviewDate = interviewDateMap[quote.interviewId];
-    if (interviewDate) {
-      if (dateFrom && interviewDate < dateFrom) {
-        return false;
-      }
-      if (dateTo && interviewDate > dateTo) {
-        return false;
-      }
-    }
-    return true;
-  };
-
-  // Filter themes - keep theme if any quote matches
-  const filterThemes = (themes: Theme[]): Theme[] => {
-    if (region === "All" && npsCategory === "All" && !dateFrom && !dateTo) {
-      return themes;
-    }
-    return themes
-      .map((theme) => ({
-        ...theme,
-        supportingQuotes: theme.supportingQuotes.filter(quoteMatchesFilters),
-      }))
-      .filter((theme) => theme.supportingQuotes.length > 0);
-  };
-
-  const activeGroup: ThemeGroup | null = data ? data[activeTab] : null;
-  const filteredThemes = activeGroup ? filterThemes(activeGroup.themes) : [];
+  const tabs: TabDefinition[] = [
+    ...FIXED_TABS,
+    ...(data?.additionalThemes ?? []).map((group, i) => ({
+      key: `additional-${i}` as const,
+      label: group.name,
+    })),
+  ];
+
+  const activeGroup: ThemeGroup | null = !data
+    ? null
+    : activeTab.startsWith("additional-")
+      ? (data.additionalThemes?.[Number(activeTab.slice("additional-".length))] ?? null)
+      : data[activeTab as GroupKey];
+  const filteredThemes = activeGroup?.themes ?? [];
 
   return (
     <div>
@@ -242,7 +184,7 @@ export default function ThemesPage() {
       </div>
 
       {/* Content */}
-      {loading ? (
+      {loading && !data ? (
         <LoadingSpinner />
       ) : isEmpty || !data ? (
         <div className="section-card p-8 max-w-lg">
@@ -259,14 +201,30 @@ export default function ThemesPage() {
         </div>
       ) : (
         <>
+          {/* Stale notice: interviews changed since themes were generated */}
+          {data.stale && (
+            <div className="section-card p-4 mb-6 flex flex-wrap items-center justify-between gap-4 border-amber-200 bg-amber-50">
+              <p className="text-sm text-amber-800">
+                Interviews have been added or changed since these themes were
+                generated{data.staleSince ? ` (${formatDate(data.staleSince)})` : ""}.
+                Regenerate to include the latest data.
+              </p>
+              <ReindexButton
+                themes
+                label="Regenerate themes"
+                onSuccess={() => window.location.reload()}
+              />
+            </div>
+          )}
+
           {/* Tabs */}
           <div className="border-b border-gray-200 mb-6">
-            <nav className="flex gap-6 -mb-px">
-              {TABS.map((tab) => (
+            <nav className="flex gap-6 -mb-px overflow-x-auto">
+              {tabs.map((tab) => (
                 <button
                   key={tab.key}
                   onClick={() => setActiveTab(tab.key)}
-                  className={`pb-3 text-sm font-medium transition-colors ${
+                  className={`pb-3 text-sm font-medium whitespace-nowrap transition-colors ${
                     activeTab === tab.key
                       ? "border-b-2 border-kf-primary text-kf-primary"
                       : "text-gray-500 hover:text-gray-700"
@@ -278,66 +236,13 @@ export default function ThemesPage() {
             </nav>
           </div>
 
-          {/* Filter Bar */}
-          <div className="flex flex-wrap gap-3 mb-6">
-            <select
-              value={region}
-              onChange={(e) => setRegion(e.target.value)}
-              className="filter-select"
-            >
-              {REGION_OPTIONS.map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt === "All" ? "All Regions" : opt}
-                </option>
-              ))}
-            </select>
-
-            <select
-              value={npsCategory}
-              onChange={(e) => setNpsCategory(e.target.value)}
-              className="filter-select"
-            >
-              {NPS_OPTIONS.map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt === "All" ? "All NPS Categories" : opt}
-                </option>
-              ))}
-            </select>
-
-            <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-500">From:</label>
-              <input
-                type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-                className="filter-select"
-              />
-            </div>
-
-            <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-500">To:</label>
-              <input
-                type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-                className="filter-select"
-              />
-            </div>
-
-            {(region !== "All" || npsCategory !== "All" || dateFrom || dateTo) && (
-              <button
-                onClick={() => {
-                  setRegion("All");
-                  setNpsCategory("All");
-                  setDateFrom("");
-                  setDateTo("");
-                }}
-                className="text-sm text-kf-primary hover:underline"
-              >
-                Clear filters
-              </button>
-            )}
-          </div>
+          {/* Filter Bar: themes are recomputed for the selected segment */}
+          <ThemeSegmentFilters
+            segment={segment}
+            onChange={setSegment}
+            sampleNote={data.sampleNote}
+          />
+          {error && <p className="text-sm text-red-600 mb-6">{error}</p>}
 
           {/* Theme Group Header */}
           {activeGroup && (
@@ -354,11 +259,22 @@ export default function ThemesPage() {
             </div>
           )}
 
+          {/* Prevalence over time of this tab's themes */}
+          {activeGroup && activeGroup.themes.length > 0 && (
+            <ThemeTimelineChart themeIds={activeGroup.themes.map((t) => t.id)} />
+          )}
+
           {/* Theme Cards */}
-          {filteredThemes.length > 0 ? (
+          {loading ? (
+            <LoadingSpinner />
+          ) : filteredThemes.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {filteredThemes.map((theme) => (
-                <ThemeCard key={theme.id} theme={theme} />
+                <ThemeCard
+                  key={theme.id}
+                  theme={theme}
+                  isNew={!!data.lineage && theme.firstSeen === data.lastGenerated}
+                />
               ))}
             </div>
           ) : (
@@ -371,6 +287,11 @@ export default function ThemesPage() {
           {data.lastGenerated && (
             <p className="text-xs text-gray-400 mt-8 text-right">
               Last generated: {formatDate(data.lastGenerated)}
+              {data.quoteVerification &&
+                ` · Quotes: ${data.quoteVerification.exact} verbatim, ${data.quoteVerification.fuzzy} paraphrased, ${data.quoteVerification.unverified} unverified`}
+              {data.lineage && ` · ${lineageSummary(data.lineage)}`}
+              {data.sampleSize !== undefined &&
+                ` · Segment of ${data.sampleSize} interview${data.sampleSize !== 1 ? "s" : ""}`}
             </p>
           )}
         </>
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useCallback, useRef, type DragEvent, type ChangeEvent } from "react";
+import Link from "next/link";
+import JobProgress from "@/components/shared/JobProgress";
+import type { BulkImportResponse, BulkImportStatus } from "@/types";
+
+const ACCEPT = ".zip,.pdf,.docx,.vtt,.srt,.txt";
+
+const STATUS_STYLES: Record<BulkImportStatus, string> = {
+  created: "bg-green-100 text-green-700",
+  updated: "bg-blue-100 text-blue-700",
+  skipped: "bg-gray-100 text-gray-600",
+  error: "bg-red-100 text-red-700",
+};
+
+function isAccepted(file: File): boolean {
+  return /\.(zip|pdf|docx|vtt|srt|txt)$/i.test(file.name);
+}
+
+export default function BulkUploadPage() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+  const [overwrite, setOverwrite] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState("");
+  const [response, setResponse] = useState<BulkImportResponse | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = useCallback((list: FileList | null) => {
+    const added = Array.from(list ?? []).filter(isAccepted);
+    setFiles((prev) => [
+      ...prev,
+      ...added.filter((f) => !prev.some((p) => p.name === f.name)),
+    ]);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDragOver(false);
+      addFiles(e.dataTransfer.files);
+    },
+    [addFiles]
+  );
+
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      addFiles(e.target.files);
+      e.target.value = "";
+    },
+    [addFiles]
+  );
+
+  const handleImport = async () => {
+    if (files.length === 0) return;
+    setIsUploading(true);
+    setError("");
+    setResponse(null);
+
+    try {
+      const formData = new FormData();
+      for (const file of files) formData.append("files", file);
+      if (overwrite) formData.append("overwrite", "true");
+
+      const res = await fetch("/api/upload/bulk", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Bulk import failed.");
+        return;
+      }
+      setResponse(data);
+      setFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto py-10 px-4">
+      <h1 className="page-title mb-2">Bulk Import</h1>
+      <p className="text-gray-500 mb-8">
+        Import a batch of coded reports and transcripts (
+        <code className="text-xs">R12_NPS9_EMEA_ES_HOUSE_OCT25.pdf</code>,{" "}
+        <code className="text-xs">T12_NPS9_EMEA_ES_HOUSE_OCT25.pdf</code>) or a ZIP of them.
+        Metadata is read from the filenames, and T/R files with the same number are paired
+        and matched to existing interviews. For a single interview with hand-entered
+        metadata, use the{" "}
+        <Link href="/upload" className="text-blue-600 hover:text-blue-800">
+          upload wizard
+        </Link>
+        .
+      </p>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-4 mb-6">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+          dragOver
+            ? "border-blue-500 bg-blue-50"
+            : "border-gray-300 hover:border-gray-400 bg-gray-50"
+        }`}
+      >
+        <p className="text-sm text-gray-600">
+          Drag and drop PDF, DOCX, VTT, SRT, TXT or ZIP files here, or{" "}
+          <span className="text-blue-600 font-medium">browse</span>
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPT}
+          multiple
+          onChange={handleChange}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <div className="section-card p-4 mt-4">
+          <ul className="divide-y divide-gray-100">
+            {files.map((file) => (
+              <li key={file.name} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-800 truncate">{file.name}</span>
+                <button
+                  type="button"
+                  onClick={() => setFiles((prev) => prev.filter((f) => f !== file))}
+                  className="text-xs text-red-500 hover:text-red-700 underline ml-4"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={overwrite}
+            onChange={(e) => setOverwrite(e.target.checked)}
+          />
+          Replace reports/transcripts that matched interviews already have
+        </label>
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={files.length === 0 || isUploading}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUploading ? "Importing…" : `Import ${files.length} file${files.length === 1 ? "" : "s"}`}
+        </button>
+      </div>
+
+      {response && (
+        <div className="mt-10">
+          <h2 className="section-title mb-3">Results</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {response.summary.created} created · {response.summary.updated} updated ·{" "}
+            {response.summary.skipped} skipped · {response.summary.error} errors
+          </p>
+
+          <div className="section-card overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2">File</th>
+                  <th className="px-4 py-2">Code</th>
+                  <th className="px-4 py-2">Status</th>
+                  <th className="px-4 py-2">Interview</th>
+                  <th className="px-4 py-2">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {response.results.map((row, i) => (
+                  <tr key={`${row.filename}-${i}`}>
+                    <td className="px-4 py-2 text-gray-800 break-all">{row.filename}</td>
+                    <td className="px-4 py-2 text-gray-600">{row.code ?? "—"}</td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[row.status]}`}
+                      >
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      {row.interviewId ? (
+                        <Link
+                          href={`/interviews/${row.interviewId}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {row.interviewId}
+                        </Link>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{row.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {response.jobId && (
+            <div className="mt-6">
+              <JobProgress jobId={response.jobId} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,13 +5,23 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { getNPSCategory, getNPSLabel } from "@/lib/utils/nps";
 import NPSBadge from "@/components/shared/NPSBadge";
-import type { Region, Solution } from "@/types";
+import JobProgress from "@/components/shared/JobProgress";
+import { useTaxonomy } from "@/lib/hooks/use-taxonomy";
+import { taxonomyValues, UNKNOWN_ACCOUNT_TYPE } from "@/lib/data/taxonomy";
+import type { Region, Solution, UploadFormData, UploadPreviewResponse } from "@/types";
 
-const REGIONS: Region[] = ["NA", "EMEA", "APAC", "LATAM"];
-const SOLUTIONS: Solution[] = ["Executive Search", "Professional Search", "Consulting"];
+function isSupportedFile(file: File): boolean {
+  return /\.(json|pdf|docx)$/i.test(file.name);
+}
+
+/** Transcripts may also be Teams/Zoom VTT, SRT or plain-text exports. */
+function isSupportedTranscript(file: File): boolean {
+  return isSupportedFile(file) || /\.(vtt|srt|txt)$/i.test(file.name);
+}
 
 export default function UploadPage() {
   const router = useRouter();
+  const taxonomy = useTaxonomy();
 
   // --- Step state ---
   const [step, setStep] = useState<1 | 2 | 3>(1);
@@ -31,12 +41,15 @@ export default function UploadPage() {
   const [score, setScore] = useState<number | "">("");
   const [region, setRegion] = useState<Region | "">("");
   const [solution, setSolution] = useState<Solution | "">("");
-  const [accountType, setAccountType] = useState("Unknown");
+  const [accountType, setAccountType] = useState(UNKNOWN_ACCOUNT_TYPE);
 
   // --- Submission state ---
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState("");
   const [newInterviewId, setNewInterviewId] = useState("");
+  const [preview, setPreview] = useState<UploadPreviewResponse | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
 
   // --- File helpers ---
   const handleDragOver = useCallback((e: DragEvent) => {
@@ -49,7 +62,7 @@ export default function UploadPage() {
     e.stopPropagation();
     setTranscriptDragOver(false);
     const file = e.dataTransfer.files?.[0];
-    if (file && file.name.endsWith(".json")) {
+    if (file && isSupportedTranscript(file)) {
       setTranscriptFile(file);
     }
   }, []);
@@ -59,7 +72,7 @@ export default function UploadPage() {
     e.stopPropagation();
     setReportDragOver(false);
     const file = e.dataTransfer.files?.[0];
-    if (file && file.name.endsWith(".json")) {
+    if (file && isSupportedFile(file)) {
       setReportFile(file);
     }
   }, []);
@@ -85,6 +98,70 @@ export default function UploadPage() {
     region !== "" &&
     solution !== "";
 
+  const buildFormData = () => {
+    const formData = new FormData();
+    if (transcriptFile) formData.append("transcriptFile", transcriptFile);
+    if (reportFile) formData.append("reportFile", reportFile);
+    formData.append("clientName", clientName);
+    formData.append("companyName", companyName);
+    formData.append("interviewDate", interviewDate);
+    formData.append("score", score === "" ? "" : String(score));
+    formData.append("region", region as string);
+    formData.append("solution", solution as string);
+    formData.append("accountType", accountType === UNKNOWN_ACCOUNT_TYPE ? "" : accountType);
+    return formData;
+  };
+
+  // --- Preview (dry run): parse the files and check them against the form ---
+  const applySuggestion = (field: keyof UploadFormData, value: string | number) => {
+    if (field === "clientName") setClientName(String(value));
+    else if (field === "companyName") setCompanyName(String(value));
+    else if (field === "interviewDate") setInterviewDate(String(value));
+    else if (field === "score") setScore(Number(value));
+    else if (field === "region") setRegion(value as Region);
+    else if (field === "solution") setSolution(value as Solution);
+    else if (field === "accountType") setAccountType(String(value));
+  };
+
+  const runPreview = async (fillEmptyFields: boolean) => {
+    setIsPreviewing(true);
+    setError("");
+    try {
+      const formData = buildFormData();
+      formData.append("dryRun", "true");
+      const res = await fetch("/api/upload", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Could not read the files.");
+        return false;
+      }
+      const result = data as UploadPreviewResponse;
+      setPreview(result);
+      if (fillEmptyFields) {
+        const s = result.suggested;
+        if (!clientName && s.clientName) setClientName(s.clientName);
+        if (!companyName && s.companyName) setCompanyName(s.companyName);
+        if (!interviewDate && s.interviewDate) setInterviewDate(s.interviewDate);
+        if (score === "" && s.score !== undefined) setScore(s.score);
+        if (!region && s.region) setRegion(s.region);
+        if (!solution && s.solution) setSolution(s.solution);
+        if ((!accountType || accountType === UNKNOWN_ACCOUNT_TYPE) && s.accountType) {
+          setAccountType(s.accountType);
+        }
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+      return false;
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleNext = async () => {
+    if (await runPreview(true)) setStep(2);
+  };
+
   // --- Upload handler ---
   const handleUpload = async () => {
     if (!canSubmit) return;
@@ -92,16 +169,9 @@ export default function UploadPage() {
     setError("");
 
     try {
-      const formData = new FormData();
-      if (transcriptFile) formData.append("transcriptFile", transcriptFile);
-      if (reportFile) formData.append("reportFile", reportFile);
-      formData.append("clientName", clientName);
-      formData.append("companyName", companyName);
-      formData.append("interviewDate", interviewDate);
-      formData.append("score", String(score));
-      formData.append("region", region as string);
-      formData.append("solution", solution as string);
-      formData.append("accountType", accountType || "Unknown");
+      const formData = buildFormData();
+      // The preview's duplicate checks were made against this version of the index
+      if (preview) formData.append("expectedVersion", String(preview.version));
 
       const res = await fetch("/api/upload", {
         method: "POST",
@@ -111,14 +181,18 @@ export default function UploadPage() {
       const data = await res.json();
 
       if (!res.ok) {
-        setError(data.error || "Upload failed.");
+        setError(
+          res.status === 409
+            ? "Interviews changed since the files were checked. Click “Re-check” and review the result before uploading."
+            : data.error || "Upload failed."
+        );
         return;
       }
 
       setNewInterviewId(data.interviewId);
+      // Post-processing (embeddings, vector store, opportunities) runs as a background job
+      setProcessingJobId(data.jobId ?? null);
       setStep(3);
-      // Trigger reindex in background so themes and opportunities stay in sync
-      fetch("/api/reindex", { method: "POST" }).catch(() => {});
     } catch (err) {
       setError(err instanceof Error ? err.message : "An unexpected error occurred.");
     } finally {
@@ -143,7 +217,12 @@ export default function UploadPage() {
     <div className="max-w-2xl mx-auto py-10 px-4">
       <h1 className="page-title mb-2">Upload Interview</h1>
       <p className="text-gray-500 mb-8">
-        Add a new NPS interview transcript and/or report to the platform.
+        Add a new NPS interview transcript and/or report to the platform. Importing a batch of
+        coded R/T files?{" "}
+        <Link href="/upload/bulk" className="text-blue-600 hover:text-blue-800">
+          Use bulk import
+        </Link>
+        .
       </p>
 
       {/* Step indicator */}
@@ -172,7 +251,7 @@ export default function UploadPage() {
           {step === 1
             ? "Select Files"
             : step === 2
-              ? "Enter Metadata"
+              ? "Review & Metadata"
               : "Complete"}
         </span>
       </div>
@@ -185,7 +264,7 @@ export default function UploadPage() {
           {/* Transcript drop zone */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Transcript File (.json)
+              Transcript File (.json, .pdf, .docx, .vtt, .srt, .txt)
             </label>
             <div
               onDragOver={(e) => {
@@ -242,7 +321,7 @@ export default function UploadPage() {
                     />
                   </svg>
                   <p className="text-sm text-gray-600">
-                    Drag and drop transcript JSON here, or{" "}
+                    Drag and drop a transcript (JSON, PDF, DOCX or a Teams/Zoom VTT, SRT or TXT export) here, or{" "}
                     <span className="text-blue-600 font-medium">browse</span>
                   </p>
                 </div>
@@ -250,7 +329,7 @@ export default function UploadPage() {
               <input
                 ref={transcriptInputRef}
                 type="file"
-                accept=".json"
+                accept=".json,.pdf,.docx,.vtt,.srt,.txt"
                 onChange={handleTranscriptChange}
                 className="hidden"
               />
@@ -260,7 +339,7 @@ export default function UploadPage() {
           {/* Report drop zone */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Report File (.json)
+              Report File (.json, .pdf, .docx)
             </label>
             <div
               onDragOver={(e) => {
@@ -317,7 +396,7 @@ export default function UploadPage() {
                     />
                   </svg>
                   <p className="text-sm text-gray-600">
-                    Drag and drop report JSON here, or{" "}
+                    Drag and drop report JSON, PDF or DOCX here, or{" "}
                     <span className="text-blue-600 font-medium">browse</span>
                   </p>
                 </div>
@@ -325,7 +404,7 @@ export default function UploadPage() {
               <input
                 ref={reportInputRef}
                 type="file"
-                accept=".json"
+                accept=".json,.pdf,.docx"
                 onChange={handleReportChange}
                 className="hidden"
               />
@@ -338,21 +417,27 @@ export default function UploadPage() {
             </p>
           )}
 
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
           <div className="flex justify-end">
             <button
               type="button"
-              disabled={!canProceedToStep2}
-              onClick={() => setStep(2)}
+              disabled={!canProceedToStep2 || isPreviewing}
+              onClick={handleNext}
               className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Next
+              {isPreviewing ? "Reading files..." : "Next"}
             </button>
           </div>
         </div>
       )}
 
       {/* ============================== */}
-      {/* STEP 2 — Metadata Entry        */}
+      {/* STEP 2 — Review & Metadata     */}
       {/* ============================== */}
       {step === 2 && (
         <div className="space-y-5">
@@ -362,6 +447,41 @@ export default function UploadPage() {
             </div>
           )}
 
+          {preview && preview.conflicts.length > 0 && (
+            <div className="section-card p-4 border-amber-200 bg-amber-50">
+              <p className="text-sm font-medium text-amber-800 mb-2">
+                Check before uploading ({preview.conflicts.length})
+              </p>
+              <ul className="space-y-1.5">
+                {preview.conflicts.map((c, i) => (
+                  <li key={i} className="text-sm text-amber-800 flex flex-wrap items-center gap-2">
+                    <span>{c.message}</span>
+                    {c.suggested !== undefined &&
+                      c.field !== "duplicate" &&
+                      c.field !== "file" && (
+                        <button
+                          type="button"
+                          onClick={() => applySuggestion(c.field as keyof UploadFormData, c.suggested!)}
+                          className="text-xs text-blue-600 hover:text-blue-800 underline"
+                        >
+                          Use {String(c.suggested)}
+                        </button>
+                      )}
+                    {c.interviewId && (
+                      <Link
+                        href={`/interviews/${c.interviewId}`}
+                        target="_blank"
+                        className="text-xs text-blue-600 hover:text-blue-800 underline"
+                      >
+                        Open {c.interviewId}
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Client Name */}
           <div>
             <label htmlFor="clientName" className="block text-sm font-medium text-gray-700 mb-1">
@@ -460,7 +580,7 @@ export default function UploadPage() {
               className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
             >
               <option value="">Select a region</option>
-              {REGIONS.map((r) => (
+              {taxonomyValues(taxonomy, "regions").map((r) => (
                 <option key={r} value={r}>
                   {r}
                 </option>
@@ -481,7 +601,7 @@ export default function UploadPage() {
               className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
             >
               <option value="">Select a solution</option>
-              {SOLUTIONS.map((s) => (
+              {taxonomyValues(taxonomy, "solutions").map((s) => (
                 <option key={s} value={s}>
                   {s}
                 </option>
@@ -494,14 +614,19 @@ export default function UploadPage() {
             <label htmlFor="accountType" className="block text-sm font-medium text-gray-700 mb-1">
               Account Type
             </label>
-            <input
+            <select
               id="accountType"
-              type="text"
               value={accountType}
               onChange={(e) => setAccountType(e.target.value)}
-              placeholder="Unknown"
               className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-            />
+            >
+              <option value={UNKNOWN_ACCOUNT_TYPE}>{UNKNOWN_ACCOUNT_TYPE}</option>
+              {taxonomyValues(taxonomy, "accountTypes").map((a) => (
+                <option key={a} value={a}>
+                  {a}
+                </option>
+              ))}
+            </select>
           </div>
 
           {/* File summary */}
@@ -525,6 +650,9 @@ export default function UploadPage() {
             </ul>
           </div>
 
+          {/* Parsed result */}
+          {preview && <ParsedPreview preview={preview} />}
+
           {/* Actions */}
           <div className="flex justify-between pt-2">
             <button
@@ -537,14 +665,24 @@ export default function UploadPage() {
             >
               Back
             </button>
-            <button
-              type="button"
-              disabled={!canSubmit || isUploading}
-              onClick={handleUpload}
-              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isUploading ? "Uploading..." : "Upload"}
-            </button>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                disabled={isPreviewing || isUploading}
+                onClick={() => runPreview(false)}
+                className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isPreviewing ? "Checking..." : "Re-check"}
+              </button>
+              <button
+                type="button"
+                disabled={!canSubmit || isUploading}
+                onClick={handleUpload}
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUploading ? "Uploading..." : "Upload"}
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -574,13 +712,18 @@ export default function UploadPage() {
             The interview has been saved with ID{" "}
             <span className="font-mono font-semibold text-gray-800">{newInterviewId}</span>.
           </p>
-          <p className="text-sm text-gray-500 mb-6">
-            Themes and opportunities are being updated in the background (1–2 min). Refresh{" "}
+          <p className="text-sm text-gray-500 mb-4">
+            Search, chat and opportunities are being updated in the background. Refresh{" "}
             <Link href="/themes" className="text-kf-primary hover:underline">Themes</Link>
             {" or "}
             <Link href="/opportunities" className="text-kf-primary hover:underline">Opportunities</Link>
             {" to see the latest."}
           </p>
+          {processingJobId && (
+            <div className="flex justify-center mb-6 text-left">
+              <JobProgress jobId={processingJobId} />
+            </div>
+          )}
           <div className="flex items-center justify-center gap-4">
             <button
               type="button"
@@ -601,9 +744,10 @@ export default function UploadPage() {
                 setScore("");
                 setRegion("");
                 setSolution("");
-                setAccountType("Unknown");
+                setAccountType(UNKNOWN_ACCOUNT_TYPE);
                 setError("");
                 setNewInterviewId("");
+                setProcessingJobId(null);
               }}
               className="btn-secondary"
             >
@@ -615,3 +759,58 @@ export default function UploadPage() {
     </div>
   );
 }
+
+/** What the server parsed from the files: the would-be report and transcript. */
+function ParsedPreview({ preview }: { preview: UploadPreviewResponse }) {
+  const { report, transcript, metadata } = preview;
+  const reportSections: [string, number][] = report
+    ? [
+        ["What went well", report.whatWentWell.length],
+        ["Challenges", report.challengesPainPoints.length],
+        ["Gaps", report.gapsIdentified.length],
+        ["Key themes", report.keyThemes.length],
+        ["Actions", report.actionsRecommendations.length],
+      ]
+    : [];
+
+  return (
+    <div className="rounded-md bg-gray-50 border border-gray-200 p-4 space-y-3">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+        Parsed from files (will be saved as {metadata.id})
+      </p>
+      {report && (
+        <div>
+          <p className="text-sm font-medium text-gray-800">
+            Report: {report.client || "client not found"} · {report.interviewDate || "no date"} ·{" "}
+            {report.project || "no engagement"}
+          </p>
+          <p className="text-xs text-gray-600 mt-1">
+            {reportSections.map(([label, count]) => `${label}: ${count}`).join(" · ")}
+          </p>
+          {report.overview ? (
+            <p className="text-sm text-gray-700 mt-2 line-clamp-3">{report.overview}</p>
+          ) : (
+            <p className="text-sm text-amber-700 mt-2">No overview section was found.</p>
+          )}
+        </div>
+      )}
+      {transcript && (
+        <div>
+          <p className="text-sm font-medium text-gray-800">
+            Transcript ({transcript.format ?? "json"}):{" "}
+            {transcript.fullTranscript.length > 0
+              ? `${transcript.fullTranscript.length} turns, speakers ${[
+                  ...new Set(transcript.fullTranscript.map((t) => t.speaker)),
+                ].join(", ")}`
+              : `${transcript.rawText.split(/\s+/).filter(Boolean).length} words of text, no speaker turns`}
+          </p>
+          {transcript.fullTranscript.slice(0, 2).map((turn, i) => (
+            <p key={i} className="text-sm text-gray-700 mt-1 line-clamp-2">
+              <span className="font-semibold">{turn.speaker}:</span> {turn.text}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Job, JobStepStatus, ReindexStepName } from "@/types";
+
+const STEP_LABELS: Record<ReindexStepName, string> = {
+  embeddings: "Embeddings",
+  vectorStore: "Vector store",
+  themes: "Themes",
+  opportunities: "Opportunities",
+};
+
+const STATUS_STYLES: Record<JobStepStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-gray-100 text-gray-500" },
+  running: { label: "Running…", className: "bg-blue-100 text-blue-700" },
+  completed: { label: "Done", className: "bg-green-100 text-green-700" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-600" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+/**
+ * Live per-step progress for a background job, fed by the SSE stream at
+ * /api/jobs/:id/events. Calls onFinished once the job completes or fails.
+ */
+export default function JobProgress({
+  jobId,
+  onFinished,
+}: {
+  jobId: string;
+  onFinished?: (job: Job) => void;
+}) {
+  const [job, setJob] = useState<Job | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [connectionError, setConnectionError] = useState(false);
+  // Bumped on retry to reopen the stream
+  const [streamKey, setStreamKey] = useState(0);
+  // Latest callback, so a new onFinished from the parent does not reopen the stream
+  const onFinishedRef = useRef(onFinished);
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  });
+
+  useEffect(() => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    source.onmessage = (event) => {
+      const next = JSON.parse(event.data) as Job;
+      setJob(next);
+      setConnectionError(false);
+      if (next.status === "completed" || next.status === "failed") {
+        source.close();
+        onFinishedRef.current?.(next);
+      }
+    };
+    source.onerror = () => {
+      // EventSource reconnects on its own; only surface the error if it gives up
+      if (source.readyState === EventSource.CLOSED) setConnectionError(true);
+    };
+    return () => source.close();
+  }, [jobId, streamKey]);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/retry`, { method: "POST" });
+      if (res.ok) setStreamKey((k) => k + 1);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (!job) {
+    return (
+      <p className="text-sm text-gray-500">
+        {connectionError ? "Lost connection to job progress." : "Starting…"}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-w-xl">
+      <ul className="space-y-1">
+        {job.steps.map((step) => {
+          const style = STATUS_STYLES[step.status];
+          return (
+            <li key={step.name} className="flex items-center gap-2 text-sm">
+              <span
+                className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium w-20 justify-center ${style.className}`}
+              >
+                {style.label}
+              </span>
+              <span className="font-medium text-gray-700">{STEP_LABELS[step.name]}</span>
+              {step.message && (
+                <span className="text-gray-500 truncate">— {step.message}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {job.status === "failed" && (
+        <div className="flex items-center gap-3">
+          <p className="text-sm text-red-600">{job.error || "Job failed."}</p>
+          <button
+            onClick={handleRetry}
+            disabled={retrying}
+            className="text-sm text-kf-primary hover:underline disabled:opacity-50"
+          >
+            {retrying ? "Retrying…" : "Retry failed steps"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import Link from "next/link";
+import { formatTimestamp } from "@/lib/utils/dates";
+import { quoteHref } from "@/lib/utils/quotes";
+import type { QuoteReference } from "@/types";
+
+interface QuoteSourceLinkProps {
+  quote: QuoteReference;
+}
+
+/**
+ * "View in transcript/report" link for a theme quote, plus a marker when the quote is a
+ * paraphrase or could not be found in the interview. Quotes from analyses generated
+ * before verification have no verification status and just link to the interview.
+ */
+export default function QuoteSourceLink({ quote }: QuoteSourceLinkProps) {
+  const location = quote.location;
+  let label = "View Interview →";
+  if (location?.source === "transcript") {
+    label =
+      location.startTime !== undefined
+        ? `View in transcript at ${formatTimestamp(location.startTime)} →`
+        : "View in transcript →";
+  } else if (location?.source === "report") {
+    label = "View in report →";
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Link href={quoteHref(quote)} className="text-xs font-medium text-kf-primary hover:underline">
+        {label}
+      </Link>
+      {quote.verification === "fuzzy" && (
+        <span
+          className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded border bg-amber-50 text-amber-700 border-amber-200"
+          title="Closely matches, but does not exactly reproduce, a passage in the interview"
+        >
+          Paraphrase
+        </span>
+      )}
+      {quote.verification === "unverified" && (
+        <span
+          className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded border bg-red-50 text-red-700 border-red-200"
+          title="This quote could not be found in the interview's transcript or report"
+        >
+          Unverified
+        </span>
+      )}
+    </div>
+  );
+}
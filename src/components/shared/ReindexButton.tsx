@@ -1,33 +1,62 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import JobProgress from "@/components/shared/JobProgress";
+import type { Job } from "@/types";
 
-export default function ReindexButton({ onSuccess }: { onSuccess?: () => void }) {
+/** The last reindex job is remembered so a page refresh picks its progress back up. */
+const ACTIVE_JOB_KEY = "kfcx:reindexJobId";
+
+export default function ReindexButton({
+  onSuccess,
+  themes = false,
+  label = "Generate themes & insights",
+}: {
+  onSuccess?: () => void;
+  /** Also regenerate theme analysis (otherwise only changed interviews are reprocessed). */
+  themes?: boolean;
+  label?: string;
+}) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  // Resume a job started before a refresh, if it is still in flight
+  useEffect(() => {
+    const saved = window.localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!saved) return;
+    fetch(`/api/jobs/${saved}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((job: Job | null) => {
+        if (job && (job.status === "queued" || job.status === "running")) {
+          setJobId(job.id);
+          setLoading(true);
+        } else {
+          window.localStorage.removeItem(ACTIVE_JOB_KEY);
+        }
+      })
+      .catch(() => {});
+  }, []);
 
   const handleReindex = async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch("/api/reindex", { method: "POST" });
+      const res = await fetch("/api/reindex", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ themes }),
+      });
       const data = await res.json().catch(() => ({}));
 
-      if (!res.ok) {
-        const msg = data.error || data.details || "Reindex failed";
-        const details = Array.isArray(data.results) ? data.results.join(" ") : "";
-        setError(details ? `${msg} ${details}` : msg);
-        return;
-      }
-
-      if (data.success === false) {
-        const msg = data.error || "One or more steps failed.";
-        const details = Array.isArray(data.results) ? data.results.join(" • ") : "";
-        setError(details ? `${msg} ${details}` : msg);
+      if (!res.ok || !data.jobId) {
+        setError(data.error || data.details || "Reindex failed");
+        setLoading(false);
         return;
       }
 
-      onSuccess?.();
+      window.localStorage.setItem(ACTIVE_JOB_KEY, data.jobId);
+      setJobId(data.jobId);
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Reindex failed";
       setError(
@@ -35,11 +64,20 @@ export default function ReindexButton({ onSuccess }: { onSuccess?: () => void })
           ? "Request failed or timed out. Check that OPENAI_API_KEY is set in .env.local (note the leading dot) and try again."
           : msg
       );
-    } finally {
       setLoading(false);
     }
   };
 
+  const handleFinished = (job: Job) => {
+    // Failures are shown (with a retry option) by JobProgress itself
+    setLoading(false);
+    if (job.status === "completed") {
+      window.localStorage.removeItem(ACTIVE_JOB_KEY);
+      setError(null);
+      onSuccess?.();
+    }
+  };
+
   return (
     <div className="space-y-2">
       <button
@@ -47,8 +85,9 @@ export default function ReindexButton({ onSuccess }: { onSuccess?: () => void })
         disabled={loading}
         className="px-4 py-2 bg-kf-primary text-white text-sm font-medium rounded-md hover:bg-kf-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
       >
-        {loading ? "Generating… (can take 1–2 min)" : "Generate themes & insights"}
+        {loading ? "Generating…" : label}
       </button>
+      {jobId && <JobProgress jobId={jobId} onFinished={handleFinished} />}
       {error && (
         <p className="text-sm text-red-600 max-w-xl">
           {error}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useTaxonomy } from "@/lib/hooks/use-taxonomy";
+import { taxonomyValues } from "@/lib/data/taxonomy";
+import type { NPSCategory, ThemeSegment } from "@/types";
+
+const NPS_OPTIONS: { value: NPSCategory; label: string }[] = [
+  { value: "promoter", label: "Promoters" },
+  { value: "passive", label: "Passives" },
+  { value: "detractor", label: "Detractors" },
+];
+
+interface ThemeSegmentFiltersProps {
+  segment: ThemeSegment;
+  onChange: (segment: ThemeSegment) => void;
+  /** Shown under the filters, e.g. when the segment has too few interviews. */
+  sampleNote?: string | null;
+}
+
+/** Filter bar for segment-specific themes; themes are recomputed server-side per segment. */
+export default function ThemeSegmentFilters({
+  segment,
+  onChange,
+  sampleNote,
+}: ThemeSegmentFiltersProps) {
+  const taxonomy = useTaxonomy();
+  const set = (field: keyof ThemeSegment, value: string) =>
+    onChange({ ...segment, [field]: value || undefined });
+
+  const selects: { field: "region" | "solution" | "accountType"; all: string; options: string[] }[] = [
+    { field: "region", all: "All Regions", options: taxonomyValues(taxonomy, "regions") },
+    { field: "solution", all: "All Solutions", options: taxonomyValues(taxonomy, "solutions") },
+    {
+      field: "accountType",
+      all: "All Account Types",
+      options: taxonomyValues(taxonomy, "accountTypes"),
+    },
+  ];
+  const filtered = Object.values(segment).some((v) => v !== undefined);
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap gap-3">
+        {selects.map(({ field, all, options }) => (
+          <select
+            key={field}
+            value={segment[field] ?? ""}
+            onChange={(e) => set(field, e.target.value)}
+            className="filter-select"
+          >
+            <option value="">{all}</option>
+            {options.map((opt) => (
+              <option key={opt} value={opt}>
+                {opt}
+              </option>
+            ))}
+          </select>
+        ))}
+
+        <select
+          value={segment.npsCategory ?? ""}
+          onChange={(e) => set("npsCategory", e.target.value)}
+          className="filter-select"
+        >
+          <option value="">All NPS Categories</option>
+          {NPS_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-500">From:</label>
+          <input
+            type="month"
+            value={segment.monthFrom ?? ""}
+            onChange={(e) => set("monthFrom", e.target.value)}
+            className="filter-select"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-500">To:</label>
+          <input
+            type="month"
+            value={segment.monthTo ?? ""}
+            onChange={(e) => set("monthTo", e.target.value)}
+            className="filter-select"
+          />
+        </div>
+
+        {filtered && (
+          <button
+            onClick={() => onChange({})}
+            className="text-sm text-kf-primary hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {sampleNote && (
+        <p className="mt-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-4 py-2">
+          {sampleNote}
+        </p>
+      )}
+    </div>
+  );
+}
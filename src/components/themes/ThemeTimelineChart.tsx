@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import LoadingSpinner from "@/components/shared/LoadingSpinner";
+import type { ThemeTimelineResponse, ThemeTrend, TimelineGranularity } from "@/types";
+
+const LINE_COLORS = ["#007B5E", "#C4A35A", "#2563eb", "#db2777", "#7c3aed", "#ea580c"];
+const SENTIMENT_COLORS = { positive: "#22c55e", neutral: "#9ca3af", negative: "#ef4444" };
+
+interface ThemeTimelineChartProps {
+  /** Themes to plot, e.g. those of the active tab. */
+  themeIds: string[];
+}
+
+/**
+ * Share of each period's interviews that reference a theme, by month or quarter, with
+ * the themes that rose or fell most between the last two periods.
+ */
+export default function ThemeTimelineChart({ themeIds }: ThemeTimelineChartProps) {
+  const [granularity, setGranularity] = useState<TimelineGranularity>("quarter");
+  const [view, setView] = useState<"themes" | "sentiment">("themes");
+  const [timeline, setTimeline] = useState<ThemeTimelineResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/themes/timeline?granularity=${granularity}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setTimeline(data.points ? (data as ThemeTimelineResponse) : null);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch theme timeline:", error);
+        if (!cancelled) setTimeline(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [granularity]);
+
+  const labels = useMemo(
+    () => new Map(timeline?.themes.map((t) => [t.id, t.label]) ?? []),
+    [timeline]
+  );
+
+  // One row per period: percentage of the period's interviews per theme, or sentiment counts
+  const rows = useMemo(
+    () =>
+      (timeline?.points ?? []).map((point) => {
+        const row: Record<string, string | number> = {
+          period: point.period,
+          interviews: point.interviewCount,
+        };
+        if (view === "sentiment") {
+          Object.assign(row, point.bySentiment);
+        } else {
+          for (const id of themeIds) {
+            const count = point.themes.find((t) => t.themeId === id)?.count ?? 0;
+            row[id] =
+              point.interviewCount > 0 ? Math.round((count / point.interviewCount) * 100) : 0;
+          }
+        }
+        return row;
+      }),
+    [timeline, themeIds, view]
+  );
+
+  const lines =
+    view === "sentiment"
+      ? (["positive", "neutral", "negative"] as const).map((s) => ({
+          key: s,
+          name: s[0].toUpperCase() + s.slice(1),
+          color: SENTIMENT_COLORS[s],
+        }))
+      : themeIds.map((id, i) => ({
+          key: id,
+          name: labels.get(id) ?? id,
+          color: LINE_COLORS[i % LINE_COLORS.length],
+        }));
+
+  return (
+    <div className="section-card p-5 mb-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="section-title mb-1">Themes Over Time</h2>
+          <p className="text-sm text-gray-500">
+            {view === "themes"
+              ? "Share of each period's interviews that reference the theme"
+              : "Theme references per period by sentiment"}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={view}
+            onChange={(e) => setView(e.target.value as "themes" | "sentiment")}
+            className="filter-select"
+          >
+            <option value="themes">Themes in this tab</option>
+            <option value="sentiment">By sentiment</option>
+          </select>
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as TimelineGranularity)}
+            className="filter-select"
+          >
+            <option value="quarter">By quarter</option>
+            <option value="month">By month</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : !timeline || timeline.points.length === 0 ? (
+        <p className="text-sm text-gray-400 py-8 text-center">
+          No dated interviews in the theme analysis.
+        </p>
+      ) : (
+        <>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  allowDecimals={false}
+                  unit={view === "themes" ? "%" : undefined}
+                />
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {lines.map((line) => (
+                  <Line
+                    key={line.key}
+                    type="monotone"
+                    dataKey={line.key}
+                    name={line.name}
+                    stroke={line.color}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    unit={view === "themes" ? "%" : undefined}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {timeline.from && timeline.to && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+              <TrendList
+                title={`Rising (${timeline.from} → ${timeline.to})`}
+                trends={timeline.rising}
+                positive
+              />
+              <TrendList
+                title={`Falling (${timeline.from} → ${timeline.to})`}
+                trends={timeline.falling}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function TrendList({
+  title,
+  trends,
+  positive = false,
+}: {
+  title: string;
+  trends: ThemeTrend[];
+  positive?: boolean;
+}) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{title}</h3>
+      {trends.length === 0 ? (
+        <p className="text-sm text-gray-400">No change.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {trends.slice(0, 5).map((t) => (
+            <li key={t.themeId} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-700 truncate" title={t.group}>
+                {t.label}
+              </span>
+              <span
+                className={`flex-shrink-0 text-xs font-medium ${positive ? "text-green-700" : "text-red-700"}`}
+              >
+                {Math.round(t.fromShare * 100)}% → {Math.round(t.toShare * 100)}%
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,43 @@
-import { getOpenAIClient, CHAT_MODEL } from "./openai";
+import crypto from "crypto";
+import { getLLMProvider } from "./provider";
+import { PromptSet } from "./prompt-registry";
 import {
   readMetadataIndex,
   readReport,
   readTranscript,
+  readThemeAnalysis,
   writeThemeAnalysis,
-  writeOpportunities,
+  writeThemeSnapshot,
+  readThemeSegments,
+  updateThemeSegments,
+  updateOpportunities,
 } from "@/lib/data/store";
+import { QuoteVerifier } from "./quote-verification";
+import { buildThemeTimeline } from "./theme-timeline";
+import { assignThemeLineage } from "./theme-lineage";
+import { assertThemesBudget } from "./usage";
+import {
+  matchesThemeSegment,
+  themeSegmentKey,
+  MAX_CACHED_SEGMENTS,
+  MIN_SEGMENT_SAMPLE,
+} from "./theme-segments";
+import {
+  extractThemeCandidates,
+  reduceAdditionalGroups,
+  reduceThemeGroup,
+  type ClusteredGroup,
+  type KeyedCandidate,
+} from "./theme-extraction";
+import { mergeOpportunities, type GeneratedOpportunity } from "@/lib/data/opportunity-merge";
 import type {
+  ArtifactProvenance,
+  PromptRef,
   ThemeAnalysis,
+  ThemeExtractionStats,
   ThemeGroup,
+  ThemeSegment,
+  SegmentThemeAnalysis,
   OpportunitiesAnalysis,
   Opportunity,
   InterviewMetadata,
@@ -37,6 +66,15 @@ async function loadAllInterviewData(): Promise<InterviewData[]> {
   return data;
 }
 
+/** All interviews, or those in `ids`; an unknown id is an error. */
+async function loadInterviewSubset(ids?: string[]): Promise<InterviewData[]> {
+  const all = await loadAllInterviewData();
+  if (!ids) return all;
+  const missing = ids.filter((id) => !all.some((i) => i.metadata.id === id));
+  if (missing.length > 0) throw new Error(`Unknown interview id(s): ${missing.join(", ")}`);
+  return all.filter((i) => ids.includes(i.metadata.id));
+}
+
 function buildInterviewSummary(data: InterviewData): string {
   const parts: string[] = [];
   const m = data.metadata;
@@ -72,235 +110,418 @@ function buildInterviewSummary(data: InterviewData): string {
   return parts.join("\n\n");
 }
 
-export async function generateThemeAnalysis(): Promise<ThemeAnalysis> {
-  const openai = getOpenAIClient();
-  const interviews = await loadAllInterviewData();
-  const corpus = interviews.map(buildInterviewSummary).join("\n\n---\n\n");
-  const interviewIds = interviews.map((i) => i.metadata.id);
-
-  const themePrompt = (focus: string, instruction: string) => `
-You are analysing NPS interview data from Korn Ferry's Customer Centricity programme.
-
-${instruction}
-
-For each theme you identify, provide:
-- label: A concise theme name (3-6 words)
-- description: One sentence explaining the theme
-- frequency: How many interviews reference this theme
-- sentiment: "positive", "negative", or "neutral"
-- supportingQuotes: Array of objects with:
-  - text: A direct quote or close paraphrase from the interview data
-  - interviewId: The interview ID (e.g. "t-001")
-  - client: Client name
-  - company: Company name
-- interviewIds: Array of interview IDs that reference this theme
-
-Interview Data:
-${corpus}
-
-Return your response as a JSON object with:
-{
-  "name": "${focus}",
-  "description": "Brief description of this theme category",
-  "themes": [array of theme objects as described above]
+function contentHash(interviews: InterviewData[]): string {
+  const hash = crypto.createHash("sha256");
+  for (const i of interviews) {
+    hash.update(JSON.stringify([i.metadata.id, i.report, i.transcript]));
+  }
+  return hash.digest("hex");
+}
+
+/** Each prompt version once, in first-listed order. */
+function uniquePromptRefs(refs: PromptRef[]): PromptRef[] {
+  const byKey = new Map(refs.map((r) => [`${r.name}@${r.version}@${r.hash}`, r]));
+  return [...byKey.values()];
 }
 
-Return ONLY valid JSON, no markdown code fences or other formatting.`;
+/**
+ * Provider, model and prompts of a run, and the interviews it sent to the model.
+ * `used` adds prompts the run relied on without rendering them (cached outputs).
+ */
+function buildProvenance(
+  prompts: PromptSet,
+  interviews: InterviewData[],
+  used: PromptRef[] = []
+): ArtifactProvenance {
+  const provider = getLLMProvider();
+  return {
+    provider: provider.name,
+    model: provider.chatModel,
+    prompts: uniquePromptRefs([...used, ...prompts.refs]),
+    interviewIds: interviews.map((i) => i.metadata.id),
+    inputHash: contentHash(interviews),
+  };
+}
 
-  // Generate three theme categories in parallel (Responses API + gpt-5.2)
-  const [whyChooseRes, promoterRes, fallsShortRes] = await Promise.all([
-    openai.responses.create({
-      model: CHAT_MODEL,
-      input: themePrompt(
+/**
+ * Minimum number of interviews a theme in an additional group must be referenced by.
+ * Set KFCX_ADDITIONAL_THEME_MIN_INTERVIEWS to change it.
+ */
+export const DEFAULT_ADDITIONAL_THEME_MIN_INTERVIEWS = 3;
+
+function additionalThemeMinInterviews(): number {
+  const configured = parseInt(process.env.KFCX_ADDITIONAL_THEME_MIN_INTERVIEWS ?? "", 10);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_ADDITIONAL_THEME_MIN_INTERVIEWS;
+}
+
+/** Quotes kept per theme, at most one per interview. */
+const MAX_QUOTES_PER_THEME = 6;
+
+/**
+ * Reduce candidates into the three fixed groups and the additional ones, with verified
+ * quotes. Theme ids are positional until assignThemeLineage replaces them.
+ */
+async function buildThemeAnalysis(
+  prompts: PromptSet,
+  interviews: InterviewData[],
+  candidates: KeyedCandidate[],
+  stats: ThemeExtractionStats
+): Promise<ThemeAnalysis> {
+  const minInterviews = additionalThemeMinInterviews();
+  const npsCategoryOf = new Map(interviews.map((i) => [i.metadata.id, i.metadata.npsCategory]));
+  const inCategory = (category: KeyedCandidate["category"]) =>
+    candidates.filter((c) => c.category === category);
+
+  // Reduce the three fixed categories and the additional groups in parallel
+  const [whyChooseClusters, promoterClusters, fallsShortClusters, additionalClusters] =
+    await Promise.all([
+      reduceThemeGroup(
+        prompts,
         "Why Clients Choose Korn Ferry",
-        "Identify 4-6 themes that explain WHY clients choose Korn Ferry and what differentiates them from competitors. Focus on positive factors, competitive advantages, and selection criteria mentioned across interviews."
+        "Identify 4-6 themes that explain WHY clients choose Korn Ferry and what differentiates them from competitors.",
+        inCategory("choose")
       ),
-      temperature: 0.2,
-      text: { format: { type: "json_object" } },
-    }),
-    openai.responses.create({
-      model: CHAT_MODEL,
-      input: themePrompt(
+      reduceThemeGroup(
+        prompts,
         "The Promoter Experience",
-        "Identify 4-6 themes that characterise what PROMOTERS (score 9-10) value most about working with Korn Ferry. Focus on what creates exceptional experiences and strong satisfaction."
+        "Identify 4-6 themes that characterise what PROMOTERS (score 9-10) value most about working with Korn Ferry.",
+        inCategory("valued").filter((c) => npsCategoryOf.get(c.interviewId) === "promoter")
       ),
-      temperature: 0.2,
-      text: { format: { type: "json_object" } },
-    }),
-    openai.responses.create({
-      model: CHAT_MODEL,
-      input: themePrompt(
+      reduceThemeGroup(
+        prompts,
         "Where the Experience Falls Short",
-        "Identify 4-6 themes about where Korn Ferry's experience FALLS SHORT. Focus on challenges, pain points, gaps, and areas for improvement mentioned across interviews, particularly by detractors and passives."
+        "Identify 4-6 themes about where Korn Ferry's experience FALLS SHORT: challenges, pain points, gaps and areas for improvement.",
+        inCategory("fallsShort")
       ),
-      temperature: 0.2,
-      text: { format: { type: "json_object" } },
-    }),
-  ]);
-
-  const parseThemeGroup = (content: string): ThemeGroup => {
-    try {
-      const parsed = JSON.parse(content);
+      reduceAdditionalGroups(prompts, inCategory("other"), minInterviews),
+    ]);
+
+  // Quotes are checked against their interview and labelled with its real metadata
+  const verifier = new QuoteVerifier(interviews);
+  const metadataOf = new Map(interviews.map((i) => [i.metadata.id, i.metadata]));
+
+  const toThemeGroup = (clustered: ClusteredGroup): ThemeGroup => ({
+    name: clustered.name,
+    description: clustered.description,
+    themes: clustered.themes.map((cluster, idx) => {
+      const ids = [...new Set(cluster.members.map((m) => m.interviewId))];
+      // First quote of each member interview, then second quotes, up to the limit
+      const quotes = cluster.members
+        .flatMap((m) => m.quotes.map((text, rank) => ({ text, rank, interviewId: m.interviewId })))
+        .sort((a, b) => a.rank - b.rank)
+        .filter((q, i, all) => all.findIndex((o) => o.interviewId === q.interviewId) === i)
+        .slice(0, MAX_QUOTES_PER_THEME)
+        .map(({ text, interviewId }) => ({
+          text,
+          interviewId,
+          client: metadataOf.get(interviewId)?.client,
+          company: metadataOf.get(interviewId)?.company,
+        }));
       return {
-        name: parsed.name || "Unknown",
-        description: parsed.description || "",
-        themes: (parsed.themes || []).map(
-          (t: Record<string, unknown>, idx: number) => ({
-            id: `theme-${idx}`,
-            label: t.label || "",
-            description: t.description || "",
-            frequency: t.frequency || 0,
-            sentiment: t.sentiment || "neutral",
-            supportingQuotes: Array.isArray(t.supportingQuotes)
-              ? (t.supportingQuotes as Record<string, unknown>[]).map(
-                  (q) => ({
-                    text: q.text || "",
-                    interviewId: q.interviewId || "",
-                    client: q.client || "",
-                    company: q.company || "",
-                    region: "",
-                    solution: "",
-                    accountType: "",
-                    npsCategory: "",
-                    score: 0,
-                  })
-                )
-              : [],
-            interviewIds: Array.isArray(t.interviewIds) ? t.interviewIds : [],
-          })
-        ),
+        id: `theme-${idx}`, // replaced with a stable id by assignThemeLineage
+        label: cluster.label,
+        description: cluster.description,
+        frequency: ids.length,
+        sentiment: cluster.sentiment,
+        supportingQuotes: verifier.verifyQuotes(quotes),
+        interviewIds: ids,
       };
-    } catch {
-      return { name: "Parse Error", description: "Could not parse theme data", themes: [] };
-    }
+    }),
+  });
+
+  return {
+    lastGenerated: new Date().toISOString(),
+    generatedFrom: interviews.map((i) => i.metadata.id),
+    whyClientsChoose: toThemeGroup(whyChooseClusters),
+    promoterExperience: toThemeGroup(promoterClusters),
+    whereFallsShort: toThemeGroup(fallsShortClusters),
+    additionalThemes: additionalClusters.map(toThemeGroup),
+    timelineData: [],
+    quoteVerification: verifier.stats,
+    extraction: stats,
+    // Candidates may all come from the cache, leaving their prompt unrendered
+    provenance: buildProvenance(prompts, interviews, [prompts.ref("theme-candidates")]),
   };
+}
 
-  const whyClientsChoose = parseThemeGroup(
-    (whyChooseRes as { output_text?: string }).output_text || "{}"
-  );
-  const promoterExperience = parseThemeGroup(
-    (promoterRes as { output_text?: string }).output_text || "{}"
-  );
-  const whereFallsShort = parseThemeGroup(
-    (fallsShortRes as { output_text?: string }).output_text || "{}"
+/**
+ * Regenerate the theme analysis by map-reduce (see theme-extraction.ts): cached or fresh
+ * per-interview candidates, clustered into the three fixed groups and the additional ones.
+ * `refresh` re-extracts every interview's candidates instead of reusing the cache.
+ */
+export async function generateThemeAnalysis(
+  options: { refresh?: boolean } = {}
+): Promise<ThemeAnalysis> {
+  const prompts = new PromptSet();
+  const interviews = await loadAllInterviewData();
+  const { candidates, stats } = await extractThemeCandidates(interviews, prompts, options);
+  const analysis = await buildThemeAnalysis(prompts, interviews, candidates, stats);
+
+  // Keep theme ids stable across runs and record how themes changed; the analysis being
+  // replaced is kept as a dated snapshot
+  const previous = await readThemeAnalysis();
+  analysis.lineage = await assignThemeLineage(previous, analysis);
+  analysis.timelineData = buildThemeTimeline(
+    analysis,
+    interviews.map((i) => i.metadata)
   );
 
-  // Assign unique IDs
-  let themeIdx = 0;
-  for (const group of [whyClientsChoose, promoterExperience, whereFallsShort]) {
-    for (const theme of group.themes) {
-      theme.id = `theme-${themeIdx++}`;
-    }
-  }
+  if (previous) await writeThemeSnapshot(previous);
+  await writeThemeAnalysis(analysis);
+  return analysis;
+}
 
-  // Build timeline data (simplified: count themes by month)
-  const monthSet = new Set(interviews.map((i) => i.metadata.monthYear));
-  const timelineData = Array.from(monthSet)
-    .sort()
-    .map((month) => ({
-      month,
-      themes: [] as { themeId: string; count: number }[],
-    }));
+/**
+ * Theme analysis with the given prompts, stored nowhere: for comparing prompt versions
+ * (prompt-experiments.ts). Cached candidates are reused when the candidate prompt matches,
+ * but the cache is not updated. Theme ids are positional.
+ */
+export async function previewThemeAnalysis(
+  prompts: PromptSet,
+  interviewIds?: string[]
+): Promise<ThemeAnalysis> {
+  const interviews = await loadInterviewSubset(interviewIds);
+  const { candidates, stats } = await extractThemeCandidates(interviews, prompts, {
+    persist: false,
+  });
+  return buildThemeAnalysis(prompts, interviews, candidates, stats);
+}
 
-  const analysis: ThemeAnalysis = {
-    lastGenerated: new Date().toISOString(),
-    generatedFrom: interviewIds,
-    whyClientsChoose,
-    promoterExperience,
-    whereFallsShort,
-    additionalThemes: [],
-    timelineData,
+/**
+ * A segment's interviews and candidates, and the hash its cached themes are checked
+ * against. With `cachedOnly` no candidates are extracted (see extractThemeCandidates).
+ */
+async function loadSegmentInput(
+  prompts: PromptSet,
+  segment: ThemeSegment,
+  cachedOnly: boolean
+) {
+  const interviews = (await loadAllInterviewData()).filter((i) =>
+    matchesThemeSegment(i.metadata, segment)
+  );
+  const { candidates, stats } = await extractThemeCandidates(interviews, prompts, {
+    prune: false,
+    cachedOnly,
+  });
+  const reducePrompts = [prompts.ref("theme-group"), prompts.ref("theme-additional-groups")];
+  const inputHash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([additionalThemeMinInterviews(), reducePrompts, candidates]))
+    .digest("hex");
+  return { interviews, candidates, stats, inputHash };
+}
+
+/**
+ * The cached themes of a segment (see theme-segments.ts) while its interviews and their
+ * candidates are unchanged, or null when it has to be generated. Makes no model calls.
+ */
+export async function readSegmentThemeAnalysis(
+  segment: ThemeSegment
+): Promise<SegmentThemeAnalysis | null> {
+  const cached = (await readThemeSegments())?.segments[themeSegmentKey(segment)];
+  if (!cached) return null;
+  const { inputHash } = await loadSegmentInput(new PromptSet(), segment, true);
+  return cached.inputHash === inputHash ? cached : null;
+}
+
+/**
+ * Generate (or reuse) the themes of a segment and cache them; run as a theme_segment job.
+ * Missing candidates are extracted and reduced again. Theme ids follow the matching
+ * themes of the global analysis, so links and the timeline line up with the unfiltered
+ * view. Throws BudgetExceededError when the themes budget is used up.
+ */
+export async function generateSegmentThemeAnalysis(
+  segment: ThemeSegment
+): Promise<SegmentThemeAnalysis> {
+  const key = themeSegmentKey(segment);
+  await assertThemesBudget();
+
+  const prompts = new PromptSet();
+  const { interviews, candidates, stats, inputHash } = await loadSegmentInput(
+    prompts,
+    segment,
+    false
+  );
+  const cached = (await readThemeSegments())?.segments[key];
+  if (cached?.inputHash === inputHash) return cached;
+
+  const analysis = await buildThemeAnalysis(prompts, interviews, candidates, stats);
+  await assignThemeLineage(await readThemeAnalysis(), analysis);
+  analysis.timelineData = buildThemeTimeline(
+    analysis,
+    interviews.map((i) => i.metadata)
+  );
+  const result: SegmentThemeAnalysis = {
+    ...analysis,
+    segment,
+    segmentKey: key,
+    inputHash,
+    sampleSize: interviews.length,
+    lowSample: interviews.length < MIN_SEGMENT_SAMPLE,
   };
 
-  await writeThemeAnalysis(analysis);
-  return analysis;
+  await updateThemeSegments((cache) => {
+    cache.segments[key] = result;
+    const keys = Object.keys(cache.segments).sort((a, b) =>
+      cache.segments[b].lastGenerated.localeCompare(cache.segments[a].lastGenerated)
+    );
+    for (const old of keys.slice(MAX_CACHED_SEGMENTS)) delete cache.segments[old];
+  });
+  return result;
 }
 
 const OPPORTUNITY_CONCURRENCY = 10;
 
 async function analyzeOneInterview(
-  openai: Awaited<ReturnType<typeof getOpenAIClient>>,
+  prompts: PromptSet,
   data: InterviewData
-): Promise<Omit<Opportunity, "id">[]> {
-  const summary = buildInterviewSummary(data);
-  const response = await openai.responses.create({
-    model: CHAT_MODEL,
-    input: `Analyse this NPS interview for opportunity- and action-oriented insights.
-
-Identify any mentions of:
-1. future_need - Services or support the client may need in future
-2. expansion - Ways to deepen or expand the relationship
-3. re_engagement - Signals that action should be taken to re-engage or strengthen the partnership
-4. improvement - Specific actions that would improve the service
-
-For each opportunity found, provide:
-- type: one of "future_need", "expansion", "re_engagement", "improvement"
-- title: Concise label (5-10 words)
-- description: 1-2 sentences explaining the opportunity
-- urgency: "high", "medium", or "low"
-- supportingQuote: A direct quote or close paraphrase from the data
-- suggestedAction: What Korn Ferry should do (1 sentence)
-
-Interview data:
-${summary}
-
-Client: ${data.metadata.client}
-Company: ${data.metadata.company}
-Interview ID: ${data.metadata.id}
-
-Return a JSON object: { "opportunities": [...] }
-Return ONLY valid JSON.`,
-    temperature: 0.2,
-    text: { format: { type: "json_object" } },
+): Promise<GeneratedOpportunity[]> {
+  const prompt = prompts.render("opportunities", {
+    summary: buildInterviewSummary(data),
+    client: data.metadata.client,
+    company: data.metadata.company,
+    interviewId: data.metadata.id,
+  });
+  const content = await getLLMProvider().generateJSON({
+    task: "opportunities",
+    input: prompt.text,
+    temperature: prompt.temperature,
   });
 
-  const content = (response as { output_text?: string }).output_text || '{"opportunities":[]}';
+  let opps: unknown;
   try {
-    const parsed = JSON.parse(content);
-    const opps = parsed.opportunities || [];
-    return opps.map((opp: Record<string, unknown>) => ({
-      type: (opp.type as Opportunity["type"]) || "improvement",
-      title: (opp.title as string) || "",
-      description: (opp.description as string) || "",
-      urgency: (opp.urgency as Opportunity["urgency"]) || "medium",
-      sourceInterviewId: data.metadata.id,
-      client: data.metadata.client,
-      company: data.metadata.company,
-      supportingQuote: (opp.supportingQuote as string) || "",
-      suggestedAction: (opp.suggestedAction as string) || "",
-      status: "identified" as const,
-    }));
+    opps = JSON.parse(content).opportunities;
   } catch {
-    console.error(`Failed to parse opportunities for ${data.metadata.client}`);
-    return [];
+    // Handled below with the other unusable outputs
+  }
+  // An empty output ("{}") is a failure too, not an interview without opportunities
+  if (!Array.isArray(opps)) {
+    throw new Error(`Unusable opportunities output for ${data.metadata.client}`);
   }
+  return opps.map((opp: Record<string, unknown>) => ({
+    type: (opp.type as Opportunity["type"]) || "improvement",
+    title: (opp.title as string) || "",
+    description: (opp.description as string) || "",
+    urgency: (opp.urgency as Opportunity["urgency"]) || "medium",
+    sourceInterviewId: data.metadata.id,
+    client: data.metadata.client,
+    company: data.metadata.company,
+    supportingQuote: (opp.supportingQuote as string) || "",
+    suggestedAction: (opp.suggestedAction as string) || "",
+    status: "identified" as const,
+  }));
 }
 
-export async function generateOpportunityAnalysis(): Promise<OpportunitiesAnalysis> {
-  const openai = getOpenAIClient();
-  const interviews = await loadAllInterviewData();
-
-  const allOpportunities: Opportunity[] = [];
-  let oppIdx = 0;
+/**
+ * Opportunities with the given prompts, not merged or stored (see previewThemeAnalysis).
+ * Interviews whose output is unusable contribute none.
+ */
+export async function previewOpportunities(
+  prompts: PromptSet,
+  interviewIds?: string[]
+): Promise<{ opportunities: GeneratedOpportunity[]; provenance: ArtifactProvenance }> {
+  const interviews = await loadInterviewSubset(interviewIds);
+  const { generated } = await generateOpportunities(prompts, interviews);
+  return { opportunities: generated, provenance: buildProvenance(prompts, interviews) };
+}
 
+/** Opportunities of each interview; `failed` lists those the model gave no usable output for. */
+async function generateOpportunities(
+  prompts: PromptSet,
+  interviews: InterviewData[]
+): Promise<{ generated: GeneratedOpportunity[]; failed: string[] }> {
+  const generated: GeneratedOpportunity[] = [];
+  const failed: string[] = [];
   // Process in parallel batches to respect rate limits but speed up (e.g. ~10 at a time)
   for (let i = 0; i < interviews.length; i += OPPORTUNITY_CONCURRENCY) {
     const chunk = interviews.slice(i, i + OPPORTUNITY_CONCURRENCY);
     const results = await Promise.all(
-      chunk.map((data) => analyzeOneInterview(openai, data))
+      chunk.map((data) =>
+        analyzeOneInterview(prompts, data).catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Failed to generate opportunities for ${data.metadata.client}: ${message}`);
+          failed.push(data.metadata.id);
+          return [];
+        })
+      )
     );
-    for (const opportunities of results) {
-      for (const opp of opportunities) {
-        allOpportunities.push({ ...opp, id: `opp-${oppIdx++}` });
-      }
-    }
+    for (const opportunities of results) generated.push(...opportunities);
   }
+  return { generated, failed };
+}
 
-  const analysis: OpportunitiesAnalysis = {
-    lastGenerated: new Date().toISOString(),
-    opportunities: allOpportunities,
+/**
+ * Provenance of the merged opportunities: the interviews the file holds opportunities
+ * from (kept from earlier runs, or analysed in this one) and every prompt version that
+ * produced them. Provider and model are the latest run's.
+ */
+function mergeOpportunityProvenance(
+  previous: OpportunitiesAnalysis | null,
+  current: ArtifactProvenance,
+  live: InterviewData[],
+  replacedIds: Set<string> // analysed in this run, or removed
+): ArtifactProvenance {
+  // Files written before provenance was recorded: the interviews their opportunities name
+  const previousIds =
+    previous?.provenance?.interviewIds ??
+    (previous?.opportunities ?? []).map((o) => o.sourceInterviewId);
+  const keptIds = new Set(previousIds.filter((id) => !replacedIds.has(id)));
+  const analysedIds = new Set(current.interviewIds);
+  const covered = live.filter((i) => keptIds.has(i.metadata.id) || analysedIds.has(i.metadata.id));
+  const kept = covered.some((i) => keptIds.has(i.metadata.id));
+  return {
+    ...current,
+    prompts: uniquePromptRefs([
+      ...(kept ? previous?.provenance?.prompts ?? [] : []),
+      ...(analysedIds.size > 0 ? current.prompts : []),
+    ]),
+    interviewIds: covered.map((i) => i.metadata.id),
+    inputHash: contentHash(covered),
   };
+}
 
-  await writeOpportunities(analysis);
-  return analysis;
+/**
+ * Generate opportunities and merge them into the existing opportunities.json so ids,
+ * statuses, notes and history survive reindex.
+ * With `interviewIds`, only those interviews are re-analysed; opportunities from
+ * `removedInterviewIds` are flagged superseded. Other interviews are left untouched.
+ * Interviews without usable model output (`failedInterviewIds`) are left untouched too,
+ * so a failed run never supersedes their opportunities.
+ */
+export async function generateOpportunityAnalysis(
+  options: { interviewIds?: string[]; removedInterviewIds?: string[] } = {}
+): Promise<{ analysis: OpportunitiesAnalysis; failedInterviewIds: string[] }> {
+  const targets = options.interviewIds ? new Set(options.interviewIds) : null;
+  const all = await loadAllInterviewData();
+  const interviews = all.filter((i) => !targets || targets.has(i.metadata.id));
+  const prompts = new PromptSet();
+  const { generated, failed } = await generateOpportunities(prompts, interviews);
+  const failedIds = new Set(failed);
+  const analysed = interviews.filter((i) => !failedIds.has(i.metadata.id));
+
+  // Merge under the store lock against the latest data, so status/notes edits made
+  // while the analysis was running are not overwritten
+  const now = new Date().toISOString();
+  const provenance = buildProvenance(prompts, analysed);
+  const replacedIds = new Set([
+    ...provenance.interviewIds,
+    ...(options.removedInterviewIds ?? []),
+  ]);
+  const analysis = await updateOpportunities((previous) => {
+    const existing = previous?.opportunities ?? [];
+    let scope: string[] | undefined;
+    if (targets) scope = [...targets, ...(options.removedInterviewIds ?? [])];
+    else if (failedIds.size > 0) scope = existing.map((o) => o.sourceInterviewId);
+    return {
+      lastGenerated: now,
+      opportunities: mergeOpportunities(existing, generated, {
+        now,
+        interviewIds: scope?.filter((id) => !failedIds.has(id)),
+      }),
+      provenance: mergeOpportunityProvenance(previous, provenance, all, replacedIds),
+    };
+  });
+  return { analysis: analysis as OpportunitiesAnalysis, failedInterviewIds: failed };
 }
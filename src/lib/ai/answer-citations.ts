@@ -0,0 +1,152 @@
+/**
+ * Citations in a chat answer: `[Client, Company]` tags (and the bold `**Client, Company**`
+ * of exhaustive answers) and the quoted passages attributed to them. Used to emit
+ * citation events as chat answers stream, and to score answers in the chat evaluation.
+ */
+
+import type { InterviewMetadata } from "@/types";
+
+/** Quotes shorter than this many words are phrases, not citations. */
+export const MIN_QUOTE_WORDS = 3;
+
+/** Lower-case words only, for matching names and quotes. */
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’']/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export interface AnswerCitation {
+  interviewId: string | null; // null: the tag names no known interview
+  quote: string | null;
+  end: number; // offset in the answer just after the quote, or the tag when unquoted
+}
+
+/** Resolves `[Client, Company]` tags to interview ids. */
+export class CitationResolver {
+  private readonly byKey = new Map<string, string>();
+  private readonly byName = new Map<string, string[]>();
+
+  constructor(interviews: InterviewMetadata[]) {
+    for (const m of interviews) {
+      this.byKey.set(normalize(`${m.client} ${m.company}`), m.id);
+      for (const name of [m.client, m.company]) {
+        const key = normalize(name);
+        if (key) this.byName.set(key, [...(this.byName.get(key) ?? []), m.id]);
+      }
+    }
+  }
+
+  /**
+   * Interview a tag names: its "Client, Company" (possibly followed by details such as the
+   * score, or cut short before a parenthesis), or a client or company unique to one interview.
+   */
+  resolve(tag: string): string | null {
+    const key = normalize(tag);
+    const exact = this.byKey.get(key);
+    if (exact) return exact;
+    for (const [fullKey, id] of this.byKey) {
+      if (key.startsWith(`${fullKey} `)) return id;
+    }
+    const shortened = [...this.byKey].filter(([fullKey]) => fullKey.startsWith(`${key} `));
+    if (shortened.length === 1) return shortened[0][1];
+    const named = [...new Set(this.byName.get(key) ?? [])];
+    return named.length === 1 ? named[0] : null;
+  }
+}
+
+export interface Span {
+  text: string;
+  index: number; // offset in the line
+  end: number;
+}
+
+export function quoteSpans(line: string): Span[] {
+  const spans: Span[] = [];
+  const block = /^\s*>\s*(.+)$/.exec(line);
+  if (block) {
+    // Blockquote lines (the exhaustive answer's snippets) are excerpts that can run across
+    // report items, so each sentence is a quote
+    let offset = line.length - block[1].length;
+    for (const sentence of block[1].split(/(?<=[.!?]["”]?)\s+(?=["“]?[A-Z])/)) {
+      const start = line.indexOf(sentence, offset);
+      offset = start + sentence.length;
+      const text = sentence.replace(/^["“]|["”]$/g, "").trim();
+      if (text.split(/\s+/).length >= MIN_QUOTE_WORDS) {
+        spans.push({ text, index: start, end: offset });
+      }
+    }
+    return spans;
+  }
+  for (const match of line.matchAll(/["“]([^"“”\n]+)["”]/g)) {
+    const text = match[1].trim();
+    if (text.split(/\s+/).length >= MIN_QUOTE_WORDS) {
+      spans.push({ text, index: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return spans;
+}
+
+export function tagSpans(line: string): Span[] {
+  const spans: Span[] = [];
+  // Markdown links "[text](url)" are not citations
+  for (const match of line.matchAll(/\[([^[\]\n]+,[^[\]\n]+)\](?!\()|\*\*([^*\n]+,[^*\n]+)\*\*/g)) {
+    const text = (match[1] ?? match[2]).trim();
+    if (normalize(text)) {
+      spans.push({ text, index: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return spans;
+}
+
+/**
+ * Citations of an answer. A quote is attributed to the first tag after it on its line,
+ * else the last tag before it; a blockquote line belongs to the last tag above it.
+ */
+export function extractCitations(
+  answer: string,
+  resolver: CitationResolver
+): { citations: AnswerCitation[]; quotes: string[] } {
+  const citations: AnswerCitation[] = [];
+  const quotes: string[] = [];
+  let lastTag: Span | null = null;
+  let lineStart = 0;
+
+  for (const line of answer.split("\n")) {
+    const tags = tagSpans(line);
+    const lineQuotes = quoteSpans(line);
+    const quoted = new Set<Span>();
+
+    for (const quote of lineQuotes) {
+      quotes.push(quote.text);
+      const isBlock = /^\s*>/.test(line);
+      const tag = isBlock
+        ? lastTag
+        : tags.find((t) => t.index > quote.index) ??
+          [...tags].reverse().find((t) => t.index < quote.index) ??
+          null;
+      if (!tag) continue;
+      quoted.add(tag);
+      citations.push({
+        interviewId: resolver.resolve(tag.text),
+        quote: quote.text,
+        end: lineStart + quote.end,
+      });
+    }
+    // An unquoted tag only names its interview
+    for (const tag of tags) {
+      if (!quoted.has(tag)) {
+        citations.push({
+          interviewId: resolver.resolve(tag.text),
+          quote: null,
+          end: lineStart + tag.end,
+        });
+      }
+    }
+    if (tags.length > 0) lastTag = tags[tags.length - 1];
+    lineStart += line.length + 1;
+  }
+  return { citations, quotes };
+}
@@ -0,0 +1,417 @@
+/**
+ * Chat evaluation against a golden question set (data/eval/chat-golden.json, or the file
+ * in KFCX_CHAT_EVAL_SET). Each question is answered on each chat path and scored:
+ *
+ * - retrieval recall: share of the expected interviews the path retrieved (for the vector
+ *   store, whose retrieval happens inside the model call, the interviews it cited)
+ * - citation accuracy: share of `[Client, Company]` tags whose quote is found in that
+ *   interview; a tag naming no interview counts as wrong
+ * - faithfulness: share of quoted passages found in some interview's text
+ * - fact recall: share of the expected facts the answer states
+ * - routing: whether the chat router sends the question where the set expects
+ *
+ * Runs are saved in the data store with the set's version and hash, the provider and the
+ * chat prompt versions, so two runs can be compared (compareChatEvalRuns).
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { getLLMProvider } from "./provider";
+import { PromptSet } from "./prompt-registry";
+import { QuoteVerifier, type QuoteSourceDocument } from "./quote-verification";
+import { CitationResolver, extractCitations, normalize } from "./answer-citations";
+import { readChatEvents } from "@/lib/utils/chat-events";
+import { streamChatResponse, streamChatResponseWithVectorStore } from "./chat";
+import { getVectorStoreIdIfReady } from "./vector-store";
+import { DEFAULT_RETRIEVAL_MODE } from "./retrieval";
+import {
+  exhaustiveSearchInterviews,
+  formatExhaustiveMatches,
+  isExhaustiveListQuery,
+} from "./exhaustive-search";
+import {
+  readEmbeddingIndex,
+  readMetadataIndex,
+  readReport,
+  readTranscript,
+  writeChatEvalRun,
+} from "@/lib/data/store";
+import type {
+  ChatEvalMetrics,
+  ChatEvalPathSummary,
+  ChatEvalQuestion,
+  ChatEvalResult,
+  ChatEvalRun,
+  ChatEvalSet,
+  ChatPath,
+  InterviewMetadata,
+  RetrievalMode,
+} from "@/types";
+
+export const CHAT_PATHS: ChatPath[] = ["exhaustive", "vector-store", "local"];
+
+export const DEFAULT_CHAT_EVAL_SET = path.join(process.cwd(), "data", "eval", "chat-golden.json");
+
+export class InvalidChatEvalSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidChatEvalSetError";
+  }
+}
+
+export interface ChatEvalOptions {
+  setPath?: string;
+  paths?: ChatPath[];
+  questionIds?: string[];
+  mode?: RetrievalMode; // retrieval of the local path
+}
+
+/** The golden set and the hash of its content, which identifies comparable runs. */
+export async function loadChatEvalSet(
+  setPath: string = process.env.KFCX_CHAT_EVAL_SET?.trim() || DEFAULT_CHAT_EVAL_SET
+): Promise<{ set: ChatEvalSet; hash: string }> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(setPath, "utf-8");
+  } catch {
+    throw new InvalidChatEvalSetError(`Chat evaluation set not found: ${setPath}`);
+  }
+
+  let set: ChatEvalSet;
+  try {
+    set = JSON.parse(raw) as ChatEvalSet;
+  } catch {
+    throw new InvalidChatEvalSetError(`${setPath} is not valid JSON.`);
+  }
+  if (typeof set?.version !== "string" || !Array.isArray(set.questions)) {
+    throw new InvalidChatEvalSetError(`${setPath} needs a "version" and a "questions" array.`);
+  }
+  const ids = new Set<string>();
+  for (const q of set.questions) {
+    if (typeof q?.id !== "string" || typeof q.question !== "string" || !q.question.trim()) {
+      throw new InvalidChatEvalSetError(`Every question needs an "id" and a "question".`);
+    }
+    if (ids.has(q.id)) throw new InvalidChatEvalSetError(`Duplicate question id ${q.id}.`);
+    ids.add(q.id);
+    if (!Array.isArray(q.expectedInterviews) || !Array.isArray(q.expectedFacts)) {
+      throw new InvalidChatEvalSetError(
+        `Question ${q.id} needs "expectedInterviews" and "expectedFacts" arrays.`
+      );
+    }
+    const unknownPath = q.paths?.find((p) => !CHAT_PATHS.includes(p));
+    if (unknownPath) {
+      throw new InvalidChatEvalSetError(`Question ${q.id} has an unknown path "${unknownPath}".`);
+    }
+  }
+
+  const hash = crypto.createHash("sha256").update(raw).digest("hex").slice(0, 12);
+  return { set, hash };
+}
+
+// --- Answering ---
+
+interface PathAnswer {
+  answer: string;
+  retrievedInterviewIds: string[] | null; // null: take the cited interviews
+  error?: string;
+}
+
+/** Concatenated deltas of a chat SSE stream, and its error event if any. */
+export async function readChatStream(
+  stream: ReadableStream
+): Promise<{ content: string; error?: string }> {
+  let content = "";
+  let error: string | undefined;
+  for await (const event of readChatEvents(stream)) {
+    if (event.event === "delta") content += event.data.text;
+    else if (event.event === "error") error = event.data.message;
+  }
+  return { content, ...(error ? { error } : {}) };
+}
+
+async function answerOnPath(
+  chatPath: ChatPath,
+  question: string,
+  vectorStoreId: string | null,
+  mode: RetrievalMode
+): Promise<PathAnswer> {
+  const messages = [{ role: "user" as const, content: question }];
+
+  if (chatPath === "exhaustive") {
+    const matches = await exhaustiveSearchInterviews(question);
+    return {
+      answer: formatExhaustiveMatches(question, matches),
+      retrievedInterviewIds: matches.map((m) => m.interview.id),
+    };
+  }
+
+  if (chatPath === "vector-store") {
+    const { content, error } = await readChatStream(
+      await streamChatResponseWithVectorStore(messages, vectorStoreId!)
+    );
+    return { answer: content, retrievedInterviewIds: null, error };
+  }
+
+  let retrieved: string[] = [];
+  const stream = await streamChatResponse(messages, undefined, {
+    mode,
+    onRetrieved: (chunks) => {
+      retrieved = [...new Set(chunks.map((c) => c.interviewId))];
+    },
+  });
+  const { content, error } = await readChatStream(stream);
+  return { answer: content, retrievedInterviewIds: retrieved, error };
+}
+
+// --- Scoring ---
+
+function ratio(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((part / whole) * 1000) / 1000;
+}
+
+class AnswerScorer {
+  private readonly verifier: QuoteVerifier;
+  private readonly resolver: CitationResolver;
+  private readonly interviewIds: string[];
+
+  constructor(documents: QuoteSourceDocument[]) {
+    this.verifier = new QuoteVerifier(documents);
+    this.resolver = new CitationResolver(documents.map((d) => d.metadata));
+    this.interviewIds = documents.map((d) => d.metadata.id);
+  }
+
+  private foundIn(text: string, interviewId: string): boolean {
+    const result = this.verifier.verifyQuote({ text, interviewId });
+    return result?.interviewId === interviewId && result.verification !== "unverified";
+  }
+
+  /** Whether a quote is in any interview, trying the likely ones first. */
+  private grounded(text: string, likely: string[]): boolean {
+    const order = [...new Set([...likely, ...this.interviewIds])];
+    return order.some((id) => this.foundIn(text, id));
+  }
+
+  score(
+    question: ChatEvalQuestion,
+    answer: PathAnswer
+  ): Pick<ChatEvalResult, "retrievedInterviewIds" | "citedInterviewIds" | "metrics"> {
+    const { citations, quotes } = extractCitations(answer.answer, this.resolver);
+    const citedInterviewIds = [
+      ...new Set(citations.map((c) => c.interviewId).filter((id): id is string => !!id)),
+    ];
+    const retrievedInterviewIds = answer.retrievedInterviewIds ?? citedInterviewIds;
+
+    const scored = citations.filter((c) => c.quote !== null || c.interviewId === null);
+    const correctCitations = scored.filter(
+      (c) => c.interviewId !== null && this.foundIn(c.quote!, c.interviewId)
+    ).length;
+    const groundedQuotes = quotes.filter((q) =>
+      this.grounded(q, [...citedInterviewIds, ...retrievedInterviewIds])
+    ).length;
+
+    const normalizedAnswer = ` ${normalize(answer.answer)} `;
+    const stated = question.expectedFacts.filter((fact) =>
+      (Array.isArray(fact) ? fact : [fact]).some((phrasing) =>
+        normalizedAnswer.includes(` ${normalize(phrasing)} `)
+      )
+    ).length;
+
+    const metrics: ChatEvalMetrics = {
+      retrievalRecall: ratio(
+        question.expectedInterviews.filter((id) => retrievedInterviewIds.includes(id)).length,
+        question.expectedInterviews.length
+      ),
+      citations: scored.length,
+      correctCitations,
+      citationAccuracy: ratio(correctCitations, scored.length),
+      quotes: quotes.length,
+      groundedQuotes,
+      faithfulness: ratio(groundedQuotes, quotes.length),
+      factRecall: ratio(stated, question.expectedFacts.length),
+      routedCorrectly: question.expectedRoute
+        ? isExhaustiveListQuery(question.question) === (question.expectedRoute === "exhaustive")
+        : null,
+    };
+    return { retrievedInterviewIds, citedInterviewIds, metrics };
+  }
+}
+
+async function loadQuoteSources(): Promise<QuoteSourceDocument[]> {
+  const index = await readMetadataIndex();
+  const documents: QuoteSourceDocument[] = [];
+  for (const metadata of index.interviews) {
+    documents.push({
+      metadata,
+      report: metadata.hasReport ? await readReport(metadata.id) : null,
+      transcript: metadata.hasTranscript ? await readTranscript(metadata.id) : null,
+    });
+  }
+  return documents;
+}
+
+// --- Runs ---
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+  return Math.round((present.reduce((a, b) => a + b, 0) / present.length) * 1000) / 1000;
+}
+
+function summarizePath(
+  chatPath: ChatPath,
+  results: ChatEvalResult[],
+  skipped: string | null
+): ChatEvalPathSummary {
+  const answered = results.filter((r) => !r.error);
+  const routed = results
+    .map((r) => r.metrics.routedCorrectly)
+    .filter((v): v is boolean => v !== null);
+  return {
+    path: chatPath,
+    questions: results.length,
+    errors: results.length - answered.length,
+    skipped,
+    retrievalRecall: mean(answered.map((r) => r.metrics.retrievalRecall)),
+    citationAccuracy: mean(answered.map((r) => r.metrics.citationAccuracy)),
+    faithfulness: mean(answered.map((r) => r.metrics.faithfulness)),
+    factRecall: mean(answered.map((r) => r.metrics.factRecall)),
+    routerAccuracy: routed.length > 0 ? ratio(routed.filter(Boolean).length, routed.length) : null,
+    meanLatencyMs: mean(answered.map((r) => r.latencyMs)),
+  };
+}
+
+/** Why a path cannot run here, or null when it can. */
+async function unavailableReason(
+  chatPath: ChatPath,
+  vectorStoreId: string | null
+): Promise<string | null> {
+  if (chatPath === "vector-store" && !vectorStoreId) {
+    return "No synced vector store (the provider has no hosted retrieval, or reindex has not run).";
+  }
+  if (chatPath === "local") {
+    const index = await readEmbeddingIndex();
+    if (!index || index.chunks.length === 0) return "No embedding index; run reindex first.";
+  }
+  return null;
+}
+
+/** Answer and score the golden set on each path, then save the run. */
+export async function runChatEval(options: ChatEvalOptions = {}): Promise<ChatEvalRun> {
+  const startedAt = new Date().toISOString();
+  const { set, hash } = await loadChatEvalSet(options.setPath);
+  const mode = options.mode ?? DEFAULT_RETRIEVAL_MODE;
+
+  const unknown = (options.questionIds ?? []).filter(
+    (id) => !set.questions.some((q) => q.id === id)
+  );
+  if (unknown.length > 0) {
+    throw new InvalidChatEvalSetError(`Unknown question id(s): ${unknown.join(", ")}`);
+  }
+  const questions = options.questionIds
+    ? set.questions.filter((q) => options.questionIds!.includes(q.id))
+    : set.questions;
+
+  const scorer = new AnswerScorer(await loadQuoteSources());
+  const vectorStoreId = await getVectorStoreIdIfReady();
+  const results: ChatEvalResult[] = [];
+  const summary: ChatEvalPathSummary[] = [];
+
+  for (const chatPath of options.paths ?? CHAT_PATHS) {
+    const skipped = await unavailableReason(chatPath, vectorStoreId);
+    const pathResults: ChatEvalResult[] = [];
+    if (!skipped) {
+      // One question at a time: latency is part of the report
+      for (const question of questions.filter((q) => !q.paths || q.paths.includes(chatPath))) {
+        const start = Date.now();
+        let answer: PathAnswer;
+        try {
+          answer = await answerOnPath(chatPath, question.question, vectorStoreId, mode);
+        } catch (error) {
+          answer = {
+            answer: "",
+            retrievedInterviewIds: [],
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+        const latencyMs = Date.now() - start;
+        pathResults.push({
+          questionId: question.id,
+          path: chatPath,
+          answer: answer.answer,
+          ...scorer.score(question, answer),
+          latencyMs,
+          ...(answer.error ? { error: answer.error } : {}),
+        });
+      }
+    }
+    results.push(...pathResults);
+    summary.push(summarizePath(chatPath, pathResults, skipped));
+  }
+
+  const provider = getLLMProvider();
+  const prompts = new PromptSet();
+  const run: ChatEvalRun = {
+    id: startedAt.replace(/[:.]/g, "-"),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    evalSet: { version: set.version, hash, questions: questions.length },
+    provider: provider.name,
+    model: provider.chatModel,
+    embeddingModel: provider.embeddingModel,
+    retrievalMode: mode,
+    prompts: [prompts.ref("chat-context"), prompts.ref("chat-file-search")],
+    summary,
+    results,
+  };
+  await writeChatEvalRun(run);
+  return run;
+}
+
+// --- Comparison ---
+
+const COMPARED_METRICS = [
+  "retrievalRecall",
+  "citationAccuracy",
+  "faithfulness",
+  "factRecall",
+  "routerAccuracy",
+  "meanLatencyMs",
+] as const;
+
+export type ChatEvalMetricName = (typeof COMPARED_METRICS)[number];
+
+export interface ChatEvalComparison {
+  base: string; // run ids
+  run: string;
+  sameEvalSet: boolean; // false: the set changed, so differences may not be the system's
+  paths: {
+    path: ChatPath;
+    deltas: Partial<Record<ChatEvalMetricName, number>>; // run minus base
+  }[];
+}
+
+/** Per-path metric differences between two runs (paths both runs answered). */
+export function compareChatEvalRuns(
+  base: Pick<ChatEvalRun, "id" | "evalSet" | "summary">,
+  run: Pick<ChatEvalRun, "id" | "evalSet" | "summary">
+): ChatEvalComparison {
+  const paths: ChatEvalComparison["paths"] = [];
+  for (const current of run.summary) {
+    const previous = base.summary.find((s) => s.path === current.path);
+    if (!previous || previous.skipped || current.skipped) continue;
+    const deltas: Partial<Record<ChatEvalMetricName, number>> = {};
+    for (const metric of COMPARED_METRICS) {
+      const a = previous[metric];
+      const b = current[metric];
+      if (a !== null && b !== null) deltas[metric] = Math.round((b - a) * 1000) / 1000;
+    }
+    paths.push({ path: current.path, deltas });
+  }
+  return {
+    base: base.id,
+    run: run.id,
+    sameEvalSet: base.evalSet.hash === run.evalSet.hash,
+    paths,
+  };
+}
@@ -1,44 +1,174 @@
-import { getOpenAIClient, CHAT_MODEL } from "./openai";
-import { FILE_SEARCH_INSTRUCTIONS } from "./vector-store";
-import { generateEmbedding, searchSimilar } from "./embeddings";
-import { readMetadataIndex } from "@/lib/data/store";
-import type { ChatMessage, EmbeddingChunk, InterviewMetadata } from "@/types";
+import { getLLMProvider, type CompletionEvent } from "./provider";
+import { PromptSet } from "./prompt-registry";
+import { retrieveChunks } from "./retrieval";
+import { CitationResolver, extractCitations, normalize, quoteSpans } from "./answer-citations";
+import { QuoteVerifier, type QuoteSourceDocument } from "./quote-verification";
+import { interviewIdFromFileName, vectorStoreFileInterviews } from "./vector-store";
+import { readMetadataIndex, readReport, readTranscript } from "@/lib/data/store";
+import { formatChatEvent } from "@/lib/utils/chat-events";
+import { quoteAnchorId } from "@/lib/utils/quotes";
+import type {
+  ChatCitation,
+  ChatMessage,
+  ChatSource,
+  ChatStreamEvent,
+  EmbeddingChunk,
+  InterviewMetadata,
+  RetrievalMode,
+} from "@/types";
 
-/** Stream a static response (deterministic, no model call). */
-export function streamStaticResponse(
-  text: string,
-  sources?: string[]
+type SendEvent = (event: ChatStreamEvent) => void;
+
+/**
+ * SSE stream of the events `run` sends, followed by `done`. If `run` throws, an `error`
+ * event (with `errorMessage`'s text) ends the stream instead.
+ */
+function chatEventStream(
+  run: (send: SendEvent) => Promise<void>,
+  errorMessage: (error: unknown) => string
 ): ReadableStream {
   const encoder = new TextEncoder();
   return new ReadableStream({
-    start(controller) {
-      controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ content: text })}\n\n`)
-      );
-      if (sources && sources.length > 0) {
-        controller.enqueue(
-          encoder.encode(
-            `data: ${JSON.stringify({ sources, done: true })}\n\n`
-          )
-        );
-      } else {
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ done: true })}\n\n`)
-        );
+    async start(controller) {
+      const send: SendEvent = (event) =>
+        controller.enqueue(encoder.encode(formatChatEvent(event)));
+      try {
+        await run(send);
+        send({ event: "done", data: {} });
+      } catch (error) {
+        send({ event: "error", data: { message: errorMessage(error) } });
       }
       controller.close();
     },
   });
 }
 
-/** Stream chat using Responses API with file_search (vector store). Preferred when vector store is synced. */
+function sourceLabel(interview: InterviewMetadata): string {
+  return `${interview.client}, ${interview.company} (NPS: ${interview.score})`;
+}
+
+function chunkAnchor(interviewId: string, chunk: EmbeddingChunk | undefined): string {
+  return chunk?.turnStart !== undefined ? `${interviewId}#turn-${chunk.turnStart}` : interviewId;
+}
+
+/**
+ * Places answers link to: the quoted transcript turn or report item when the quote is
+ * found in the interview, checked with the QuoteVerifier used for theme quotes. Documents
+ * are loaded once per interview.
+ */
+class QuoteLocator {
+  private readonly documents = new Map<string, Promise<QuoteSourceDocument>>();
+
+  constructor(private readonly interviewMap: Map<string, InterviewMetadata>) {}
+
+  private document(metadata: InterviewMetadata): Promise<QuoteSourceDocument> {
+    let doc = this.documents.get(metadata.id);
+    if (!doc) {
+      doc = Promise.all([readTranscript(metadata.id), readReport(metadata.id)]).then(
+        ([transcript, report]) => ({ metadata, transcript, report })
+      );
+      this.documents.set(metadata.id, doc);
+    }
+    return doc;
+  }
+
+  /** "t-006#turn-12" for the passage quoted, or null when it is not in the interview. */
+  async anchor(interviewId: string, quote: string): Promise<string | null> {
+    const metadata = this.interviewMap.get(interviewId);
+    if (!metadata) return null;
+    const verifier = new QuoteVerifier([await this.document(metadata)]);
+    const verified = verifier.verifyQuote({ text: quote, interviewId });
+    return verified?.location ? `${interviewId}#${quoteAnchorId(verified.location)}` : null;
+  }
+}
+
+/**
+ * Citation events for a finished answer: each `[Client, Company]` tag and the quotes
+ * attributed to it. The chunk is the retrieved chunk of that interview containing the
+ * quote, else its best-ranked one. Without a located quote, the citation links to that
+ * chunk: its first turn, or the report item it is.
+ */
+async function citeAnswer(
+  answer: string,
+  chunks: EmbeddingChunk[],
+  interviewMap: Map<string, InterviewMetadata>
+): Promise<ChatCitation[]> {
+  const { citations } = extractCitations(answer, new CitationResolver([...interviewMap.values()]));
+  const locator = new QuoteLocator(interviewMap);
+  const results: ChatCitation[] = [];
+  for (const { interviewId, quote, end } of citations) {
+    if (!interviewId) continue;
+    const own = chunks.filter((c) => c.interviewId === interviewId);
+    const quoted = quote ? normalize(quote) : null;
+    const chunk = (quoted && own.find((c) => normalize(c.text).includes(quoted))) || own[0];
+    const located =
+      (quote && (await locator.anchor(interviewId, quote))) ||
+      (chunk?.source === "report" ? await locator.anchor(interviewId, chunk.text) : null);
+    results.push({
+      interviewId,
+      chunkId: chunk?.id ?? null,
+      section: chunk?.sectionType ?? null,
+      quote,
+      anchor: located ?? chunkAnchor(interviewId, chunk),
+      offset: end,
+    });
+  }
+  return results;
+}
+
+/** The last quoted span on the answer line that ends at `index`, if any. */
+function quoteBefore(text: string, index: number): string | null {
+  const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+  const spans = quoteSpans(text.slice(lineStart, index));
+  return spans.length > 0 ? spans[spans.length - 1].text : null;
+}
+
+/**
+ * Stream a static response (deterministic, no model call). Each cited interview is a
+ * source, and a citation of the excerpt `quote` of it that the text includes.
+ */
+export function streamStaticResponse(
+  text: string,
+  cited: { interview: InterviewMetadata; quote: string | null }[] = []
+): ReadableStream {
+  return chatEventStream(
+    async (send) => {
+      const locator = new QuoteLocator(new Map(cited.map((c) => [c.interview.id, c.interview])));
+      send({ event: "delta", data: { text } });
+      const citations: ChatCitation[] = [];
+      for (const { interview, quote } of cited) {
+        const anchor = (quote && (await locator.anchor(interview.id, quote))) || interview.id;
+        send({
+          event: "source",
+          data: { interviewId: interview.id, label: sourceLabel(interview), anchor },
+        });
+        const at = quote ? text.indexOf(quote) : -1;
+        if (at >= 0) {
+          citations.push({
+            interviewId: interview.id,
+            chunkId: null,
+            section: null,
+            quote,
+            anchor,
+            offset: at + quote!.length,
+          });
+        }
+      }
+      for (const citation of citations) send({ event: "citation", data: citation });
+    },
+    () => "An error occurred while generating the response."
+  );
+}
+
+/**
+ * Stream chat using Responses API with file_search (vector store). Preferred when vector
+ * store is synced. Each file the model cites becomes a citation, with the quote the
+ * answer gives just before it, and its interview a source.
+ */
 export async function streamChatResponseWithVectorStore(
   messages: ChatMessage[],
   vectorStoreId: string
 ): Promise<ReadableStream> {
-  const openai = getOpenAIClient();
-  const encoder = new TextEncoder();
-
   const inputItems = messages
     .filter((m) => m.content?.trim())
     .map((m) => ({
@@ -46,49 +176,84 @@ export async function streamChatResponseWithVectorStore(
       content: m.content!,
     }));
 
-  const stream = await openai.responses.create({
-    model: CHAT_MODEL,
-    instructions: FILE_SEARCH_INSTRUCTIONS,
+  const metadata = await readMetadataIndex();
+  const interviewMap = new Map(metadata.interviews.map((i) => [i.id, i]));
+  const fileInterviews = await vectorStoreFileInterviews();
+  const locator = new QuoteLocator(interviewMap);
+
+  const pending: CompletionEvent[] = [];
+  const instructions = new PromptSet().render("chat-file-search");
+  const deltas = getLLMProvider().streamCompletion({
+    task: "chat",
+    instructions: instructions.text,
     input: inputItems,
-    tools: [{ type: "file_search", vector_store_ids: [vectorStoreId] }],
-    stream: true,
-    temperature: 0.3,
+    vectorStoreIds: [vectorStoreId],
+    temperature: instructions.temperature,
+    onEvent: (event) => pending.push(event),
   });
 
-  return new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const event of stream as AsyncIterable<{ type: string; delta?: string }>) {
-          if (event.type === "response.output_text.delta" && event.delta) {
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ content: event.delta })}\n\n`)
-            );
+  return chatEventStream(
+    async (send) => {
+      let answer = "";
+      const cited = new Set<string>();
+      const sources = new Set<string>();
+
+      const flush = async () => {
+        for (const event of pending.splice(0)) {
+          if (event.type === "file_search") {
+            send({
+              event: "status",
+              data: {
+                tool: "file_search",
+                state: event.state,
+                message:
+                  event.state === "searching" ? "Searching interview files" : "File search complete",
+              },
+            });
+            continue;
+          }
+          const interviewId =
+            fileInterviews.get(event.fileId) ??
+            (event.filename ? interviewIdFromFileName(event.filename) : null);
+          const interview = interviewId ? interviewMap.get(interviewId) : undefined;
+          if (!interview || cited.has(`${event.fileId}:${event.index}`)) continue;
+          cited.add(`${event.fileId}:${event.index}`);
+
+          const quote = quoteBefore(answer, event.index);
+          const anchor = (quote && (await locator.anchor(interview.id, quote))) || interview.id;
+          if (!sources.has(interview.id)) {
+            sources.add(interview.id);
+            send({
+              event: "source",
+              data: { interviewId: interview.id, label: sourceLabel(interview), anchor },
+            });
           }
+          send({
+            event: "citation",
+            data: {
+              interviewId: interview.id,
+              chunkId: null,
+              section: null,
+              quote,
+              anchor,
+              offset: event.index,
+            },
+          });
         }
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ done: true })}\n\n`)
-        );
-      } catch (error) {
-        controller.enqueue(
-          encoder.encode(
-            `data: ${JSON.stringify({
-              error:
-                error instanceof Error
-                  ? error.message
-                  : "An error occurred while generating the response.",
-            })}\n\n`
-          )
-        );
+      };
+
+      for await (const delta of deltas) {
+        answer += delta;
+        send({ event: "delta", data: { text: delta } });
+        await flush();
       }
-      controller.close();
+      await flush();
     },
-  });
+    (error) =>
+      error instanceof Error ? error.message : "An error occurred while generating the response."
+  );
 }
 
-const SYSTEM_PROMPT = `You are the KFCX NPS Interview Insight Assistant for Korn Ferry. Answer only using the CONTEXT below from Korn Ferry's Customer Centricity NPS interviews.
-
-RULES: (1) Base answers only on CONTEXT; if information is missing, say so. (2) Cite sources as [Client Name, Company]. (3) Use direct quotes in quotation marks where relevant. (4) For NPS, state Promoter (9-10), Passive (7-8), or Detractor (0-6). (5) Synthesise across interviews when asked about themes or trends. (6) Be specific and actionable. (7) Format in Markdown: **bold** for key terms, bullet or numbered lists for multiple points, > blockquotes for citations, and ##/### headings to structure longer answers.`;
-
 function buildContext(
   chunks: (EmbeddingChunk & { score: number })[],
   interviewMap: Map<string, InterviewMetadata>
@@ -109,91 +274,101 @@ function buildContext(
   return contextParts.join("\n\n");
 }
 
-/** Stream chat using Responses API with in-context RAG (legacy path when no vector store). */
+/**
+ * One source per interview, in retrieval order. The anchor points at the first turn of
+ * the interview's best-ranked dialogue chunk, so the detail page opens scrolled to it.
+ */
+function buildSources(
+  chunks: EmbeddingChunk[],
+  interviewMap: Map<string, InterviewMetadata>
+): ChatSource[] {
+  const sources = new Map<string, ChatSource>();
+  for (const chunk of chunks) {
+    const interview = interviewMap.get(chunk.interviewId);
+    if (!interview) continue;
+    let source = sources.get(interview.id);
+    if (!source) {
+      source = {
+        interviewId: interview.id,
+        label: sourceLabel(interview),
+        anchor: interview.id,
+      };
+      sources.set(interview.id, source);
+    }
+    if (source.anchor === interview.id && chunk.turnStart !== undefined) {
+      source.anchor = chunkAnchor(interview.id, chunk);
+    }
+  }
+  return [...sources.values()];
+}
+
+/**
+ * Stream chat using Responses API with in-context RAG (legacy path when no vector store).
+ * `mode` picks the retrieval ranking (default hybrid, see retrieval.ts); `onRetrieved`
+ * receives the chunks put in the context (used by the chat evaluation). Sources are sent
+ * before the answer, citations once it is complete.
+ */
 export async function streamChatResponse(
   messages: ChatMessage[],
   filters?: {
     region?: string;
     solution?: string;
     npsCategory?: string;
-  }
+  },
+  options: {
+    mode?: RetrievalMode;
+    onRetrieved?: (chunks: EmbeddingChunk[]) => void;
+  } = {}
 ): Promise<ReadableStream> {
-  const openai = getOpenAIClient();
-
   const latestMessage = messages[messages.length - 1].content;
-  const queryEmbedding = await generateEmbedding(latestMessage);
-  const relevantChunks = await searchSimilar(queryEmbedding, 25, filters);
+  const relevantChunks = await retrieveChunks(latestMessage, {
+    mode: options.mode,
+    topK: 25,
+    filters,
+  });
+  options.onRetrieved?.(relevantChunks);
 
   const metadata = await readMetadataIndex();
   const interviewMap = new Map(metadata.interviews.map((i) => [i.id, i]));
   const context = buildContext(relevantChunks, interviewMap);
+  const sources = buildSources(relevantChunks, interviewMap);
 
-  const sourceInterviews = new Set(
-    relevantChunks.map((c) => c.interviewId)
-  );
-  const sourceRefs = Array.from(sourceInterviews)
-    .map((id) => {
-      const interview = interviewMap.get(id);
-      return interview
-        ? `- ${interview.client}, ${interview.company} (NPS: ${interview.score})`
-        : null;
-    })
-    .filter(Boolean);
-
+  const prompt = new PromptSet().render("chat-context", { context });
   const inputItems = [
-    { role: "user" as const, content: `${SYSTEM_PROMPT}\n\nCONTEXT:\n${context}` },
+    { role: "user" as const, content: prompt.text },
     ...messages.slice(-16).map((m) => ({
       role: m.role as "user" | "assistant",
       content: m.content,
     })),
   ];
 
-  const stream = await openai.responses.create({
-    model: CHAT_MODEL,
+  const deltas = getLLMProvider().streamCompletion({
+    task: "chat",
     input: inputItems,
-    stream: true,
-    temperature: 0.3,
+    temperature: prompt.temperature,
   });
 
-  const encoder = new TextEncoder();
+  return chatEventStream(
+    async (send) => {
+      send({
+        event: "status",
+        data: {
+          tool: "retrieval",
+          state: "completed",
+          message: `Found ${relevantChunks.length} passages in ${sources.length} interviews`,
+        },
+      });
+      for (const source of sources) send({ event: "source", data: source });
 
-  return new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const event of stream as AsyncIterable<{ type: string; delta?: string }>) {
-          if (event.type === "response.output_text.delta" && event.delta) {
-            controller.enqueue(
-              encoder.encode(`data: ${JSON.stringify({ content: event.delta })}\n\n`)
-            );
-          }
-        }
-
-        if (sourceRefs.length > 0) {
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                sources: sourceRefs,
-                done: true,
-              })}\n\n`
-            )
-          );
-        } else {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ done: true })}\n\n`)
-          );
-        }
-
-        controller.close();
-      } catch (error) {
-        controller.enqueue(
-          encoder.encode(
-            `data: ${JSON.stringify({
-              error: "An error occurred while generating the response.",
-            })}\n\n`
-          )
-        );
-        controller.close();
+      let answer = "";
+      for await (const delta of deltas) {
+        answer += delta;
+        send({ event: "delta", data: { text: delta } });
       }
+
+      const citations = await citeAnswer(answer, relevantChunks, interviewMap);
+      for (const citation of citations) send({ event: "citation", data: citation });
     },
-  });
+    () => "An error occurred while generating the response."
+  );
 }
@@ -1,4 +1,6 @@
-import { getOpenAIClient } from "./openai";
+import { getLLMProvider } from "./provider";
+import { updateLexicalIndex } from "./lexical-index";
+import { packVectors } from "@/lib/data/embedding-format";
 import {
   readMetadataIndex,
   readTranscript,
@@ -6,22 +8,20 @@ import {
   readEmbeddingIndex,
   writeEmbeddingIndex,
 } from "@/lib/data/store";
+import { formatTurnLine, normalizeSpeaker } from "@/lib/data/transcript-formats";
 import type {
   EmbeddingIndex,
   EmbeddingChunk,
+  InterviewMetadata,
   NormalizedTranscript,
   NormalizedReport,
+  TranscriptTurn,
 } from "@/types";
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
-
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const openai = getOpenAIClient();
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text.substring(0, 8000), // limit input length
-  });
-  return response.data[0].embedding;
+/** `task` names the call site for usage accounting, e.g. "chat-query". */
+export async function generateEmbedding(text: string, task: string): Promise<number[]> {
+  const [embedding] = await getLLMProvider().embed([text.substring(0, 8000)], task); // limit input length
+  return embedding;
 }
 
 const EMBEDDING_BATCH_SIZE = 20;
@@ -29,9 +29,10 @@ const EMBEDDING_BATCH_SIZE = 20;
 const EMBEDDING_PARALLEL_BATCHES = 4;
 
 export async function generateEmbeddings(
-  texts: string[]
+  texts: string[],
+  task: string
 ): Promise<number[][]> {
-  const openai = getOpenAIClient();
+  const provider = getLLMProvider();
   const allEmbeddings: number[][] = [];
   const step = EMBEDDING_BATCH_SIZE * EMBEDDING_PARALLEL_BATCHES;
 
@@ -47,11 +48,7 @@ export async function generateEmbeddings(
         .slice(start, start + EMBEDDING_BATCH_SIZE)
         .map((t) => t.substring(0, 8000));
       if (batch.length === 0) continue;
-      batchPromises.push(
-        openai.embeddings
-          .create({ model: EMBEDDING_MODEL, input: batch })
-          .then((r) => r.data.map((d) => d.embedding))
-      );
+      batchPromises.push(provider.embed(batch, task));
     }
     const results = await Promise.all(batchPromises);
     for (const emb of results) allEmbeddings.push(...emb);
@@ -60,11 +57,75 @@ export async function generateEmbeddings(
   return allEmbeddings;
 }
 
+/**
+ * Version of the chunking below, stored on the index. An index chunked differently is
+ * rebuilt in full, like one from another embedding model.
+ * 2: dialogue windows cut at speaker turns, with turn ranges, plus client-only windows.
+ */
+export const CHUNKING_VERSION = 2;
+
+/** Whether `index` can be extended incrementally with chunks embedded now. */
+export function isReusableIndex(index: EmbeddingIndex | null): index is EmbeddingIndex {
+  return (
+    index !== null &&
+    index.model === getLLMProvider().embeddingModel &&
+    index.chunking === CHUNKING_VERSION
+  );
+}
+
+const WINDOW_WORDS = 500;
+const OVERLAP_WORDS = 100;
+
+type TranscriptChunk = Pick<EmbeddingChunk, "id" | "text" | "sectionType" | "turnStart" | "turnEnd">;
+
+/**
+ * Group turns (by index, in order) into windows of about WINDOW_WORDS, cut only between
+ * turns. Each window repeats the last turns of the one before, up to OVERLAP_WORDS. A
+ * turn longer than a window gets a window of its own.
+ */
+function turnWindows(turnIndexes: number[], words: number[]): number[][] {
+  const windows: number[][] = [];
+  let current: number[] = [];
+  let count = 0;
+  for (const i of turnIndexes) {
+    if (count + words[i] > WINDOW_WORDS && current.length > 0) {
+      windows.push(current);
+      const overlap: number[] = [];
+      let overlapCount = 0;
+      for (let j = current.length - 1; j > 0; j--) {
+        if (overlapCount + words[current[j]] > OVERLAP_WORDS) break;
+        overlap.unshift(current[j]);
+        overlapCount += words[current[j]];
+      }
+      current = overlap;
+      count = overlapCount;
+    }
+    current.push(i);
+    count += words[i];
+  }
+  if (current.length > 0) windows.push(current);
+  return windows;
+}
+
+/**
+ * Indexes of the turns spoken by the client. Transcripts with an "Interviewer" speaker:
+ * every other speaker. Exports with real names: the speaker named like the client. With
+ * only "Speaker 1" / "Speaker 2" labels the client can't be told apart, so none.
+ */
+function clientTurnIndexes(turns: TranscriptTurn[], client: string): number[] {
+  const speakers = turns.map((t) => normalizeSpeaker(t.speaker).toLowerCase());
+  const isClient = speakers.includes("interviewer")
+    ? (speaker: string) => speaker !== "interviewer"
+    : (speaker: string) => client.trim() !== "" && speaker === client.trim().toLowerCase();
+  return speakers.flatMap((speaker, i) => (isClient(speaker) ? [i] : []));
+}
+
 function chunkTranscript(
   transcript: NormalizedTranscript,
-  interviewId: string
-): { id: string; text: string; sectionType: string }[] {
-  const chunks: { id: string; text: string; sectionType: string }[] = [];
+  interviewId: string,
+  client: string
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
   let idx = 0;
 
   // Overview chunk
@@ -88,37 +149,25 @@ function chunkTranscript(
     }
   }
 
-  // Transcript windowed chunks (~500 words per chunk)
+  // Dialogue windows over all turns, then over the client's turns only, so answers about
+  // what the client said are not diluted by the interviewer's questions
   if (transcript.fullTranscript.length > 0) {
-    const turns = transcript.fullTranscript;
-    let currentChunk = "";
-    let wordCount = 0;
-
-    for (const turn of turns) {
-      const turnText = `${turn.speaker}: ${turn.text}`;
-      const turnWords = turnText.split(/\s+/).length;
-
-      if (wordCount + turnWords > 500 && currentChunk) {
-        chunks.push({
-          id: `${interviewId}-tc-${idx++}`,
-          text: currentChunk.trim(),
-          sectionType: "transcript_segment",
-        });
-        // Keep overlap: last 100 words
-        const words = currentChunk.split(/\s+/);
-        currentChunk = words.slice(-100).join(" ") + "\n" + turnText;
-        wordCount = 100 + turnWords;
-      } else {
-        currentChunk += "\n" + turnText;
-        wordCount += turnWords;
-      }
-    }
-
-    if (currentChunk.trim()) {
+    const lines = transcript.fullTranscript.map(formatTurnLine);
+    const words = lines.map((line) => line.split(/\s+/).length);
+    const windows = [
+      ...turnWindows([...lines.keys()], words).map((w) => ({ w, type: "transcript_segment" })),
+      ...turnWindows(clientTurnIndexes(transcript.fullTranscript, client), words).map((w) => ({
+        w,
+        type: "client_turns",
+      })),
+    ];
+    for (const { w, type } of windows) {
       chunks.push({
         id: `${interviewId}-tc-${idx++}`,
-        text: currentChunk.trim(),
-        sectionType: "transcript_segment",
+        text: w.map((i) => lines[i]).join("\n"),
+        sectionType: type,
+        turnStart: w[0],
+        turnEnd: w[w.length - 1],
       });
     }
   } else if (transcript.rawText) {
@@ -186,66 +235,103 @@ function chunkReport(
   return chunks;
 }
 
-export async function buildEmbeddingIndex(): Promise<EmbeddingIndex> {
+async function chunkInterview(interview: InterviewMetadata): Promise<EmbeddingChunk[]> {
+  const chunks: EmbeddingChunk[] = [];
+
+  if (interview.hasTranscript) {
+    const transcript = await readTranscript(interview.id);
+    if (transcript) {
+      const tChunks = chunkTranscript(transcript, interview.id, interview.client);
+      chunks.push(
+        ...tChunks.map((c) => ({
+          id: c.id,
+          interviewId: interview.id,
+          source: "transcript" as const,
+          sectionType: c.sectionType,
+          text: c.text,
+          turnStart: c.turnStart,
+          turnEnd: c.turnEnd,
+        }))
+      );
+    }
+  }
+
+  if (interview.hasReport) {
+    const report = await readReport(interview.id);
+    if (report) {
+      const rChunks = chunkReport(report, interview.id);
+      chunks.push(
+        ...rChunks.map((c) => ({
+          id: c.id,
+          interviewId: interview.id,
+          source: "report" as const,
+          sectionType: c.sectionType,
+          text: c.text,
+        }))
+      );
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Build (or update) the local embedding index.
+ * With `interviewIds`, only those interviews are re-chunked and re-embedded; chunks for
+ * other interviews still in the metadata index are reused, and chunks for removed
+ * interviews are dropped. Without it (or with no existing index) everything is rebuilt.
+ */
+export async function buildEmbeddingIndex(
+  options: { interviewIds?: string[] } = {}
+): Promise<EmbeddingIndex> {
   console.log("Building embedding index...");
   const metadata = await readMetadataIndex();
-  const allChunks: Omit<EmbeddingChunk, "embedding">[] = [];
+  const existing = options.interviewIds ? await readEmbeddingIndex() : null;
+  const model = getLLMProvider().embeddingModel;
+  const reuse = isReusableIndex(existing) ? existing : null;
+  const toEmbed = reuse
+    ? new Set(options.interviewIds)
+    : new Set(metadata.interviews.map((i) => i.id));
+
+  const liveIds = new Set(metadata.interviews.map((i) => i.id));
+  const kept = reuse
+    ? filterEmbeddingIndex(
+        reuse,
+        (c) => liveIds.has(c.interviewId) && !toEmbed.has(c.interviewId)
+      )
+    : null;
+  const keptChunks = kept?.chunks ?? [];
 
+  const allChunks: EmbeddingChunk[] = [];
   for (const interview of metadata.interviews) {
+    if (!toEmbed.has(interview.id)) continue;
     console.log(`  Chunking: ${interview.client}, ${interview.company}`);
-
-    if (interview.hasTranscript) {
-      const transcript = await readTranscript(interview.id);
-      if (transcript) {
-        const tChunks = chunkTranscript(transcript, interview.id);
-        allChunks.push(
-          ...tChunks.map((c) => ({
-            id: c.id,
-            interviewId: interview.id,
-            source: "transcript" as const,
-            sectionType: c.sectionType,
-            text: c.text,
-          }))
-        );
-      }
-    }
-
-    if (interview.hasReport) {
-      const report = await readReport(interview.id);
-      if (report) {
-        const rChunks = chunkReport(report, interview.id);
-        allChunks.push(
-          ...rChunks.map((c) => ({
-            id: c.id,
-            interviewId: interview.id,
-            source: "report" as const,
-            sectionType: c.sectionType,
-            text: c.text,
-          }))
-        );
-      }
-    }
+    allChunks.push(...(await chunkInterview(interview)));
   }
 
-  console.log(`  Total chunks: ${allChunks.length}`);
+  console.log(`  Chunks to embed: ${allChunks.length} (reused: ${keptChunks.length})`);
   console.log("  Generating embeddings...");
 
   const texts = allChunks.map((c) => c.text);
-  const embeddings = await generateEmbeddings(texts);
+  const embeddings = await generateEmbeddings(texts, "embedding-index");
+  const dimensions = kept?.dimensions ?? embeddings[0]?.length ?? 0;
 
-  const embeddingChunks: EmbeddingChunk[] = allChunks.map((chunk, i) => ({
-    ...chunk,
-    embedding: embeddings[i],
-  }));
+  const vectors = new Float32Array((keptChunks.length + allChunks.length) * dimensions);
+  if (kept) vectors.set(kept.vectors);
+  vectors.set(packVectors(embeddings, dimensions), keptChunks.length * dimensions);
 
   const index: EmbeddingIndex = {
-    model: EMBEDDING_MODEL,
+    model,
     lastUpdated: new Date().toISOString(),
-    chunks: embeddingChunks,
+    chunking: CHUNKING_VERSION,
+    dimensions,
+    chunks: [...keptChunks, ...allChunks],
+    vectors,
   };
 
   await writeEmbeddingIndex(index);
-  console.log("  Embedding index saved.");
+  await updateLexicalIndex(index);
+  console.log("  Embedding and keyword indexes saved.");
 
   return index;
 }
@@ -262,54 +348,56 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-export async function searchSimilar(
-  queryEmbedding: number[],
-  topK: number = 10,
-  filters?: {
-    region?: string;
-    solution?: string;
-    npsCategory?: string;
-    interviewIds?: string[];
-    source?: "transcript" | "report" | "both";
-  }
-): Promise<(EmbeddingChunk & { score: number })[]> {
-  const embeddingIndex = await readEmbeddingIndex();
-  if (!embeddingIndex) return [];
-
-  const metadata = await readMetadataIndex();
-  const interviewMap = new Map(metadata.interviews.map((i) => [i.id, i]));
-
-  let chunks = embeddingIndex.chunks;
-
-  // Apply metadata filters
-  if (filters) {
-    chunks = chunks.filter((chunk) => {
-      const interview = interviewMap.get(chunk.interviewId);
-      if (!interview) return false;
-      if (filters.region && interview.region !== filters.region) return false;
-      if (filters.solution && interview.solution !== filters.solution)
-        return false;
-      if (filters.npsCategory && interview.npsCategory !== filters.npsCategory)
-        return false;
-      if (
-        filters.interviewIds &&
-        !filters.interviewIds.includes(chunk.interviewId)
-      )
-        return false;
-      // Source filter: "both" or undefined means include all, otherwise filter by specific source
-      if (filters.source && filters.source !== "both") {
-        if (chunk.source !== filters.source) return false;
-      }
-      return true;
-    });
-  }
+/** The chunks that pass `keep`, with their vectors. */
+export function filterEmbeddingIndex(
+  index: EmbeddingIndex,
+  keep: (chunk: EmbeddingChunk) => boolean
+): EmbeddingIndex {
+  const { dimensions } = index;
+  const chunks: EmbeddingChunk[] = [];
+  const vectors = new Float32Array(index.vectors.length);
+  index.chunks.forEach((chunk, i) => {
+    if (!keep(chunk)) return;
+    const row = index.vectors.subarray(i * dimensions, (i + 1) * dimensions);
+    vectors.set(row, chunks.length * dimensions);
+    chunks.push(chunk);
+  });
+  return { ...index, chunks, vectors: vectors.slice(0, chunks.length * dimensions) };
+}
 
-  // Score and rank
-  const scored = chunks.map((chunk) => ({
-    ...chunk,
-    score: cosineSimilarity(queryEmbedding, chunk.embedding),
-  }));
+/** Metadata and source filters for chunk retrieval. */
+export interface ChunkFilters {
+  region?: string;
+  solution?: string;
+  npsCategory?: string;
+  interviewIds?: string[];
+  source?: "transcript" | "report" | "both";
+}
 
-  scored.sort((a, b) => b.score - a.score);
-  return scored.slice(0, topK);
+/** Chunks of interviews that match the filters (all chunks of known interviews without). */
+export function filterChunks(
+  chunks: EmbeddingChunk[],
+  interviewMap: Map<string, InterviewMetadata>,
+  filters?: ChunkFilters
+): EmbeddingChunk[] {
+  if (!filters) return chunks;
+  return chunks.filter((chunk) => {
+    const interview = interviewMap.get(chunk.interviewId);
+    if (!interview) return false;
+    if (filters.region && interview.region !== filters.region) return false;
+    if (filters.solution && interview.solution !== filters.solution)
+      return false;
+    if (filters.npsCategory && interview.npsCategory !== filters.npsCategory)
+      return false;
+    if (
+      filters.interviewIds &&
+      !filters.interviewIds.includes(chunk.interviewId)
+    )
+      return false;
+    // Source filter: "both" or undefined means include all, otherwise filter by specific source
+    if (filters.source && filters.source !== "both") {
+      if (chunk.source !== filters.source) return false;
+    }
+    return true;
+  });
 }
@@ -1,4 +1,5 @@
 import { readMetadataIndex, readReport, readTranscript } from "@/lib/data/store";
+import { formatTurnLine } from "@/lib/data/transcript-formats";
 import type { InterviewMetadata, NormalizedReport, NormalizedTranscript } from "@/types";
 
 const STOPWORDS = new Set([
@@ -88,7 +89,7 @@ function reportToText(r: NormalizedReport): string {
 
 function transcriptToText(t: NormalizedTranscript): string {
   const sections = t.sections.map((s) => `${s.title}: ${s.points.join(" ")}`);
-  const turns = t.fullTranscript.map((turn) => `${turn.speaker}: ${turn.text}`);
+  const turns = t.fullTranscript.map(formatTurnLine);
   return [t.overview, ...sections, ...turns, t.rawText]
     .filter(Boolean)
     .join("\n");
@@ -147,3 +148,36 @@ export async function exhaustiveSearchInterviews(query: string): Promise<Exhaust
 
   return matches;
 }
+
+/** Router: list-style questions get a deterministic full scan instead of a model answer. */
+export function isExhaustiveListQuery(text: string): boolean {
+  return /\b(list|all|every|which|who|count|by region|by solution|by engagement|by account)\b/i.test(
+    text
+  );
+}
+
+/** Markdown answer listing every match with its snippet. */
+export function formatExhaustiveMatches(query: string, matches: ExhaustiveMatch[]): string {
+  if (matches.length === 0) {
+    return `## No matches found\n\nNo interviews matched this query using a full scan. Try adding a specific phrase in quotes (e.g. \"more information\") or another keyword.`;
+  }
+
+  const lines = [
+    `## Matches (${matches.length})`,
+    "",
+  ];
+
+  for (const m of matches) {
+    const meta = m.interview;
+    lines.push(
+      `- **${meta.client}, ${meta.company}** — ${meta.region} | ${meta.solution} | ${meta.accountType} | NPS ${meta.score} (${meta.npsCategory}) | ${meta.id}`
+    );
+    if (m.snippet) {
+      lines.push(`  > ${m.snippet}`);
+    }
+  }
+
+  lines.push("");
+  lines.push(`_Matched using full scan for query:_ ${query}`);
+  return lines.join("\n");
+}
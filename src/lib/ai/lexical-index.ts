@@ -0,0 +1,96 @@
+/**
+ * BM25 keyword index over the embedding chunks. Embeddings miss rare exact terms (names,
+ * product terms such as "Architect" or "Hay"); BM25 ranks them highly because they are
+ * rare. The index is rebuilt whenever the embedding index is written, and rebuilt on the
+ * fly from the chunks if the stored one is missing or older than them.
+ */
+
+import { readLexicalIndex, writeLexicalIndex } from "@/lib/data/store";
+import type { EmbeddingIndex, LexicalIndex } from "@/types";
+
+/** BM25 term-frequency saturation and length normalisation (the usual defaults). */
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "about", "all", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can",
+  "did", "do", "does", "for", "from", "had", "has", "have", "he", "her", "his", "how", "i",
+  "if", "in", "into", "is", "it", "its", "me", "my", "not", "of", "on", "or", "our", "she",
+  "so", "that", "the", "their", "them", "there", "they", "this", "to", "us", "was", "we",
+  "were", "what", "when", "which", "who", "why", "will", "with", "would", "you", "your",
+  // In nearly every interview, or only in how questions are asked
+  "client", "clients", "kf", "korn", "ferry", "mention", "mentioned", "say", "said", "tell",
+]);
+
+/** Lower-case word tokens without stopwords; a plural "s" is dropped so "candidates" finds "candidate". */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().replace(/[‘’']/g, "").match(/[a-z0-9]+/g) ?? []) {
+    if (STOPWORDS.has(word)) continue;
+    tokens.push(word.length > 3 && /[^siu]s$/.test(word) ? word.slice(0, -1) : word);
+  }
+  return tokens;
+}
+
+export function buildLexicalIndex(embeddingIndex: EmbeddingIndex): LexicalIndex {
+  const postings: Record<string, [number, number][]> = {};
+  const chunks: LexicalIndex["chunks"] = [];
+  let totalLength = 0;
+
+  embeddingIndex.chunks.forEach((chunk, position) => {
+    const tokens = tokenize(chunk.text);
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+    for (const [term, tf] of counts) (postings[term] ??= []).push([position, tf]);
+    chunks.push({ id: chunk.id, length: tokens.length });
+    totalLength += tokens.length;
+  });
+
+  return {
+    lastUpdated: new Date().toISOString(),
+    sourceUpdated: embeddingIndex.lastUpdated,
+    avgLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    chunks,
+    postings,
+  };
+}
+
+/** Rebuild and save the keyword index for the chunks just written. */
+export async function updateLexicalIndex(embeddingIndex: EmbeddingIndex): Promise<LexicalIndex> {
+  const index = buildLexicalIndex(embeddingIndex);
+  await writeLexicalIndex(index);
+  return index;
+}
+
+/** The stored keyword index if it matches the embedding index, else one built from it. */
+export async function loadLexicalIndex(embeddingIndex: EmbeddingIndex): Promise<LexicalIndex> {
+  const stored = await readLexicalIndex();
+  if (
+    stored &&
+    stored.sourceUpdated === embeddingIndex.lastUpdated &&
+    stored.chunks.length === embeddingIndex.chunks.length
+  ) {
+    return stored;
+  }
+  return buildLexicalIndex(embeddingIndex);
+}
+
+/**
+ * BM25 score of every chunk that contains a query term, by chunk position. Repeated
+ * query terms count once.
+ */
+export function scoreBM25(index: LexicalIndex, query: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  const n = index.chunks.length;
+  for (const term of new Set(tokenize(query))) {
+    const postings = index.postings[term];
+    if (!postings) continue;
+    const idf = Math.log(1 + (n - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [position, tf] of postings) {
+      const length = index.chunks[position].length;
+      const norm = tf + K1 * (1 - B + (B * length) / (index.avgLength || 1));
+      scores.set(position, (scores.get(position) ?? 0) + (idf * tf * (K1 + 1)) / norm);
+    }
+  }
+  return scores;
+}
@@ -0,0 +1,515 @@
+/**
+ * Incremental reindex pipeline.
+ *
+ * Keeps a content hash per interview (transcript + report + the metadata that ends up
+ * in indexed content) in metadata/pipeline.json, plus the hash each per-interview step
+ * last completed for. A run only recomputes embeddings, vector-store files and
+ * opportunities for interviews whose hash changed (or whose step previously failed).
+ * Cross-corpus theme analysis is marked stale instead of being silently recomputed; when it
+ * is regenerated, only new or changed interviews need a theme extraction call.
+ */
+
+import crypto from "crypto";
+import {
+  readMetadataIndex,
+  readTranscript,
+  readReport,
+  readEmbeddingIndex,
+  readThemeAnalysis,
+  readThemeCandidates,
+  readThemeSegments,
+  readOpportunities,
+  readPipelineState,
+  writePipelineState,
+  writeEmbeddingIndex,
+  writeThemeAnalysis,
+  updateThemeCandidates,
+  updateThemeSegments,
+  updateOpportunities,
+} from "@/lib/data/store";
+import { withStoreLock } from "@/lib/data/lock";
+import { buildEmbeddingIndex, filterEmbeddingIndex, isReusableIndex } from "./embeddings";
+import { updateLexicalIndex } from "./lexical-index";
+import { getLLMProvider } from "./provider";
+import { assertReindexBudget } from "./usage";
+import {
+  getOrCreateVectorStore,
+  syncVectorStore,
+  syncVectorStoreInterviews,
+  deleteVectorStoreFile,
+} from "./vector-store";
+import { generateThemeAnalysis, generateOpportunityAnalysis } from "./analysis";
+import type {
+  InterviewMetadata,
+  InterviewPipelineState,
+  PipelineState,
+  PipelineStep,
+  ReindexStepName,
+  ThemeGroup,
+} from "@/types";
+
+export const REINDEX_STEPS: ReindexStepName[] = [
+  "embeddings",
+  "vectorStore",
+  "themes",
+  "opportunities",
+];
+
+export const REINDEX_STEP_LABELS: Record<ReindexStepName, string> = {
+  embeddings: "Embeddings",
+  vectorStore: "Vector store",
+  themes: "Themes",
+  opportunities: "Opportunities",
+};
+
+export interface ReindexOptions {
+  /** Recompute every step for every interview, ignoring stored hashes. */
+  full?: boolean;
+  /** Regenerate theme analysis even if only marked stale (always true for full runs). */
+  themes?: boolean;
+  /** Run only these steps (defaults to all). */
+  steps?: ReindexStepName[];
+}
+
+export interface ReindexStepOutcome {
+  step: ReindexStepName;
+  status: "completed" | "skipped" | "failed";
+  message: string;
+}
+
+export interface ReindexHooks {
+  onStepStart?: (step: ReindexStepName) => void | Promise<void>;
+  onStepComplete?: (outcome: ReindexStepOutcome) => void | Promise<void>;
+}
+
+export interface ReindexPlan {
+  changed: string[];
+  removed: string[];
+  unchanged: string[];
+  steps: Record<PipelineStep, string[]>;
+  regenerateThemes: boolean;
+}
+
+export interface ReindexResult {
+  success: boolean;
+  results: string[];
+  plan: ReindexPlan;
+  steps: ReindexStepOutcome[];
+}
+
+function hashOf(value: unknown): string | null {
+  if (value == null) return null;
+  return crypto.createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+/** Metadata fields that are rendered into embedded / uploaded content. */
+function indexedMetadata(m: InterviewMetadata) {
+  return {
+    client: m.client,
+    company: m.company,
+    score: m.score,
+    npsCategory: m.npsCategory,
+    region: m.region,
+    solution: m.solution,
+    accountType: m.accountType,
+  };
+}
+
+async function computeInterviewHashes(
+  interview: InterviewMetadata
+): Promise<Omit<InterviewPipelineState, "steps" | "vectorStoreFileId">> {
+  const transcript = interview.hasTranscript ? await readTranscript(interview.id) : null;
+  const report = interview.hasReport ? await readReport(interview.id) : null;
+  const transcriptHash = hashOf(transcript);
+  const reportHash = hashOf(report);
+  const contentHash = hashOf({
+    meta: indexedMetadata(interview),
+    transcriptHash,
+    reportHash,
+  }) as string;
+  return { contentHash, transcriptHash, reportHash };
+}
+
+function isFresh(state: InterviewPipelineState | undefined, step: PipelineStep, hash: string) {
+  return state?.steps[step]?.inputHash === hash;
+}
+
+/** Compare current content against pipeline.json and decide what needs recomputing. */
+export async function planReindex(
+  options: ReindexOptions = {}
+): Promise<{ plan: ReindexPlan; state: PipelineState; hashes: Map<string, InterviewPipelineState> }> {
+  const index = await readMetadataIndex();
+  const state = await readPipelineState();
+  const hashes = new Map<string, InterviewPipelineState>();
+
+  const steps: Record<PipelineStep, string[]> = {
+    embeddings: [],
+    vectorStore: [],
+    opportunities: [],
+  };
+  const changed: string[] = [];
+  const unchanged: string[] = [];
+
+  // Artifacts that live outside pipeline.json may have been deleted or replaced; an index
+  // built by another embedding model (e.g. after switching provider) or chunked by an
+  // older scheme is rebuilt
+  const storedIndex = await readEmbeddingIndex();
+  const embeddingIndex = isReusableIndex(storedIndex) ? storedIndex : null;
+  const embeddedIds = new Set(embeddingIndex?.chunks.map((c) => c.interviewId) ?? []);
+  const opportunitiesExist = (await readOpportunities()) !== null;
+
+  for (const interview of index.interviews) {
+    const prev = state.interviews[interview.id];
+    const current: InterviewPipelineState = {
+      ...(await computeInterviewHashes(interview)),
+      steps: options.full ? {} : { ...(prev?.steps ?? {}) },
+      vectorStoreFileId: prev?.vectorStoreFileId ?? null,
+    };
+    hashes.set(interview.id, current);
+
+    const hash = current.contentHash;
+    const needsEmbeddings =
+      options.full || !embeddingIndex || !embeddedIds.has(interview.id) || !isFresh(prev, "embeddings", hash);
+    const needsVectorStore = options.full || !isFresh(prev, "vectorStore", hash);
+    const needsOpportunities =
+      options.full || !opportunitiesExist || !isFresh(prev, "opportunities", hash);
+
+    if (needsEmbeddings) steps.embeddings.push(interview.id);
+    if (needsVectorStore) steps.vectorStore.push(interview.id);
+    if (needsOpportunities) steps.opportunities.push(interview.id);
+
+    if (prev?.contentHash === hash && !options.full) unchanged.push(interview.id);
+    else changed.push(interview.id);
+  }
+
+  const liveIds = new Set(index.interviews.map((i) => i.id));
+  const removed = Object.keys(state.interviews).filter((id) => !liveIds.has(id));
+
+  const themesExist = (await readThemeAnalysis()) !== null;
+  const regenerateThemes = !!options.full || !!options.themes || !themesExist;
+
+  return {
+    plan: { changed, removed, unchanged, steps, regenerateThemes },
+    state,
+    hashes,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Store lock held for a whole reindex run: a run reads the pipeline state, embedding index
+ * and vector-store files up front and writes them back at the end, so runs from the server
+ * and `npm run reindex` must not overlap, nor may a purge's cleanup run during one.
+ */
+const PIPELINE_LOCK = "pipeline";
+
+/**
+ * Run the reindex pipeline. Each step only touches the interviews the plan lists for it;
+ * a failed step leaves its stored hashes untouched so the next run retries it.
+ * `options.steps` restricts the run to a subset (used when retrying failed job steps);
+ * `hooks` report per-step progress to the job queue. Throws LockTimeoutError when
+ * another run holds the pipeline lock.
+ */
+export async function runReindex(
+  options: ReindexOptions = {},
+  hooks: ReindexHooks = {}
+): Promise<ReindexResult> {
+  return withStoreLock(PIPELINE_LOCK, () => reindex(options, hooks));
+}
+
+async function reindex(options: ReindexOptions, hooks: ReindexHooks): Promise<ReindexResult> {
+  await assertReindexBudget();
+  const { plan, state, hashes } = await planReindex(options);
+  const selected = new Set(options.steps ?? REINDEX_STEPS);
+  const outcomes: ReindexStepOutcome[] = [];
+  const now = () => new Date().toISOString();
+
+  const nextState: PipelineState = {
+    ...state,
+    interviews: Object.fromEntries(hashes),
+  };
+
+  // The new content hashes are saved whichever steps run, so a later run would not see
+  // this change again: themes go stale now, even when the themes step is not selected
+  const corpusChanged = plan.changed.length > 0 || plan.removed.length > 0;
+  if (corpusChanged) {
+    nextState.themes = {
+      ...state.themes,
+      stale: true,
+      staleSince: state.themes.staleSince ?? now(),
+    };
+  }
+
+  const markDone = (step: PipelineStep, ids: string[]) => {
+    const completedAt = now();
+    for (const id of ids) {
+      const entry = nextState.interviews[id];
+      if (entry) entry.steps[step] = { inputHash: entry.contentHash, completedAt };
+    }
+  };
+
+  const runStep = async (
+    step: ReindexStepName,
+    fn: () => Promise<{ status: "completed" | "skipped"; message: string }>
+  ): Promise<void> => {
+    if (!selected.has(step)) return;
+    await hooks.onStepStart?.(step);
+    let outcome: ReindexStepOutcome;
+    try {
+      outcome = { step, ...(await fn()) };
+    } catch (error) {
+      outcome = { step, status: "failed", message: `Failed - ${errorMessage(error)}` };
+    }
+    outcomes.push(outcome);
+    await hooks.onStepComplete?.(outcome);
+  };
+
+  // Local embeddings (for legacy chat + search)
+  await runStep("embeddings", async () => {
+    if (plan.steps.embeddings.length === 0 && plan.removed.length === 0) {
+      return { status: "skipped", message: "up to date" };
+    }
+    const embeddingIndex = await buildEmbeddingIndex(
+      options.full ? {} : { interviewIds: plan.steps.embeddings }
+    );
+    markDone("embeddings", plan.steps.embeddings);
+    return {
+      status: "completed",
+      message: `${plan.steps.embeddings.length} interview(s) re-embedded; ${embeddingIndex.chunks.length} chunks indexed`,
+    };
+  });
+
+  // OpenAI vector store (for Chat)
+  await runStep("vectorStore", async () => {
+    const provider = getLLMProvider();
+    if (!provider.retrieval) {
+      return {
+        status: "skipped",
+        message: `not supported by the ${provider.name} provider; Chat uses local embeddings`,
+      };
+    }
+    if (plan.steps.vectorStore.length === 0 && plan.removed.length === 0) {
+      return { status: "skipped", message: "up to date" };
+    }
+    const vectorStoreId = await getOrCreateVectorStore();
+    const knownFiles: Record<string, string | null | undefined> = {};
+    for (const [id, entry] of Object.entries(state.interviews)) {
+      knownFiles[id] = entry.vectorStoreFileId;
+    }
+    // Without file ids for every interview (first run, or the store was recreated)
+    // we cannot replace individual files, so fall back to a full sync.
+    const canIncrement =
+      !options.full &&
+      state.vectorStoreId === vectorStoreId &&
+      Array.from(hashes.keys()).every(
+        (id) => plan.steps.vectorStore.includes(id) || !!knownFiles[id]
+      );
+
+    const synced = canIncrement
+      ? await syncVectorStoreInterviews(vectorStoreId, plan.steps.vectorStore, knownFiles)
+      : await syncVectorStore();
+    const syncedIds = canIncrement ? plan.steps.vectorStore : Array.from(hashes.keys());
+
+    for (const id of syncedIds) {
+      const entry = nextState.interviews[id];
+      if (entry) entry.vectorStoreFileId = synced.files[id] ?? null;
+    }
+    markDone("vectorStore", syncedIds);
+    nextState.vectorStoreId = vectorStoreId;
+    return {
+      status: "completed",
+      message: `${canIncrement ? "incremental" : "full"} sync (${synced.fileCount} file(s) uploaded); Chat ready (Responses API + file_search)`,
+    };
+  });
+
+  // Per-interview opportunities and cross-corpus themes are independent; run in parallel
+  await Promise.all([
+    runStep("themes", async () => {
+      if (!plan.regenerateThemes) {
+        if (nextState.themes.stale) {
+          return {
+            status: "skipped",
+            message: "marked stale (regenerate to include the latest interviews)",
+          };
+        }
+        return { status: "skipped", message: "up to date" };
+      }
+      const themes = await generateThemeAnalysis({ refresh: options.full });
+      const totalThemes =
+        themes.whyClientsChoose.themes.length +
+        themes.promoterExperience.themes.length +
+        themes.whereFallsShort.themes.length +
+        themes.additionalThemes.reduce((sum, g) => sum + g.themes.length, 0);
+      nextState.themes = { stale: false, staleSince: null, lastGenerated: themes.lastGenerated };
+      const extraction = themes.extraction
+        ? ` (${themes.extraction.extracted} interview(s) extracted, ${themes.extraction.cached} cached)`
+        : "";
+      return { status: "completed", message: `${totalThemes} themes identified${extraction}` };
+    }),
+    runStep("opportunities", async () => {
+      if (plan.steps.opportunities.length === 0 && plan.removed.length === 0) {
+        return { status: "skipped", message: "up to date" };
+      }
+      const { analysis: opps, failedInterviewIds } = await generateOpportunityAnalysis(
+        options.full
+          ? {}
+          : { interviewIds: plan.steps.opportunities, removedInterviewIds: plan.removed }
+      );
+      const active = opps.opportunities.filter((o) => o.status !== "superseded");
+      const superseded = opps.opportunities.length - active.length;
+      const analysed = options.full ? Array.from(hashes.keys()) : plan.steps.opportunities;
+      // Interviews without usable output stay pending, so the next run retries them
+      markDone("opportunities", analysed.filter((id) => !failedInterviewIds.includes(id)));
+      if (failedInterviewIds.length > 0) {
+        throw new Error(
+          `no usable output for ${failedInterviewIds.length} interview(s): ${failedInterviewIds.join(", ")}`
+        );
+      }
+      return {
+        status: "completed",
+        message:
+          `${plan.steps.opportunities.length} interview(s) analysed; ${active.length} opportunities identified` +
+          (superseded > 0 ? ` (${superseded} superseded)` : ""),
+      };
+    }),
+  ]);
+
+  const success = outcomes.every((o) => o.status !== "failed");
+
+  // Keep removed interviews on record until every step has processed the removal
+  if (!success || selected.size < REINDEX_STEPS.length) {
+    for (const id of plan.removed) nextState.interviews[id] = state.interviews[id];
+  }
+
+  nextState.lastRun = now();
+  await writePipelineState(nextState);
+
+  const results = [
+    `Plan: ${plan.changed.length} changed, ${plan.removed.length} removed, ${plan.unchanged.length} unchanged`,
+    ...outcomes.map((o) => `${REINDEX_STEP_LABELS[o.step]}: ${o.message}`),
+  ];
+  return { success, results, plan, steps: outcomes };
+}
+
+/**
+ * Themes are stale when content changed after they were last generated. Comparing against
+ * lastGenerated also covers themes regenerated outside the pipeline (scripts/themes-opportunities.ts).
+ */
+export function isThemeAnalysisStale(
+  themes: { lastGenerated: string },
+  state: PipelineState
+): boolean {
+  if (!state.themes.stale || !state.themes.staleSince) return false;
+  return themes.lastGenerated < state.themes.staleSince;
+}
+
+function withoutInterview(group: ThemeGroup, id: string): ThemeGroup {
+  const themes = group.themes
+    .map((theme) => {
+      const interviewIds = theme.interviewIds.filter((i) => i !== id);
+      return {
+        ...theme,
+        interviewIds,
+        frequency: interviewIds.length,
+        supportingQuotes: theme.supportingQuotes.filter((q) => q.interviewId !== id),
+      };
+    })
+    .filter((theme) => theme.interviewIds.length > 0);
+  return { ...group, themes };
+}
+
+/**
+ * Remove a purged interview from everything derived from it: embedding chunks, its
+ * vector-store file, theme quotes and counts, its opportunities and its pipeline.json
+ * entry. If the vector-store file can't be deleted now (e.g. no API key), the pipeline
+ * entry is kept so the next reindex treats the interview as removed and deletes it.
+ * Runs as a "purge" job under the pipeline lock, so a reindex cannot write back what it
+ * read before the purge.
+ */
+export async function purgeInterviewArtifacts(id: string): Promise<string[]> {
+  return withStoreLock(PIPELINE_LOCK, () => purgeArtifacts(id));
+}
+
+async function purgeArtifacts(id: string): Promise<string[]> {
+  const results: string[] = [];
+
+  const embeddingIndex = await readEmbeddingIndex();
+  if (embeddingIndex) {
+    const updated = filterEmbeddingIndex(embeddingIndex, (c) => c.interviewId !== id);
+    const removed = embeddingIndex.chunks.length - updated.chunks.length;
+    if (removed > 0) {
+      await writeEmbeddingIndex(updated);
+      await updateLexicalIndex(updated);
+      results.push(`Embeddings: ${removed} chunk(s) removed`);
+    }
+  }
+
+  const state = await readPipelineState();
+  const entry = state.interviews[id];
+  if (entry) {
+    let keepEntry = false;
+    if (entry.vectorStoreFileId && state.vectorStoreId) {
+      try {
+        await deleteVectorStoreFile(state.vectorStoreId, entry.vectorStoreFileId);
+        results.push("Vector store: file deleted");
+      } catch (error) {
+        keepEntry = true;
+        results.push(
+          `Vector store: file not deleted (${errorMessage(error)}); it will be removed on the next reindex`
+        );
+      }
+    }
+    if (!keepEntry) {
+      delete state.interviews[id];
+      await writePipelineState(state);
+    }
+  }
+
+  const candidates = await readThemeCandidates();
+  if (candidates?.interviews[id]) {
+    await updateThemeCandidates((cache) => {
+      delete cache.interviews[id];
+    });
+  }
+
+  // Cached segment themes would still quote the interview; they regenerate on request
+  const segments = await readThemeSegments();
+  const affected = Object.entries(segments?.segments ?? {})
+    .filter(([, s]) => s.generatedFrom.includes(id))
+    .map(([key]) => key);
+  if (affected.length > 0) {
+    await updateThemeSegments((cache) => {
+      for (const key of affected) delete cache.segments[key];
+    });
+    results.push(`Segment themes: ${affected.length} cached segment(s) dropped`);
+  }
+
+  const themes = await readThemeAnalysis();
+  if (themes && themes.generatedFrom.includes(id)) {
+    await writeThemeAnalysis({
+      ...themes,
+      generatedFrom: themes.generatedFrom.filter((i) => i !== id),
+      whyClientsChoose: withoutInterview(themes.whyClientsChoose, id),
+      promoterExperience: withoutInterview(themes.promoterExperience, id),
+      whereFallsShort: withoutInterview(themes.whereFallsShort, id),
+      additionalThemes: themes.additionalThemes.map((g) => withoutInterview(g, id)),
+    });
+    results.push("Themes: quotes and counts updated");
+  }
+
+  let removedOpportunities = 0;
+  await updateOpportunities((data) => {
+    if (!data) return null;
+    const opportunities = data.opportunities.filter((o) => o.sourceInterviewId !== id);
+    removedOpportunities = data.opportunities.length - opportunities.length;
+    return removedOpportunities > 0 ? { ...data, opportunities } : null;
+  });
+  if (removedOpportunities > 0) {
+    results.push(`Opportunities: ${removedOpportunities} removed`);
+  }
+
+  return results;
+}
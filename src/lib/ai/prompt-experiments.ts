@@ -0,0 +1,143 @@
+/**
+ * Side-by-side runs of two prompt configurations on the same interviews. Nothing is
+ * written to the data store; the caller keeps the comparison (scripts/compare-prompts.ts).
+ *
+ * Themes of run B are matched to run A's by the same lineage step a regeneration uses, so
+ * the diff pairs up themes that moved or were renamed. Opportunities are listed per
+ * interview, as they are generated per interview.
+ */
+
+import { previewOpportunities, previewThemeAnalysis } from "./analysis";
+import { assignThemeLineage, diffThemeAnalyses } from "./theme-lineage";
+import { PromptSet, type PromptName, type PromptVersions } from "./prompt-registry";
+import type { GeneratedOpportunity } from "@/lib/data/opportunity-merge";
+import type {
+  ArtifactProvenance,
+  ThemeAnalysis,
+  ThemeLineage,
+  ThemeSnapshotDiff,
+} from "@/types";
+
+export type ComparedArtifact = "themes" | "opportunities";
+
+const ARTIFACT_PROMPTS: Record<ComparedArtifact, PromptName[]> = {
+  themes: ["theme-candidates", "theme-group", "theme-additional-groups"],
+  opportunities: ["opportunities"],
+};
+
+export interface PromptComparisonRun {
+  label: string;
+  versions: PromptVersions;
+  themes?: ThemeAnalysis;
+  opportunities?: { items: GeneratedOpportunity[]; provenance: ArtifactProvenance };
+}
+
+export interface OpportunityComparison {
+  interviewId: string;
+  client: string;
+  company: string;
+  a: string[]; // titles
+  b: string[];
+}
+
+export interface PromptComparison {
+  createdAt: string;
+  artifacts: ComparedArtifact[];
+  interviewIds: string[] | null; // null: every interview
+  a: PromptComparisonRun;
+  b: PromptComparisonRun;
+  themes?: { diff: ThemeSnapshotDiff; lineage?: ThemeLineage };
+  opportunities?: OpportunityComparison[];
+}
+
+/** Artifacts produced by the prompts whose version differs between the two sides. */
+export function affectedArtifacts(a: PromptVersions, b: PromptVersions): ComparedArtifact[] {
+  const setA = new PromptSet(a);
+  const setB = new PromptSet(b);
+  const differs = (name: PromptName) => setA.ref(name).hash !== setB.ref(name).hash;
+  return (Object.keys(ARTIFACT_PROMPTS) as ComparedArtifact[]).filter((artifact) =>
+    ARTIFACT_PROMPTS[artifact].some(differs)
+  );
+}
+
+function compareOpportunities(
+  a: GeneratedOpportunity[],
+  b: GeneratedOpportunity[]
+): OpportunityComparison[] {
+  const rows = new Map<string, OpportunityComparison>();
+  const row = (o: GeneratedOpportunity) => {
+    let existing = rows.get(o.sourceInterviewId);
+    if (!existing) {
+      existing = {
+        interviewId: o.sourceInterviewId,
+        client: o.client,
+        company: o.company,
+        a: [],
+        b: [],
+      };
+      rows.set(o.sourceInterviewId, existing);
+    }
+    return existing;
+  };
+  for (const o of a) row(o).a.push(o.title);
+  for (const o of b) row(o).b.push(o.title);
+  return [...rows.values()].sort((x, y) => x.interviewId.localeCompare(y.interviewId));
+}
+
+/**
+ * Generate the artifacts affected by the version differences with each side's prompts
+ * (unset prompts use the configured versions) and compare the results.
+ */
+export async function comparePromptVersions(
+  a: { label: string; versions: PromptVersions },
+  b: { label: string; versions: PromptVersions },
+  options: { interviewIds?: string[]; artifacts?: ComparedArtifact[] } = {}
+): Promise<PromptComparison> {
+  const artifacts = options.artifacts ?? affectedArtifacts(a.versions, b.versions);
+  if (artifacts.length === 0) {
+    throw new Error(
+      "Both sides use the same themes and opportunities prompts; nothing to compare."
+    );
+  }
+
+  const runA: PromptComparisonRun = { ...a };
+  const runB: PromptComparisonRun = { ...b };
+  const comparison: PromptComparison = {
+    createdAt: new Date().toISOString(),
+    artifacts,
+    interviewIds: options.interviewIds ?? null,
+    a: runA,
+    b: runB,
+  };
+
+  // One side after the other, so the two runs do not compete for rate limits
+  for (const run of [runA, runB]) {
+    if (artifacts.includes("themes")) {
+      run.themes = await previewThemeAnalysis(new PromptSet(run.versions), options.interviewIds);
+    }
+    if (artifacts.includes("opportunities")) {
+      const { opportunities, provenance } = await previewOpportunities(
+        new PromptSet(run.versions),
+        options.interviewIds
+      );
+      run.opportunities = { items: opportunities, provenance };
+    }
+  }
+
+  if (runA.themes && runB.themes) {
+    // Previews have positional ids, repeated across groups; give A unique ones first
+    await assignThemeLineage(null, runA.themes);
+    const lineage = await assignThemeLineage(runA.themes, runB.themes);
+    comparison.themes = {
+      diff: diffThemeAnalyses(runA.themes, runB.themes, { from: a.label, to: b.label }),
+      lineage,
+    };
+  }
+  if (runA.opportunities && runB.opportunities) {
+    comparison.opportunities = compareOpportunities(
+      runA.opportunities.items,
+      runB.opportunities.items
+    );
+  }
+  return comparison;
+}
@@ -0,0 +1,200 @@
+/**
+ * Named, versioned prompt templates. Every model prompt is rendered from here, and the
+ * PromptSet used by a generation run records which versions it rendered, so artifacts can
+ * say which prompt produced them (ArtifactProvenance).
+ *
+ * - Built-in versions live in prompts/*.ts. The latest built-in version of each prompt is
+ *   active unless KFCX_PROMPT_VERSIONS selects another, e.g. {"theme-group": "v2"}.
+ * - KFCX_PROMPTS_DIR adds versions from "{name}@{version}.txt" files, to try a prompt
+ *   without a code change (see scripts/compare-prompts.ts). They take the temperature of
+ *   the built-in prompt and are only used when selected.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { THEME_PROMPTS } from "./prompts/themes";
+import { OPPORTUNITY_PROMPTS } from "./prompts/opportunities";
+import { CHAT_PROMPTS } from "./prompts/chat";
+import type { PromptName, PromptTemplate } from "./prompts/types";
+import type { PromptRef } from "@/types";
+
+export type { PromptName, PromptTemplate } from "./prompts/types";
+
+/** Version overrides by prompt name. */
+export type PromptVersions = Partial<Record<PromptName, string>>;
+
+export interface PromptInfo extends PromptRef {
+  description: string;
+  source: "built-in" | "file";
+  active: boolean;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  temperature: number;
+  ref: PromptRef;
+}
+
+const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  ...THEME_PROMPTS,
+  ...OPPORTUNITY_PROMPTS,
+  ...CHAT_PROMPTS,
+];
+
+export const PROMPT_NAMES = [...new Set(BUILT_IN_PROMPTS.map((p) => p.name))];
+
+export class UnknownPromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnknownPromptError";
+  }
+}
+
+function isPromptName(name: string): name is PromptName {
+  return (PROMPT_NAMES as string[]).includes(name);
+}
+
+/** Built-in versions, oldest first, then file versions. */
+function loadTemplates(): (PromptTemplate & { source: PromptInfo["source"] })[] {
+  const templates = BUILT_IN_PROMPTS.map((p) => ({
+    ...p,
+    source: "built-in" as PromptInfo["source"],
+  }));
+  const dir = process.env.KFCX_PROMPTS_DIR?.trim();
+  if (!dir) return templates;
+
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    console.warn(`KFCX_PROMPTS_DIR ${dir} could not be read; using built-in prompts only.`);
+    return templates;
+  }
+  for (const file of files.sort()) {
+    const match = /^([a-z-]+)@([\w.-]+)\.txt$/.exec(file);
+    if (!match || !isPromptName(match[1])) continue;
+    const [, name, version] = match as unknown as [string, PromptName, string];
+    if (templates.some((t) => t.name === name && t.version === version)) {
+      console.warn(`Ignoring ${file}: ${name}@${version} is a built-in prompt.`);
+      continue;
+    }
+    const builtIn = BUILT_IN_PROMPTS.find((p) => p.name === name)!;
+    templates.push({
+      name,
+      version,
+      description: `${builtIn.description} (from ${file})`,
+      temperature: builtIn.temperature,
+      template: fs.readFileSync(path.join(dir, file), "utf-8"),
+      source: "file",
+    });
+  }
+  return templates;
+}
+
+/** KFCX_PROMPT_VERSIONS, ignoring (with a warning) anything that is not a JSON object. */
+function configuredVersions(): PromptVersions {
+  const raw = process.env.KFCX_PROMPT_VERSIONS?.trim();
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as PromptVersions;
+    }
+  } catch {
+    // Reported below
+  }
+  console.warn("Ignoring KFCX_PROMPT_VERSIONS: expected a JSON object.");
+  return {};
+}
+
+function templateHash(template: PromptTemplate): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([template.template, template.temperature]))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function toRef(template: PromptTemplate): PromptRef {
+  return {
+    name: template.name,
+    version: template.version,
+    hash: templateHash(template),
+    temperature: template.temperature,
+  };
+}
+
+/**
+ * The prompt versions for one generation run: configured versions plus `overrides`.
+ * Records each prompt it renders, for the provenance of what the run generates.
+ */
+export class PromptSet {
+  private readonly templates = loadTemplates();
+  private readonly versions: PromptVersions;
+  private readonly used = new Map<string, PromptRef>();
+
+  constructor(overrides: PromptVersions = {}) {
+    this.versions = { ...configuredVersions(), ...overrides };
+  }
+
+  /** The selected version of a prompt; throws UnknownPromptError if it does not exist. */
+  template(name: PromptName): PromptTemplate {
+    const version = this.versions[name];
+    const builtIns = this.templates.filter((t) => t.name === name && t.source === "built-in");
+    const template = version
+      ? this.templates.find((t) => t.name === name && t.version === version)
+      : builtIns[builtIns.length - 1];
+    if (!template) {
+      const known = this.templates.filter((t) => t.name === name).map((t) => t.version);
+      throw new UnknownPromptError(
+        `Unknown prompt version ${name}@${version}. Available: ${known.join(", ")}.`
+      );
+    }
+    return template;
+  }
+
+  /** Reference to the selected version, without recording it as used. */
+  ref(name: PromptName): PromptRef {
+    return toRef(this.template(name));
+  }
+
+  /** Fill the {{variables}} of the selected version; a missing variable is an error. */
+  render(name: PromptName, vars: Record<string, string | number> = {}): RenderedPrompt {
+    const template = this.template(name);
+    const text = template.template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+      if (!(key in vars)) {
+        throw new Error(`Prompt ${name}@${template.version} needs the variable "${key}".`);
+      }
+      return String(vars[key]);
+    });
+    const ref = toRef(template);
+    this.used.set(`${ref.name}@${ref.version}`, ref);
+    return { text, temperature: template.temperature, ref };
+  }
+
+  /** Prompts rendered so far, in first-use order. */
+  get refs(): PromptRef[] {
+    return [...this.used.values()];
+  }
+}
+
+/** Every prompt version, with the ones a default PromptSet would use marked active. */
+export function listPrompts(): PromptInfo[] {
+  const active = new PromptSet();
+  const templates = loadTemplates();
+  return templates.map((t) => {
+    let isActive = false;
+    try {
+      isActive = active.template(t.name).version === t.version;
+    } catch {
+      // A misconfigured KFCX_PROMPT_VERSIONS entry leaves that prompt with no active version
+    }
+    return {
+      ...toRef(t),
+      description: t.description,
+      source: t.source,
+      active: isActive,
+    };
+  });
+}
@@ -0,0 +1,37 @@
+import type { PromptTemplate } from "./types";
+
+/** Per-interview opportunity extraction (see generateOpportunityAnalysis in analysis.ts). */
+export const OPPORTUNITY_PROMPTS: PromptTemplate[] = [
+  {
+    name: "opportunities",
+    version: "v1",
+    description:
+      "Opportunities and suggested actions in one interview. Variables: summary, client, company, interviewId",
+    temperature: 0.2,
+    template: `Analyse this NPS interview for opportunity- and action-oriented insights.
+
+Identify any mentions of:
+1. future_need - Services or support the client may need in future
+2. expansion - Ways to deepen or expand the relationship
+3. re_engagement - Signals that action should be taken to re-engage or strengthen the partnership
+4. improvement - Specific actions that would improve the service
+
+For each opportunity found, provide:
+- type: one of "future_need", "expansion", "re_engagement", "improvement"
+- title: Concise label (5-10 words)
+- description: 1-2 sentences explaining the opportunity
+- urgency: "high", "medium", or "low"
+- supportingQuote: A direct quote or close paraphrase from the data
+- suggestedAction: What Korn Ferry should do (1 sentence)
+
+Interview data:
+{{summary}}
+
+Client: {{client}}
+Company: {{company}}
+Interview ID: {{interviewId}}
+
+Return a JSON object: { "opportunities": [...] }
+Return ONLY valid JSON.`,
+  },
+];
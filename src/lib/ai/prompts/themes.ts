@@ -0,0 +1,89 @@
+/**
+ * Theme extraction prompts (see theme-extraction.ts): the per-interview map prompt and the
+ * reduce prompts that cluster candidates into theme groups.
+ */
+
+import type { PromptTemplate } from "./types";
+
+const CLUSTER_FIELDS = `For each theme, provide:
+- label: A concise theme name (3-6 words)
+- description: One sentence explaining the theme
+- sentiment: "positive", "negative", or "neutral"
+- candidates: The keys (e.g. "t-006#2") of every candidate theme that belongs to it; each candidate belongs to at most one theme`;
+
+export const THEME_PROMPTS: PromptTemplate[] = [
+  {
+    name: "theme-candidates",
+    version: "v1",
+    description: "Candidate themes with verbatim quotes from one interview. Variables: interview",
+    temperature: 0.2,
+    template: `You are analysing one NPS interview from Korn Ferry's Customer Centricity programme.
+Themes from every interview are later combined across interviews, so extract the themes this
+interview supports, labelled generally enough to recur in other interviews.
+
+Categories:
+- "choose": why the client chose Korn Ferry, differentiators, selection criteria
+- "valued": what the client values most about working with Korn Ferry
+- "fallsShort": challenges, pain points, gaps and areas for improvement
+- "other": other credible themes, e.g. views on AI and innovation, challenges in the client's sector, comparisons with competitors, perceptions of Korn Ferry's brand
+
+Extract 3-8 themes. For each, provide:
+- category: one of "choose", "valued", "fallsShort", "other"
+- label: A concise theme name (3-6 words)
+- description: One sentence on what this interview says about it
+- sentiment: "positive", "negative", or "neutral"
+- quotes: 1-2 short quotes copied word for word from the interview text (quotes are checked against the source)
+
+{{interview}}
+
+Return a JSON object: { "themes": [...] }
+Return ONLY valid JSON.`,
+  },
+  {
+    name: "theme-group",
+    version: "v1",
+    description:
+      "Cluster candidates into the themes of one fixed group. Variables: name, instruction, interviewCount, candidates",
+    temperature: 0.2,
+    template: `You are analysing NPS interview data from Korn Ferry's Customer Centricity programme.
+Below are candidate themes extracted from {{interviewCount}} interviews, one per line as
+[interview#candidate] (sentiment) label: description.
+
+{{instruction}} Group candidates that express the same idea into one theme; prefer themes
+supported by several interviews.
+
+${CLUSTER_FIELDS}
+
+Candidates:
+{{candidates}}
+
+Return a JSON object:
+{ "name": "{{name}}", "description": "Brief description of this theme category", "themes": [...] }
+Return ONLY valid JSON.`,
+  },
+  {
+    name: "theme-additional-groups",
+    version: "v1",
+    description:
+      "Cluster \"other\" candidates into up to 4 additional groups. Variables: minInterviews, candidates",
+    temperature: 0.2,
+    template: `You are analysing NPS interview data from Korn Ferry's Customer Centricity programme.
+Below are candidate themes, beyond why clients choose Korn Ferry, what they value and where
+the experience falls short, extracted from individual interviews, one per line as
+[interview#candidate] (sentiment) label: description.
+
+Group them into up to 4 ADDITIONAL theme groups that can be credibly surfaced, for example
+views on AI and innovation, challenges in the client's sector, comparisons with competitors,
+or perceptions of Korn Ferry's brand. Only include a theme if candidates from at least
+{{minInterviews}} different interviews support it. Return no groups rather than weak ones.
+
+${CLUSTER_FIELDS}
+
+Candidates:
+{{candidates}}
+
+Return a JSON object:
+{ "groups": [ { "name": "Group name", "description": "Brief description of this group", "themes": [...] } ] }
+Return ONLY valid JSON.`,
+  },
+];
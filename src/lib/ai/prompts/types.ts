@@ -0,0 +1,17 @@
+export type PromptName =
+  | "theme-candidates"
+  | "theme-group"
+  | "theme-additional-groups"
+  | "opportunities"
+  | "chat-context"
+  | "chat-file-search";
+
+/** One version of a named prompt. Built-in versions are never edited once released. */
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  description: string;
+  temperature: number;
+  /** Prompt text with {{variable}} placeholders. */
+  template: string;
+}
@@ -0,0 +1,51 @@
+import { createOpenAIProvider } from "./providers/openai-provider";
+import { StubProvider } from "./providers/stub-provider";
+import type { LLMProvider, LLMProviderName, ProviderUsage } from "./providers/types";
+import { recordUsage } from "./usage";
+
+export type {
+  CompletionEvent,
+  CompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+} from "./providers/types";
+
+/** Stored on globalThis so dev-mode module reloads share one provider (and client). */
+const globalForLLM = globalThis as unknown as {
+  kfcxLLMProvider?: LLMProvider;
+};
+
+export function getLLMProviderName(): LLMProviderName {
+  const name = process.env.KFCX_LLM_PROVIDER?.trim().toLowerCase();
+  return name === "azure" || name === "stub" ? name : "openai";
+}
+
+/**
+ * Provider selected by KFCX_LLM_PROVIDER ("openai", the default, "azure" or "stub").
+ * Every call it makes is recorded in the usage log.
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = getLLMProviderName();
+  if (globalForLLM.kfcxLLMProvider?.name !== name) {
+    const onUsage = (usage: ProviderUsage) => recordUsage(name, usage);
+    globalForLLM.kfcxLLMProvider =
+      name === "stub" ? new StubProvider(onUsage) : createOpenAIProvider(name, onUsage);
+  }
+  return globalForLLM.kfcxLLMProvider;
+}
+
+/** What is missing from the environment for the selected provider, or null if it is ready. */
+export function llmConfigError(): string | null {
+  switch (getLLMProviderName()) {
+    case "stub":
+      return null;
+    case "azure":
+      return process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY
+        ? null
+        : "AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be set for KFCX_LLM_PROVIDER=azure.";
+    default:
+      return process.env.OPENAI_API_KEY
+        ? null
+        : "OPENAI_API_KEY is not set. Add it to .env.local, or set KFCX_LLM_PROVIDER=stub to run offline.";
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * OpenAI provider (Responses API, embeddings and vector stores). The same client class
+ * serves OpenAI, OpenAI-compatible endpoints (OPENAI_BASE_URL) and Azure OpenAI, where the
+ * model names are deployment names.
+ */
+
+import fs from "fs";
+import OpenAI, { AzureOpenAI } from "openai";
+import type {
+  CompletionRequest,
+  LLMProvider,
+  RetrievalProvider,
+  UsageListener,
+} from "./types";
+
+/** Model for all Responses API usage (chat + analysis) unless KFCX_CHAT_MODEL is set. */
+export const DEFAULT_CHAT_MODEL = "gpt-5.2";
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+/** Responses API and vector stores need a preview API version on Azure. */
+const DEFAULT_AZURE_API_VERSION = "2025-03-01-preview";
+
+class OpenAIRetrieval implements RetrievalProvider {
+  constructor(private readonly client: OpenAI) {}
+
+  async createStore(name: string): Promise<string> {
+    const store = await this.client.vectorStores.create({ name });
+    return store.id;
+  }
+
+  async storeExists(storeId: string): Promise<boolean> {
+    try {
+      await this.client.vectorStores.retrieve(storeId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listFiles(storeId: string): Promise<string[]> {
+    const ids: string[] = [];
+    for await (const file of this.client.vectorStores.files.list(storeId)) ids.push(file.id);
+    return ids;
+  }
+
+  async uploadFile(storeId: string, filePath: string): Promise<string> {
+    const file = await this.client.vectorStores.files.uploadAndPoll(
+      storeId,
+      fs.createReadStream(filePath)
+    );
+    return file.id;
+  }
+
+  async deleteFile(storeId: string, fileId: string): Promise<void> {
+    await this.client.vectorStores.files.del(storeId, fileId);
+  }
+}
+
+interface ResponseUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly retrieval: RetrievalProvider;
+
+  constructor(
+    readonly name: "openai" | "azure",
+    private readonly client: OpenAI,
+    readonly chatModel: string,
+    readonly embeddingModel: string,
+    private readonly onUsage: UsageListener = () => {}
+  ) {
+    this.retrieval = new OpenAIRetrieval(client);
+  }
+
+  private reportCompletion(
+    task: string,
+    startedAt: number,
+    usage: ResponseUsage | undefined,
+    error?: unknown
+  ): void {
+    this.onUsage({
+      operation: "completion",
+      task,
+      model: this.chatModel,
+      inputTokens: usage?.input_tokens ?? 0,
+      outputTokens: usage?.output_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      ...(error !== undefined ? { error: errorMessage(error) } : {}),
+    });
+  }
+
+  async *streamCompletion(request: CompletionRequest): AsyncIterable<string> {
+    const startedAt = Date.now();
+    // Token counts arrive with the final "response.completed" event
+    let usage: ResponseUsage | undefined;
+    let failure: unknown;
+    try {
+      const stream = await this.client.responses.create({
+        model: this.chatModel,
+        instructions: request.instructions,
+        input: request.input,
+        temperature: request.temperature,
+        stream: true,
+        ...(request.vectorStoreIds?.length
+          ? { tools: [{ type: "file_search", vector_store_ids: request.vectorStoreIds }] }
+          : {}),
+      });
+      for await (const event of stream as AsyncIterable<{
+        type: string;
+        delta?: string;
+        response?: { usage?: ResponseUsage };
+        annotation?: { type?: string; file_id?: string; filename?: string; index?: number };
+      }>) {
+        if (event.type === "response.output_text.delta" && event.delta) yield event.delta;
+        else if (event.type === "response.completed") usage = event.response?.usage;
+        else if (event.type === "response.file_search_call.searching") {
+          request.onEvent?.({ type: "file_search", state: "searching" });
+        } else if (event.type === "response.file_search_call.completed") {
+          request.onEvent?.({ type: "file_search", state: "completed" });
+        } else if (
+          event.type === "response.output_text.annotation.added" &&
+          event.annotation?.type === "file_citation" &&
+          event.annotation.file_id
+        ) {
+          request.onEvent?.({
+            type: "file_citation",
+            fileId: event.annotation.file_id,
+            filename: event.annotation.filename ?? null,
+            index: event.annotation.index ?? 0,
+          });
+        }
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      // Also runs when the consumer stops reading early (e.g. the client disconnected)
+      this.reportCompletion(request.task, startedAt, usage, failure);
+    }
+  }
+
+  async generateJSON(request: CompletionRequest): Promise<string> {
+    const startedAt = Date.now();
+    let response;
+    try {
+      response = await this.client.responses.create({
+        model: this.chatModel,
+        instructions: request.instructions,
+        input: request.input,
+        temperature: request.temperature,
+        text: { format: { type: "json_object" } },
+      });
+    } catch (error) {
+      this.reportCompletion(request.task, startedAt, undefined, error);
+      throw error;
+    }
+    this.reportCompletion(request.task, startedAt, response.usage ?? undefined);
+    return (response as { output_text?: string }).output_text || "{}";
+  }
+
+  async embed(texts: string[], task: string): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const startedAt = Date.now();
+    const report = (inputTokens: number, error?: unknown) =>
+      this.onUsage({
+        operation: "embedding",
+        task,
+        model: this.embeddingModel,
+        inputTokens,
+        outputTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        ...(error !== undefined ? { error: errorMessage(error) } : {}),
+      });
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.embeddingModel,
+        input: texts,
+      });
+      report(response.usage?.prompt_tokens ?? 0);
+      return response.data.map((d) => d.embedding);
+    } catch (error) {
+      report(0, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * OpenAI (OPENAI_API_KEY, optional OPENAI_BASE_URL for a compatible endpoint) or Azure
+ * OpenAI (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, optional OPENAI_API_VERSION).
+ * KFCX_CHAT_MODEL and KFCX_EMBEDDING_MODEL override the models (Azure: deployment names).
+ */
+export function createOpenAIProvider(
+  name: "openai" | "azure",
+  onUsage?: UsageListener
+): OpenAIProvider {
+  const chatModel = process.env.KFCX_CHAT_MODEL?.trim() || DEFAULT_CHAT_MODEL;
+  const embeddingModel = process.env.KFCX_EMBEDDING_MODEL?.trim() || DEFAULT_EMBEDDING_MODEL;
+  const client =
+    name === "azure"
+      ? new AzureOpenAI({
+          endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+          apiKey: process.env.AZURE_OPENAI_API_KEY,
+          apiVersion: process.env.OPENAI_API_VERSION?.trim() || DEFAULT_AZURE_API_VERSION,
+        })
+      : new OpenAI({
+          apiKey: process.env.OPENAI_API_KEY,
+          baseURL: process.env.OPENAI_BASE_URL?.trim() || undefined,
+        });
+  return new OpenAIProvider(name, client, chatModel, embeddingModel, onUsage);
+}
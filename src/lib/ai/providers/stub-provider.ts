@@ -0,0 +1,286 @@
+/**
+ * Offline deterministic provider (KFCX_LLM_PROVIDER=stub) for demos and tests without a
+ * model. Nothing is random: the same input always gives the same output.
+ *
+ * - Fixtures: with KFCX_STUB_FIXTURES set to a directory, a request is answered from
+ *   "{task}.{hash}.txt" (hash: first 16 hex chars of the SHA-256 of the request input) or,
+ *   failing that, "{task}.txt".
+ * - Otherwise JSON tasks get a response built from the prompt itself: report bullets become
+ *   theme candidates and opportunities, and candidates are clustered by their label's
+ *   leading keyword. Unknown tasks get "{}".
+ * - Chat streams a short answer naming the sources found in the prompt's context.
+ * - Embeddings hash word tokens into a fixed-size vector, so texts sharing words are close.
+ * - Usage is reported with token counts estimated from text length, so the usage log and
+ *   budgets can be exercised offline.
+ *
+ * There is no hosted retrieval; Chat falls back to the local embedding index.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type {
+  CompletionRequest,
+  LLMInputMessage,
+  LLMProvider,
+  ProviderUsage,
+  UsageListener,
+} from "./types";
+
+const EMBEDDING_DIMENSIONS = 256;
+/** Rough characters per token of English text, for the estimated usage. */
+const CHARS_PER_TOKEN = 4;
+/** Themes per stub-clustered group. */
+const MAX_STUB_THEMES = 6;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is",
+  "it", "its", "of", "on", "or", "that", "the", "their", "this", "to", "was", "were", "with",
+  "kf", "korn", "ferry", "client", "clients",
+]);
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function inputText(input: CompletionRequest["input"]): string {
+  return typeof input === "string" ? input : input.map((m) => m.content).join("\n\n");
+}
+
+/** 32-bit FNV-1a; cheap and stable across runs and platforms. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/** Signed feature hashing of word tokens, L2-normalised. */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of words(text)) {
+    if (STOPWORDS.has(token)) continue;
+    const hash = fnv1a(token);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1; // empty text still gets a unit vector
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+/** "- " bullets directly under a "Heading:" line of the prompt. */
+function bulletsUnder(text: string, heading: string): string[] {
+  const lines = text.split("\n");
+  const start = lines.findIndex((l) => l.trim() === `${heading}:`);
+  if (start < 0) return [];
+  const bullets: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (!line.startsWith("- ")) break;
+    bullets.push(line.slice(2).trim());
+  }
+  return bullets.filter(Boolean);
+}
+
+/** First clause of a bullet, cut to a few words. */
+function shortLabel(text: string, maxWords: number): string {
+  const clause = text.split(/[.:;"]|\s[-–—]\s/)[0] ?? text;
+  const label = clause.trim().split(/\s+/).slice(0, maxWords).join(" ").replace(/[,]+$/, "");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function themeCandidates(prompt: string) {
+  const sections: [string, string, string][] = [
+    ["Key Themes", "choose", "positive"],
+    ["What went well", "valued", "positive"],
+    ["Challenges/Pain Points", "fallsShort", "negative"],
+    ["Gaps Identified", "fallsShort", "negative"],
+  ];
+  const themes = sections.flatMap(([heading, category, sentiment]) =>
+    bulletsUnder(prompt, heading)
+      .slice(0, 2)
+      .map((bullet) => ({
+        category,
+        label: shortLabel(bullet, 5),
+        description: bullet,
+        sentiment,
+        quotes: [bullet],
+      }))
+  );
+  const insight = /^Additional Insight: (.+)$/m.exec(prompt)?.[1]?.trim();
+  if (insight) {
+    themes.push({
+      category: "other",
+      label: shortLabel(insight, 5),
+      description: insight,
+      sentiment: "neutral",
+      quotes: [insight],
+    });
+  }
+  return { themes };
+}
+
+interface CandidateLine {
+  key: string;
+  sentiment: string;
+  label: string;
+  description: string;
+}
+
+/** Candidate lines "[t-006#2] (positive) Label: description" of a reduce prompt. */
+function candidateLines(prompt: string): CandidateLine[] {
+  const lines: CandidateLine[] = [];
+  for (const match of prompt.matchAll(/^\[([^\]]+)\] \((\w+)\) ([^:\n]+): (.*)$/gm)) {
+    lines.push({ key: match[1], sentiment: match[2], label: match[3], description: match[4] });
+  }
+  return lines;
+}
+
+/** Cluster candidates by the first non-stopword of their label, biggest clusters first. */
+function clusterCandidates(candidates: CandidateLine[]) {
+  const clusters = new Map<string, CandidateLine[]>();
+  for (const c of candidates) {
+    const keyword = words(c.label).find((w) => !STOPWORDS.has(w)) ?? "general";
+    clusters.set(keyword, [...(clusters.get(keyword) ?? []), c]);
+  }
+  return [...clusters.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .slice(0, MAX_STUB_THEMES)
+    .map(([, members]) => ({
+      label: members[0].label,
+      description: members[0].description,
+      sentiment: members[0].sentiment,
+      candidates: members.map((m) => m.key),
+    }));
+}
+
+function opportunities(prompt: string) {
+  return {
+    opportunities: bulletsUnder(prompt, "Actions & Recommendations")
+      .slice(0, 3)
+      .map((bullet) => ({
+        type: "improvement",
+        title: shortLabel(bullet, 8),
+        description: bullet,
+        urgency: "medium",
+        supportingQuote: bullet,
+        suggestedAction: bullet,
+      })),
+  };
+}
+
+const JSON_RESPONDERS: Record<string, (prompt: string) => unknown> = {
+  "theme-candidates": themeCandidates,
+  "theme-group": (prompt) => ({
+    name: /"name": "([^"]+)"/.exec(prompt)?.[1] ?? "Themes",
+    description: "Generated offline by the stub provider",
+    themes: clusterCandidates(candidateLines(prompt)),
+  }),
+  "theme-additional-groups": (prompt) => ({
+    groups: [
+      {
+        name: "Other Themes",
+        description: "Generated offline by the stub provider",
+        themes: clusterCandidates(candidateLines(prompt)),
+      },
+    ],
+  }),
+  opportunities,
+};
+
+function chatAnswer(request: CompletionRequest): string {
+  const messages: LLMInputMessage[] =
+    typeof request.input === "string" ? [{ role: "user", content: request.input }] : request.input;
+  const question = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  const sources = [
+    ...new Set(
+      [...inputText(request.input).matchAll(/^Source: ([^(\n]+?) \(/gm)].map((m) => m[1])
+    ),
+  ].slice(0, 3);
+  return [
+    "_Offline stub response: no model was called._",
+    "",
+    `You asked: "${question.trim()}"`,
+    "",
+    sources.length > 0
+      ? `Most relevant interviews:\n${sources.map((s) => `- [${s}]`).join("\n")}`
+      : "No interview context was retrieved for this question.",
+  ].join("\n");
+}
+
+export class StubProvider implements LLMProvider {
+  readonly name = "stub" as const;
+  readonly chatModel = "stub";
+  readonly embeddingModel = `stub-hash-${EMBEDDING_DIMENSIONS}`;
+  readonly retrieval = null;
+
+  constructor(
+    private readonly onUsage: UsageListener = () => {},
+    private readonly fixturesDir = process.env.KFCX_STUB_FIXTURES?.trim() || null
+  ) {}
+
+  private report(
+    operation: ProviderUsage["operation"],
+    task: string,
+    input: string,
+    output: string
+  ): void {
+    this.onUsage({
+      operation,
+      task,
+      model: operation === "embedding" ? this.embeddingModel : this.chatModel,
+      inputTokens: estimateTokens(input),
+      outputTokens: estimateTokens(output),
+      latencyMs: 0,
+    });
+  }
+
+  private async fixture(request: CompletionRequest): Promise<string | null> {
+    if (!this.fixturesDir) return null;
+    const hash = crypto
+      .createHash("sha256")
+      .update(inputText(request.input))
+      .digest("hex")
+      .slice(0, 16);
+    for (const file of [`${request.task}.${hash}.txt`, `${request.task}.txt`]) {
+      try {
+        return await fs.promises.readFile(path.join(this.fixturesDir, file), "utf-8");
+      } catch {
+        // Try the next fixture
+      }
+    }
+    return null;
+  }
+
+  async *streamCompletion(request: CompletionRequest): AsyncIterable<string> {
+    const text = (await this.fixture(request)) ?? chatAnswer(request);
+    this.report("completion", request.task, inputText(request.input), text);
+    // Word-sized deltas, like a streamed model response
+    for (const piece of text.match(/\s*\S+/g) ?? []) yield piece;
+  }
+
+  async generateJSON(request: CompletionRequest): Promise<string> {
+    const prompt = inputText(request.input);
+    let json = await this.fixture(request);
+    if (json === null) {
+      const respond = JSON_RESPONDERS[request.task];
+      json = JSON.stringify(respond ? respond(prompt) : {});
+    }
+    this.report("completion", request.task, prompt, json);
+    return json;
+  }
+
+  async embed(texts: string[], task: string): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    this.report("embedding", task, texts.join("\n"), "");
+    return texts.map(hashEmbedding);
+  }
+}
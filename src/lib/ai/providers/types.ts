@@ -0,0 +1,71 @@
+/**
+ * LLM provider interface. Every model call (chat, JSON generation, embeddings) and the
+ * hosted retrieval used by Chat goes through an LLMProvider, so the app can run against
+ * OpenAI, Azure OpenAI / an OpenAI-compatible endpoint, or the offline stub.
+ */
+
+export type LLMProviderName = "openai" | "azure" | "stub";
+
+export interface LLMInputMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** Hosted file search progress and the citations it adds to the streamed text. */
+export type CompletionEvent =
+  | { type: "file_search"; state: "searching" | "completed" }
+  | { type: "file_citation"; fileId: string; filename: string | null; index: number };
+
+export interface CompletionRequest {
+  /** Names the call site, e.g. "chat" or "theme-candidates"; the stub and its fixtures key on it. */
+  task: string;
+  input: string | LLMInputMessage[];
+  instructions?: string;
+  temperature?: number;
+  /** Hosted file search over these vector stores (providers with retrieval only). */
+  vectorStoreIds?: string[];
+  /**
+   * Called from streamCompletion, between text deltas, as file search runs and cites files.
+   * `index` of a citation is its offset in the streamed text.
+   */
+  onEvent?: (event: CompletionEvent) => void;
+}
+
+/** Tokens and timing of one model call, reported by the provider when the call ends. */
+export interface ProviderUsage {
+  operation: "completion" | "embedding";
+  task: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** Set when the call failed; tokens are then whatever was reported before the failure. */
+  error?: string;
+}
+
+export type UsageListener = (usage: ProviderUsage) => void;
+
+/** Hosted vector stores that completions can search (Responses API file_search). */
+export interface RetrievalProvider {
+  createStore(name: string): Promise<string>;
+  storeExists(storeId: string): Promise<boolean>;
+  listFiles(storeId: string): Promise<string[]>;
+  /** Upload a local file and wait until it is indexed; returns the file id. */
+  uploadFile(storeId: string, filePath: string): Promise<string>;
+  deleteFile(storeId: string, fileId: string): Promise<void>;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  /** Null when the provider has no hosted retrieval; Chat then uses local embeddings. */
+  readonly retrieval: RetrievalProvider | null;
+
+  /** Stream the response text as it is generated. */
+  streamCompletion(request: CompletionRequest): AsyncIterable<string>;
+  /** JSON-mode completion. Returns the JSON text; callers parse and validate it. */
+  generateJSON(request: CompletionRequest): Promise<string>;
+  /** One embedding per text, in order. `task` names the call site, as on CompletionRequest. */
+  embed(texts: string[], task: string): Promise<number[][]>;
+}
@@ -0,0 +1,317 @@
+/**
+ * Quote verification for theme analysis.
+ *
+ * The model cites quotes by interview id, but nothing guarantees the text is really in
+ * that interview. Each quote is fuzzy-matched against the cited interview's transcript
+ * turns and report items; the result records how well it matched, where (so the UI can
+ * link straight to the passage), and the interview's real metadata for labelling.
+ * A quote found under the client and company it names rather than the cited id is
+ * re-attributed. Quotes whose interview cannot be identified are dropped; quotes that
+ * cannot be found in the text are kept but flagged "unverified" (or dropped with
+ * dropUnverified).
+ */
+
+import type {
+  InterviewMetadata,
+  NormalizedReport,
+  NormalizedTranscript,
+  QuoteLocation,
+  QuoteReference,
+  QuoteVerification,
+  QuoteVerificationStats,
+  ReportSectionKey,
+  ThemeAnalysis,
+  ThemeGroup,
+} from "@/types";
+
+/** Minimum bigram similarity for a quote to count as a close paraphrase. */
+export const FUZZY_MATCH_THRESHOLD = 0.6;
+
+export interface QuoteSourceDocument {
+  metadata: InterviewMetadata;
+  transcript: NormalizedTranscript | null;
+  report: NormalizedReport | null;
+}
+
+interface Passage {
+  location: QuoteLocation;
+  normalized: string;
+  tokens: string[];
+}
+
+const REPORT_SECTIONS: ReportSectionKey[] = [
+  "overview",
+  "whatWentWell",
+  "challengesPainPoints",
+  "gapsIdentified",
+  "keyThemes",
+  "actionsRecommendations",
+  "additionalInsight",
+];
+
+/** Lower-case words only: punctuation, quote styles and spacing differences don't count. */
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/'/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(tokens: string[]): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i < tokens.length - 1; i++) result.add(`${tokens[i]} ${tokens[i + 1]}`);
+  return result;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function buildPassages(doc: QuoteSourceDocument): Passage[] {
+  const passages: Passage[] = [];
+  const add = (location: QuoteLocation, text: string) => {
+    const normalized = normalizeForMatch(text);
+    if (normalized) passages.push({ location, normalized, tokens: normalized.split(" ") });
+  };
+
+  doc.transcript?.fullTranscript.forEach((turn, turnIndex) => {
+    add(
+      {
+        source: "transcript",
+        turnIndex,
+        speaker: turn.speaker,
+        ...(turn.startTime !== undefined ? { startTime: turn.startTime } : {}),
+      },
+      turn.text
+    );
+  });
+
+  if (doc.report) {
+    for (const section of REPORT_SECTIONS) {
+      const value = doc.report[section];
+      const items = Array.isArray(value) ? value : [value];
+      items.forEach((item, itemIndex) => {
+        if (item) add({ source: "report", section, itemIndex }, item);
+      });
+    }
+  }
+
+  return passages;
+}
+
+/**
+ * Best similarity of a quote fragment with any window of the passage that is as long as
+ * the fragment: 1 for a verbatim match, otherwise the bigram Dice coefficient.
+ */
+function scoreFragment(fragment: string[], passage: Passage): number {
+  if (passage.normalized.includes(fragment.join(" "))) return 1;
+  if (fragment.length < 3) return 0;
+
+  const target = bigrams(fragment);
+  const width = Math.min(fragment.length, passage.tokens.length);
+  let best = 0;
+  for (let start = 0; start + width <= passage.tokens.length; start++) {
+    best = Math.max(best, dice(target, bigrams(passage.tokens.slice(start, start + width))));
+    if (best === 1) break;
+  }
+  return best;
+}
+
+/**
+ * Quotes stitched together with ellipses, or with editorial insertions like "[the team]",
+ * are matched fragment by fragment.
+ */
+function quoteFragments(text: string): string[][] {
+  return text
+    .split(/\.{3}|\u2026|\[[^\]]*\]/)
+    .map((part) => normalizeForMatch(part))
+    .filter((part) => part.split(" ").length >= 2)
+    .map((part) => part.split(" "));
+}
+
+function findBestMatch(
+  text: string,
+  passages: Passage[]
+): { score: number; location: QuoteLocation | null } {
+  const fragments = quoteFragments(text);
+  if (fragments.length === 0) return { score: 0, location: null };
+
+  let score = 1;
+  let location: QuoteLocation | null = null;
+  for (const [i, fragment] of fragments.entries()) {
+    let fragmentBest = 0;
+    let fragmentLocation: QuoteLocation | null = null;
+    for (const passage of passages) {
+      const s = scoreFragment(fragment, passage);
+      // Ties go to the earlier passage: transcript turns come before report items
+      if (s > fragmentBest) {
+        fragmentBest = s;
+        fragmentLocation = passage.location;
+      }
+    }
+    score = Math.min(score, fragmentBest);
+    if (i === 0) location = fragmentLocation;
+  }
+  return { score: Math.round(score * 100) / 100, location };
+}
+
+/**
+ * Interviews a quote may come from: the cited interview id, then the interview the quoted
+ * client and company identify (models sometimes cite the wrong id for the right person).
+ */
+function candidateInterviews(
+  quote: Record<string, unknown>,
+  sources: Map<string, QuoteSourceDocument>
+): QuoteSourceDocument[] {
+  const candidates: QuoteSourceDocument[] = [];
+  const id = typeof quote.interviewId === "string" ? quote.interviewId.trim() : "";
+  const cited = id ? sources.get(id) : undefined;
+  if (cited) candidates.push(cited);
+
+  const client = typeof quote.client === "string" ? quote.client.trim().toLowerCase() : "";
+  const company = typeof quote.company === "string" ? quote.company.trim().toLowerCase() : "";
+  if (client && company) {
+    const named = [...sources.values()].filter(
+      (s) =>
+        s.metadata.client.trim().toLowerCase() === client &&
+        s.metadata.company.trim().toLowerCase() === company
+    );
+    if (named.length === 1 && named[0] !== cited) candidates.push(named[0]);
+  }
+  return candidates;
+}
+
+/**
+ * Verifies quotes against a fixed set of interviews. Passages are built once per
+ * interview, so one verifier should be reused for a whole analysis.
+ */
+export class QuoteVerifier {
+  readonly stats: QuoteVerificationStats = { exact: 0, fuzzy: 0, unverified: 0, dropped: 0 };
+  private readonly sources: Map<string, QuoteSourceDocument>;
+  private readonly passages = new Map<string, Passage[]>();
+
+  constructor(
+    documents: QuoteSourceDocument[],
+    private readonly options: { dropUnverified?: boolean } = {}
+  ) {
+    this.sources = new Map(documents.map((d) => [d.metadata.id, d]));
+  }
+
+  private match(text: string, doc: QuoteSourceDocument) {
+    const id = doc.metadata.id;
+    if (!this.passages.has(id)) this.passages.set(id, buildPassages(doc));
+    return findBestMatch(text, this.passages.get(id)!);
+  }
+
+  /** Verified quote with the interview's metadata, or null if it is dropped. */
+  verifyQuote(quote: Record<string, unknown>): QuoteReference | null {
+    const text = typeof quote.text === "string" ? quote.text.trim() : "";
+    const candidates = text ? candidateInterviews(quote, this.sources) : [];
+    if (candidates.length === 0) {
+      this.stats.dropped++;
+      return null;
+    }
+
+    // The first candidate that contains the quote wins; otherwise it stays with the first
+    let doc = candidates[0];
+    let { score, location } = this.match(text, doc);
+    for (const other of candidates.slice(1)) {
+      if (score >= FUZZY_MATCH_THRESHOLD) break;
+      const alternative = this.match(text, other);
+      if (alternative.score > score) {
+        doc = other;
+        ({ score, location } = alternative);
+      }
+    }
+
+    const verification: QuoteVerification =
+      score === 1 ? "exact" : score >= FUZZY_MATCH_THRESHOLD ? "fuzzy" : "unverified";
+    if (verification === "unverified" && this.options.dropUnverified) {
+      this.stats.dropped++;
+      return null;
+    }
+    this.stats[verification]++;
+
+    const m = doc.metadata;
+    return {
+      text,
+      interviewId: m.id,
+      client: m.client,
+      company: m.company,
+      region: m.region,
+      solution: m.solution,
+      accountType: m.accountType,
+      npsCategory: m.npsCategory,
+      score: m.score,
+      verification,
+      matchScore: score,
+      location: verification === "unverified" ? null : location,
+    };
+  }
+
+  /**
+   * Verify a theme's quotes as returned by the model. Duplicates (same interview and
+   * passage) are dropped.
+   */
+  verifyQuotes(raw: unknown[]): QuoteReference[] {
+    const seen = new Set<string>();
+    const quotes: QuoteReference[] = [];
+    for (const item of raw) {
+      if (!item || typeof item !== "object") {
+        this.stats.dropped++;
+        continue;
+      }
+      const quote = this.verifyQuote(item as Record<string, unknown>);
+      if (!quote) continue;
+      const key = `${quote.interviewId}:${
+        quote.location ? JSON.stringify(quote.location) : normalizeForMatch(quote.text)
+      }`;
+      if (seen.has(key)) {
+        this.stats[quote.verification!]--;
+        this.stats.dropped++;
+        continue;
+      }
+      seen.add(key);
+      quotes.push(quote);
+    }
+    return quotes;
+  }
+
+  /** Interview ids limited to the interviews being verified against. */
+  knownInterviewIds(ids: unknown[]): string[] {
+    return ids.filter((id): id is string => typeof id === "string" && this.sources.has(id));
+  }
+
+  verifyThemeGroup(group: ThemeGroup): ThemeGroup {
+    return {
+      ...group,
+      themes: group.themes.map((theme) => ({
+        ...theme,
+        supportingQuotes: this.verifyQuotes(theme.supportingQuotes),
+        interviewIds: this.knownInterviewIds(theme.interviewIds),
+      })),
+    };
+  }
+}
+
+/** Verify all quotes of a stored analysis, e.g. one generated before verification existed. */
+export function verifyThemeAnalysisQuotes(
+  analysis: ThemeAnalysis,
+  documents: QuoteSourceDocument[],
+  options: { dropUnverified?: boolean } = {}
+): ThemeAnalysis {
+  const verifier = new QuoteVerifier(documents, options);
+  return {
+    ...analysis,
+    whyClientsChoose: verifier.verifyThemeGroup(analysis.whyClientsChoose),
+    promoterExperience: verifier.verifyThemeGroup(analysis.promoterExperience),
+    whereFallsShort: verifier.verifyThemeGroup(analysis.whereFallsShort),
+    additionalThemes: analysis.additionalThemes.map((g) => verifier.verifyThemeGroup(g)),
+    quoteVerification: verifier.stats,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Chunk retrieval for chat and /api/search, over the chunks of the embedding index:
+ * - semantic: cosine similarity to the query embedding (a dot product, as the stored
+ *   vectors are normalised)
+ * - keyword: BM25 (lexical-index.ts), for names and product terms embeddings blur
+ * - hybrid: both rankings fused by reciprocal rank, score = sum of 1 / (RRF_K + rank).
+ *   Ranks need no calibration between cosine and BM25 scores, and a chunk either list
+ *   ranks highly makes the cut.
+ * Each list is cut to its best RANK_DEPTH (or 4 × topK) chunks with a bounded heap rather
+ * than sorting every chunk; a chunk below that in both lists could not make the top k.
+ */
+
+import { filterChunks, generateEmbedding, type ChunkFilters } from "./embeddings";
+import { loadLexicalIndex, scoreBM25 } from "./lexical-index";
+import { packVectors } from "@/lib/data/embedding-format";
+import { readEmbeddingIndex, readMetadataIndex } from "@/lib/data/store";
+import type { EmbeddingChunk, EmbeddingIndex, RetrievalMode, SearchResult } from "@/types";
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ["semantic", "keyword", "hybrid"];
+
+export const DEFAULT_RETRIEVAL_MODE: RetrievalMode = "hybrid";
+
+/** Reciprocal-rank fusion constant; 60 is the value from the original RRF paper. */
+const RRF_K = 60;
+
+/** Minimum number of chunks ranked per list. */
+const RANK_DEPTH = 100;
+
+export interface RetrievedChunk extends EmbeddingChunk {
+  score: number; // cosine, BM25 or fused score, depending on the mode
+  semanticRank: number | null; // 1-based; null when not ranked by that list
+  keywordRank: number | null;
+}
+
+export function isRetrievalMode(value: unknown): value is RetrievalMode {
+  return RETRIEVAL_MODES.includes(value as RetrievalMode);
+}
+
+interface Scored {
+  position: number; // chunk position in the embedding index
+  score: number;
+}
+
+/**
+ * The `k` highest-scoring entries, best first. Keeps a min-heap of the best seen so far,
+ * so it is O(n log k) instead of sorting all n.
+ */
+function selectTopK(entries: Iterable<Scored>, k: number): Scored[] {
+  const heap: Scored[] = [];
+  const swap = (i: number, j: number) => ([heap[i], heap[j]] = [heap[j], heap[i]]);
+  for (const entry of entries) {
+    if (heap.length < k) {
+      heap.push(entry);
+      for (let i = heap.length - 1; i > 0; ) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent].score <= heap[i].score) break;
+        swap(i, parent);
+        i = parent;
+      }
+    } else if (k > 0 && entry.score > heap[0].score) {
+      heap[0] = entry;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < k && heap[left].score < heap[smallest].score) smallest = left;
+        if (right < k && heap[right].score < heap[smallest].score) smallest = right;
+        if (smallest === i) break;
+        swap(i, smallest);
+        i = smallest;
+      }
+    }
+  }
+  return heap.sort((a, b) => b.score - a.score);
+}
+
+/** Cosine similarity of the query to each candidate row. */
+function* semanticScores(
+  index: EmbeddingIndex,
+  queryEmbedding: number[],
+  isCandidate: (position: number) => boolean
+): Generator<Scored> {
+  const { dimensions, vectors } = index;
+  const query = packVectors([queryEmbedding], dimensions);
+  for (let position = 0; position < index.chunks.length; position++) {
+    if (!isCandidate(position)) continue;
+    const offset = position * dimensions;
+    let score = 0;
+    for (let d = 0; d < dimensions; d++) score += query[d] * vectors[offset + d];
+    yield { position, score };
+  }
+}
+
+/**
+ * The `topK` chunks for a query, best first. Empty when there is no embedding index yet.
+ * Semantic and hybrid modes embed the query (`task` names the call for usage accounting).
+ */
+export async function retrieveChunks(
+  query: string,
+  options: {
+    mode?: RetrievalMode;
+    topK?: number;
+    filters?: ChunkFilters;
+    task?: string;
+  } = {}
+): Promise<RetrievedChunk[]> {
+  const { mode = DEFAULT_RETRIEVAL_MODE, topK = 10, filters, task = "chat-query" } = options;
+  const embeddingIndex = await readEmbeddingIndex();
+  if (!embeddingIndex || embeddingIndex.chunks.length === 0) return [];
+
+  const { chunks } = embeddingIndex;
+  const allowed = filters
+    ? await readMetadataIndex().then((metadata) => {
+        const interviewMap = new Map(metadata.interviews.map((i) => [i.id, i]));
+        return new Set(filterChunks(chunks, interviewMap, filters));
+      })
+    : null;
+  const isCandidate = (position: number) => !allowed || allowed.has(chunks[position]);
+  const depth = mode === "hybrid" ? Math.max(RANK_DEPTH, topK * 4) : topK;
+
+  let semantic: Scored[] = [];
+  if (mode !== "keyword") {
+    const queryEmbedding = await generateEmbedding(query, task);
+    semantic = selectTopK(semanticScores(embeddingIndex, queryEmbedding, isCandidate), depth);
+  }
+
+  let keyword: Scored[] = [];
+  if (mode !== "semantic") {
+    const lexical = await loadLexicalIndex(embeddingIndex);
+    const scores = scoreBM25(lexical, query);
+    const candidates: Scored[] = [];
+    for (const [position, score] of scores) {
+      if (isCandidate(position)) candidates.push({ position, score });
+    }
+    keyword = selectTopK(candidates, depth);
+  }
+
+  const results = new Map<number, RetrievedChunk>();
+  const entry = (position: number) => {
+    let existing = results.get(position);
+    if (!existing) {
+      existing = { ...chunks[position], score: 0, semanticRank: null, keywordRank: null };
+      results.set(position, existing);
+    }
+    return existing;
+  };
+  semantic.forEach(({ position, score }, i) => {
+    const result = entry(position);
+    result.semanticRank = i + 1;
+    result.score = mode === "hybrid" ? 1 / (RRF_K + i + 1) : score;
+  });
+  keyword.forEach(({ position, score }, i) => {
+    const result = entry(position);
+    result.keywordRank = i + 1;
+    result.score = mode === "hybrid" ? result.score + 1 / (RRF_K + i + 1) : score;
+  });
+
+  return [...results.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/** Chunks considered for a ranked /api/search; results are grouped by interview. */
+const SEARCH_TOP_K = 60;
+const MAX_MATCHES_PER_INTERVIEW = 3;
+
+const SECTION_LABELS: Record<string, string> = {
+  overview: "Overview",
+  section: "Transcript Summary",
+  transcript_segment: "Transcript",
+  client_turns: "Transcript (client)",
+  what_went_well: "What Went Well",
+  challenges: "Challenges",
+  gaps: "Gaps",
+  key_themes: "Key Themes",
+  actions: "Actions",
+  additional_insight: "Additional Insight",
+};
+
+/**
+ * /api/search with a retrieval mode: interviews ordered by their best chunk, with up to
+ * three matching chunks each. `relevance` is that chunk's score.
+ */
+export async function searchInterviewsRanked(
+  query: string,
+  mode: RetrievalMode,
+  filters: Pick<ChunkFilters, "region" | "solution" | "npsCategory"> = {}
+): Promise<SearchResult[]> {
+  const chunks = await retrieveChunks(query, {
+    mode,
+    topK: SEARCH_TOP_K,
+    filters,
+    task: "embedding-search-query",
+  });
+  const metadata = await readMetadataIndex();
+  const interviewMap = new Map(metadata.interviews.map((i) => [i.id, i]));
+
+  const results = new Map<string, SearchResult>();
+  for (const chunk of chunks) {
+    const meta = interviewMap.get(chunk.interviewId);
+    if (!meta) continue;
+    let result = results.get(meta.id);
+    if (!result) {
+      result = {
+        interviewId: meta.id,
+        client: meta.client,
+        company: meta.company,
+        score: meta.score,
+        npsCategory: meta.npsCategory,
+        matches: [],
+        relevance: chunk.score,
+      };
+      results.set(meta.id, result);
+    }
+    if (result.matches.length < MAX_MATCHES_PER_INTERVIEW) {
+      const label = SECTION_LABELS[chunk.sectionType] ?? chunk.sectionType;
+      result.matches.push({
+        text: chunk.text,
+        section:
+          chunk.source === "transcript" && chunk.sectionType === "overview"
+            ? "Transcript Overview"
+            : label,
+      });
+    }
+  }
+  return [...results.values()];
+}
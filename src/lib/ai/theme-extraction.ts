@@ -0,0 +1,327 @@
+/**
+ * Map-reduce theme extraction.
+ *
+ * Map: one small call per interview extracts candidate themes with verbatim quotes. The
+ * result is cached (metadata/theme-candidates.json, or the "theme-candidates" artifact)
+ * under a hash of the prompt template, model and interview text, so a regeneration only
+ * calls the model for new or changed interviews.
+ * Reduce: one call per group clusters the candidates' one-line labels into the final
+ * themes. The reduce input grows by a line per candidate rather than by a whole interview
+ * summary, and interview ids, frequencies and quotes come from the clustered candidates
+ * rather than from the model.
+ *
+ * Prompts come from the registry (prompt-registry.ts) via the caller's PromptSet.
+ */
+
+import crypto from "crypto";
+import { getLLMProvider } from "./provider";
+import type { PromptSet } from "./prompt-registry";
+import { readThemeCandidates, updateThemeCandidates } from "@/lib/data/store";
+import { formatTurnLine } from "@/lib/data/transcript-formats";
+import type { QuoteSourceDocument } from "./quote-verification";
+import type {
+  Theme,
+  ThemeCandidate,
+  ThemeCandidateCache,
+  ThemeCandidateCategory,
+  ThemeExtractionStats,
+} from "@/types";
+
+/** Bump when the candidate shape changes, to re-extract every interview. */
+const EXTRACTION_VERSION = 1;
+const EXTRACTION_CONCURRENCY = 10;
+/** Transcript text sent per interview; long transcripts are cut. */
+const MAX_TRANSCRIPT_CHARS = 40000;
+
+const CATEGORIES: ThemeCandidateCategory[] = ["choose", "valued", "fallsShort", "other"];
+const SENTIMENTS: Theme["sentiment"][] = ["positive", "negative", "neutral"];
+
+/** A candidate with its key ("t-006#2") and interview, as clustered by the reduce step. */
+export interface KeyedCandidate extends ThemeCandidate {
+  key: string;
+  interviewId: string;
+}
+
+function interviewText(doc: QuoteSourceDocument): string {
+  const m = doc.metadata;
+  const parts = [
+    `Interview ${m.id}: ${m.client}, ${m.company} (NPS ${m.score}, ${m.npsCategory}, ${m.region}, ${m.solution})`,
+  ];
+  const r = doc.report;
+  if (r) {
+    parts.push(`Overview: ${r.overview}`);
+    const lists: [string, string[]][] = [
+      ["What went well", r.whatWentWell],
+      ["Challenges/Pain Points", r.challengesPainPoints],
+      ["Gaps Identified", r.gapsIdentified],
+      ["Key Themes", r.keyThemes],
+      ["Actions & Recommendations", r.actionsRecommendations],
+    ];
+    for (const [title, items] of lists) {
+      if (items.length > 0) parts.push(`${title}:\n- ${items.join("\n- ")}`);
+    }
+    if (r.additionalInsight) parts.push(`Additional Insight: ${r.additionalInsight}`);
+  }
+  const t = doc.transcript;
+  if (t) {
+    const text =
+      t.fullTranscript.length > 0 ? t.fullTranscript.map(formatTurnLine).join("\n") : t.rawText;
+    parts.push(`Transcript:\n${text.slice(0, MAX_TRANSCRIPT_CHARS)}`);
+  }
+  return parts.join("\n\n");
+}
+
+function parseCandidates(content: string): ThemeCandidate[] | null {
+  let parsed: { themes?: unknown };
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed.themes)) return null;
+  return parsed.themes
+    .filter((t): t is Record<string, unknown> => !!t && typeof t === "object")
+    .map((t) => ({
+      category: CATEGORIES.includes(t.category as ThemeCandidateCategory)
+        ? (t.category as ThemeCandidateCategory)
+        : "other",
+      label: typeof t.label === "string" ? t.label.trim() : "",
+      description: typeof t.description === "string" ? t.description.trim() : "",
+      sentiment: SENTIMENTS.includes(t.sentiment as Theme["sentiment"])
+        ? (t.sentiment as Theme["sentiment"])
+        : "neutral",
+      quotes: Array.isArray(t.quotes)
+        ? t.quotes.filter((q): q is string => typeof q === "string" && q.trim() !== "")
+        : [],
+    }))
+    .filter((t) => t.label);
+}
+
+/**
+ * Candidate themes for every interview: cached ones whose input is unchanged, the rest
+ * extracted (and merged into the cache batch by batch, so a failed run keeps its
+ * progress). Unless `prune` is false, entries for interviews not in the list are removed;
+ * segment runs pass a subset and must not prune. `refresh` re-extracts everything.
+ * With `persist: false` the cache is read but never written (prompt experiments).
+ * With `cachedOnly` nothing is extracted: interviews without a current cache entry
+ * contribute no candidates, so the result can be checked without any model calls.
+ */
+export async function extractThemeCandidates(
+  interviews: QuoteSourceDocument[],
+  prompts: PromptSet,
+  options: { refresh?: boolean; prune?: boolean; persist?: boolean; cachedOnly?: boolean } = {}
+): Promise<{ candidates: KeyedCandidate[]; stats: ThemeExtractionStats }> {
+  const provider = getLLMProvider();
+  const persist = options.persist !== false;
+  const promptHash = prompts.ref("theme-candidates").hash;
+  const previous = await readThemeCandidates();
+  const found: ThemeCandidateCache["interviews"] = {};
+
+  const pending: { doc: QuoteSourceDocument; text: string; inputHash: string }[] = [];
+  let cached = 0;
+  for (const doc of interviews) {
+    const text = interviewText(doc);
+    const inputHash = crypto
+      .createHash("sha256")
+      .update(JSON.stringify([EXTRACTION_VERSION, promptHash, provider.chatModel, text]))
+      .digest("hex");
+    const hit = previous?.interviews[doc.metadata.id];
+    if (!options.refresh && hit?.inputHash === inputHash) {
+      found[doc.metadata.id] = hit;
+      cached++;
+    } else if (!options.cachedOnly) {
+      pending.push({ doc, text, inputHash });
+    }
+  }
+
+  for (let i = 0; i < pending.length; i += EXTRACTION_CONCURRENCY) {
+    const batch = pending.slice(i, i + EXTRACTION_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(async ({ text }) => {
+        const prompt = prompts.render("theme-candidates", { interview: text });
+        return parseCandidates(
+          await provider.generateJSON({
+            task: "theme-candidates",
+            input: prompt.text,
+            temperature: prompt.temperature,
+          })
+        );
+      })
+    );
+    const fresh: ThemeCandidateCache["interviews"] = {};
+    batch.forEach(({ doc, inputHash }, j) => {
+      const candidates = results[j];
+      if (!candidates) {
+        // Not cached, so the next run retries it
+        console.error(`Failed to parse theme candidates for ${doc.metadata.id}`);
+        return;
+      }
+      fresh[doc.metadata.id] = {
+        inputHash,
+        extractedAt: new Date().toISOString(),
+        candidates,
+      };
+    });
+    Object.assign(found, fresh);
+    if (persist) {
+      await updateThemeCandidates((cache) => {
+        Object.assign(cache.interviews, fresh);
+      });
+    }
+  }
+
+  if (persist && options.prune !== false) {
+    const keep = new Set(interviews.map((doc) => doc.metadata.id));
+    if (Object.keys(previous?.interviews ?? {}).some((id) => !keep.has(id))) {
+      await updateThemeCandidates((cache) => {
+        for (const id of Object.keys(cache.interviews)) {
+          if (!keep.has(id)) delete cache.interviews[id];
+        }
+      });
+    }
+  }
+
+  const candidates = interviews.flatMap((doc) =>
+    (found[doc.metadata.id]?.candidates ?? []).map((c, idx) => ({
+      ...c,
+      key: `${doc.metadata.id}#${idx}`,
+      interviewId: doc.metadata.id,
+    }))
+  );
+  return {
+    candidates,
+    stats: {
+      interviews: interviews.length,
+      extracted: pending.length,
+      cached,
+      candidates: candidates.length,
+    },
+  };
+}
+
+// --- Reduce ---
+
+export interface ThemeCluster {
+  label: string;
+  description: string;
+  sentiment: Theme["sentiment"];
+  members: KeyedCandidate[];
+}
+
+export interface ClusteredGroup {
+  name: string;
+  description: string;
+  themes: ThemeCluster[];
+}
+
+function candidateLines(candidates: KeyedCandidate[]): string {
+  return candidates
+    .map((c) => `[${c.key}] (${c.sentiment}) ${c.label}: ${c.description}`)
+    .join("\n");
+}
+
+/** Themes with their member candidates; a candidate already in `used` is not reused. */
+function toClusters(
+  themes: unknown,
+  byKey: Map<string, KeyedCandidate>,
+  used = new Set<string>()
+): ThemeCluster[] {
+  if (!Array.isArray(themes)) return [];
+  return themes
+    .filter((t): t is Record<string, unknown> => !!t && typeof t === "object")
+    .map((t) => {
+      const members = (Array.isArray(t.candidates) ? t.candidates : [])
+        .filter((k): k is string => typeof k === "string" && byKey.has(k) && !used.has(k))
+        .map((k) => {
+          used.add(k);
+          return byKey.get(k)!;
+        });
+      return {
+        label: typeof t.label === "string" ? t.label : "",
+        description: typeof t.description === "string" ? t.description : "",
+        sentiment: SENTIMENTS.includes(t.sentiment as Theme["sentiment"])
+          ? (t.sentiment as Theme["sentiment"])
+          : "neutral",
+        members,
+      };
+    })
+    .filter((c) => c.label && c.members.length > 0);
+}
+
+async function reduceCall(
+  prompts: PromptSet,
+  task: "theme-group" | "theme-additional-groups",
+  vars: Record<string, string | number>
+): Promise<Record<string, unknown> | null> {
+  const prompt = prompts.render(task, vars);
+  const content = await getLLMProvider().generateJSON({
+    task,
+    input: prompt.text,
+    temperature: prompt.temperature,
+  });
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+/** Cluster one fixed group's candidates into 4-6 themes. */
+export async function reduceThemeGroup(
+  prompts: PromptSet,
+  name: string,
+  instruction: string,
+  candidates: KeyedCandidate[]
+): Promise<ClusteredGroup> {
+  if (candidates.length === 0) return { name, description: "", themes: [] };
+  const interviewCount = new Set(candidates.map((c) => c.interviewId)).size;
+  const parsed = await reduceCall(prompts, "theme-group", {
+    name,
+    instruction,
+    interviewCount,
+    candidates: candidateLines(candidates),
+  });
+
+  if (!parsed) {
+    return { name: "Parse Error", description: "Could not parse theme data", themes: [] };
+  }
+  const byKey = new Map(candidates.map((c) => [c.key, c]));
+  return {
+    name: (parsed.name as string) || name,
+    description: (parsed.description as string) || "",
+    themes: toClusters(parsed.themes, byKey),
+  };
+}
+
+/**
+ * Cluster the "other" candidates into up to 4 additional groups, keeping only themes
+ * whose candidates come from at least `minInterviews` interviews.
+ */
+export async function reduceAdditionalGroups(
+  prompts: PromptSet,
+  candidates: KeyedCandidate[],
+  minInterviews: number
+): Promise<ClusteredGroup[]> {
+  if (new Set(candidates.map((c) => c.interviewId)).size < minInterviews) return [];
+  const parsed = await reduceCall(prompts, "theme-additional-groups", {
+    minInterviews,
+    candidates: candidateLines(candidates),
+  });
+
+  if (!parsed || !Array.isArray(parsed.groups)) {
+    if (!parsed) console.error("Failed to parse additional theme groups");
+    return [];
+  }
+  const byKey = new Map(candidates.map((c) => [c.key, c]));
+  const used = new Set<string>();
+  return parsed.groups
+    .filter((g): g is Record<string, unknown> => !!g && typeof g === "object")
+    .map((g) => ({
+      name: (g.name as string) || "Additional Themes",
+      description: (g.description as string) || "",
+      themes: toClusters(g.themes, byKey, used).filter(
+        (c) => new Set(c.members.map((m) => m.interviewId)).size >= minInterviews
+      ),
+    }))
+    .filter((g) => g.themes.length > 0);
+}
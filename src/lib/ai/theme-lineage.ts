@@ -0,0 +1,258 @@
+/**
+ * Theme identity across regenerations.
+ *
+ * Each generated theme is matched to its predecessor in the previous analysis by
+ * embedding similarity of "label: description" (token overlap if embedding fails). A
+ * matched theme keeps its predecessor's id and firstSeen, so links and period-over-period
+ * comparisons survive a reindex. Matching is one-to-one, best pairs first; a leftover
+ * theme that is still close to a matched one is recorded as a split (new theme) or merge
+ * (previous theme), anything else as new or retired.
+ */
+
+import crypto from "crypto";
+import { cosineSimilarity, generateEmbeddings } from "./embeddings";
+import { allThemes } from "./theme-timeline";
+import type {
+  Theme,
+  ThemeAnalysis,
+  ThemeLineage,
+  ThemeLineageEvent,
+  ThemeSnapshotDiff,
+} from "@/types";
+
+/** Similarity at which a theme is the same theme as its predecessor. */
+const MATCH_THRESHOLD = { embedding: 0.8, label: 0.5 };
+/** Similarity at which a leftover theme counts as split from or merged into another. */
+const RELATED_THRESHOLD = { embedding: 0.7, label: 0.3 };
+
+/** Fresh theme id, e.g. "theme-1a2b3c4d"; unlike positional ids it is never reused. */
+export function newThemeId(): string {
+  return `theme-${crypto.randomBytes(4).toString("hex")}`;
+}
+
+const STOPWORDS = new Set(["a", "an", "and", "the", "of", "to", "in", "for", "on", "with", "kf", "korn", "ferry"]);
+
+function tokens(theme: Theme): Set<string> {
+  return new Set(
+    `${theme.label} ${theme.description}`
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/** similarity[i][j] between previous theme i and next theme j. */
+async function similarityMatrix(
+  previous: Theme[],
+  next: Theme[]
+): Promise<{ method: ThemeLineage["method"]; similarity: number[][] }> {
+  const text = (t: Theme) => `${t.label}: ${t.description}`;
+  try {
+    const embeddings = await generateEmbeddings(
+      [...previous, ...next].map(text),
+      "theme-lineage"
+    );
+    const prev = embeddings.slice(0, previous.length);
+    const nxt = embeddings.slice(previous.length);
+    return {
+      method: "embedding",
+      similarity: prev.map((a) => nxt.map((b) => cosineSimilarity(a, b))),
+    };
+  } catch (error) {
+    console.warn(
+      "Theme lineage: embedding failed, matching by label instead:",
+      error instanceof Error ? error.message : error
+    );
+    const prev = previous.map(tokens);
+    const nxt = next.map(tokens);
+    return { method: "label", similarity: prev.map((a) => nxt.map((b) => jaccard(a, b))) };
+  }
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Give the themes of `next` (in place) their predecessors' ids or fresh ones, set
+ * firstSeen, and return the lineage against `previous`. Without a previous analysis every
+ * theme is new and no lineage is returned.
+ */
+export async function assignThemeLineage(
+  previous: ThemeAnalysis | null,
+  next: ThemeAnalysis
+): Promise<ThemeLineage | undefined> {
+  const nextThemes = allThemes(next).map((g) => g.theme);
+  const previousThemes = previous ? allThemes(previous).map((g) => g.theme) : [];
+
+  if (!previous || previousThemes.length === 0 || nextThemes.length === 0) {
+    for (const theme of nextThemes) {
+      theme.id = newThemeId();
+      theme.firstSeen = next.lastGenerated;
+    }
+    return previous
+      ? {
+          previousGenerated: previous.lastGenerated,
+          method: "label",
+          events: [
+            ...nextThemes.map((t) => event("new", t, [])),
+            ...previousThemes.map((t) => event("retired", t, [])),
+          ],
+        }
+      : undefined;
+  }
+
+  const { method, similarity } = await similarityMatrix(previousThemes, nextThemes);
+
+  // One-to-one matching, most similar pairs first
+  const pairs: { i: number; j: number; s: number }[] = [];
+  similarity.forEach((row, i) => row.forEach((s, j) => pairs.push({ i, j, s })));
+  pairs.sort((a, b) => b.s - a.s);
+  const successorOf = new Map<number, number>(); // previous index → next index
+  const predecessorOf = new Map<number, number>(); // next index → previous index
+  for (const { i, j, s } of pairs) {
+    if (s < MATCH_THRESHOLD[method]) break;
+    if (successorOf.has(i) || predecessorOf.has(j)) continue;
+    successorOf.set(i, j);
+    predecessorOf.set(j, i);
+  }
+
+  const events: ThemeLineageEvent[] = [];
+  const usedIds = new Set(previousThemes.map((t) => t.id));
+
+  nextThemes.forEach((theme, j) => {
+    const i = predecessorOf.get(j);
+    if (i !== undefined) {
+      const predecessor = previousThemes[i];
+      theme.id = predecessor.id;
+      theme.firstSeen = predecessor.firstSeen ?? previous.lastGenerated;
+      events.push(event("continued", theme, [predecessor], similarity[i][j]));
+      return;
+    }
+
+    let id = newThemeId();
+    while (usedIds.has(id)) id = newThemeId();
+    usedIds.add(id);
+    theme.id = id;
+    theme.firstSeen = next.lastGenerated;
+
+    // Split: close to a previous theme that continued as another theme
+    const source = closest(
+      previousThemes.map((_, k) => k).filter((k) => successorOf.has(k)),
+      (k) => similarity[k][j],
+      RELATED_THRESHOLD[method]
+    );
+    events.push(
+      source !== null
+        ? event("split", theme, [previousThemes[source]], similarity[source][j])
+        : event("new", theme, [])
+    );
+  });
+
+  // Merged: a previous theme without a successor that is close to a continued theme
+  const merges = new Map<number, number[]>(); // next index → absorbed previous indexes
+  previousThemes.forEach((theme, i) => {
+    if (successorOf.has(i)) return;
+    const into = closest(
+      nextThemes.map((_, k) => k).filter((k) => predecessorOf.has(k)),
+      (k) => similarity[i][k],
+      RELATED_THRESHOLD[method]
+    );
+    if (into !== null) merges.set(into, [...(merges.get(into) ?? []), i]);
+    else events.push(event("retired", theme, []));
+  });
+  for (const [j, absorbed] of merges) {
+    events.push(
+      event(
+        "merged",
+        nextThemes[j],
+        absorbed.map((i) => previousThemes[i]),
+        similarity[absorbed[0]][j]
+      )
+    );
+  }
+
+  return { previousGenerated: previous.lastGenerated, method, events };
+}
+
+function closest(
+  candidates: number[],
+  score: (k: number) => number,
+  threshold: number
+): number | null {
+  let best: number | null = null;
+  for (const k of candidates) {
+    if (score(k) >= threshold && (best === null || score(k) > score(best))) best = k;
+  }
+  return best;
+}
+
+function event(
+  type: ThemeLineageEvent["type"],
+  theme: Theme,
+  previous: Theme[],
+  similarity?: number
+): ThemeLineageEvent {
+  return {
+    type,
+    themeId: theme.id,
+    label: theme.label,
+    previousIds: previous.map((t) => t.id),
+    previousLabels: previous.map((t) => t.label),
+    ...(similarity !== undefined ? { similarity: round(similarity) } : {}),
+  };
+}
+
+/** Themes added, removed and changed (by id) between two analyses. */
+export function diffThemeAnalyses(
+  from: ThemeAnalysis,
+  to: ThemeAnalysis,
+  ids: { from: string; to: string }
+): ThemeSnapshotDiff {
+  const before = new Map(allThemes(from).map((g) => [g.theme.id, g]));
+  const after = new Map(allThemes(to).map((g) => [g.theme.id, g]));
+  const diff: ThemeSnapshotDiff = {
+    ...ids,
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+  };
+
+  for (const [id, { theme, group }] of after) {
+    const old = before.get(id);
+    if (!old) {
+      diff.added.push({ id, label: theme.label, group });
+      continue;
+    }
+    if (
+      old.theme.label !== theme.label ||
+      old.group !== group ||
+      old.theme.frequency !== theme.frequency ||
+      old.theme.sentiment !== theme.sentiment
+    ) {
+      diff.changed.push({
+        id,
+        label: theme.label,
+        previousLabel: old.theme.label,
+        group,
+        previousGroup: old.group,
+        frequency: theme.frequency,
+        previousFrequency: old.theme.frequency,
+        sentiment: theme.sentiment,
+        previousSentiment: old.theme.sentiment,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  for (const [id, { theme, group }] of before) {
+    if (!after.has(id)) diff.removed.push({ id, label: theme.label, group });
+  }
+  return diff;
+}
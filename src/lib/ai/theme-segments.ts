@@ -0,0 +1,94 @@
+/**
+ * Segment-specific themes.
+ *
+ * A segment filters interviews by region, solution, account type, NPS category and month
+ * range. Its themes are reduced from the cached per-interview candidates of the matching
+ * interviews (see theme-extraction.ts), so generating a segment costs only the reduce
+ * calls. Results are cached per segment key under a hash of the segment's candidates and
+ * reused until one of its interviews changes.
+ */
+
+import type { InterviewMetadata, NPSCategory, ThemeSegment } from "@/types";
+
+/** Fewer interviews than this and a segment's themes are flagged as a low sample. */
+export const MIN_SEGMENT_SAMPLE = 5;
+/** Cached segments kept; the least recently generated are dropped first. */
+export const MAX_CACHED_SEGMENTS = 50;
+
+const NPS_CATEGORIES: NPSCategory[] = ["promoter", "passive", "detractor"];
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export class InvalidThemeSegmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidThemeSegmentError";
+  }
+}
+
+/**
+ * Segment from query parameters region, solution, accountType, npsCategory, from and to
+ * ("2025-09"); null when none is set. Empty values and "all" mean no filter.
+ */
+export function parseThemeSegment(params: URLSearchParams): ThemeSegment | null {
+  const value = (name: string) => {
+    const v = params.get(name)?.trim();
+    return v && v.toLowerCase() !== "all" ? v : undefined;
+  };
+  const segment: ThemeSegment = {
+    region: value("region"),
+    solution: value("solution"),
+    accountType: value("accountType"),
+    npsCategory: value("npsCategory") as NPSCategory | undefined,
+    monthFrom: value("from"),
+    monthTo: value("to"),
+  };
+
+  if (segment.npsCategory && !NPS_CATEGORIES.includes(segment.npsCategory)) {
+    throw new InvalidThemeSegmentError(
+      `npsCategory must be one of ${NPS_CATEGORIES.join(", ")}`
+    );
+  }
+  for (const [name, month] of [
+    ["from", segment.monthFrom],
+    ["to", segment.monthTo],
+  ] as const) {
+    if (month && !MONTH_PATTERN.test(month)) {
+      throw new InvalidThemeSegmentError(`${name} must be a month, e.g. "2025-09"`);
+    }
+  }
+  if (segment.monthFrom && segment.monthTo && segment.monthFrom > segment.monthTo) {
+    throw new InvalidThemeSegmentError("from must not be after to");
+  }
+
+  const defined = Object.fromEntries(
+    Object.entries(segment).filter(([, v]) => v !== undefined)
+  ) as ThemeSegment;
+  return Object.keys(defined).length > 0 ? defined : null;
+}
+
+/** Stable cache key, e.g. "npsCategory=detractor|region=EMEA". */
+export function themeSegmentKey(segment: ThemeSegment): string {
+  return Object.entries(segment)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("|");
+}
+
+export function matchesThemeSegment(meta: InterviewMetadata, segment: ThemeSegment): boolean {
+  return (
+    (!segment.region || meta.region === segment.region) &&
+    (!segment.solution || meta.solution === segment.solution) &&
+    (!segment.accountType || meta.accountType === segment.accountType) &&
+    (!segment.npsCategory || meta.npsCategory === segment.npsCategory) &&
+    (!segment.monthFrom || meta.monthYear >= segment.monthFrom) &&
+    (!segment.monthTo || meta.monthYear <= segment.monthTo)
+  );
+}
+
+/** Caveat shown with a segment's themes, or null when the sample is large enough. */
+export function segmentSampleNote(sampleSize: number): string | null {
+  if (sampleSize === 0) return "No interviews match this segment.";
+  if (sampleSize >= MIN_SEGMENT_SAMPLE) return null;
+  return `Only ${sampleSize} interview${sampleSize === 1 ? "" : "s"} match this segment. Themes from fewer than ${MIN_SEGMENT_SAMPLE} interviews are indicative, not credible patterns.`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Themes over time.
+ *
+ * A theme's interviewIds are joined to each interview's monthYear to count, per month or
+ * quarter, how many interviews reference it (with an NPS category breakdown), and how many
+ * theme references each sentiment gets. Periods are compared by share of the period's
+ * interviews rather than raw counts, so a month with more interviews does not make every
+ * theme look like it is rising.
+ */
+
+import type {
+  InterviewMetadata,
+  Theme,
+  ThemeAnalysis,
+  ThemeTimelineResponse,
+  ThemeTrend,
+  TimelineGranularity,
+  TimelinePoint,
+} from "@/types";
+
+export interface GroupedTheme {
+  theme: Theme;
+  group: string; // name of the theme's group
+}
+
+/** Themes of every group, fixed categories first, with their group's name. */
+export function allThemes(analysis: ThemeAnalysis): GroupedTheme[] {
+  return [
+    analysis.whyClientsChoose,
+    analysis.promoterExperience,
+    analysis.whereFallsShort,
+    ...(analysis.additionalThemes ?? []),
+  ].flatMap((g) => g.themes.map((theme) => ({ theme, group: g.name })));
+}
+
+/** "2025-09" → "2025-09" by month, "2025-Q3" by quarter; null if not a valid month. */
+export function periodOf(monthYear: string, granularity: TimelineGranularity): string | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(monthYear);
+  if (!match) return null;
+  const month = parseInt(match[2], 10);
+  if (month < 1 || month > 12) return null;
+  return granularity === "month" ? monthYear : `${match[1]}-Q${Math.ceil(month / 3)}`;
+}
+
+/**
+ * Theme prevalence per period, oldest first. Only interviews the analysis was generated
+ * from are counted, so interviews added since do not dilute the shares.
+ */
+export function buildThemeTimeline(
+  analysis: ThemeAnalysis,
+  interviews: InterviewMetadata[],
+  granularity: TimelineGranularity = "month"
+): TimelinePoint[] {
+  const analysed = new Set(analysis.generatedFrom);
+  const byId = new Map<string, { period: string; meta: InterviewMetadata }>();
+  const points = new Map<string, TimelinePoint>();
+
+  for (const meta of interviews) {
+    if (!analysed.has(meta.id)) continue;
+    const period = periodOf(meta.monthYear, granularity);
+    if (!period) continue;
+    byId.set(meta.id, { period, meta });
+    let point = points.get(period);
+    if (!point) {
+      point = {
+        period,
+        interviewCount: 0,
+        themes: [],
+        bySentiment: { positive: 0, negative: 0, neutral: 0 },
+      };
+      points.set(period, point);
+    }
+    point.interviewCount++;
+  }
+
+  for (const { theme } of allThemes(analysis)) {
+    const counts = new Map<string, TimelinePoint["themes"][number]>();
+    for (const id of new Set(theme.interviewIds)) {
+      const entry = byId.get(id);
+      if (!entry) continue;
+      let count = counts.get(entry.period);
+      if (!count) {
+        count = {
+          themeId: theme.id,
+          count: 0,
+          byNpsCategory: { promoter: 0, passive: 0, detractor: 0 },
+        };
+        counts.set(entry.period, count);
+      }
+      count.count++;
+      count.byNpsCategory[entry.meta.npsCategory]++;
+    }
+    for (const [period, count] of counts) {
+      const point = points.get(period)!;
+      point.themes.push(count);
+      point.bySentiment[theme.sentiment] += count.count;
+    }
+  }
+
+  return [...points.values()].sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Themes whose share of interviews rose or fell between two periods, biggest change
+ * first. Defaults to the last two periods of the timeline.
+ */
+export function compareThemePeriods(
+  analysis: ThemeAnalysis,
+  points: TimelinePoint[],
+  from?: string,
+  to?: string
+): Pick<ThemeTimelineResponse, "from" | "to" | "rising" | "falling"> {
+  const toPoint = to ? points.find((p) => p.period === to) : points[points.length - 1];
+  const fromPoint = from
+    ? points.find((p) => p.period === from)
+    : points[points.length - 2];
+  if (!fromPoint || !toPoint || fromPoint === toPoint) {
+    return { from: fromPoint?.period ?? null, to: toPoint?.period ?? null, rising: [], falling: [] };
+  }
+
+  const countIn = (point: TimelinePoint, themeId: string) =>
+    point.themes.find((t) => t.themeId === themeId)?.count ?? 0;
+  const share = (count: number, point: TimelinePoint) =>
+    point.interviewCount > 0 ? count / point.interviewCount : 0;
+
+  const trends: ThemeTrend[] = allThemes(analysis).map(({ theme, group }) => {
+    const fromCount = countIn(fromPoint, theme.id);
+    const toCount = countIn(toPoint, theme.id);
+    const fromShare = share(fromCount, fromPoint);
+    const toShare = share(toCount, toPoint);
+    return {
+      themeId: theme.id,
+      label: theme.label,
+      group,
+      sentiment: theme.sentiment,
+      fromCount,
+      toCount,
+      fromShare: Math.round(fromShare * 1000) / 1000,
+      toShare: Math.round(toShare * 1000) / 1000,
+      change: Math.round((toShare - fromShare) * 1000) / 1000,
+    };
+  });
+
+  return {
+    from: fromPoint.period,
+    to: toPoint.period,
+    rising: trends.filter((t) => t.change > 0).sort((a, b) => b.change - a.change),
+    falling: trends.filter((t) => t.change < 0).sort((a, b) => a.change - b.change),
+  };
+}
+
+/** Timeline, theme labels and rising/falling themes for GET /api/themes/timeline. */
+export function buildThemeTimelineResponse(
+  analysis: ThemeAnalysis,
+  interviews: InterviewMetadata[],
+  options: { granularity?: TimelineGranularity; from?: string; to?: string } = {}
+): ThemeTimelineResponse {
+  const granularity = options.granularity ?? "month";
+  const points = buildThemeTimeline(analysis, interviews, granularity);
+  return {
+    granularity,
+    points,
+    themes: allThemes(analysis).map(({ theme, group }) => ({
+      id: theme.id,
+      label: theme.label,
+      group,
+      sentiment: theme.sentiment,
+    })),
+    ...compareThemePeriods(analysis, points, options.from, options.to),
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Token usage and cost accounting. The LLM provider reports every model call here; records
+ * are appended to the usage log in the data store, rolled up for /api/usage and checked
+ * against the monthly budget before a reindex starts.
+ *
+ * Configuration (all optional):
+ * - KFCX_MODEL_PRICES: JSON of USD per 1M tokens, merged over the defaults, e.g.
+ *   {"my-azure-deployment": {"input": 1.75, "output": 14}}
+ * - KFCX_MONTHLY_BUDGET_USD: cap on the month's total cost
+ * - KFCX_FEATURE_BUDGETS_USD: JSON of per-feature monthly caps, e.g. {"themes": 20}
+ */
+
+import { appendUsageRecords, readUsageRecords } from "@/lib/data/store";
+import type { ProviderUsage } from "./providers/types";
+import type {
+  UsageBudgetStatus,
+  UsageDay,
+  UsageFeature,
+  UsageRecord,
+  UsageResponse,
+  UsageTotals,
+} from "@/types";
+
+export interface ModelPrice {
+  /** USD per 1M input tokens */
+  input: number;
+  /** USD per 1M output tokens */
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5.2": { input: 1.75, output: 14 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  // Offline stub provider
+  stub: { input: 0, output: 0 },
+  "stub-hash-256": { input: 0, output: 0 },
+};
+
+export const USAGE_FEATURES: UsageFeature[] = [
+  "themes",
+  "opportunities",
+  "chat",
+  "embeddings",
+  "other",
+];
+
+/** Features whose spend a reindex adds to; their caps block a reindex. */
+const REINDEX_FEATURES: UsageFeature[] = ["themes", "opportunities", "embeddings"];
+/** Features segment theme generation spends on (lineage matching embeds theme text). */
+const THEME_FEATURES: UsageFeature[] = ["themes", "embeddings"];
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Env JSON, or null (with a warning) when it is missing or malformed. */
+function parseEnvJSON(name: string): Record<string, unknown> | null {
+  const raw = process.env[name]?.trim();
+  if (!raw) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below
+  }
+  console.warn(`Ignoring ${name}: expected a JSON object.`);
+  return null;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+export function getModelPrices(): Record<string, ModelPrice> {
+  const prices = { ...DEFAULT_MODEL_PRICES };
+  for (const [model, price] of Object.entries(parseEnvJSON("KFCX_MODEL_PRICES") ?? {})) {
+    const { input, output = 0 } = (price ?? {}) as Partial<ModelPrice>;
+    if (isNonNegative(input) && isNonNegative(output)) prices[model] = { input, output };
+  }
+  return prices;
+}
+
+/** Feature a task belongs to, by its prefix ("theme-candidates" -> themes). */
+export function featureOf(task: string): UsageFeature {
+  if (task.startsWith("theme")) return "themes";
+  if (task.startsWith("opportunit")) return "opportunities";
+  if (task.startsWith("chat")) return "chat";
+  if (task.startsWith("embedding")) return "embeddings";
+  return "other";
+}
+
+export function usageRecord(provider: string, usage: ProviderUsage): UsageRecord {
+  const price = getModelPrices()[usage.model];
+  const costUsd = price
+    ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+    : 0;
+  return {
+    at: new Date().toISOString(),
+    provider,
+    model: usage.model,
+    operation: usage.operation,
+    task: usage.task,
+    feature: featureOf(usage.task),
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    latencyMs: usage.latencyMs,
+    costUsd,
+    priced: Boolean(price),
+    ...(usage.error ? { error: usage.error } : {}),
+  };
+}
+
+// --- Recording ---
+
+/**
+ * Pending records and the running flush, on globalThis so dev-mode module reloads share
+ * one queue. Records are written in batches: a reindex makes hundreds of calls and each
+ * SQLite write saves the whole database file.
+ */
+const globalForUsage = globalThis as unknown as {
+  kfcxUsageQueue?: { pending: UsageRecord[]; flushing: Promise<void> | null };
+};
+
+function usageQueue() {
+  globalForUsage.kfcxUsageQueue ??= { pending: [], flushing: null };
+  return globalForUsage.kfcxUsageQueue;
+}
+
+async function drain(): Promise<void> {
+  const queue = usageQueue();
+  while (queue.pending.length > 0) {
+    const batch = queue.pending.splice(0);
+    try {
+      await appendUsageRecords(batch);
+    } catch (error) {
+      // Accounting must never fail the call it describes
+      console.warn(`Could not record ${batch.length} usage record(s):`, error);
+    }
+  }
+}
+
+/** Queue a model call for the usage log. Never throws. */
+export function recordUsage(provider: string, usage: ProviderUsage): void {
+  const queue = usageQueue();
+  queue.pending.push(usageRecord(provider, usage));
+  if (!queue.flushing) {
+    queue.flushing = drain().finally(() => {
+      queue.flushing = null;
+    });
+  }
+}
+
+/** Wait until queued usage records are written (scripts call this before exiting). */
+export async function flushUsage(): Promise<void> {
+  const queue = usageQueue();
+  while (queue.flushing || queue.pending.length > 0) {
+    await (queue.flushing ?? drain());
+  }
+}
+
+// --- Rollups ---
+
+export function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, errors: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  if (record.error) totals.errors += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+}
+
+function roundCosts<T extends UsageTotals>(totals: T): T {
+  return { ...totals, costUsd: Math.round(totals.costUsd * 1_000_000) / 1_000_000 };
+}
+
+function parseBudget(value: unknown): number | null {
+  const limit = typeof value === "string" ? parseFloat(value) : value;
+  return isNonNegative(limit) ? limit : null;
+}
+
+function budgetStatus(limitUsd: number | null, spentUsd: number): UsageBudgetStatus {
+  return {
+    limitUsd,
+    spentUsd: Math.round(spentUsd * 1_000_000) / 1_000_000,
+    remainingUsd: limitUsd === null ? null : Math.max(0, limitUsd - spentUsd),
+    exceeded: limitUsd !== null && spentUsd >= limitUsd,
+  };
+}
+
+export function getBudgetLimits(): {
+  monthly: number | null;
+  features: Partial<Record<UsageFeature, number>>;
+} {
+  const features: Partial<Record<UsageFeature, number>> = {};
+  for (const [feature, value] of Object.entries(parseEnvJSON("KFCX_FEATURE_BUDGETS_USD") ?? {})) {
+    const limit = parseBudget(value);
+    if (limit !== null && USAGE_FEATURES.includes(feature as UsageFeature)) {
+      features[feature as UsageFeature] = limit;
+    }
+  }
+  return { monthly: parseBudget(process.env.KFCX_MONTHLY_BUDGET_USD?.trim()), features };
+}
+
+/** Daily, per-feature and per-model totals for a month ("2026-10"), with budget status. */
+export async function summarizeUsage(month: string = currentMonth()): Promise<UsageResponse> {
+  const records = await readUsageRecords(month);
+  const totals = emptyTotals();
+  const days = new Map<string, UsageDay>();
+  const byFeature: Partial<Record<UsageFeature, UsageTotals>> = {};
+  const byModel: Record<string, UsageTotals> = {};
+  let unpricedCalls = 0;
+
+  for (const record of records) {
+    addRecord(totals, record);
+    if (!record.priced) unpricedCalls += 1;
+
+    const date = record.at.slice(0, 10);
+    let day = days.get(date);
+    if (!day) {
+      day = { date, ...emptyTotals(), byFeature: {} };
+      days.set(date, day);
+    }
+    addRecord(day, record);
+    addRecord((day.byFeature[record.feature] ??= emptyTotals()), record);
+    addRecord((byFeature[record.feature] ??= emptyTotals()), record);
+    addRecord((byModel[record.model] ??= emptyTotals()), record);
+  }
+
+  const limits = getBudgetLimits();
+  const featureBudgets: Partial<Record<UsageFeature, UsageBudgetStatus>> = {};
+  for (const [feature, limit] of Object.entries(limits.features)) {
+    featureBudgets[feature as UsageFeature] = budgetStatus(
+      limit,
+      byFeature[feature as UsageFeature]?.costUsd ?? 0
+    );
+  }
+
+  const roundAll = <T extends UsageTotals>(map: Partial<Record<string, T>>) =>
+    Object.fromEntries(Object.entries(map).map(([key, t]) => [key, roundCosts(t as T)]));
+
+  return {
+    month,
+    totals: { ...roundCosts(totals), unpricedCalls },
+    byDay: [...days.values()]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((day) => ({ ...roundCosts(day), byFeature: roundAll(day.byFeature) })),
+    byFeature: roundAll(byFeature),
+    byModel: roundAll(byModel),
+    budget: { ...budgetStatus(limits.monthly, totals.costUsd), features: featureBudgets },
+  };
+}
+
+/**
+ * Throw BudgetExceededError if this month's spend has reached the monthly cap, or the cap
+ * of one of the given features.
+ */
+async function assertBudget(features: UsageFeature[]): Promise<void> {
+  const limits = getBudgetLimits();
+  const capped = features.filter((f) => limits.features[f] !== undefined);
+  if (limits.monthly === null && capped.length === 0) return;
+
+  await flushUsage();
+  const usage = await summarizeUsage();
+  if (usage.budget.exceeded) {
+    throw new BudgetExceededError(
+      `Monthly AI budget reached: $${usage.budget.spentUsd.toFixed(2)} spent of ` +
+        `$${usage.budget.limitUsd?.toFixed(2)} in ${usage.month} (KFCX_MONTHLY_BUDGET_USD).`
+    );
+  }
+  for (const feature of capped) {
+    const status = usage.budget.features[feature];
+    if (status?.exceeded) {
+      throw new BudgetExceededError(
+        `Monthly ${feature} budget reached: $${status.spentUsd.toFixed(2)} spent of ` +
+          `$${status.limitUsd?.toFixed(2)} in ${usage.month} (KFCX_FEATURE_BUDGETS_USD).`
+      );
+    }
+  }
+}
+
+/** Budget check before a reindex, which spends on themes, opportunities and embeddings. */
+export async function assertReindexBudget(): Promise<void> {
+  await assertBudget(REINDEX_FEATURES);
+}
+
+/** Budget check before generating a segment's themes. */
+export async function assertThemesBudget(): Promise<void> {
+  await assertBudget(THEME_FEATURES);
+}
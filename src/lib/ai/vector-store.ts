@@ -1,18 +1,22 @@
 /**
- * OpenAI Vector Store for Chat (Responses API file_search).
- * Syncs interview content as one file per interview for better retrieval.
+ * OpenAI Vector Store for Chat (Responses API file_search), through the provider's
+ * retrieval (see provider.ts). Syncs interview content as one file per interview for
+ * better retrieval.
  */
 
 import fs from "fs";
 import path from "path";
-import { getOpenAIClient } from "./openai";
+import { getLLMProvider } from "./provider";
+import type { RetrievalProvider } from "./providers/types";
 import {
   readMetadataIndex,
+  readPipelineState,
   readTranscript,
   readReport,
   readVectorStoreConfig,
   writeVectorStoreConfig,
 } from "@/lib/data/store";
+import { formatTurnLine } from "@/lib/data/transcript-formats";
 import type {
   NormalizedReport,
   NormalizedTranscript,
@@ -21,17 +25,14 @@ import type {
 
 const VECTOR_STORE_NAME = "KFCX NPS Interview Content";
 
-/** Instructions for chat when using Responses API file_search (exported for chat.ts). */
-export const FILE_SEARCH_INSTRUCTIONS = `You are the KFCX NPS Interview Insight Assistant for Korn Ferry. You answer questions using only the attached interview knowledge base from Korn Ferry's Customer Centricity NPS programme.
-
-RULES:
-1. Base every answer on the retrieved files. If the files do not contain enough information, say so — do not guess or generalise.
-2. Always cite the source: use the client name and company in brackets, e.g. [Lisa Bolger, PartnerRe]. Use the SOURCE line (Client, Company | NPS score (category)) when it appears in the retrieved text. Do not cite as "not shown in snippet" if a SOURCE line appears in the same retrieved passage as the quote.
-3. Prefer direct quotes from the interviews; put them in quotation marks. Use transcript content for verbatim client voice and report content for themes and recommendations.
-4. When mentioning NPS, state the category: Promoter (9–10), Passive (7–8), or Detractor (0–6).
-5. For themes, patterns, or trends: synthesise across the retrieved interviews and name which clients said what.
-6. Keep answers specific and actionable. End with clear takeaways or next steps when relevant.
-7. Format responses in Markdown: use **bold** for key terms, bullet or numbered lists for multiple points, and > blockquotes for direct citations. Use headings (## or ###) to structure longer answers.`;
+/** The provider's hosted retrieval; throws if it has none (e.g. the stub provider). */
+function getRetrieval(): RetrievalProvider {
+  const provider = getLLMProvider();
+  if (!provider.retrieval) {
+    throw new Error(`The ${provider.name} LLM provider does not support vector stores.`);
+  }
+  return provider.retrieval;
+}
 
 /** One-line source so any retrieved chunk can attribute the quote (file_search chunks may not include the top header). */
 function sourceLine(interview: InterviewMetadata): string {
@@ -110,7 +111,7 @@ function formatTranscript(t: NormalizedTranscript): string {
   }
   if (t.fullTranscript?.length) {
     const dialogue = t.fullTranscript
-      .map((turn) => `${turn.speaker}: ${turn.text}`)
+      .map(formatTurnLine)
       .join("\n");
     parts.push("Dialogue:\n" + dialogue);
   } else if (t.rawText) {
@@ -121,76 +122,72 @@ function formatTranscript(t: NormalizedTranscript): string {
 
 /** Get existing vector store ID or create a new one. */
 export async function getOrCreateVectorStore(): Promise<string> {
-  const openai = getOpenAIClient();
+  const retrieval = getRetrieval();
   const config = await readVectorStoreConfig();
 
-  if (config.vectorStoreId) {
-    try {
-      await openai.vectorStores.retrieve(config.vectorStoreId);
-      return config.vectorStoreId;
-    } catch {
-      // Vector store was deleted; create new one
-    }
+  // A vector store that was deleted is replaced with a new one
+  if (config.vectorStoreId && (await retrieval.storeExists(config.vectorStoreId))) {
+    return config.vectorStoreId;
   }
 
-  const vs = await openai.vectorStores.create({
-    name: VECTOR_STORE_NAME,
-  });
+  const vectorStoreId = await retrieval.createStore(VECTOR_STORE_NAME);
   await writeVectorStoreConfig({
     ...config,
-    vectorStoreId: vs.id,
+    vectorStoreId,
   });
-  return vs.id;
+  return vectorStoreId;
+}
+
+/** Name of an interview's uploaded file; interviewIdFromFileName reads the id back. */
+function vectorStoreFileName(interviewId: string): string {
+  return `interview_${interviewId.replace(/[^a-z0-9-_]/gi, "_")}.txt`;
+}
+
+export function interviewIdFromFileName(filename: string): string | null {
+  return /^interview_(.+)\.txt$/.exec(filename)?.[1] ?? null;
+}
+
+/** Vector store file id -> interview id, as recorded by the reindex pipeline. */
+export async function vectorStoreFileInterviews(): Promise<Map<string, string>> {
+  const state = await readPipelineState();
+  const files = new Map<string, string>();
+  for (const [interviewId, entry] of Object.entries(state.interviews)) {
+    if (entry.vectorStoreFileId) files.set(entry.vectorStoreFileId, interviewId);
+  }
+  return files;
 }
 
 /** Max concurrent file uploads to the vector store. */
 const VECTOR_STORE_UPLOAD_CONCURRENCY = 5;
 
-/** Replace all files in the vector store with one file per interview for better retrieval. */
-export async function syncVectorStore(): Promise<{
-  vectorStoreId: string;
-  fileCount: number;
-}> {
-  const openai = getOpenAIClient();
-  const vectorStoreId = await getOrCreateVectorStore();
-  const config = await readVectorStoreConfig();
-  const index = await readMetadataIndex();
+/** Write one temp file per interview and upload them; returns interviewId -> vector store file id. */
+async function uploadInterviewFiles(
+  vectorStoreId: string,
+  interviews: InterviewMetadata[]
+): Promise<Record<string, string>> {
+  const retrieval = getRetrieval();
   const dataRoot = path.join(process.cwd(), "data", "store");
   const tmpDir = path.join(dataRoot, "vs_upload");
   await fs.promises.mkdir(tmpDir, { recursive: true });
 
-  // Remove existing files in parallel
-  const existingFiles = await openai.vectorStores.files.list(vectorStoreId);
-  const fileIds: string[] = [];
-  for await (const file of existingFiles) fileIds.push(file.id);
-  await Promise.all(
-    fileIds.map((id) => openai.vectorStores.files.del(vectorStoreId, id))
-  );
-
-  // Build content and write temp files for all interviews
-  const toUpload: { tmpPath: string }[] = [];
-  for (const interview of index.interviews) {
+  // Build content and write temp files
+  const toUpload: { interviewId: string; tmpPath: string }[] = [];
+  for (const interview of interviews) {
     const content = await buildContentForInterview(interview);
     if (!content.trim()) continue;
-    const safeId = interview.id.replace(/[^a-z0-9-_]/gi, "_");
-    const tmpPath = path.join(tmpDir, `interview_${safeId}.txt`);
+    const tmpPath = path.join(tmpDir, vectorStoreFileName(interview.id));
     await fs.promises.writeFile(tmpPath, content, "utf-8");
-    toUpload.push({ tmpPath });
+    toUpload.push({ interviewId: interview.id, tmpPath });
   }
 
   // Upload in parallel batches
-  let fileCount = 0;
+  const files: Record<string, string> = {};
   for (let i = 0; i < toUpload.length; i += VECTOR_STORE_UPLOAD_CONCURRENCY) {
     const batch = toUpload.slice(i, i + VECTOR_STORE_UPLOAD_CONCURRENCY);
     await Promise.all(
-      batch.map(async ({ tmpPath }) => {
-        const fileStream = fs.createReadStream(tmpPath);
+      batch.map(async ({ interviewId, tmpPath }) => {
         try {
-          await openai.vectorStores.files.uploadAndPoll(
-            vectorStoreId,
-            fileStream
-          );
-          fileCount++;
+          files[interviewId] = await retrieval.uploadFile(vectorStoreId, tmpPath);
         } finally {
           await fs.promises.unlink(tmpPath).catch(() => {});
         }
@@ -199,24 +196,84 @@ export async function syncVectorStore(): Promise<{
   }
 
   await fs.promises.rm(tmpDir, { recursive: true }).catch(() => {});
+  return files;
+}
 
+async function markVectorStoreSynced(vectorStoreId: string): Promise<void> {
+  const config = await readVectorStoreConfig();
   await writeVectorStoreConfig({
     ...config,
     vectorStoreId,
     lastSyncedAt: new Date().toISOString(),
   });
+}
 
-  return { vectorStoreId, fileCount };
+/** Replace all files in the vector store with one file per interview for better retrieval. */
+export async function syncVectorStore(): Promise<{
+  vectorStoreId: string;
+  fileCount: number;
+  files: Record<string, string>;
+}> {
+  const retrieval = getRetrieval();
+  const vectorStoreId = await getOrCreateVectorStore();
+  const index = await readMetadataIndex();
+
+  // Remove existing files in parallel
+  const fileIds = await retrieval.listFiles(vectorStoreId);
+  await Promise.all(fileIds.map((id) => retrieval.deleteFile(vectorStoreId, id)));
+
+  const files = await uploadInterviewFiles(vectorStoreId, index.interviews);
+  await markVectorStoreSynced(vectorStoreId);
+
+  return { vectorStoreId, fileCount: Object.keys(files).length, files };
 }
 
-/** Return vector store ID if synced (for Responses API file_search). */
+/**
+ * Incremental sync: replace the files of the given interviews and delete files that
+ * belong to removed interviews. `knownFiles` maps interviewId -> current file id.
+ */
+export async function syncVectorStoreInterviews(
+  vectorStoreId: string,
+  interviewIds: string[],
+  knownFiles: Record<string, string | null | undefined>
+): Promise<{ fileCount: number; files: Record<string, string>; deleted: string[] }> {
+  const retrieval = getRetrieval();
+  const index = await readMetadataIndex();
+  const liveIds = new Set(index.interviews.map((i) => i.id));
+  const targets = new Set(interviewIds);
+
+  // Drop stale files for changed and removed interviews
+  const deleted: string[] = [];
+  await Promise.all(
+    Object.entries(knownFiles).map(async ([interviewId, fileId]) => {
+      if (!fileId) return;
+      if (!targets.has(interviewId) && liveIds.has(interviewId)) return;
+      await retrieval.deleteFile(vectorStoreId, fileId).catch(() => {});
+      deleted.push(interviewId);
+    })
+  );
+
+  const files = await uploadInterviewFiles(
+    vectorStoreId,
+    index.interviews.filter((i) => targets.has(i.id))
+  );
+  await markVectorStoreSynced(vectorStoreId);
+
+  return { fileCount: Object.keys(files).length, files, deleted };
+}
+
+/** Remove one interview's file from the vector store (used when an interview is purged). */
+export async function deleteVectorStoreFile(vectorStoreId: string, fileId: string): Promise<void> {
+  await getRetrieval().deleteFile(vectorStoreId, fileId);
+}
+
+/**
+ * Return vector store ID if synced (for Responses API file_search); null when the
+ * provider has no hosted retrieval.
+ */
 export async function getVectorStoreIdIfReady(): Promise<string | null> {
+  const retrieval = getLLMProvider().retrieval;
   const config = await readVectorStoreConfig();
-  if (!config.vectorStoreId) return null;
-  try {
-    await getOpenAIClient().vectorStores.retrieve(config.vectorStoreId);
-    return config.vectorStoreId;
-  } catch {
-    return null;
-  }
+  if (!retrieval || !config.vectorStoreId) return null;
+  return (await retrieval.storeExists(config.vectorStoreId)) ? config.vectorStoreId : null;
 }
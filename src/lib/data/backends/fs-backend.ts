@@ -0,0 +1,515 @@
+/**
+ * Filesystem storage backend: the original data/store layout of JSON files
+ * (metadata/index.json, transcripts/{id}.json, reports/{id}.json, ...).
+ * Queries load the whole index and filter in memory.
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  ensureDir,
+  getCandidateDataRoots,
+  getDataRoot,
+  lockDataRoot,
+  readJSON,
+  resolvePath,
+  writeFileAtomic,
+  writeJSON,
+} from "@/lib/data/files";
+import {
+  decodeEmbeddingIndex,
+  encodeVectors,
+  fromLegacyIndex,
+  toManifest,
+  type LegacyEmbeddingIndex,
+} from "@/lib/data/embedding-format";
+import { calculateNPSScore } from "@/lib/utils/nps";
+import type { StorageBackend, SearchFilters } from "./types";
+import type {
+  MetadataIndex,
+  NormalizedTranscript,
+  NormalizedReport,
+  ThemeAnalysis,
+  OpportunitiesAnalysis,
+  EmbeddingIndex,
+  EmbeddingManifest,
+  LexicalIndex,
+  PipelineState,
+  Job,
+  InterviewFilters,
+  InterviewListResponse,
+  InterviewMetadata,
+  StatsResponse,
+  SearchResult,
+  Taxonomy,
+  ThemeCandidateCache,
+  ThemeSegmentCache,
+  UsageRecord,
+  ChatEvalRun,
+} from "@/types";
+
+const fsPromises = fs.promises;
+
+/** Try reading index from a candidate root (sync). Returns index if valid, null otherwise. */
+function tryReadIndexSync(root: string): MetadataIndex | null {
+  const indexPath = path.join(root, "metadata", "index.json");
+  try {
+    const content = fs.readFileSync(indexPath, "utf-8");
+    const data = JSON.parse(content) as MetadataIndex;
+    if (data && Array.isArray(data.interviews)) return data;
+  } catch {
+    // ignore
+  }
+  return null;
+}
+
+/** Try every candidate root (sync) and return first index with interviews; lock that root. */
+function tryAllDataRoots(): MetadataIndex | null {
+  for (const root of getCandidateDataRoots()) {
+    const index = tryReadIndexSync(root);
+    if (index && index.interviews.length > 0) {
+      lockDataRoot(root);
+      return index;
+    }
+  }
+  return null;
+}
+
+// --- In-memory queries ---
+
+export function filterAndSortInterviews(
+  all: InterviewMetadata[],
+  filters: InterviewFilters
+): InterviewMetadata[] {
+  let interviews = [...all];
+  const search = filters.search?.toLowerCase();
+
+  if (filters.region) {
+    interviews = interviews.filter((i) => i.region === filters.region);
+  }
+  if (filters.solution) {
+    interviews = interviews.filter((i) => i.solution === filters.solution);
+  }
+  if (filters.npsCategory) {
+    interviews = interviews.filter((i) => i.npsCategory === filters.npsCategory);
+  }
+  if (filters.monthStart) {
+    interviews = interviews.filter((i) => i.monthYear >= filters.monthStart!);
+  }
+  if (filters.monthEnd) {
+    interviews = interviews.filter((i) => i.monthYear <= filters.monthEnd!);
+  }
+  if (search) {
+    interviews = interviews.filter(
+      (i) =>
+        i.client.toLowerCase().includes(search) ||
+        i.company.toLowerCase().includes(search) ||
+        i.solution.toLowerCase().includes(search) ||
+        i.region.toLowerCase().includes(search)
+    );
+  }
+
+  interviews.sort((a, b) => {
+    switch (filters.sort) {
+      case "date-asc":
+        return a.interviewDate.localeCompare(b.interviewDate);
+      case "score-desc":
+        return b.score - a.score;
+      case "score-asc":
+        return a.score - b.score;
+      case "date-desc":
+      default:
+        return b.interviewDate.localeCompare(a.interviewDate);
+    }
+  });
+
+  return interviews;
+}
+
+export function computeStats(interviews: InterviewMetadata[]): StatsResponse {
+  const scores = interviews.map((i) => i.score);
+  const avgNPS =
+    scores.length > 0
+      ? parseFloat((scores.reduce((a, b) => a + b, 0) / scores.length).toFixed(1))
+      : 0;
+
+  const promoters = interviews.filter((i) => i.npsCategory === "promoter").length;
+  const passives = interviews.filter((i) => i.npsCategory === "passive").length;
+  const detractors = interviews.filter((i) => i.npsCategory === "detractor").length;
+
+  const regionCounts: Record<string, number> = {};
+  const solutionCounts: Record<string, number> = {};
+  const monthData: Record<string, { count: number; totalScore: number }> = {};
+
+  for (const i of interviews) {
+    regionCounts[i.region] = (regionCounts[i.region] || 0) + 1;
+    solutionCounts[i.solution] = (solutionCounts[i.solution] || 0) + 1;
+
+    if (!monthData[i.monthYear]) {
+      monthData[i.monthYear] = { count: 0, totalScore: 0 };
+    }
+    monthData[i.monthYear].count++;
+    monthData[i.monthYear].totalScore += i.score;
+  }
+
+  return {
+    totalInterviews: interviews.length,
+    averageNPS: avgNPS,
+    npsScore: calculateNPSScore(scores),
+    promoters,
+    passives,
+    detractors,
+    byRegion: Object.entries(regionCounts).map(([region, count]) => ({
+      region,
+      count,
+    })),
+    bySolution: Object.entries(solutionCounts).map(([solution, count]) => ({
+      solution,
+      count,
+    })),
+    byMonth: Object.entries(monthData)
+      .map(([month, data]) => ({
+        month,
+        count: data.count,
+        avgScore: parseFloat((data.totalScore / data.count).toFixed(1)),
+      }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
+
+/** Report items searched by /api/search, in display order. */
+export function reportSearchSections(
+  report: NormalizedReport
+): { name: string; items: string[] }[] {
+  return [
+    { name: "Overview", items: [report.overview] },
+    { name: "What Went Well", items: report.whatWentWell },
+    { name: "Challenges", items: report.challengesPainPoints },
+    { name: "Gaps", items: report.gapsIdentified },
+    { name: "Key Themes", items: report.keyThemes },
+    { name: "Actions", items: report.actionsRecommendations },
+    { name: "Additional Insight", items: [report.additionalInsight] },
+  ];
+}
+
+/** Max transcript lines returned per interview by /api/search. */
+export const MAX_TRANSCRIPT_MATCHES = 3;
+
+export class FsStorageBackend implements StorageBackend {
+  readonly name = "fs" as const;
+
+  async readMetadataIndex(): Promise<MetadataIndex | null> {
+    // Test all hypotheses: try every candidate root (sync) until one returns interviews
+    const fromCandidates = tryAllDataRoots();
+    if (fromCandidates) return fromCandidates;
+
+    // Fallback: async read from getDataRoot() path
+    const root = getDataRoot();
+    const filePath = path.join(root, "metadata", "index.json");
+    const data = await readJSON<MetadataIndex>(filePath);
+    if (data?.interviews?.length) lockDataRoot(root);
+    return data?.interviews ? data : null;
+  }
+
+  async writeMetadataIndex(index: MetadataIndex): Promise<void> {
+    await writeJSON(resolvePath("metadata", "index.json"), index);
+  }
+
+  async readTranscript(id: string): Promise<NormalizedTranscript | null> {
+    return readJSON<NormalizedTranscript>(resolvePath("transcripts", `${id}.json`));
+  }
+
+  async writeTranscript(id: string, data: NormalizedTranscript): Promise<void> {
+    await writeJSON(resolvePath("transcripts", `${id}.json`), data);
+  }
+
+  async deleteTranscript(id: string): Promise<void> {
+    await fsPromises.rm(resolvePath("transcripts", `${id}.json`), { force: true });
+  }
+
+  async readReport(id: string): Promise<NormalizedReport | null> {
+    return readJSON<NormalizedReport>(resolvePath("reports", `${id}.json`));
+  }
+
+  async writeReport(id: string, data: NormalizedReport): Promise<void> {
+    await writeJSON(resolvePath("reports", `${id}.json`), data);
+  }
+
+  async deleteReport(id: string): Promise<void> {
+    await fsPromises.rm(resolvePath("reports", `${id}.json`), { force: true });
+  }
+
+  async readThemeAnalysis(): Promise<ThemeAnalysis | null> {
+    return readJSON<ThemeAnalysis>(resolvePath("metadata", "themes.json"));
+  }
+
+  async writeThemeAnalysis(data: ThemeAnalysis): Promise<void> {
+    await writeJSON(resolvePath("metadata", "themes.json"), data);
+  }
+
+  async readThemeSnapshot(id: string): Promise<ThemeAnalysis | null> {
+    return readJSON<ThemeAnalysis>(resolvePath("metadata", "theme-snapshots", `${id}.json`));
+  }
+
+  async writeThemeSnapshot(id: string, data: ThemeAnalysis): Promise<void> {
+    await writeJSON(resolvePath("metadata", "theme-snapshots", `${id}.json`), data);
+  }
+
+  async listThemeSnapshotIds(): Promise<string[]> {
+    try {
+      const files = await fsPromises.readdir(resolvePath("metadata", "theme-snapshots"));
+      return files
+        .filter((f) => f.endsWith(".json"))
+        .map((f) => f.slice(0, -".json".length))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  async readThemeCandidates(): Promise<ThemeCandidateCache | null> {
+    return readJSON<ThemeCandidateCache>(resolvePath("metadata", "theme-candidates.json"));
+  }
+
+  async writeThemeCandidates(data: ThemeCandidateCache): Promise<void> {
+    await writeJSON(resolvePath("metadata", "theme-candidates.json"), data);
+  }
+
+  async readThemeSegments(): Promise<ThemeSegmentCache | null> {
+    return readJSON<ThemeSegmentCache>(resolvePath("metadata", "theme-segments.json"));
+  }
+
+  async writeThemeSegments(data: ThemeSegmentCache): Promise<void> {
+    await writeJSON(resolvePath("metadata", "theme-segments.json"), data);
+  }
+
+  async readOpportunities(): Promise<OpportunitiesAnalysis | null> {
+    return readJSON<OpportunitiesAnalysis>(resolvePath("metadata", "opportunities.json"));
+  }
+
+  async writeOpportunities(data: OpportunitiesAnalysis): Promise<void> {
+    await writeJSON(resolvePath("metadata", "opportunities.json"), data);
+  }
+
+  /**
+   * embeddings/manifest.json plus the vectors in embeddings/vectors.f32. An index.json
+   * from before the binary format is read until the next write replaces it.
+   */
+  async readEmbeddingIndex(): Promise<EmbeddingIndex | null> {
+    const manifest = await readJSON<EmbeddingManifest>(resolvePath("embeddings", "manifest.json"));
+    if (!manifest) {
+      const legacy = await readJSON<LegacyEmbeddingIndex>(resolvePath("embeddings", "index.json"));
+      return legacy ? fromLegacyIndex(legacy) : null;
+    }
+    try {
+      const bytes = await fs.promises.readFile(resolvePath("embeddings", "vectors.f32"));
+      return decodeEmbeddingIndex(manifest, bytes);
+    } catch (error) {
+      // Mid-write by another process, or a missing vectors file: treat as not built
+      console.warn("Embedding index could not be read:", error);
+      return null;
+    }
+  }
+
+  async writeEmbeddingIndex(data: EmbeddingIndex): Promise<void> {
+    // Vectors first: the manifest is what readers and embeddingIndexVersion() look at
+    await writeFileAtomic(resolvePath("embeddings", "vectors.f32"), encodeVectors(data.vectors));
+    await writeJSON(resolvePath("embeddings", "manifest.json"), toManifest(data));
+    await fs.promises.rm(resolvePath("embeddings", "index.json"), { force: true });
+  }
+
+  async embeddingIndexVersion(): Promise<string | null> {
+    for (const file of ["manifest.json", "index.json"]) {
+      try {
+        const stat = await fs.promises.stat(resolvePath("embeddings", file));
+        return `${file}:${stat.mtimeMs}:${stat.size}`;
+      } catch {
+        // Try the legacy file
+      }
+    }
+    return null;
+  }
+
+  async readLexicalIndex(): Promise<LexicalIndex | null> {
+    return readJSON<LexicalIndex>(resolvePath("embeddings", "lexical.json"));
+  }
+
+  async writeLexicalIndex(data: LexicalIndex): Promise<void> {
+    await writeJSON(resolvePath("embeddings", "lexical.json"), data);
+  }
+
+  async readTaxonomy(): Promise<Taxonomy | null> {
+    return readJSON<Taxonomy>(resolvePath("metadata", "taxonomy.json"));
+  }
+
+  async writeTaxonomy(data: Taxonomy): Promise<void> {
+    await writeJSON(resolvePath("metadata", "taxonomy.json"), data);
+  }
+
+  async readPipelineState(): Promise<PipelineState | null> {
+    return readJSON<PipelineState>(resolvePath("metadata", "pipeline.json"));
+  }
+
+  async writePipelineState(data: PipelineState): Promise<void> {
+    await writeJSON(resolvePath("metadata", "pipeline.json"), data);
+  }
+
+  async readJob(id: string): Promise<Job | null> {
+    return readJSON<Job>(resolvePath("metadata", "jobs", `${id}.json`));
+  }
+
+  async writeJob(job: Job): Promise<void> {
+    await writeJSON(resolvePath("metadata", "jobs", `${job.id}.json`), job);
+  }
+
+  async listJobs(): Promise<Job[]> {
+    const dirPath = resolvePath("metadata", "jobs");
+    let files: string[] = [];
+    try {
+      files = await fsPromises.readdir(dirPath);
+    } catch {
+      return [];
+    }
+    const jobs: Job[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const job = await readJSON<Job>(path.join(dirPath, file));
+      if (job) jobs.push(job);
+    }
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async readChatEvalRun(id: string): Promise<ChatEvalRun | null> {
+    return readJSON<ChatEvalRun>(resolvePath("metadata", "chat-evals", `${id}.json`));
+  }
+
+  async writeChatEvalRun(run: ChatEvalRun): Promise<void> {
+    await writeJSON(resolvePath("metadata", "chat-evals", `${run.id}.json`), run);
+  }
+
+  async listChatEvalRunIds(): Promise<string[]> {
+    try {
+      const files = await fsPromises.readdir(resolvePath("metadata", "chat-evals"));
+      return files
+        .filter((f) => f.endsWith(".json"))
+        .map((f) => f.slice(0, -".json".length))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  // Usage is JSON Lines per month, so recording a call is an append, not a rewrite
+  async appendUsageRecords(records: UsageRecord[]): Promise<void> {
+    const byMonth = new Map<string, string>();
+    for (const record of records) {
+      const month = record.at.slice(0, 7);
+      byMonth.set(month, (byMonth.get(month) ?? "") + JSON.stringify(record) + "\n");
+    }
+    await ensureDir(resolvePath("metadata", "usage"));
+    for (const [month, lines] of byMonth) {
+      await fsPromises.appendFile(resolvePath("metadata", "usage", `${month}.jsonl`), lines);
+    }
+  }
+
+  async readUsageRecords(month: string): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      const filePath = resolvePath("metadata", "usage", `${month}.jsonl`);
+      content = await fsPromises.readFile(filePath, "utf-8");
+    } catch {
+      return [];
+    }
+    const records: UsageRecord[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // Skip a line torn by a crash mid-append
+      }
+    }
+    return records;
+  }
+
+  async listUsageMonths(): Promise<string[]> {
+    try {
+      const files = await fsPromises.readdir(resolvePath("metadata", "usage"));
+      return files
+        .filter((f) => /^\d{4}-\d{2}\.jsonl$/.test(f))
+        .map((f) => f.slice(0, 7))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  async queryInterviews(filters: InterviewFilters): Promise<InterviewListResponse> {
+    const index = await this.readMetadataIndex();
+    const pool = filters.archived ? index?.archived : index?.interviews;
+    const interviews = filterAndSortInterviews(pool ?? [], filters);
+    return { interviews, total: interviews.length };
+  }
+
+  async getStats(): Promise<StatsResponse> {
+    const index = await this.readMetadataIndex();
+    return computeStats(index?.interviews ?? []);
+  }
+
+  async searchContent(query: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const q = query.toLowerCase();
+    const index = await this.readMetadataIndex();
+    let interviews = index?.interviews ?? [];
+
+    if (filters.region) interviews = interviews.filter((i) => i.region === filters.region);
+    if (filters.solution) interviews = interviews.filter((i) => i.solution === filters.solution);
+    if (filters.npsCategory)
+      interviews = interviews.filter((i) => i.npsCategory === filters.npsCategory);
+
+    const results: SearchResult[] = [];
+
+    for (const meta of interviews) {
+      const matches: { text: string; section: string }[] = [];
+
+      if (meta.hasReport) {
+        const report = await this.readReport(meta.id);
+        if (report) {
+          for (const section of reportSearchSections(report)) {
+            for (const item of section.items) {
+              if (item.toLowerCase().includes(q)) {
+                matches.push({ text: item, section: section.name });
+              }
+            }
+          }
+        }
+      }
+
+      if (meta.hasTranscript) {
+        const transcript = await this.readTranscript(meta.id);
+        if (transcript && transcript.rawText.toLowerCase().includes(q)) {
+          // Find matching segments
+          let transcriptMatches = 0;
+          for (const line of transcript.rawText.split("\n")) {
+            if (line.toLowerCase().includes(q) && line.trim().length > 20) {
+              matches.push({ text: line.trim(), section: "Transcript" });
+              if (++transcriptMatches >= MAX_TRANSCRIPT_MATCHES) break;
+            }
+          }
+        }
+      }
+
+      if (matches.length > 0) {
+        results.push({
+          interviewId: meta.id,
+          client: meta.client,
+          company: meta.company,
+          score: meta.score,
+          npsCategory: meta.npsCategory,
+          matches,
+        });
+      }
+    }
+
+    return results;
+  }
+}
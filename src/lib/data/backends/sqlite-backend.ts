@@ -0,0 +1,712 @@
+/**
+ * Embedded SQLite storage backend (sql.js, no native build required).
+ *
+ * The whole database lives in a single file (default {dataRoot}/kfcx.db, or
+ * KFCX_SQLITE_PATH). Interview metadata is stored in indexed columns so list
+ * filtering, sorting, stats and search run as SQL instead of scanning JSON;
+ * transcripts, reports and analysis artifacts are stored as JSON documents.
+ * The file is reloaded when another process (e.g. a script) changes it, and
+ * writes are serialized across processes with a lock file.
+ *
+ * Every write re-exports the whole database, so data that is large or written often stays
+ * out of it: the embedding vectors are a file next to the database, and job records and
+ * the usage log are files in the data store, as with the fs backend.
+ */
+
+import fs from "fs";
+import path from "path";
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import { resolvePath, writeFileAtomic } from "@/lib/data/files";
+import { withFileLock } from "@/lib/data/lock";
+import {
+  decodeEmbeddingIndex,
+  encodeVectors,
+  fromLegacyIndex,
+  toManifest,
+  type LegacyEmbeddingIndex,
+} from "@/lib/data/embedding-format";
+import {
+  FsStorageBackend,
+  filterAndSortInterviews,
+  reportSearchSections,
+  MAX_TRANSCRIPT_MATCHES,
+} from "./fs-backend";
+import type { StorageBackend, SearchFilters } from "./types";
+import type {
+  MetadataIndex,
+  NormalizedTranscript,
+  NormalizedReport,
+  ThemeAnalysis,
+  OpportunitiesAnalysis,
+  EmbeddingIndex,
+  EmbeddingManifest,
+  LexicalIndex,
+  PipelineState,
+  Job,
+  InterviewFilters,
+  InterviewListResponse,
+  InterviewMetadata,
+  NPSCategory,
+  StatsResponse,
+  SearchResult,
+  Taxonomy,
+  ThemeCandidateCache,
+  ThemeSegmentCache,
+  UsageRecord,
+  ChatEvalRun,
+} from "@/types";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS interviews (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  client TEXT NOT NULL,
+  company TEXT NOT NULL,
+  region TEXT NOT NULL,
+  solution TEXT NOT NULL,
+  nps_category TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  interview_date TEXT NOT NULL,
+  month_year TEXT NOT NULL,
+  has_transcript INTEGER NOT NULL,
+  has_report INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_interviews_region ON interviews (region);
+CREATE INDEX IF NOT EXISTS idx_interviews_solution ON interviews (solution);
+CREATE INDEX IF NOT EXISTS idx_interviews_nps ON interviews (nps_category);
+CREATE INDEX IF NOT EXISTS idx_interviews_month ON interviews (month_year);
+CREATE TABLE IF NOT EXISTS documents (
+  kind TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (kind, id)
+);
+CREATE TABLE IF NOT EXISTS artifacts (
+  name TEXT PRIMARY KEY,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blobs (
+  name TEXT PRIMARY KEY,
+  data BLOB NOT NULL
+);
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS search_segments (
+  interview_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+  section TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_segments_interview ON search_segments (interview_id, source);
+CREATE TABLE IF NOT EXISTS usage_log (
+  month TEXT NOT NULL,
+  at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_usage_month ON usage_log (month, at);
+`;
+
+type Row = Record<string, SqlValue>;
+
+const SORT_SQL: Record<NonNullable<InterviewFilters["sort"]>, string> = {
+  "date-desc": "interview_date DESC",
+  "date-asc": "interview_date ASC",
+  "score-desc": "score DESC",
+  "score-asc": "score ASC",
+};
+
+/** Stored on globalThis so dev-mode module reloads share one sql.js instance. */
+const globalForSqlite = globalThis as unknown as { kfcxSqlJs?: Promise<SqlJsStatic> };
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!globalForSqlite.kfcxSqlJs) {
+    const distDir = path.join(process.cwd(), "node_modules", "sql.js", "dist");
+    globalForSqlite.kfcxSqlJs = initSqlJs({ locateFile: (file) => path.join(distDir, file) });
+  }
+  return globalForSqlite.kfcxSqlJs;
+}
+
+export function getSqlitePath(): string {
+  const configured = process.env.KFCX_SQLITE_PATH?.trim();
+  if (configured) {
+    return path.isAbsolute(configured) ? configured : path.resolve(process.cwd(), configured);
+  }
+  return resolvePath("kfcx.db");
+}
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = "sqlite" as const;
+
+  private db: Database | null = null;
+  private loadedMtime = 0;
+  /** Job records and the usage log (metadata/jobs, metadata/usage). */
+  private readonly files = new FsStorageBackend();
+
+  constructor(private readonly filePath: string = getSqlitePath()) {}
+
+  /** Embedding vectors, next to the database file. */
+  private get vectorsPath(): string {
+    return `${this.filePath}-vectors.f32`;
+  }
+
+  // --- Connection ---
+
+  private async open(): Promise<Database> {
+    let mtime = 0;
+    try {
+      mtime = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      // No database file yet; start empty
+    }
+    if (this.db && mtime === this.loadedMtime) return this.db;
+
+    const SQL = await loadSqlJs();
+    this.db?.close();
+    this.db = mtime ? new SQL.Database(fs.readFileSync(this.filePath)) : new SQL.Database();
+    this.db.run(SCHEMA);
+    this.loadedMtime = mtime;
+    return this.db;
+  }
+
+  private async persist(db: Database): Promise<void> {
+    try {
+      await writeFileAtomic(this.filePath, db.export());
+      this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+    } catch (error) {
+      // The change was committed in memory only; drop it so the next open() reloads the file
+      this.db?.close();
+      this.db = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Run several statements in one transaction and save the file. Holds a lock file
+   * next to the database and reloads it first, so writes from other processes are kept.
+   */
+  private async write(fn: (db: Database) => void): Promise<void> {
+    await withFileLock(`${this.filePath}.lock`, async () => {
+      const db = await this.open();
+      db.run("BEGIN");
+      try {
+        fn(db);
+        db.run("COMMIT");
+      } catch (error) {
+        db.run("ROLLBACK");
+        throw error;
+      }
+      await this.persist(db);
+    });
+  }
+
+  private async all(sql: string, params: SqlValue[] = []): Promise<Row[]> {
+    const db = await this.open();
+    const stmt = db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Row[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  private async get(sql: string, params: SqlValue[] = []): Promise<Row | null> {
+    const rows = await this.all(sql, params);
+    return rows[0] ?? null;
+  }
+
+  private async readDocument<T>(kind: string, id: string): Promise<T | null> {
+    const row = await this.get("SELECT data FROM documents WHERE kind = ? AND id = ?", [kind, id]);
+    return row ? (JSON.parse(row.data as string) as T) : null;
+  }
+
+  private async readArtifact<T>(name: string): Promise<T | null> {
+    const row = await this.get("SELECT data FROM artifacts WHERE name = ?", [name]);
+    return row ? (JSON.parse(row.data as string) as T) : null;
+  }
+
+  private async writeArtifact<T>(name: string, data: T): Promise<void> {
+    await this.write((db) => {
+      db.run("INSERT OR REPLACE INTO artifacts (name, data) VALUES (?, ?)", [
+        name,
+        JSON.stringify(data),
+      ]);
+    });
+  }
+
+  // --- Metadata Index ---
+
+  async readMetadataIndex(): Promise<MetadataIndex | null> {
+    const meta = await this.all(
+      "SELECT key, value FROM meta WHERE key IN ('version', 'lastUpdated', 'archived')"
+    );
+    if (meta.length === 0) return null;
+    const values = Object.fromEntries(meta.map((r) => [r.key as string, r.value as string]));
+    const rows = await this.all("SELECT data FROM interviews ORDER BY position");
+    return {
+      version: Number(values.version ?? 1),
+      lastUpdated: values.lastUpdated ?? new Date().toISOString(),
+      interviews: rows.map((r) => JSON.parse(r.data as string) as InterviewMetadata),
+      // Archived interviews are rarely read, so they are kept as one JSON value
+      ...(values.archived ? { archived: JSON.parse(values.archived) as InterviewMetadata[] } : {}),
+    };
+  }
+
+  async writeMetadataIndex(index: MetadataIndex): Promise<void> {
+    await this.write((db) => {
+      db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('version', ?)", [
+        String(index.version),
+      ]);
+      db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('lastUpdated', ?)", [
+        index.lastUpdated,
+      ]);
+      db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('archived', ?)", [
+        JSON.stringify(index.archived ?? []),
+      ]);
+      db.run("DELETE FROM interviews");
+      const stmt = db.prepare(
+        `INSERT INTO interviews (id, position, client, company, region, solution, nps_category,
+          score, interview_date, month_year, has_transcript, has_report, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      try {
+        index.interviews.forEach((i, position) => {
+          stmt.run([
+            i.id,
+            position,
+            i.client,
+            i.company,
+            i.region,
+            i.solution,
+            i.npsCategory,
+            i.score,
+            i.interviewDate,
+            i.monthYear,
+            i.hasTranscript ? 1 : 0,
+            i.hasReport ? 1 : 0,
+            JSON.stringify(i),
+          ]);
+        });
+      } finally {
+        stmt.free();
+      }
+    });
+  }
+
+  // --- Transcripts & Reports ---
+
+  async readTranscript(id: string): Promise<NormalizedTranscript | null> {
+    return this.readDocument<NormalizedTranscript>("transcript", id);
+  }
+
+  async writeTranscript(id: string, data: NormalizedTranscript): Promise<void> {
+    // Lines shorter than this are not returned by search (same as the fs backend)
+    const lines = data.rawText
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 20);
+    await this.write((db) => {
+      db.run("INSERT OR REPLACE INTO documents (kind, id, data) VALUES ('transcript', ?, ?)", [
+        id,
+        JSON.stringify(data),
+      ]);
+      db.run("DELETE FROM search_segments WHERE interview_id = ? AND source = 'transcript'", [id]);
+      lines.forEach((line, position) => {
+        db.run(
+          "INSERT INTO search_segments (interview_id, source, section, position, text) VALUES (?, 'transcript', 'Transcript', ?, ?)",
+          [id, position, line]
+        );
+      });
+    });
+  }
+
+  async deleteTranscript(id: string): Promise<void> {
+    await this.deleteDocument("transcript", id);
+  }
+
+  async readReport(id: string): Promise<NormalizedReport | null> {
+    return this.readDocument<NormalizedReport>("report", id);
+  }
+
+  async writeReport(id: string, data: NormalizedReport): Promise<void> {
+    await this.write((db) => {
+      db.run("INSERT OR REPLACE INTO documents (kind, id, data) VALUES ('report', ?, ?)", [
+        id,
+        JSON.stringify(data),
+      ]);
+      db.run("DELETE FROM search_segments WHERE interview_id = ? AND source = 'report'", [id]);
+      let position = 0;
+      for (const section of reportSearchSections(data)) {
+        for (const item of section.items) {
+          db.run(
+            "INSERT INTO search_segments (interview_id, source, section, position, text) VALUES (?, 'report', ?, ?, ?)",
+            [id, section.name, position++, item]
+          );
+        }
+      }
+    });
+  }
+
+  async deleteReport(id: string): Promise<void> {
+    await this.deleteDocument("report", id);
+  }
+
+  private async deleteDocument(kind: "transcript" | "report", id: string): Promise<void> {
+    await this.write((db) => {
+      db.run("DELETE FROM documents WHERE kind = ? AND id = ?", [kind, id]);
+      db.run("DELETE FROM search_segments WHERE interview_id = ? AND source = ?", [id, kind]);
+    });
+  }
+
+  // --- Analysis artifacts ---
+
+  async readThemeAnalysis(): Promise<ThemeAnalysis | null> {
+    return this.readArtifact<ThemeAnalysis>("themes");
+  }
+
+  async writeThemeAnalysis(data: ThemeAnalysis): Promise<void> {
+    await this.writeArtifact("themes", data);
+  }
+
+  async readThemeSnapshot(id: string): Promise<ThemeAnalysis | null> {
+    return this.readArtifact<ThemeAnalysis>(`themes@${id}`);
+  }
+
+  async writeThemeSnapshot(id: string, data: ThemeAnalysis): Promise<void> {
+    await this.writeArtifact(`themes@${id}`, data);
+  }
+
+  async listThemeSnapshotIds(): Promise<string[]> {
+    const rows = await this.all(
+      "SELECT name FROM artifacts WHERE name LIKE 'themes@%' ORDER BY name"
+    );
+    return rows.map((r) => (r.name as string).slice("themes@".length));
+  }
+
+  async readThemeCandidates(): Promise<ThemeCandidateCache | null> {
+    return this.readArtifact<ThemeCandidateCache>("theme-candidates");
+  }
+
+  async writeThemeCandidates(data: ThemeCandidateCache): Promise<void> {
+    await this.writeArtifact("theme-candidates", data);
+  }
+
+  async readThemeSegments(): Promise<ThemeSegmentCache | null> {
+    return this.readArtifact<ThemeSegmentCache>("theme-segments");
+  }
+
+  async writeThemeSegments(data: ThemeSegmentCache): Promise<void> {
+    await this.writeArtifact("theme-segments", data);
+  }
+
+  async readOpportunities(): Promise<OpportunitiesAnalysis | null> {
+    return this.readArtifact<OpportunitiesAnalysis>("opportunities");
+  }
+
+  async writeOpportunities(data: OpportunitiesAnalysis): Promise<void> {
+    await this.writeArtifact("opportunities", data);
+  }
+
+  /**
+   * Manifest in artifacts, vectors in the file at vectorsPath. Older databases hold the
+   * vectors in blobs, or the whole index as one JSON artifact, until the next write.
+   */
+  async readEmbeddingIndex(): Promise<EmbeddingIndex | null> {
+    const stored = await this.readArtifact<EmbeddingManifest | LegacyEmbeddingIndex>("embeddings");
+    if (!stored) return null;
+    if (!("format" in stored)) return fromLegacyIndex(stored);
+    const row = await this.get("SELECT data FROM blobs WHERE name = 'embeddings'");
+    if (row) return decodeEmbeddingIndex(stored, row.data as Uint8Array);
+    try {
+      return decodeEmbeddingIndex(stored, await fs.promises.readFile(this.vectorsPath));
+    } catch (error) {
+      // Mid-write by another process, or a missing vectors file: treat as not built
+      console.warn("Embedding index could not be read:", error);
+      return null;
+    }
+  }
+
+  async writeEmbeddingIndex(data: EmbeddingIndex): Promise<void> {
+    const hadBlob = !!(await this.get("SELECT 1 FROM blobs WHERE name = 'embeddings'"));
+    // Vectors first: the manifest is what readers and embeddingIndexVersion() look at
+    await writeFileAtomic(this.vectorsPath, encodeVectors(data.vectors));
+    await this.write((db) => {
+      db.run("INSERT OR REPLACE INTO artifacts (name, data) VALUES ('embeddings', ?)", [
+        JSON.stringify(toManifest(data)),
+      ]);
+      db.run("DELETE FROM blobs WHERE name = 'embeddings'");
+      db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('embeddingsVersion', ?)", [
+        `${data.lastUpdated}:${data.chunks.length}`,
+      ]);
+    });
+    // Give back the space the vectors took (VACUUM cannot run inside write's transaction)
+    if (hadBlob) {
+      await withFileLock(`${this.filePath}.lock`, async () => {
+        const db = await this.open();
+        db.run("VACUUM");
+        await this.persist(db);
+      });
+    }
+  }
+
+  async embeddingIndexVersion(): Promise<string | null> {
+    const row = await this.get("SELECT value FROM meta WHERE key = 'embeddingsVersion'");
+    if (row) return row.value as string;
+    // Legacy JSON index: it only changes by being rewritten in the new format
+    return (await this.get("SELECT 1 FROM artifacts WHERE name = 'embeddings'")) ? "legacy" : null;
+  }
+
+  async readLexicalIndex(): Promise<LexicalIndex | null> {
+    return this.readArtifact<LexicalIndex>("lexical-index");
+  }
+
+  async writeLexicalIndex(data: LexicalIndex): Promise<void> {
+    await this.writeArtifact("lexical-index", data);
+  }
+
+  async readTaxonomy(): Promise<Taxonomy | null> {
+    return this.readArtifact<Taxonomy>("taxonomy");
+  }
+
+  async writeTaxonomy(data: Taxonomy): Promise<void> {
+    await this.writeArtifact("taxonomy", data);
+  }
+
+  async readPipelineState(): Promise<PipelineState | null> {
+    return this.readArtifact<PipelineState>("pipeline");
+  }
+
+  async writePipelineState(data: PipelineState): Promise<void> {
+    await this.writeArtifact("pipeline", data);
+  }
+
+  // --- Background Jobs ---
+  // Job records are files, as each step update would otherwise rewrite the database.
+  // Databases from before that keep their older jobs in the jobs table.
+
+  async readJob(id: string): Promise<Job | null> {
+    const job = await this.files.readJob(id);
+    if (job) return job;
+    const row = await this.get("SELECT data FROM jobs WHERE id = ?", [id]);
+    return row ? (JSON.parse(row.data as string) as Job) : null;
+  }
+
+  async writeJob(job: Job): Promise<void> {
+    await this.files.writeJob(job);
+  }
+
+  async listJobs(): Promise<Job[]> {
+    const jobs = await this.files.listJobs();
+    const ids = new Set(jobs.map((j) => j.id));
+    const rows = await this.all("SELECT data FROM jobs ORDER BY created_at DESC");
+    for (const row of rows) {
+      const job = JSON.parse(row.data as string) as Job;
+      if (!ids.has(job.id)) jobs.push(job);
+    }
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // --- Chat Evaluation Runs ---
+
+  async readChatEvalRun(id: string): Promise<ChatEvalRun | null> {
+    return this.readArtifact<ChatEvalRun>(`chat-eval@${id}`);
+  }
+
+  async writeChatEvalRun(run: ChatEvalRun): Promise<void> {
+    await this.writeArtifact(`chat-eval@${run.id}`, run);
+  }
+
+  async listChatEvalRunIds(): Promise<string[]> {
+    const rows = await this.all(
+      "SELECT name FROM artifacts WHERE name LIKE 'chat-eval@%' ORDER BY name"
+    );
+    return rows.map((r) => (r.name as string).slice("chat-eval@".length));
+  }
+
+  // --- Usage Log ---
+  // Appended to the fs backend's JSON Lines files, as recording a call is frequent.
+  // Databases from before that keep their older records in usage_log.
+
+  async appendUsageRecords(records: UsageRecord[]): Promise<void> {
+    await this.files.appendUsageRecords(records);
+  }
+
+  async readUsageRecords(month: string): Promise<UsageRecord[]> {
+    const rows = await this.all("SELECT data FROM usage_log WHERE month = ? ORDER BY at", [month]);
+    const records = [
+      ...rows.map((r) => JSON.parse(r.data as string) as UsageRecord),
+      ...(await this.files.readUsageRecords(month)),
+    ];
+    return records.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  async listUsageMonths(): Promise<string[]> {
+    const rows = await this.all("SELECT DISTINCT month FROM usage_log");
+    const months = new Set([
+      ...rows.map((r) => r.month as string),
+      ...(await this.files.listUsageMonths()),
+    ]);
+    return [...months].sort();
+  }
+
+  // --- Queries ---
+
+  async queryInterviews(filters: InterviewFilters): Promise<InterviewListResponse> {
+    if (filters.archived) {
+      const index = await this.readMetadataIndex();
+      const interviews = filterAndSortInterviews(index?.archived ?? [], filters);
+      return { interviews, total: interviews.length };
+    }
+
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (filters.region) {
+      where.push("region = ?");
+      params.push(filters.region);
+    }
+    if (filters.solution) {
+      where.push("solution = ?");
+      params.push(filters.solution);
+    }
+    if (filters.npsCategory) {
+      where.push("nps_category = ?");
+      params.push(filters.npsCategory);
+    }
+    if (filters.monthStart) {
+      where.push("month_year >= ?");
+      params.push(filters.monthStart);
+    }
+    if (filters.monthEnd) {
+      where.push("month_year <= ?");
+      params.push(filters.monthEnd);
+    }
+    if (filters.search) {
+      const search = filters.search.toLowerCase();
+      where.push(
+        "(instr(lower(client), ?) > 0 OR instr(lower(company), ?) > 0 OR instr(lower(solution), ?) > 0 OR instr(lower(region), ?) > 0)"
+      );
+      params.push(search, search, search, search);
+    }
+
+    const order = SORT_SQL[filters.sort ?? "date-desc"] ?? SORT_SQL["date-desc"];
+    const rows = await this.all(
+      `SELECT data FROM interviews
+       ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+       ORDER BY ${order}, position`,
+      params
+    );
+    const interviews = rows.map((r) => JSON.parse(r.data as string) as InterviewMetadata);
+    return { interviews, total: interviews.length };
+  }
+
+  async getStats(): Promise<StatsResponse> {
+    const totals = await this.get(
+      `SELECT COUNT(*) AS total,
+              COALESCE(AVG(score), 0) AS avg_score,
+              SUM(nps_category = 'promoter') AS promoters,
+              SUM(nps_category = 'passive') AS passives,
+              SUM(nps_category = 'detractor') AS detractors,
+              SUM(score >= 9) AS promoter_scores,
+              SUM(score <= 6) AS detractor_scores
+       FROM interviews`
+    );
+    const total = Number(totals?.total ?? 0);
+    const byRegion = await this.all(
+      "SELECT region, COUNT(*) AS count FROM interviews GROUP BY region ORDER BY MIN(position)"
+    );
+    const bySolution = await this.all(
+      "SELECT solution, COUNT(*) AS count FROM interviews GROUP BY solution ORDER BY MIN(position)"
+    );
+    const byMonth = await this.all(
+      "SELECT month_year, COUNT(*) AS count, AVG(score) AS avg_score FROM interviews GROUP BY month_year ORDER BY month_year"
+    );
+
+    return {
+      totalInterviews: total,
+      averageNPS: parseFloat(Number(totals?.avg_score ?? 0).toFixed(1)),
+      npsScore:
+        total > 0
+          ? Math.round(
+              ((Number(totals?.promoter_scores) - Number(totals?.detractor_scores)) / total) * 100
+            )
+          : 0,
+      promoters: Number(totals?.promoters ?? 0),
+      passives: Number(totals?.passives ?? 0),
+      detractors: Number(totals?.detractors ?? 0),
+      byRegion: byRegion.map((r) => ({ region: r.region as string, count: Number(r.count) })),
+      bySolution: bySolution.map((r) => ({
+        solution: r.solution as string,
+        count: Number(r.count),
+      })),
+      byMonth: byMonth.map((r) => ({
+        month: r.month_year as string,
+        count: Number(r.count),
+        avgScore: parseFloat(Number(r.avg_score).toFixed(1)),
+      })),
+    };
+  }
+
+  async searchContent(query: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const where = [
+      "instr(lower(s.text), ?) > 0",
+      "((s.source = 'report' AND i.has_report = 1) OR (s.source = 'transcript' AND i.has_transcript = 1))",
+    ];
+    const params: SqlValue[] = [query.toLowerCase()];
+    if (filters.region) {
+      where.push("i.region = ?");
+      params.push(filters.region);
+    }
+    if (filters.solution) {
+      where.push("i.solution = ?");
+      params.push(filters.solution);
+    }
+    if (filters.npsCategory) {
+      where.push("i.nps_category = ?");
+      params.push(filters.npsCategory);
+    }
+
+    const rows = await this.all(
+      `SELECT * FROM (
+         SELECT s.interview_id, s.source, s.section, s.text, i.position AS interview_position,
+                i.client, i.company, i.score, i.nps_category, s.position,
+                ROW_NUMBER() OVER (PARTITION BY s.interview_id, s.source ORDER BY s.position) AS rank
+         FROM search_segments s
+         JOIN interviews i ON i.id = s.interview_id
+         WHERE ${where.join(" AND ")}
+       )
+       WHERE source = 'report' OR rank <= ${MAX_TRANSCRIPT_MATCHES}
+       ORDER BY interview_position, source, position`,
+      params
+    );
+
+    const results: SearchResult[] = [];
+    for (const row of rows) {
+      let result = results[results.length - 1];
+      if (!result || result.interviewId !== row.interview_id) {
+        result = {
+          interviewId: row.interview_id as string,
+          client: row.client as string,
+          company: row.company as string,
+          score: Number(row.score),
+          npsCategory: row.nps_category as NPSCategory,
+          matches: [],
+        };
+        results.push(result);
+      }
+      result.matches.push({ text: row.text as string, section: row.section as string });
+    }
+    return results;
+  }
+}
@@ -0,0 +1,94 @@
+import type {
+  MetadataIndex,
+  NormalizedTranscript,
+  NormalizedReport,
+  ThemeAnalysis,
+  OpportunitiesAnalysis,
+  EmbeddingIndex,
+  LexicalIndex,
+  PipelineState,
+  Job,
+  InterviewFilters,
+  InterviewListResponse,
+  StatsResponse,
+  SearchResult,
+  Taxonomy,
+  ThemeCandidateCache,
+  ThemeSegmentCache,
+  UsageRecord,
+  ChatEvalRun,
+} from "@/types";
+
+export type StorageBackendName = "fs" | "sqlite";
+
+/** Filters accepted by full-text search (subset of the interview list filters). */
+export type SearchFilters = Pick<InterviewFilters, "region" | "solution" | "npsCategory">;
+
+/**
+ * Storage backend behind the read/write functions in store.ts.
+ * Original PDFs and the vector store config always live on the filesystem.
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  readMetadataIndex(): Promise<MetadataIndex | null>;
+  writeMetadataIndex(index: MetadataIndex): Promise<void>;
+
+  readTranscript(id: string): Promise<NormalizedTranscript | null>;
+  writeTranscript(id: string, data: NormalizedTranscript): Promise<void>;
+  deleteTranscript(id: string): Promise<void>;
+
+  readReport(id: string): Promise<NormalizedReport | null>;
+  writeReport(id: string, data: NormalizedReport): Promise<void>;
+  deleteReport(id: string): Promise<void>;
+
+  readThemeAnalysis(): Promise<ThemeAnalysis | null>;
+  writeThemeAnalysis(data: ThemeAnalysis): Promise<void>;
+
+  // Dated copies of replaced theme analyses, by snapshot id
+  readThemeSnapshot(id: string): Promise<ThemeAnalysis | null>;
+  writeThemeSnapshot(id: string, data: ThemeAnalysis): Promise<void>;
+  listThemeSnapshotIds(): Promise<string[]>;
+
+  readThemeCandidates(): Promise<ThemeCandidateCache | null>;
+  writeThemeCandidates(data: ThemeCandidateCache): Promise<void>;
+
+  readThemeSegments(): Promise<ThemeSegmentCache | null>;
+  writeThemeSegments(data: ThemeSegmentCache): Promise<void>;
+
+  readOpportunities(): Promise<OpportunitiesAnalysis | null>;
+  writeOpportunities(data: OpportunitiesAnalysis): Promise<void>;
+
+  readEmbeddingIndex(): Promise<EmbeddingIndex | null>;
+  writeEmbeddingIndex(data: EmbeddingIndex): Promise<void>;
+  /** Changes whenever the embedding index is written; null when there is none. */
+  embeddingIndexVersion(): Promise<string | null>;
+
+  readLexicalIndex(): Promise<LexicalIndex | null>;
+  writeLexicalIndex(data: LexicalIndex): Promise<void>;
+
+  readTaxonomy(): Promise<Taxonomy | null>;
+  writeTaxonomy(data: Taxonomy): Promise<void>;
+
+  readPipelineState(): Promise<PipelineState | null>;
+  writePipelineState(data: PipelineState): Promise<void>;
+
+  readJob(id: string): Promise<Job | null>;
+  writeJob(job: Job): Promise<void>;
+  listJobs(): Promise<Job[]>;
+
+  readChatEvalRun(id: string): Promise<ChatEvalRun | null>;
+  writeChatEvalRun(run: ChatEvalRun): Promise<void>;
+  listChatEvalRunIds(): Promise<string[]>;
+
+  /** Append-only log of model calls, partitioned by month ("2026-10"). */
+  appendUsageRecords(records: UsageRecord[]): Promise<void>;
+  readUsageRecords(month: string): Promise<UsageRecord[]>;
+  /** Months with usage records, oldest first. */
+  listUsageMonths(): Promise<string[]>;
+
+  // --- Queries (filtering, sorting and counting done by the backend) ---
+  queryInterviews(filters: InterviewFilters): Promise<InterviewListResponse>;
+  getStats(): Promise<StatsResponse>;
+  searchContent(query: string, filters: SearchFilters): Promise<SearchResult[]>;
+}
@@ -0,0 +1,542 @@
+/**
+ * Bulk import of coded report and transcript files (R{n}_NPS… / T{n}_NPS…), individually
+ * or inside ZIP archives.
+ *
+ * Metadata comes from the filenames (parseFilenameMetadata / parseTranscriptFilename), with
+ * region, solution and account type codes resolved against the stored taxonomy.
+ * Files are paired by number (T5 ↔ R5) and matched to existing interviews the way
+ * scripts/ingest-transcripts.ts does: by reportCode/transcriptCode or the R{n}_ prefix of
+ * the original report file. Unmatched pairs become new interviews. All index changes are
+ * applied in one updateMetadataIndex call.
+ */
+
+import path from "path";
+import type JSZip from "jszip";
+import {
+  readTaxonomy,
+  updateMetadataIndex,
+  getNextInterviewId,
+  writeTranscript,
+  writeReport,
+  writeOriginalPdf,
+  deleteOriginalFile,
+} from "@/lib/data/store";
+import { isDocxFilename } from "@/lib/data/docx-parser";
+import {
+  parseFilenameMetadata,
+  parsePdfBuffer,
+  parseDocxBuffer,
+  type FilenameMetadata,
+  type ParsedPdfReport,
+} from "@/lib/data/pdf-parser";
+import {
+  parseTranscriptFilename,
+  parseTranscriptPdfBuffer,
+  parseTranscriptDocxBuffer,
+  parseTranscriptText,
+  type ParsedTranscriptPdf,
+  type TranscriptFilenameMetadata,
+} from "@/lib/data/transcript-parser";
+import { UnknownTaxonomyValueError } from "@/lib/data/taxonomy";
+import { getNPSCategory } from "@/lib/utils/nps";
+import type {
+  BulkImportFileResult,
+  BulkImportStatus,
+  InterviewMetadata,
+  MetadataIndex,
+  Taxonomy,
+} from "@/types";
+
+const CODED_FILENAME = /^([TR])(\d+)_NPS\d+_/;
+const DOCUMENT_EXTENSION = /\.(pdf|docx)$/i;
+const TRANSCRIPT_EXPORT_EXTENSION = /\.(vtt|srt|txt)$/i;
+
+export interface BulkImportFile {
+  name: string;
+  data: Buffer;
+}
+
+export interface BulkImportOptions {
+  /** Replace the report/transcript of a matched interview instead of skipping it. */
+  overwrite?: boolean;
+}
+
+interface ParsedReportFile {
+  filename: string;
+  data: Buffer;
+  meta: FilenameMetadata;
+  parsed: ParsedPdfReport;
+}
+
+interface ParsedTranscriptFile {
+  filename: string;
+  data: Buffer;
+  meta: TranscriptFilenameMetadata;
+  parsed: ParsedTranscriptPdf;
+}
+
+interface PairedFiles {
+  report?: ParsedReportFile;
+  transcript?: ParsedTranscriptFile;
+}
+
+export function isZipFilename(filename: string): boolean {
+  return /\.zip$/i.test(filename);
+}
+
+/**
+ * Limits on an archive's contents, so a small ZIP cannot inflate to exhaust the server's
+ * memory. The sizes an archive declares can be forged, so they are enforced while inflating.
+ */
+const MAX_ZIP_ENTRIES = 500;
+const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_ZIP_TOTAL_BYTES = 200 * 1024 * 1024;
+
+function formatMB(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/** Uncompressed size from the archive's directory (JSZip keeps it in a private field). */
+function declaredSize(entry: JSZip.JSZipObject): number {
+  return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+/** Inflate an entry; null as soon as it exceeds `limit` bytes. */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.removeAllListeners("data");
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks, size)));
+  });
+}
+
+/**
+ * Unpack a ZIP archive, flattening folders and dropping macOS/dot-file entries. Throws
+ * when the archive has more than MAX_ZIP_ENTRIES files or expands beyond the size limits.
+ */
+export async function expandZip(data: Buffer): Promise<BulkImportFile[]> {
+  const { default: JSZipLoader } = await import("jszip");
+  const zip = await JSZipLoader.loadAsync(data);
+  const entries = Object.values(zip.files).filter((entry) => {
+    if (entry.dir || entry.name.startsWith("__MACOSX/")) return false;
+    const name = path.posix.basename(entry.name);
+    return !!name && !name.startsWith(".");
+  });
+
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`Archive has ${entries.length} files; the limit is ${MAX_ZIP_ENTRIES}`);
+  }
+  let declared = 0;
+  for (const entry of entries) {
+    const size = declaredSize(entry);
+    if (size > MAX_ZIP_ENTRY_BYTES) {
+      throw new Error(`${entry.name} is larger than ${formatMB(MAX_ZIP_ENTRY_BYTES)}`);
+    }
+    declared += size;
+  }
+  if (declared > MAX_ZIP_TOTAL_BYTES) {
+    throw new Error(`Archive expands to more than ${formatMB(MAX_ZIP_TOTAL_BYTES)}`);
+  }
+
+  const files: BulkImportFile[] = [];
+  let total = 0;
+  for (const entry of entries) {
+    const content = await inflateEntry(entry, MAX_ZIP_ENTRY_BYTES);
+    if (!content) {
+      throw new Error(`${entry.name} is larger than ${formatMB(MAX_ZIP_ENTRY_BYTES)}`);
+    }
+    total += content.length;
+    if (total > MAX_ZIP_TOTAL_BYTES) {
+      throw new Error(`Archive expands to more than ${formatMB(MAX_ZIP_TOTAL_BYTES)}`);
+    }
+    files.push({ name: path.posix.basename(entry.name), data: content });
+  }
+  return files;
+}
+
+function result(
+  filename: string,
+  status: BulkImportStatus,
+  message: string,
+  extra: Partial<BulkImportFileResult> = {}
+): BulkImportFileResult {
+  return { filename, kind: null, code: null, interviewId: null, status, message, ...extra };
+}
+
+function validateFilenameMetadata(meta: { score: number }): string | null {
+  if (!Number.isInteger(meta.score) || meta.score < 0 || meta.score > 10) {
+    return "Filename NPS score must be between 0 and 10";
+  }
+  return null;
+}
+
+/** Find the interview a T{n}/R{n} pair belongs to, as scripts/ingest-transcripts.ts does. */
+function findInterviewByNumber(
+  interviews: InterviewMetadata[],
+  num: number
+): InterviewMetadata | undefined {
+  const reportPattern = new RegExp(`originals/R${num}_`);
+  return interviews.find(
+    (i) =>
+      i.reportCode === `R${num}` ||
+      i.transcriptCode === `T${num}` ||
+      (!!i.originalPdfFile && reportPattern.test(i.originalPdfFile))
+  );
+}
+
+function dataStatusOf(metadata: InterviewMetadata): InterviewMetadata["dataStatus"] {
+  if (metadata.hasTranscript && metadata.hasReport) return "complete";
+  return metadata.hasTranscript ? "transcript_only" : "report_only";
+}
+
+/**
+ * Originals in `candidates` that no interview (active or archived) refers to any more,
+ * e.g. the file a re-imported report or transcript replaced.
+ */
+function unreferencedOriginals(index: MetadataIndex, candidates: string[]): string[] {
+  const referenced = new Set(
+    [...index.interviews, ...(index.archived ?? [])].flatMap((i) => [
+      i.originalPdfFile,
+      i.originalTranscriptFile,
+      i.originalReportFile,
+    ])
+  );
+  return [...new Set(candidates)].filter((f) => !referenced.has(f));
+}
+
+/** Store the report on the interview; returns the original file it replaced, if any. */
+async function applyReport(
+  metadata: InterviewMetadata,
+  file: ParsedReportFile
+): Promise<string | null> {
+  const { parsed, meta } = file;
+  const previous = metadata.originalReportFile ?? metadata.originalPdfFile ?? null;
+  await writeOriginalPdf(file.filename, file.data);
+  await writeReport(metadata.id, {
+    id: metadata.id,
+    client: parsed.client || metadata.client,
+    interviewDate: parsed.interviewDate || metadata.interviewDate,
+    project: parsed.engagement || meta.solution,
+    score: meta.score,
+    overview: parsed.overview,
+    whatWentWell: parsed.whatWentWell,
+    challengesPainPoints: parsed.challengesPainPoints,
+    gapsIdentified: parsed.gapsIdentified,
+    keyThemes: parsed.keyThemes,
+    actionsRecommendations: parsed.actionsRecommendations,
+    additionalInsight: parsed.additionalInsight,
+  });
+
+  metadata.hasReport = true;
+  metadata.reportFile = `reports/${metadata.id}.json`;
+  metadata.reportCode = meta.reportCode;
+  metadata.originalPdfFile = `originals/${file.filename}`;
+  metadata.originalReportFile = metadata.originalPdfFile;
+  return previous;
+}
+
+/** Store the transcript on the interview; returns the original file it replaced, if any. */
+async function applyTranscript(
+  metadata: InterviewMetadata,
+  file: ParsedTranscriptFile
+): Promise<string | null> {
+  const { parsed, meta } = file;
+  const previous = metadata.originalTranscriptFile ?? null;
+  await writeOriginalPdf(file.filename, file.data);
+  await writeTranscript(metadata.id, {
+    id: metadata.id,
+    sourceFile: file.filename,
+    client: parsed.clientName,
+    interviewDate: parsed.interviewDate,
+    project: parsed.project,
+    score: parsed.score || meta.score,
+    overview: "",
+    sections: [],
+    fullTranscript: parsed.fullTranscript,
+    rawText: parsed.rawText,
+    format: parsed.format,
+  });
+
+  metadata.hasTranscript = true;
+  metadata.transcriptFile = `transcripts/${metadata.id}.json`;
+  metadata.transcriptCode = meta.transcriptCode;
+  metadata.originalTranscriptFile = `originals/${file.filename}`;
+  return previous;
+}
+
+/** Build a new interview entry from a pair; the report's filename and content win. */
+function newInterviewMetadata(index: MetadataIndex, pair: PairedFiles): InterviewMetadata {
+  const id = getNextInterviewId(index);
+  const meta = pair.report?.meta ?? pair.transcript!.meta;
+  const client = pair.report?.parsed.client || pair.transcript?.parsed.clientName || "Unknown";
+  const company = pair.report?.parsed.company || pair.transcript?.parsed.company || "Unknown";
+  const interviewDate =
+    pair.report?.parsed.interviewDate ||
+    pair.transcript?.parsed.interviewDate ||
+    `${meta.monthYear}-01`;
+  const now = new Date().toISOString();
+
+  return {
+    id,
+    interviewId: parseInt(id.replace("t-", ""), 10),
+    client,
+    company,
+    interviewDate,
+    score: meta.score,
+    npsCategory: getNPSCategory(meta.score),
+    region: meta.region,
+    solution: meta.solution,
+    accountType: meta.accountType,
+    monthYear: meta.monthYear,
+    hasTranscript: false,
+    hasReport: false,
+    transcriptFile: "",
+    reportFile: null,
+    originalPdfFile: null,
+    originalTranscriptFile: null,
+    originalReportFile: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Parse one file by its name; returns the pairing number or a per-file result to report. */
+async function parseFile(
+  file: BulkImportFile,
+  taxonomy: Taxonomy
+): Promise<
+  | { num: number; report: ParsedReportFile }
+  | { num: number; transcript: ParsedTranscriptFile }
+  | { result: BulkImportFileResult }
+> {
+  const match = file.name.match(CODED_FILENAME);
+  if (!match) {
+    return {
+      result: result(file.name, "skipped", "Filename does not follow the T{n}_NPS… / R{n}_NPS… convention"),
+    };
+  }
+
+  const [, prefix, numStr] = match;
+  const code = `${prefix}${numStr}`;
+  const kind = prefix === "R" ? "report" : "transcript";
+  const isDocx = isDocxFilename(file.name);
+
+  if (
+    !DOCUMENT_EXTENSION.test(file.name) &&
+    !(kind === "transcript" && TRANSCRIPT_EXPORT_EXTENSION.test(file.name))
+  ) {
+    return {
+      result: result(
+        file.name,
+        "skipped",
+        kind === "report"
+          ? "Reports must be .pdf or .docx"
+          : "Transcripts must be .pdf, .docx, .vtt, .srt or .txt",
+        { kind, code }
+      ),
+    };
+  }
+
+  try {
+    // pdf-parse transfers (detaches) the buffer it is given; keep file.data for originals/
+    const buffer = Buffer.from(file.data);
+    if (kind === "report") {
+      const meta = parseFilenameMetadata(file.name, taxonomy);
+      const invalid = validateFilenameMetadata(meta);
+      if (invalid) return { result: result(file.name, "error", invalid, { kind, code }) };
+      const parsed = isDocx ? await parseDocxBuffer(buffer) : await parsePdfBuffer(buffer);
+      return { num: parseInt(numStr, 10), report: { filename: file.name, data: file.data, meta, parsed } };
+    }
+
+    const meta = parseTranscriptFilename(file.name, taxonomy);
+    const invalid = validateFilenameMetadata(meta);
+    if (invalid) return { result: result(file.name, "error", invalid, { kind, code }) };
+    const parsed = isDocx
+      ? await parseTranscriptDocxBuffer(buffer, file.name)
+      : DOCUMENT_EXTENSION.test(file.name)
+        ? await parseTranscriptPdfBuffer(buffer)
+        : parseTranscriptText(buffer.toString("utf-8"), file.name);
+    return {
+      num: parseInt(numStr, 10),
+      transcript: { filename: file.name, data: file.data, meta, parsed },
+    };
+  } catch (error) {
+    if (error instanceof UnknownTaxonomyValueError) {
+      return { result: result(file.name, "error", error.message, { kind, code }) };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { result: result(file.name, "error", `Could not parse file: ${message}`, { kind, code }) };
+  }
+}
+
+/**
+ * Import a batch of files (ZIPs are expanded first). Returns one result per file, in
+ * the order received. Files already present on a matched interview are skipped unless
+ * `overwrite` is set.
+ */
+export async function runBulkImport(
+  input: BulkImportFile[],
+  options: BulkImportOptions & { expectedVersion?: number } = {}
+): Promise<BulkImportFileResult[]> {
+  // One row per file in the order received; rows of paired files are filled in below
+  const rows: BulkImportFileResult[] = [];
+  const pendingRows = new Map<string, number>();
+  const files: BulkImportFile[] = [];
+
+  for (const file of input) {
+    if (!isZipFilename(file.name)) {
+      files.push(file);
+      continue;
+    }
+    try {
+      files.push(...(await expandZip(file.data)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      rows.push(result(file.name, "error", `Could not read ZIP archive: ${message}`));
+    }
+  }
+
+  // --- Parse every file and pair them by number ---
+  const taxonomy = await readTaxonomy();
+  const seen = new Set<string>();
+  const pairs = new Map<number, PairedFiles>();
+  for (const file of files) {
+    if (seen.has(file.name)) {
+      // originals/ is flat, so a second file with the same name cannot be stored
+      rows.push(result(file.name, "error", "Duplicate filename in this batch"));
+      continue;
+    }
+    seen.add(file.name);
+
+    const parsed = await parseFile(file, taxonomy);
+    if ("result" in parsed) {
+      rows.push(parsed.result);
+      continue;
+    }
+
+    const pair = pairs.get(parsed.num) ?? {};
+    const slot = "report" in parsed ? "report" : "transcript";
+    if (pair[slot]) {
+      rows.push(
+        result(file.name, "error", `Another ${slot} for number ${parsed.num} is already in this batch`, {
+          kind: slot,
+          code: `${slot === "report" ? "R" : "T"}${parsed.num}`,
+        })
+      );
+      continue;
+    }
+    if ("report" in parsed) pair.report = parsed.report;
+    else pair.transcript = parsed.transcript;
+    pairs.set(parsed.num, pair);
+    pendingRows.set(file.name, rows.length);
+    rows.push(result(file.name, "skipped", "Not processed"));
+  }
+
+  // --- Apply all pairs under one index lock ---
+  if (pairs.size > 0) {
+    const { applied: outcomes, orphaned } = await updateMetadataIndex(async (index) => {
+      const applied: BulkImportFileResult[] = [];
+      const replaced: string[] = [];
+      const numbers = [...pairs.keys()].sort((a, b) => a - b);
+
+      for (const num of numbers) {
+        const pair = pairs.get(num)!;
+        const entries = [
+          pair.report && { kind: "report" as const, code: `R${num}`, file: pair.report },
+          pair.transcript && { kind: "transcript" as const, code: `T${num}`, file: pair.transcript },
+        ].filter((e): e is NonNullable<typeof e> => !!e);
+
+        const archived = findInterviewByNumber(index.archived ?? [], num);
+        if (archived) {
+          for (const e of entries) {
+            applied.push(
+              result(e.file.filename, "skipped", `Matches archived interview ${archived.id}; restore it first`, {
+                kind: e.kind,
+                code: e.code,
+                interviewId: archived.id,
+              })
+            );
+          }
+          continue;
+        }
+
+        const existing = findInterviewByNumber(index.interviews, num);
+        const metadata = existing ?? newInterviewMetadata(index, pair);
+        let changed = false;
+
+        for (const e of entries) {
+          const already = e.kind === "report" ? metadata.hasReport : metadata.hasTranscript;
+          if (existing && already && !options.overwrite) {
+            applied.push(
+              result(e.file.filename, "skipped", `${existing.id} already has a ${e.kind}`, {
+                kind: e.kind,
+                code: e.code,
+                interviewId: existing.id,
+              })
+            );
+            continue;
+          }
+          try {
+            const previous =
+              e.kind === "report"
+                ? await applyReport(metadata, e.file as ParsedReportFile)
+                : await applyTranscript(metadata, e.file as ParsedTranscriptFile);
+            if (previous) replaced.push(previous);
+            changed = true;
+            applied.push(
+              result(
+                e.file.filename,
+                existing ? "updated" : "created",
+                existing
+                  ? `${already ? "Replaced" : "Added"} ${e.kind} on ${existing.id}`
+                  : `Created ${metadata.id} (${metadata.client}, ${metadata.company})`,
+                { kind: e.kind, code: e.code, interviewId: metadata.id }
+              )
+            );
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            applied.push(
+              result(e.file.filename, "error", `Could not store file: ${message}`, {
+                kind: e.kind,
+                code: e.code,
+              })
+            );
+          }
+        }
+
+        if (!changed) continue;
+        metadata.dataStatus = dataStatusOf(metadata);
+        metadata.updatedAt = new Date().toISOString();
+        if (!existing) index.interviews.push(metadata);
+      }
+
+      return { applied, orphaned: unreferencedOriginals(index, replaced) };
+    }, { expectedVersion: options.expectedVersion });
+
+    // Once the index no longer refers to them, replaced originals are deleted
+    for (const file of orphaned) await deleteOriginalFile(file);
+    for (const outcome of outcomes) rows[pendingRows.get(outcome.filename)!] = outcome;
+  }
+
+  return rows;
+}
+
+export function summarizeBulkImport(
+  results: BulkImportFileResult[]
+): Record<BulkImportStatus, number> {
+  const summary: Record<BulkImportStatus, number> = { created: 0, updated: 0, skipped: 0, error: 0 };
+  for (const r of results) summary[r.status]++;
+  return summary;
+}
@@ -0,0 +1,31 @@
+/**
+ * DOCX text extraction for transcripts and reports exported from Word.
+ *
+ * The extracted text is shaped like pdf-parse output (one paragraph per line) so it
+ * can go through the same parseTranscriptPdfText / parsePdfText section and turn
+ * extraction as the PDFs.
+ */
+
+export function isDocxFilename(filename: string): boolean {
+  return /\.docx$/i.test(filename);
+}
+
+/**
+ * Normalize mammoth raw text: it separates paragraphs (and table cells) with blank
+ * lines, whereas the PDF parsers expect headings and speaker lines on their own line.
+ */
+export function normalizeDocxText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\u00a0/g, " ")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+}
+
+export async function extractDocxText(buffer: Buffer | Uint8Array): Promise<string> {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ buffer: Buffer.from(buffer) });
+  // Leading newline so section markers like "\nOverview\n" also match a first line
+  return `\n${normalizeDocxText(result.value)}\n`;
+}
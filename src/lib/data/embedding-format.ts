@@ -0,0 +1,116 @@
+/**
+ * Stored form of the embedding index: a JSON manifest (model, chunk texts, dimensions) and
+ * the vectors as one little-endian Float32 block, L2-normalised so similarity is a plain
+ * dot product. Indexes written before the binary format (a chunk list with JSON number
+ * vectors) are still read, and are rewritten in the new format on the next reindex.
+ */
+
+import type { EmbeddingChunk, EmbeddingIndex, EmbeddingManifest } from "@/types";
+
+export const EMBEDDING_VECTOR_FORMAT = "float32-le-normalized" as const;
+
+/** Embedding index as stored before the binary format. */
+export interface LegacyEmbeddingIndex {
+  model: string;
+  lastUpdated: string;
+  chunking?: number;
+  chunks: (EmbeddingChunk & { embedding: number[] })[];
+}
+
+export class EmbeddingIndexFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingIndexFormatError";
+  }
+}
+
+/** Unit-length copy of `vector` into `out` at `offset` (a zero vector stays zero). */
+function writeNormalized(vector: ArrayLike<number>, out: Float32Array, offset: number): void {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+  for (let i = 0; i < vector.length; i++) out[offset + i] = vector[i] * scale;
+}
+
+/** Rows of equal length as one normalised Float32 block. */
+export function packVectors(rows: ArrayLike<number>[], dimensions: number): Float32Array {
+  const vectors = new Float32Array(rows.length * dimensions);
+  rows.forEach((row, i) => {
+    if (row.length !== dimensions) {
+      throw new EmbeddingIndexFormatError(
+        `Embedding ${i} has ${row.length} dimensions, expected ${dimensions}.`
+      );
+    }
+    writeNormalized(row, vectors, i * dimensions);
+  });
+  return vectors;
+}
+
+export function fromLegacyIndex(legacy: LegacyEmbeddingIndex): EmbeddingIndex {
+  const dimensions = legacy.chunks[0]?.embedding.length ?? 0;
+  return {
+    model: legacy.model,
+    lastUpdated: legacy.lastUpdated,
+    chunking: legacy.chunking,
+    dimensions,
+    chunks: legacy.chunks.map((c) => ({
+      id: c.id,
+      interviewId: c.interviewId,
+      source: c.source,
+      sectionType: c.sectionType,
+      text: c.text,
+      turnStart: c.turnStart,
+      turnEnd: c.turnEnd,
+    })),
+    vectors: packVectors(
+      legacy.chunks.map((c) => c.embedding),
+      dimensions
+    ),
+  };
+}
+
+export function toManifest(index: EmbeddingIndex): EmbeddingManifest {
+  return {
+    format: EMBEDDING_VECTOR_FORMAT,
+    model: index.model,
+    lastUpdated: index.lastUpdated,
+    chunking: index.chunking,
+    dimensions: index.dimensions,
+    chunks: index.chunks,
+  };
+}
+
+/** Bytes of the vector block (little-endian on every platform). */
+export function encodeVectors(vectors: Float32Array): Uint8Array {
+  const bytes = new Uint8Array(vectors.length * 4);
+  const view = new DataView(bytes.buffer);
+  vectors.forEach((v, i) => view.setFloat32(i * 4, v, true));
+  return bytes;
+}
+
+/** The index from its manifest and vector bytes; throws if they do not belong together. */
+export function decodeEmbeddingIndex(
+  manifest: EmbeddingManifest,
+  bytes: Uint8Array
+): EmbeddingIndex {
+  if (manifest.format !== EMBEDDING_VECTOR_FORMAT) {
+    throw new EmbeddingIndexFormatError(`Unknown embedding vector format "${manifest.format}".`);
+  }
+  const expected = manifest.chunks.length * manifest.dimensions * 4;
+  if (bytes.byteLength !== expected) {
+    throw new EmbeddingIndexFormatError(
+      `Embedding vectors are ${bytes.byteLength} bytes; the manifest needs ${expected}.`
+    );
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const vectors = new Float32Array(expected / 4);
+  for (let i = 0; i < vectors.length; i++) vectors[i] = view.getFloat32(i * 4, true);
+  return {
+    model: manifest.model,
+    lastUpdated: manifest.lastUpdated,
+    chunking: manifest.chunking,
+    dimensions: manifest.dimensions,
+    chunks: manifest.chunks,
+    vectors,
+  };
+}
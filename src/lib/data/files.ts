@@ -0,0 +1,82 @@
+/**
+ * Data root resolution and JSON file helpers, shared by the store and the
+ * filesystem storage backend.
+ */
+
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+
+const fsPromises = fs.promises;
+
+/** Once we find a root that returns interviews, lock to it so all reads use the same path. */
+let lockedDataRoot: string | null = null;
+
+export function lockDataRoot(root: string): void {
+  lockedDataRoot = root;
+}
+
+/** Resolved on every call so cwd/env are current. Use KFCX_DATA_ROOT from .env.local if set. */
+export function getDataRoot(): string {
+  if (lockedDataRoot) return lockedDataRoot;
+  const root = process.env.KFCX_DATA_ROOT?.trim();
+  if (root) return path.isAbsolute(root) ? root : path.resolve(process.cwd(), root);
+  return path.join(process.cwd(), "data", "store");
+}
+
+export function resolvePath(...segments: string[]): string {
+  return path.join(getDataRoot(), ...segments);
+}
+
+/** All candidate data roots to try (hypotheses). */
+export function getCandidateDataRoots(): string[] {
+  const cwd = process.cwd();
+  const envRoot = process.env.KFCX_DATA_ROOT?.trim();
+  const candidates = [
+    path.resolve(cwd, "data", "store"),
+    path.resolve(cwd, "..", "data", "store"),
+    path.resolve(cwd, "..", "kfcx", "data", "store"),
+    path.resolve(cwd, "kfcx", "data", "store"),
+  ];
+  if (envRoot) {
+    const abs = path.isAbsolute(envRoot) ? envRoot : path.resolve(cwd, envRoot);
+    candidates.unshift(abs);
+  }
+  return [...new Set(candidates)];
+}
+
+export async function ensureDir(dirPath: string): Promise<void> {
+  await fsPromises.mkdir(dirPath, { recursive: true });
+}
+
+export async function readJSON<T>(filePath: string): Promise<T | null> {
+  try {
+    const content = await fsPromises.readFile(filePath, "utf-8");
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write to a temp file in the same directory and rename it over the target, so
+ * readers (and a crash mid-write) never see a truncated file.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string | Uint8Array
+): Promise<void> {
+  await ensureDir(path.dirname(filePath));
+  const tmpPath = `${filePath}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await fsPromises.writeFile(tmpPath, data);
+    await fsPromises.rename(tmpPath, filePath);
+  } catch (error) {
+    await fsPromises.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+export async function writeJSON<T>(filePath: string, data: T): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
@@ -0,0 +1,194 @@
+/**
+ * Editing, archiving (soft delete) and purging interviews in the metadata index.
+ *
+ * Archived interviews move from `index.interviews` to `index.archived`, so every list,
+ * stat and reindex step stops seeing them while their transcript and report are kept
+ * for restore. Purging removes the interview and its stored documents for good;
+ * derived artifacts are cleaned up by purgeInterviewArtifacts in the pipeline.
+ */
+
+import {
+  readMetadataIndex,
+  updateMetadataIndex,
+  deleteTranscript,
+  deleteReport,
+  deleteOriginalFile,
+} from "@/lib/data/store";
+import { requireTaxonomyValue, UnknownTaxonomyValueError } from "@/lib/data/taxonomy";
+import { getNPSCategory } from "@/lib/utils/nps";
+import { getMonthYear } from "@/lib/utils/dates";
+import type { InterviewMetadata, Taxonomy } from "@/types";
+
+/** Metadata fields that can be edited; npsCategory and monthYear are derived. */
+export type InterviewUpdate = Partial<
+  Pick<
+    InterviewMetadata,
+    "client" | "company" | "interviewDate" | "score" | "region" | "solution" | "accountType"
+  >
+>;
+
+/**
+ * Validate a PATCH body. Region, solution and account type must be in the taxonomy.
+ * Returns the update or an error message.
+ */
+export function parseInterviewUpdate(
+  body: Record<string, unknown>,
+  taxonomy: Taxonomy
+): { update: InterviewUpdate } | { error: string } {
+  const update: InterviewUpdate = {};
+
+  for (const key of ["client", "company", "accountType"] as const) {
+    if (body[key] === undefined) continue;
+    const value = body[key];
+    if (typeof value !== "string" || !value.trim()) {
+      return { error: `${key} must be a non-empty string.` };
+    }
+    update[key] = value.trim();
+  }
+
+  if (body.interviewDate !== undefined) {
+    const value = body.interviewDate;
+    if (
+      typeof value !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}/.test(value) ||
+      isNaN(Date.parse(value))
+    ) {
+      return { error: "interviewDate must be an ISO date (YYYY-MM-DD)." };
+    }
+    update.interviewDate = value;
+  }
+
+  if (body.score !== undefined) {
+    const score = Number(body.score);
+    if (!Number.isInteger(score) || score < 0 || score > 10) {
+      return { error: "Score must be a number between 0 and 10." };
+    }
+    update.score = score;
+  }
+
+  try {
+    if (body.region !== undefined) {
+      update.region = requireTaxonomyValue(taxonomy, "regions", String(body.region));
+    }
+    if (body.solution !== undefined) {
+      update.solution = requireTaxonomyValue(taxonomy, "solutions", String(body.solution));
+    }
+    if (update.accountType !== undefined) {
+      update.accountType = requireTaxonomyValue(taxonomy, "accountTypes", update.accountType);
+    }
+  } catch (error) {
+    if (error instanceof UnknownTaxonomyValueError) return { error: error.message };
+    throw error;
+  }
+
+  return { update };
+}
+
+/** Find an interview whether active or archived, with the index version it was read at. */
+export async function findInterview(
+  id: string
+): Promise<{ metadata: InterviewMetadata; archived: boolean; version: number } | null> {
+  const index = await readMetadataIndex();
+  const active = index.interviews.find((i) => i.id === id);
+  if (active) return { metadata: active, archived: false, version: index.version };
+  const archived = index.archived?.find((i) => i.id === id);
+  if (archived) return { metadata: archived, archived: true, version: index.version };
+  return null;
+}
+
+/**
+ * Apply a metadata edit, recomputing npsCategory and monthYear. Archived interviews can
+ * be edited too. Returns null if the interview does not exist.
+ */
+export async function updateInterview(
+  id: string,
+  update: InterviewUpdate,
+  options: { expectedVersion?: number } = {}
+): Promise<InterviewMetadata | null> {
+  return updateMetadataIndex((index) => {
+    const metadata =
+      index.interviews.find((i) => i.id === id) ?? index.archived?.find((i) => i.id === id);
+    if (!metadata) return null;
+
+    Object.assign(metadata, update);
+    metadata.npsCategory = getNPSCategory(metadata.score);
+    metadata.monthYear = getMonthYear(metadata.interviewDate);
+    metadata.updatedAt = new Date().toISOString();
+    return metadata;
+  }, options);
+}
+
+/** Soft delete: move the interview to `index.archived`. Returns null if it is not active. */
+export async function archiveInterview(
+  id: string,
+  options: { expectedVersion?: number } = {}
+): Promise<InterviewMetadata | null> {
+  return updateMetadataIndex((index) => {
+    const position = index.interviews.findIndex((i) => i.id === id);
+    if (position === -1) return null;
+
+    const [metadata] = index.interviews.splice(position, 1);
+    const now = new Date().toISOString();
+    metadata.archivedAt = now;
+    metadata.updatedAt = now;
+    index.archived = [...(index.archived ?? []), metadata];
+    return metadata;
+  }, options);
+}
+
+/** Undo archiveInterview. Returns null if the interview is not archived. */
+export async function restoreInterview(
+  id: string,
+  options: { expectedVersion?: number } = {}
+): Promise<InterviewMetadata | null> {
+  return updateMetadataIndex((index) => {
+    const position = index.archived?.findIndex((i) => i.id === id) ?? -1;
+    if (position === -1) return null;
+
+    const [metadata] = index.archived!.splice(position, 1);
+    metadata.archivedAt = null;
+    metadata.updatedAt = new Date().toISOString();
+    index.interviews.push(metadata);
+    return metadata;
+  }, options);
+}
+
+/**
+ * Hard delete: remove the interview (active or archived) from the index, then its
+ * transcript, report and original files. Originals still referenced by another
+ * interview are kept. Returns null if the interview does not exist.
+ */
+export async function purgeInterview(
+  id: string,
+  options: { expectedVersion?: number } = {}
+): Promise<{ metadata: InterviewMetadata; deletedOriginals: string[] } | null> {
+  const removed = await updateMetadataIndex((index) => {
+    const all = [...index.interviews, ...(index.archived ?? [])];
+    const metadata = all.find((i) => i.id === id);
+    if (!metadata) return null;
+
+    index.interviews = index.interviews.filter((i) => i.id !== id);
+    if (index.archived) index.archived = index.archived.filter((i) => i.id !== id);
+
+    const stillReferenced = new Set(
+      all
+        .filter((i) => i.id !== id)
+        .flatMap((i) => [i.originalPdfFile, i.originalTranscriptFile, i.originalReportFile])
+    );
+    const originals = [
+      ...new Set([
+        metadata.originalPdfFile,
+        metadata.originalTranscriptFile,
+        metadata.originalReportFile,
+      ]),
+    ].filter((f): f is string => !!f && !stillReferenced.has(f));
+    return { metadata, originals };
+  }, options);
+  if (!removed) return null;
+
+  await deleteTranscript(id);
+  await deleteReport(id);
+  for (const file of removed.originals) await deleteOriginalFile(file);
+
+  return { metadata: removed.metadata, deletedOriginals: removed.originals };
+}
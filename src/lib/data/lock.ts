@@ -0,0 +1,149 @@
+/**
+ * Cross-process advisory lock based on an exclusively-created lock file.
+ *
+ * Used around read-modify-write mutations of shared store files so that the Next.js
+ * server and CLI scripts (or several server workers) never interleave their updates.
+ * A lock whose owner process is gone, or that is older than LOCK_STALE_MS, is broken.
+ * The holder refreshes the lock file's mtime while it runs, so a long critical section
+ * is not taken for stale, and each lock carries a token so only its holder removes it.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { resolvePath } from "@/lib/data/files";
+
+const fsPromises = fs.promises;
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+const LOCK_REFRESH_MS = LOCK_STALE_MS / 3;
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  acquiredAt: string;
+  token: string;
+}
+
+export class LockTimeoutError extends Error {
+  constructor(lockPath: string) {
+    super(`Timed out waiting for lock ${path.basename(lockPath)}; another write is in progress.`);
+    this.name = "LockTimeoutError";
+  }
+}
+
+/** Whether a process on this host is running (`process.kill(pid, 0)`). */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function readLock(lockPath: string): Promise<string | null> {
+  try {
+    return await fsPromises.readFile(lockPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/** The lock file's content if the lock is stale, else null. */
+async function staleContent(lockPath: string): Promise<string | null> {
+  try {
+    const [content, stat] = await Promise.all([
+      fsPromises.readFile(lockPath, "utf-8"),
+      fsPromises.stat(lockPath),
+    ]);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) return content;
+    try {
+      const owner = JSON.parse(content) as LockOwner;
+      return owner.host === os.hostname() && !isProcessAlive(owner.pid) ? content : null;
+    } catch {
+      // Half-written lock file: only stale once it is old enough
+      return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the lock file if it still has `expected` content. The file is first renamed to a
+ * name of our own, so a lock another process takes meanwhile is never deleted: if the
+ * file moved is not the one expected, it is put back.
+ */
+async function removeLockIf(lockPath: string, expected: string): Promise<boolean> {
+  const moved = `${lockPath}.${crypto.randomUUID()}`;
+  try {
+    await fsPromises.rename(lockPath, moved);
+  } catch {
+    return false; // Already gone
+  }
+  try {
+    if ((await readLock(moved)) === expected) return true;
+    // Put it back unless a new lock was created in the meantime
+    await fsPromises.link(moved, lockPath).catch(() => {});
+    return false;
+  } finally {
+    await fsPromises.rm(moved, { force: true });
+  }
+}
+
+/** Acquire the lock; returns the lock file content that identifies this holder. */
+async function acquire(lockPath: string): Promise<string> {
+  await fsPromises.mkdir(path.dirname(lockPath), { recursive: true });
+  const owner: LockOwner = {
+    pid: process.pid,
+    host: os.hostname(),
+    acquiredAt: new Date().toISOString(),
+    token: crypto.randomUUID(),
+  };
+  const content = JSON.stringify(owner);
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await fsPromises.writeFile(lockPath, content, { flag: "wx" });
+      return content;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    const stale = await staleContent(lockPath);
+    if (stale !== null) {
+      await removeLockIf(lockPath, stale);
+      continue;
+    }
+    if (Date.now() > deadline) throw new LockTimeoutError(lockPath);
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/** Run fn while holding the lock file at lockPath. Not re-entrant. */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const content = await acquire(lockPath);
+  // Keep the mtime fresh so waiters do not break the lock of a long critical section
+  const refresh = setInterval(async () => {
+    if ((await readLock(lockPath)) !== content) return;
+    const now = new Date();
+    await fsPromises.utimes(lockPath, now, now).catch(() => {});
+  }, LOCK_REFRESH_MS);
+  refresh.unref();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(refresh);
+    await removeLockIf(lockPath, content);
+  }
+}
+
+/** Named lock under {dataRoot}/.locks/, e.g. withStoreLock("index", ...). */
+export async function withStoreLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  return withFileLock(resolvePath(".locks", `${name}.lock`), fn);
+}
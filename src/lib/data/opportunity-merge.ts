@@ -0,0 +1,186 @@
+/**
+ * Opportunity identity and merge logic.
+ *
+ * Opportunities are regenerated by the LLM on every reindex. To keep status
+ * changes, notes and history made through the UI, each opportunity gets a
+ * stable id derived from its source interview plus a content fingerprint, and
+ * freshly generated output is merged into the existing records.
+ */
+
+import crypto from "crypto";
+import type { Opportunity, OpportunityStatus } from "@/types";
+
+export type GeneratedOpportunity = Omit<Opportunity, "id">;
+
+/** Statuses a user can set through the API ("superseded" is set by reindex only). */
+export const USER_OPPORTUNITY_STATUSES: OpportunityStatus[] = [
+  "identified",
+  "in_progress",
+  "actioned",
+];
+
+/** Minimum title token overlap (Jaccard) to treat a reworded opportunity as the same one. */
+const TITLE_SIMILARITY_THRESHOLD = 0.5;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "for", "from", "in", "into", "of", "on", "or", "the", "to", "with",
+]);
+
+function titleTokens(title: string): string[] {
+  const words = title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length >= 2 && !STOPWORDS.has(w));
+  return Array.from(new Set(words)).sort();
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const setB = new Set(b);
+  const intersection = a.filter((t) => setB.has(t)).length;
+  const union = new Set([...a, ...b]).size;
+  return union === 0 ? 0 : intersection / union;
+}
+
+/**
+ * Content fingerprint: source interview + type + order-insensitive title tokens.
+ * Small rewordings (word order, punctuation, stopwords) produce the same fingerprint.
+ */
+export function opportunityFingerprint(
+  opp: Pick<Opportunity, "sourceInterviewId" | "type" | "title">
+): string {
+  const basis = [opp.sourceInterviewId, opp.type, titleTokens(opp.title).join(" ")].join("|");
+  return crypto.createHash("sha1").update(basis).digest("hex").slice(0, 12);
+}
+
+/** Stable id: "opp-t-006-1a2b3c4d". */
+export function opportunityIdFor(sourceInterviewId: string, fingerprint: string): string {
+  return `opp-${sourceInterviewId}-${fingerprint.slice(0, 8)}`;
+}
+
+/** Last status a user set before the opportunity was superseded. */
+function statusBeforeSuperseded(opp: Opportunity): OpportunityStatus {
+  const history = opp.history ?? [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].event === "superseded") return history[i].from ?? "identified";
+  }
+  return "identified";
+}
+
+function findMatch<T extends Opportunity>(
+  candidates: T[],
+  generated: GeneratedOpportunity,
+  fingerprint: string
+): T | undefined {
+  const exact = candidates.find(
+    (c) => (c.fingerprint ?? opportunityFingerprint(c)) === fingerprint
+  );
+  if (exact) return exact;
+
+  const tokens = titleTokens(generated.title);
+  let best: T | undefined;
+  let bestScore = 0;
+  for (const c of candidates) {
+    if (c.type !== generated.type) continue;
+    const score = jaccard(tokens, titleTokens(c.title));
+    if (score >= TITLE_SIMILARITY_THRESHOLD && score > bestScore) {
+      best = c;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Merge freshly generated opportunities into the existing set.
+ *
+ * - Matched records keep their id, status, notes, history and first-seen date;
+ *   content fields (title, description, urgency, quote, action) are refreshed.
+ * - Previously superseded records that reappear are reinstated to their last user status.
+ * - Existing records with no match in the new output are flagged "superseded", not dropped.
+ * - Unmatched generated items become new records with a fingerprint-based id.
+ *
+ * When `interviewIds` is given, only existing records from those interviews are
+ * considered for superseding (used when only some interviews were re-analysed).
+ */
+export function mergeOpportunities(
+  existing: Opportunity[],
+  generated: GeneratedOpportunity[],
+  options: { now?: string; interviewIds?: string[] } = {}
+): Opportunity[] {
+  const now = options.now ?? new Date().toISOString();
+  const scope = options.interviewIds ? new Set(options.interviewIds) : null;
+  const inScope = (opp: Opportunity) => !scope || scope.has(opp.sourceInterviewId);
+
+  const merged = existing.map((opp) => ({ ...opp, history: [...(opp.history ?? [])] }));
+  const usedIds = new Set(merged.map((o) => o.id));
+  const matchedIds = new Set<string>();
+
+  const byInterview = new Map<string, typeof merged>();
+  for (const opp of merged) {
+    if (!inScope(opp)) continue;
+    const list = byInterview.get(opp.sourceInterviewId) ?? [];
+    list.push(opp);
+    byInterview.set(opp.sourceInterviewId, list);
+  }
+
+  for (const gen of generated) {
+    const fingerprint = opportunityFingerprint(gen);
+    const candidates = (byInterview.get(gen.sourceInterviewId) ?? []).filter(
+      (c) => !matchedIds.has(c.id)
+    );
+    const match = findMatch(candidates, gen, fingerprint);
+
+    if (match) {
+      matchedIds.add(match.id);
+      const contentChanged =
+        match.title !== gen.title ||
+        match.description !== gen.description ||
+        match.urgency !== gen.urgency ||
+        match.suggestedAction !== gen.suggestedAction;
+      match.title = gen.title;
+      match.description = gen.description;
+      match.urgency = gen.urgency;
+      match.client = gen.client;
+      match.company = gen.company;
+      match.supportingQuote = gen.supportingQuote;
+      match.suggestedAction = gen.suggestedAction;
+      match.fingerprint = match.fingerprint ?? fingerprint;
+      match.firstIdentifiedAt = match.firstIdentifiedAt ?? now;
+      match.lastSeenAt = now;
+      if (match.status === "superseded") {
+        match.status = statusBeforeSuperseded(match);
+        match.history.push({ at: now, event: "reinstated", status: match.status, from: "superseded" });
+      } else if (contentChanged) {
+        match.history.push({ at: now, event: "refreshed" });
+      }
+      continue;
+    }
+
+    let id = opportunityIdFor(gen.sourceInterviewId, fingerprint);
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${opportunityIdFor(gen.sourceInterviewId, fingerprint)}-${n}`;
+    }
+    usedIds.add(id);
+    matchedIds.add(id);
+    merged.push({
+      ...gen,
+      id,
+      status: "identified",
+      fingerprint,
+      firstIdentifiedAt: now,
+      lastSeenAt: now,
+      history: [{ at: now, event: "identified", status: "identified" }],
+    });
+  }
+
+  for (const opp of merged) {
+    if (matchedIds.has(opp.id) || !inScope(opp) || opp.status === "superseded") continue;
+    opp.history.push({ at: now, event: "superseded", status: "superseded", from: opp.status });
+    opp.status = "superseded";
+    opp.fingerprint = opp.fingerprint ?? opportunityFingerprint(opp);
+  }
+
+  return merged;
+}
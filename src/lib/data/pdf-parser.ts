@@ -5,7 +5,9 @@
  * All 43 production PDF reports follow a consistent format.
  */
 
-import type { Region, Solution } from "@/types";
+import { extractDocxText } from "@/lib/data/docx-parser";
+import { DEFAULT_TAXONOMY, parseCodedFilename } from "@/lib/data/taxonomy";
+import type { Region, Solution, Taxonomy } from "@/types";
 
 // --- Filename Parsing ---
 
@@ -18,75 +20,16 @@ export interface FilenameMetadata {
   monthYear: string; // "2025-09"
 }
 
-const MONTH_MAP: Record<string, string> = {
-  JAN: "01",
-  FEB: "02",
-  MAR: "03",
-  APR: "04",
-  MAY: "05",
-  JUN: "06",
-  JUL: "07",
-  AUG: "08",
-  SEP: "09",
-  OCT: "10",
-  NOV: "11",
-  DEC: "12",
-};
-
-const SOLUTION_MAP: Record<string, Solution> = {
-  ES: "Executive Search",
-  PS: "Professional Search",
-  CONSULTING: "Consulting",
-};
-
-const ACCOUNT_TYPE_MAP: Record<string, string> = {
-  HOUSE: "House",
-  DIAMOND: "Diamond",
-  MARQUEE: "Marquee",
-  REGIONAL: "Regional",
-};
-
-export function parseFilenameMetadata(filename: string): FilenameMetadata {
-  // Pattern: R{ID}_NPS{Score}_{Region}_{Solution}_{AccountType}_{MonthYear}.pdf
-  // Example: R1_NPS6_EMEA_ES_HOUSE_SEP25.pdf
-  // Example: R20_NPS10_EMEA_CONSULTING_REGIONAL_OCT25.pdf
-  const basename = filename.replace(/\.pdf$/i, "");
-  const parts = basename.split("_");
-
-  // First part is always R{ID}
-  const reportCode = parts[0]; // "R1", "R20", etc.
-
-  // Second part is always NPS{Score}
-  const scoreStr = parts[1].replace(/^NPS/, "");
-  const score = parseInt(scoreStr, 10);
-
-  // Third part is always Region
-  const region = parts[2] as Region;
-
-  // Fourth part is Solution (ES, PS, or CONSULTING)
-  const solutionKey = parts[3];
-  const solution = SOLUTION_MAP[solutionKey] || solutionKey;
-
-  // Fifth part is Account Type
-  const accountTypeKey = parts[4];
-  const accountType = ACCOUNT_TYPE_MAP[accountTypeKey] || accountTypeKey;
-
-  // Sixth part is MonthYear (e.g., SEP25, OCT25, JAN26)
-  const monthYearRaw = parts[5]; // "SEP25"
-  const monthCode = monthYearRaw.slice(0, -2); // "SEP"
-  const yearShort = monthYearRaw.slice(-2); // "25"
-  const year = `20${yearShort}`;
-  const month = MONTH_MAP[monthCode] || "01";
-  const monthYear = `${year}-${month}`;
-
-  return {
-    reportCode,
-    score,
-    region,
-    solution: solution as Solution,
-    accountType,
-    monthYear,
-  };
+/**
+ * Parse a coded report filename, e.g. R1_NPS6_EMEA_ES_HOUSE_SEP25.pdf (or .docx).
+ * Codes are resolved against the taxonomy; unknown ones throw UnknownTaxonomyValueError.
+ */
+export function parseFilenameMetadata(
+  filename: string,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): FilenameMetadata {
+  const { code, ...meta } = parseCodedFilename(filename, taxonomy);
+  return { reportCode: code, ...meta };
 }
 
 // --- PDF Text Parsing ---
@@ -402,3 +345,11 @@ export async function parsePdfBuffer(
   const result = await parser.getText();
   return parsePdfText(result.text);
 }
+
+// --- DOCX reports via mammoth ---
+
+export async function parseDocxBuffer(
+  buffer: Buffer | Uint8Array
+): Promise<ParsedPdfReport> {
+  return parsePdfText(await extractDocxText(buffer));
+}
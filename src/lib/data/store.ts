@@ -7,83 +7,75 @@ import {
   NormalizedTranscript,
   NormalizedReport,
   ThemeAnalysis,
+  ThemeSnapshotSummary,
+  ThemeCandidateCache,
+  ThemeSegmentCache,
   OpportunitiesAnalysis,
   EmbeddingIndex,
+  LexicalIndex,
+  PipelineState,
+  Job,
+  InterviewFilters,
+  InterviewListResponse,
+  StatsResponse,
+  SearchResult,
+  Taxonomy,
+  TaxonomyEntry,
+  UsageRecord,
+  ChatEvalRun,
+  ChatEvalRunSummary,
 } from "@/types";
-
-/** Once we find a root that returns interviews, lock to it so all reads use the same path. */
-let lockedDataRoot: string | null = null;
-
-/** Resolved on every call so cwd/env are current. Use KFCX_DATA_ROOT from .env.local if set. */
-export function getDataRoot(): string {
-  if (lockedDataRoot) return lockedDataRoot;
-  const root = process.env.KFCX_DATA_ROOT?.trim();
-  if (root) return path.isAbsolute(root) ? root : path.resolve(process.cwd(), root);
-  return path.join(process.cwd(), "data", "store");
-}
-
-function resolvePath(...segments: string[]): string {
-  return path.join(getDataRoot(), ...segments);
-}
-
-/** Try reading index from a candidate root (sync). Returns index if valid, null otherwise. */
-function tryReadIndexSync(root: string): MetadataIndex | null {
-  const indexPath = path.join(root, "metadata", "index.json");
-  try {
-    const content = fs.readFileSync(indexPath, "utf-8");
-    const data = JSON.parse(content) as MetadataIndex;
-    if (data && Array.isArray(data.interviews)) return data;
-  } catch {
-    // ignore
-  }
-  return null;
-}
-
-/** All candidate data roots to try (hypotheses). */
-export function getCandidateDataRoots(): string[] {
-  const cwd = process.cwd();
-  const envRoot = process.env.KFCX_DATA_ROOT?.trim();
-  const candidates = [
-    path.resolve(cwd, "data", "store"),
-    path.resolve(cwd, "..", "data", "store"),
-    path.resolve(cwd, "..", "kfcx", "data", "store"),
-    path.resolve(cwd, "kfcx", "data", "store"),
-  ];
-  if (envRoot) {
-    const abs = path.isAbsolute(envRoot) ? envRoot : path.resolve(cwd, envRoot);
-    candidates.unshift(abs);
+import { DEFAULT_TAXONOMY, orderedEntries } from "@/lib/data/taxonomy";
+import { ensureDir, readJSON, resolvePath, writeJSON } from "@/lib/data/files";
+import { withStoreLock } from "@/lib/data/lock";
+import { FsStorageBackend } from "@/lib/data/backends/fs-backend";
+import { SqliteStorageBackend } from "@/lib/data/backends/sqlite-backend";
+import type {
+  StorageBackend,
+  StorageBackendName,
+  SearchFilters,
+} from "@/lib/data/backends/types";
+
+export { getDataRoot, getCandidateDataRoots } from "@/lib/data/files";
+export { LockTimeoutError } from "@/lib/data/lock";
+
+/**
+ * Thrown when a write is based on a stale read: someone else changed the data
+ * since the caller loaded it. API routes turn this into a 409.
+ */
+export class ConcurrencyConflictError extends Error {
+  constructor(
+    readonly resource: string,
+    readonly expectedVersion: number,
+    readonly currentVersion: number
+  ) {
+    super(
+      `${resource} was modified by another request (expected version ${expectedVersion}, found ${currentVersion}). Reload and try again.`
+    );
+    this.name = "ConcurrencyConflictError";
   }
-  return [...new Set(candidates)];
 }
 
-/** Try every candidate root (sync) and return first index with interviews; lock that root. */
-function tryAllDataRoots(): MetadataIndex | null {
-  for (const root of getCandidateDataRoots()) {
-    const index = tryReadIndexSync(root);
-    if (index && index.interviews.length > 0) {
-      lockedDataRoot = root;
-      return index;
-    }
-  }
-  return null;
-}
+// --- Storage Backend ---
 
-async function ensureDir(dirPath: string): Promise<void> {
-  await fsPromises.mkdir(dirPath, { recursive: true });
-}
+/** Stored on globalThis so dev-mode module reloads share one backend (and SQLite handle). */
+const globalForStore = globalThis as unknown as {
+  kfcxStorageBackend?: StorageBackend;
+  kfcxEmbeddingCache?: { backend: StorageBackend; version: string; index: EmbeddingIndex };
+};
 
-async function readJSON<T>(filePath: string): Promise<T | null> {
-  try {
-    const content = await fsPromises.readFile(filePath, "utf-8");
-    return JSON.parse(content) as T;
-  } catch {
-    return null;
-  }
+export function getStorageBackendName(): StorageBackendName {
+  return process.env.KFCX_STORAGE?.trim().toLowerCase() === "sqlite" ? "sqlite" : "fs";
 }
 
-async function writeJSON<T>(filePath: string, data: T): Promise<void> {
-  await ensureDir(path.dirname(filePath));
-  await fsPromises.writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+/** Backend selected by KFCX_STORAGE ("fs", the default, or "sqlite"). */
+export function getStorageBackend(): StorageBackend {
+  const name = getStorageBackendName();
+  if (globalForStore.kfcxStorageBackend?.name !== name) {
+    globalForStore.kfcxStorageBackend =
+      name === "sqlite" ? new SqliteStorageBackend() : new FsStorageBackend();
+  }
+  return globalForStore.kfcxStorageBackend;
 }
 
 // --- Metadata Index ---
@@ -95,22 +87,96 @@ const EMPTY_INDEX: MetadataIndex = {
 };
 
 export async function readMetadataIndex(): Promise<MetadataIndex> {
-  // Test all hypotheses: try every candidate root (sync) until one returns interviews
-  const fromCandidates = tryAllDataRoots();
-  if (fromCandidates) return fromCandidates;
-
-  // Fallback: async read from getDataRoot() path
-  const root = getDataRoot();
-  const filePath = path.join(root, "metadata", "index.json");
-  const data = await readJSON<MetadataIndex>(filePath);
-  if (data?.interviews?.length) lockedDataRoot = root;
-  return data?.interviews ? data : EMPTY_INDEX;
+  return (await getStorageBackend().readMetadataIndex()) ?? EMPTY_INDEX;
 }
 
+/**
+ * Write a full index that was previously read with readMetadataIndex(). Fails with
+ * ConcurrencyConflictError if the stored index changed in the meantime (different
+ * version or lastUpdated); prefer updateMetadataIndex for read-modify-write.
+ */
 export async function writeMetadataIndex(index: MetadataIndex): Promise<void> {
-  const filePath = resolvePath("metadata", "index.json");
+  await withStoreLock("index", async () => {
+    const current = await getStorageBackend().readMetadataIndex();
+    if (
+      current &&
+      (current.version !== index.version || current.lastUpdated !== index.lastUpdated)
+    ) {
+      throw new ConcurrencyConflictError("Metadata index", index.version, current.version);
+    }
+    await commitMetadataIndex(index, current);
+  });
+}
+
+/**
+ * Read-modify-write the index under the store lock, so concurrent callers (including
+ * other processes) see each other's changes. Pass expectedVersion to reject the
+ * update if the index moved on since the client last saw it.
+ */
+export async function updateMetadataIndex<T>(
+  mutate: (index: MetadataIndex) => T | Promise<T>,
+  options: { expectedVersion?: number } = {}
+): Promise<T> {
+  return withStoreLock("index", async () => {
+    const current = await getStorageBackend().readMetadataIndex();
+    const index: MetadataIndex = current
+      ? structuredClone(current)
+      : { ...EMPTY_INDEX, interviews: [] };
+    if (options.expectedVersion !== undefined && options.expectedVersion !== index.version) {
+      throw new ConcurrencyConflictError("Metadata index", options.expectedVersion, index.version);
+    }
+    const result = await mutate(index);
+    await commitMetadataIndex(index, current);
+    return result;
+  });
+}
+
+/** Caller must hold the "index" lock. */
+async function commitMetadataIndex(
+  index: MetadataIndex,
+  current: MetadataIndex | null
+): Promise<void> {
+  index.version = (current?.version ?? 0) + 1;
   index.lastUpdated = new Date().toISOString();
-  await writeJSON(filePath, index);
+  await getStorageBackend().writeMetadataIndex(index);
+}
+
+// --- Interview Queries ---
+
+export async function queryInterviews(
+  filters: InterviewFilters
+): Promise<InterviewListResponse> {
+  return getStorageBackend().queryInterviews(filters);
+}
+
+/** Counts in taxonomy order, zero for unused entries, unknown values last. */
+function inTaxonomyOrder(counts: Map<string, number>, entries: TaxonomyEntry[]): [string, number][] {
+  const known = entries.map((e): [string, number] => [e.value, counts.get(e.value) ?? 0]);
+  const unknown = [...counts].filter(([value]) => !entries.some((e) => e.value === value));
+  return [...known, ...unknown];
+}
+
+/** Stats with the region and solution breakdowns following the taxonomy. */
+export async function getInterviewStats(): Promise<StatsResponse> {
+  const [stats, taxonomy] = await Promise.all([getStorageBackend().getStats(), readTaxonomy()]);
+  const regions = new Map(stats.byRegion.map((r) => [r.region, r.count]));
+  const solutions = new Map(stats.bySolution.map((r) => [r.solution, r.count]));
+  return {
+    ...stats,
+    byRegion: inTaxonomyOrder(regions, orderedEntries(taxonomy, "regions")).map(
+      ([region, count]) => ({ region, count })
+    ),
+    bySolution: inTaxonomyOrder(solutions, orderedEntries(taxonomy, "solutions")).map(
+      ([solution, count]) => ({ solution, count })
+    ),
+  };
+}
+
+export async function searchContent(
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
+  return getStorageBackend().searchContent(query, filters);
 }
 
 // --- Transcripts ---
@@ -118,71 +184,330 @@ export async function writeMetadataIndex(index: MetadataIndex): Promise<void> {
 export async function readTranscript(
   id: string
 ): Promise<NormalizedTranscript | null> {
-  const filePath = resolvePath("transcripts", `${id}.json`);
-  return readJSON<NormalizedTranscript>(filePath);
+  return getStorageBackend().readTranscript(id);
 }
 
 export async function writeTranscript(
   id: string,
   data: NormalizedTranscript
 ): Promise<void> {
-  const filePath = resolvePath("transcripts", `${id}.json`);
-  await writeJSON(filePath, data);
+  await getStorageBackend().writeTranscript(id, data);
+}
+
+export async function deleteTranscript(id: string): Promise<void> {
+  await getStorageBackend().deleteTranscript(id);
 }
 
 // --- Reports ---
 
 export async function readReport(id: string): Promise<NormalizedReport | null> {
-  const filePath = resolvePath("reports", `${id}.json`);
-  return readJSON<NormalizedReport>(filePath);
+  return getStorageBackend().readReport(id);
 }
 
 export async function writeReport(
   id: string,
   data: NormalizedReport
 ): Promise<void> {
-  const filePath = resolvePath("reports", `${id}.json`);
-  await writeJSON(filePath, data);
+  await getStorageBackend().writeReport(id, data);
+}
+
+export async function deleteReport(id: string): Promise<void> {
+  await getStorageBackend().deleteReport(id);
 }
 
 // --- Theme Analysis ---
 
 export async function readThemeAnalysis(): Promise<ThemeAnalysis | null> {
-  const filePath = resolvePath("metadata", "themes.json");
-  return readJSON<ThemeAnalysis>(filePath);
+  return getStorageBackend().readThemeAnalysis();
 }
 
 export async function writeThemeAnalysis(data: ThemeAnalysis): Promise<void> {
-  const filePath = resolvePath("metadata", "themes.json");
-  await writeJSON(filePath, data);
+  await getStorageBackend().writeThemeAnalysis(data);
+}
+
+/** Snapshot id for an analysis: its lastGenerated, filename-safe ("2026-02-09T10-55-39-794Z"). */
+export function themeSnapshotId(analysis: ThemeAnalysis): string {
+  return analysis.lastGenerated.replace(/[:.]/g, "-");
+}
+
+const SNAPSHOT_ID_PATTERN = /^[0-9A-Za-z-]+$/;
+
+/** Keep a dated copy of an analysis before it is replaced. Returns the snapshot id. */
+export async function writeThemeSnapshot(analysis: ThemeAnalysis): Promise<string> {
+  const id = themeSnapshotId(analysis);
+  await getStorageBackend().writeThemeSnapshot(id, analysis);
+  return id;
+}
+
+export async function readThemeSnapshot(id: string): Promise<ThemeAnalysis | null> {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) return null;
+  return getStorageBackend().readThemeSnapshot(id);
+}
+
+/** Snapshots, oldest first. */
+export async function listThemeSnapshots(): Promise<ThemeSnapshotSummary[]> {
+  const backend = getStorageBackend();
+  const summaries: ThemeSnapshotSummary[] = [];
+  for (const id of await backend.listThemeSnapshotIds()) {
+    const snapshot = await backend.readThemeSnapshot(id);
+    if (!snapshot) continue;
+    summaries.push({
+      id,
+      generatedAt: snapshot.lastGenerated,
+      themeCount: [
+        snapshot.whyClientsChoose,
+        snapshot.promoterExperience,
+        snapshot.whereFallsShort,
+        ...(snapshot.additionalThemes ?? []),
+      ].reduce((sum, g) => sum + g.themes.length, 0),
+      interviewCount: snapshot.generatedFrom.length,
+    });
+  }
+  return summaries.sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+}
+
+export async function readThemeCandidates(): Promise<ThemeCandidateCache | null> {
+  return getStorageBackend().readThemeCandidates();
+}
+
+export async function writeThemeCandidates(data: ThemeCandidateCache): Promise<void> {
+  await getStorageBackend().writeThemeCandidates(data);
+}
+
+/**
+ * Read-modify-write the candidate cache under the store lock, so a global regeneration
+ * and a segment request extracting at the same time do not drop each other's entries.
+ */
+export async function updateThemeCandidates(
+  mutate: (current: ThemeCandidateCache) => void | Promise<void>
+): Promise<ThemeCandidateCache> {
+  return withStoreLock("theme-candidates", async () => {
+    const next = (await getStorageBackend().readThemeCandidates()) ?? {
+      lastUpdated: "",
+      interviews: {},
+    };
+    await mutate(next);
+    next.lastUpdated = new Date().toISOString();
+    await getStorageBackend().writeThemeCandidates(next);
+    return next;
+  });
+}
+
+export async function readThemeSegments(): Promise<ThemeSegmentCache | null> {
+  return getStorageBackend().readThemeSegments();
+}
+
+/** Read-modify-write the segment theme cache under the store lock. */
+export async function updateThemeSegments(
+  mutate: (current: ThemeSegmentCache) => void | Promise<void>
+): Promise<ThemeSegmentCache> {
+  return withStoreLock("theme-segments", async () => {
+    const next = (await getStorageBackend().readThemeSegments()) ?? {
+      lastUpdated: "",
+      segments: {},
+    };
+    await mutate(next);
+    next.lastUpdated = new Date().toISOString();
+    await getStorageBackend().writeThemeSegments(next);
+    return next;
+  });
 }
 
 // --- Opportunities ---
 
 export async function readOpportunities(): Promise<OpportunitiesAnalysis | null> {
-  const filePath = resolvePath("metadata", "opportunities.json");
-  return readJSON<OpportunitiesAnalysis>(filePath);
+  return getStorageBackend().readOpportunities();
 }
 
+/**
+ * Write opportunities previously read with readOpportunities(). Fails with
+ * ConcurrencyConflictError if they were changed in the meantime; prefer
+ * updateOpportunities for read-modify-write.
+ */
 export async function writeOpportunities(
   data: OpportunitiesAnalysis
 ): Promise<void> {
-  const filePath = resolvePath("metadata", "opportunities.json");
-  await writeJSON(filePath, data);
+  await withStoreLock("opportunities", async () => {
+    const current = await getStorageBackend().readOpportunities();
+    if (current && (current.version ?? 0) !== (data.version ?? 0)) {
+      throw new ConcurrencyConflictError("Opportunities", data.version ?? 0, current.version ?? 0);
+    }
+    data.version = (current?.version ?? 0) + 1;
+    await getStorageBackend().writeOpportunities(data);
+  });
+}
+
+/**
+ * Read-modify-write opportunities under the store lock. The mutator receives the
+ * stored data (null if none yet) and returns the data to save, or null to leave it
+ * unchanged. Resolves to the saved data (or the stored data when nothing was saved).
+ */
+export async function updateOpportunities(
+  mutate: (
+    current: OpportunitiesAnalysis | null
+  ) => OpportunitiesAnalysis | null | Promise<OpportunitiesAnalysis | null>,
+  options: { expectedVersion?: number } = {}
+): Promise<OpportunitiesAnalysis | null> {
+  return withStoreLock("opportunities", async () => {
+    const current = await getStorageBackend().readOpportunities();
+    const currentVersion = current?.version ?? 0;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+      throw new ConcurrencyConflictError("Opportunities", options.expectedVersion, currentVersion);
+    }
+    const next = await mutate(current ? structuredClone(current) : null);
+    if (!next) return current;
+    next.version = currentVersion + 1;
+    await getStorageBackend().writeOpportunities(next);
+    return next;
+  });
+}
+
+// --- Taxonomy ---
+
+/** The stored taxonomy, or DEFAULT_TAXONOMY (version 0) if none has been saved. */
+export async function readTaxonomy(): Promise<Taxonomy> {
+  return (await getStorageBackend().readTaxonomy()) ?? DEFAULT_TAXONOMY;
+}
+
+/**
+ * Read-modify-write the taxonomy under the store lock. The mutator edits a copy of the
+ * current taxonomy (the default if none is stored); expectedVersion rejects stale edits.
+ */
+export async function updateTaxonomy(
+  mutate: (taxonomy: Taxonomy) => void | Promise<void>,
+  options: { expectedVersion?: number } = {}
+): Promise<Taxonomy> {
+  return withStoreLock("taxonomy", async () => {
+    const current = (await getStorageBackend().readTaxonomy()) ?? DEFAULT_TAXONOMY;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+      throw new ConcurrencyConflictError("Taxonomy", options.expectedVersion, current.version);
+    }
+    const next = structuredClone(current);
+    await mutate(next);
+    next.version = current.version + 1;
+    next.lastUpdated = new Date().toISOString();
+    await getStorageBackend().writeTaxonomy(next);
+    return next;
+  });
 }
 
 // --- Embeddings ---
 
+/**
+ * The embedding index, kept in memory between calls and reloaded only when the stored
+ * version changes (a reindex here or in another process). Shared between callers: do
+ * not mutate it.
+ */
 export async function readEmbeddingIndex(): Promise<EmbeddingIndex | null> {
-  const filePath = resolvePath("embeddings", "index.json");
-  return readJSON<EmbeddingIndex>(filePath);
+  const backend = getStorageBackend();
+  const version = await backend.embeddingIndexVersion();
+  if (version === null) return null;
+  const cached = globalForStore.kfcxEmbeddingCache;
+  if (cached?.backend === backend && cached.version === version) return cached.index;
+
+  const index = await backend.readEmbeddingIndex();
+  globalForStore.kfcxEmbeddingCache = index ? { backend, version, index } : undefined;
+  return index;
 }
 
 export async function writeEmbeddingIndex(
   data: EmbeddingIndex
 ): Promise<void> {
-  const filePath = resolvePath("embeddings", "index.json");
-  await writeJSON(filePath, data);
+  const backend = getStorageBackend();
+  await backend.writeEmbeddingIndex(data);
+  const version = await backend.embeddingIndexVersion();
+  globalForStore.kfcxEmbeddingCache = version ? { backend, version, index: data } : undefined;
+}
+
+export async function readLexicalIndex(): Promise<LexicalIndex | null> {
+  return getStorageBackend().readLexicalIndex();
+}
+
+export async function writeLexicalIndex(data: LexicalIndex): Promise<void> {
+  await getStorageBackend().writeLexicalIndex(data);
+}
+
+// --- Reindex Pipeline State ---
+
+export async function readPipelineState(): Promise<PipelineState> {
+  const data = await getStorageBackend().readPipelineState();
+  return (
+    data ?? {
+      lastRun: null,
+      vectorStoreId: null,
+      interviews: {},
+      themes: { stale: false, staleSince: null, lastGenerated: null },
+    }
+  );
+}
+
+export async function writePipelineState(data: PipelineState): Promise<void> {
+  await getStorageBackend().writePipelineState(data);
+}
+
+// --- Background Jobs ---
+
+export async function readJob(id: string): Promise<Job | null> {
+  return getStorageBackend().readJob(id);
+}
+
+export async function writeJob(job: Job): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await getStorageBackend().writeJob(job);
+}
+
+/** All persisted jobs, newest first. */
+export async function listJobs(): Promise<Job[]> {
+  return getStorageBackend().listJobs();
+}
+
+// --- Chat Evaluation Runs ---
+
+export async function writeChatEvalRun(run: ChatEvalRun): Promise<void> {
+  await getStorageBackend().writeChatEvalRun(run);
+}
+
+export async function readChatEvalRun(id: string): Promise<ChatEvalRun | null> {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) return null;
+  return getStorageBackend().readChatEvalRun(id);
+}
+
+/** Runs without their per-question results, oldest first. */
+export async function listChatEvalRuns(): Promise<ChatEvalRunSummary[]> {
+  const backend = getStorageBackend();
+  const summaries: ChatEvalRunSummary[] = [];
+  for (const id of await backend.listChatEvalRunIds()) {
+    const run = await backend.readChatEvalRun(id);
+    if (!run) continue;
+    summaries.push({
+      id: run.id,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      evalSet: run.evalSet,
+      provider: run.provider,
+      model: run.model,
+      embeddingModel: run.embeddingModel,
+      retrievalMode: run.retrievalMode,
+      prompts: run.prompts,
+      summary: run.summary,
+    });
+  }
+  return summaries.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+// --- AI Usage Log ---
+
+export async function appendUsageRecords(records: UsageRecord[]): Promise<void> {
+  await getStorageBackend().appendUsageRecords(records);
+}
+
+/** Usage records for one month ("2026-10"), oldest first. */
+export async function readUsageRecords(month: string): Promise<UsageRecord[]> {
+  return getStorageBackend().readUsageRecords(month);
+}
+
+export async function listUsageMonths(): Promise<string[]> {
+  return getStorageBackend().listUsageMonths();
 }
 
 // --- Original PDFs ---
@@ -208,6 +533,14 @@ export async function writeOriginalPdf(
   await fsPromises.writeFile(filePath, data);
 }
 
+/** Remove an uploaded original (path relative to the data root, e.g. "originals/R1_....pdf"). */
+export async function deleteOriginalFile(relativePath: string): Promise<void> {
+  const filePath = resolvePath(relativePath);
+  // Never follow a stored path outside the originals folder
+  if (!filePath.startsWith(resolvePath("originals") + path.sep)) return;
+  await fsPromises.rm(filePath, { force: true });
+}
+
 // --- Vector Store Config (OpenAI) ---
 
 export interface VectorStoreConfig {
@@ -289,8 +622,9 @@ export async function writeVectorStoreConfig(
 
 // --- Utility ---
 
+/** Next free "t-NNN" id; archived interviews keep their ids reserved. */
 export function getNextInterviewId(index: MetadataIndex): string {
-  const maxId = index.interviews.reduce((max, item) => {
+  const maxId = [...index.interviews, ...(index.archived ?? [])].reduce((max, item) => {
     const num = parseInt(item.id.replace("t-", ""));
     return num > max ? num : max;
   }, 0);
@@ -0,0 +1,269 @@
+/**
+ * Taxonomy of regions, solutions and account types.
+ *
+ * One definition drives coded-filename parsing, metadata validation, the filter
+ * dropdowns and the stats breakdowns. It is stored with the data (metadata/taxonomy.json,
+ * or the "taxonomy" artifact in SQLite) and edited on /settings/taxonomy; until an admin
+ * saves one, DEFAULT_TAXONOMY applies. This module has no storage imports so pages and
+ * scripts can use it; reads and writes go through readTaxonomy/updateTaxonomy in the store.
+ */
+
+import type { InterviewMetadata, Taxonomy, TaxonomyEntry, TaxonomyKind } from "@/types";
+
+export const TAXONOMY_KINDS: TaxonomyKind[] = ["regions", "solutions", "accountTypes"];
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  version: 0,
+  lastUpdated: "",
+  regions: [
+    { value: "NA", code: "NA" },
+    { value: "EMEA", code: "EMEA" },
+    { value: "APAC", code: "APAC" },
+    { value: "LATAM", code: "LATAM" },
+  ],
+  solutions: [
+    { value: "Executive Search", code: "ES" },
+    { value: "Professional Search", code: "PS" },
+    { value: "Consulting", code: "CONSULTING" },
+  ],
+  accountTypes: [
+    { value: "House", code: "HOUSE" },
+    { value: "Diamond", code: "DIAMOND" },
+    { value: "Marquee", code: "MARQUEE" },
+    { value: "Regional", code: "REGIONAL" },
+  ],
+};
+
+/** Account type stored when an upload did not say; accepted alongside the taxonomy. */
+export const UNKNOWN_ACCOUNT_TYPE = "Unknown";
+
+const KIND_LABELS: Record<TaxonomyKind, string> = {
+  regions: "region",
+  solutions: "solution",
+  accountTypes: "account type",
+};
+
+/** Metadata field holding each kind's value. */
+const KIND_FIELDS: Record<TaxonomyKind, "region" | "solution" | "accountType"> = {
+  regions: "region",
+  solutions: "solution",
+  accountTypes: "accountType",
+};
+
+/** A region, solution or account type (or filename code for one) that is not in the taxonomy. */
+export class UnknownTaxonomyValueError extends Error {
+  constructor(
+    readonly kind: TaxonomyKind,
+    readonly value: string,
+    allowed: string[],
+    source = ""
+  ) {
+    super(
+      `Unknown ${KIND_LABELS[kind]} "${value}"${source ? ` in ${source}` : ""}. Must be one of: ${allowed.join(", ")}`
+    );
+    this.name = "UnknownTaxonomyValueError";
+  }
+}
+
+/** Entries in display order: each top-level entry followed by its children. */
+export function orderedEntries(taxonomy: Taxonomy, kind: TaxonomyKind): TaxonomyEntry[] {
+  const entries = taxonomy[kind];
+  const values = new Set(entries.map((e) => e.value));
+  const roots = entries.filter((e) => !e.parent || !values.has(e.parent));
+  return roots.flatMap((root) => [root, ...entries.filter((e) => e.parent === root.value)]);
+}
+
+/** Values in display order, e.g. for filter dropdowns. */
+export function taxonomyValues(taxonomy: Taxonomy, kind: TaxonomyKind): string[] {
+  return orderedEntries(taxonomy, kind).map((e) => e.value);
+}
+
+function sameKey(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Canonical value for a form or API value (matched case-insensitively). Throws
+ * UnknownTaxonomyValueError if it is not in the taxonomy; "Unknown" is always a valid
+ * account type.
+ */
+export function requireTaxonomyValue(
+  taxonomy: Taxonomy,
+  kind: TaxonomyKind,
+  value: string
+): string {
+  if (kind === "accountTypes" && sameKey(value, UNKNOWN_ACCOUNT_TYPE)) return UNKNOWN_ACCOUNT_TYPE;
+  const entry = taxonomy[kind].find((e) => sameKey(e.value, value));
+  if (!entry) throw new UnknownTaxonomyValueError(kind, value, taxonomyValues(taxonomy, kind));
+  return entry.value;
+}
+
+/** Value for a coded-filename token ("ES" → "Executive Search"). Throws if unknown. */
+export function resolveTaxonomyCode(
+  taxonomy: Taxonomy,
+  kind: TaxonomyKind,
+  code: string,
+  source = "filename"
+): string {
+  const entry = taxonomy[kind].find((e) => sameKey(e.code, code));
+  if (!entry) {
+    throw new UnknownTaxonomyValueError(
+      kind,
+      code,
+      taxonomy[kind].map((e) => e.code),
+      source
+    );
+  }
+  return entry.value;
+}
+
+// --- Coded filenames ---
+
+export interface CodedFilenameMetadata {
+  code: string; // "R1", "T10", etc.
+  score: number;
+  region: string;
+  solution: string;
+  accountType: string;
+  monthYear: string; // "2025-09"
+}
+
+const MONTH_MAP: Record<string, string> = {
+  JAN: "01",
+  FEB: "02",
+  MAR: "03",
+  APR: "04",
+  MAY: "05",
+  JUN: "06",
+  JUL: "07",
+  AUG: "08",
+  SEP: "09",
+  OCT: "10",
+  NOV: "11",
+  DEC: "12",
+};
+
+/**
+ * Parse a coded report/transcript filename.
+ * Pattern: {R|T}{ID}_NPS{Score}_{Region}_{Solution}_{AccountType}_{MonthYear}.{ext}
+ * Example: R20_NPS10_EMEA_CONSULTING_REGIONAL_OCT25.pdf
+ *
+ * Region, solution and account type codes are looked up in the taxonomy; an unknown
+ * code throws UnknownTaxonomyValueError rather than being stored as a raw string.
+ */
+export function parseCodedFilename(
+  filename: string,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): CodedFilenameMetadata {
+  const basename = filename.replace(/\.(pdf|docx|vtt|srt|txt)$/i, "");
+  const parts = basename.split("_");
+  if (parts.length < 6) {
+    throw new Error(
+      `${filename} does not follow {R|T}{ID}_NPS{Score}_{Region}_{Solution}_{AccountType}_{MonthYear}`
+    );
+  }
+
+  const score = parseInt(parts[1].replace(/^NPS/, ""), 10);
+  const region = resolveTaxonomyCode(taxonomy, "regions", parts[2], filename);
+  const solution = resolveTaxonomyCode(taxonomy, "solutions", parts[3], filename);
+  const accountType = resolveTaxonomyCode(taxonomy, "accountTypes", parts[4], filename);
+
+  // MonthYear, e.g. SEP25, OCT25, JAN26
+  const monthYearRaw = parts[5];
+  const monthCode = monthYearRaw.slice(0, -2);
+  const year = `20${monthYearRaw.slice(-2)}`;
+  const month = MONTH_MAP[monthCode] || "01";
+
+  return {
+    code: parts[0],
+    score,
+    region,
+    solution,
+    accountType,
+    monthYear: `${year}-${month}`,
+  };
+}
+
+// --- Editing ---
+
+export type TaxonomyLists = Pick<Taxonomy, TaxonomyKind>;
+
+/**
+ * Validate an edited taxonomy (PUT /api/taxonomy). Codes are upper-cased and must be
+ * usable as a filename segment; values and codes are unique per kind; a parent must be
+ * a top-level entry of the same kind.
+ */
+export function parseTaxonomyInput(
+  body: Record<string, unknown>
+): { taxonomy: TaxonomyLists } | { error: string } {
+  const taxonomy = {} as TaxonomyLists;
+
+  for (const kind of TAXONOMY_KINDS) {
+    const label = KIND_LABELS[kind];
+    const raw = body[kind];
+    if (!Array.isArray(raw) || raw.length === 0) {
+      return { error: `${kind} must be a non-empty list.` };
+    }
+
+    const entries: TaxonomyEntry[] = [];
+    for (const item of raw as Record<string, unknown>[]) {
+      const value = typeof item?.value === "string" ? item.value.trim() : "";
+      const code = typeof item?.code === "string" ? item.code.trim().toUpperCase() : "";
+      const parent = typeof item?.parent === "string" ? item.parent.trim() : "";
+      if (!value || !code) {
+        return { error: `Every ${label} needs a value and a filename code.` };
+      }
+      if (!/^[A-Z0-9&-]+$/.test(code)) {
+        return {
+          error: `Invalid ${label} code "${code}": use letters, digits, "&" or "-" (no spaces or underscores).`,
+        };
+      }
+      if (entries.some((e) => sameKey(e.value, value))) {
+        return { error: `Duplicate ${label} "${value}".` };
+      }
+      if (entries.some((e) => e.code === code)) {
+        return { error: `Duplicate ${label} code "${code}".` };
+      }
+      entries.push(parent ? { value, code, parent } : { value, code });
+    }
+
+    for (const entry of entries) {
+      if (!entry.parent) continue;
+      const parent = entries.find((e) => e.value === entry.parent);
+      if (!parent || parent === entry || parent.parent) {
+        return {
+          error: `The parent of ${label} "${entry.value}" must be another top-level ${label}.`,
+        };
+      }
+    }
+
+    taxonomy[kind] = entries;
+  }
+
+  return { taxonomy };
+}
+
+/**
+ * Values the edit removes that interviews (active or archived) still use, as messages.
+ * Removing them would leave interviews that no longer validate or show in filters.
+ */
+export function findRemovedValuesInUse(
+  previous: TaxonomyLists,
+  next: TaxonomyLists,
+  interviews: InterviewMetadata[]
+): string[] {
+  const problems: string[] = [];
+  for (const kind of TAXONOMY_KINDS) {
+    const field = KIND_FIELDS[kind];
+    for (const { value } of previous[kind]) {
+      if (next[kind].some((e) => e.value === value)) continue;
+      const count = interviews.filter((i) => i[field] === value).length;
+      if (count > 0) {
+        problems.push(
+          `${KIND_LABELS[kind]} "${value}" is used by ${count} interview${count === 1 ? "" : "s"}`
+        );
+      }
+    }
+  }
+  return problems;
+}
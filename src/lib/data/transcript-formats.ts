@@ -0,0 +1,279 @@
+/**
+ * Parsers for recorded-meeting transcript exports: WebVTT, SRT, Microsoft Teams
+ * (.vtt/.docx/.txt) and Zoom (.vtt/.txt).
+ *
+ * All formats are reduced to TranscriptTurn[] with a normalized speaker and the turn's
+ * offset into the recording (startTime/endTime in seconds). Consecutive cues from the
+ * same speaker are merged into one turn.
+ */
+
+import { formatTimestamp } from "@/lib/utils/dates";
+import type { TranscriptFormat, TranscriptTurn } from "@/types";
+
+const TIME = String.raw`\d{1,2}(?::\d{1,2}){1,2}(?:[.,]\d{1,3})?`;
+const CUE_TIMING = new RegExp(`^\\s*(${TIME})\\s*-->\\s*(${TIME})`);
+// "[Jane Doe] 10:02:15" (Zoom)
+const BRACKET_HEADER = /^\[([^\]]{1,60})\]\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+// "Jane Doe   0:03" (Teams), "Interviewer 1:53" (PDF transcripts)
+const NAME_TIME_HEADER = /^([^\d\s.,!?:;"][^.,!?:;"]{0,58}?)\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+// "00:01:05 Jane Doe: text" (Zoom chat-style export)
+const TIME_NAME_INLINE = /^(\d{1,2}:\d{2}(?::\d{2})?)\s+([^:]{1,60}):\s*(.*)$/;
+
+/** Parse "1:53", "01:02:03", "00:00:05.120", "00:00:05,120" or "0:0:5.12" into seconds. */
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().replace(",", ".").split(":");
+  if (parts.length < 2 || parts.length > 3) return null;
+  let seconds = 0;
+  for (const part of parts) {
+    const n = parseFloat(part);
+    if (!/^\d+(\.\d+)?$/.test(part) || isNaN(n)) return null;
+    seconds = seconds * 60 + n;
+  }
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Normalize a speaker label: strip markup and trailing timestamps ("Interviewer 1:53"),
+ * collapse whitespace and canonicalize "interviewer" / "speaker 2".
+ */
+export function normalizeSpeaker(raw: string): string {
+  const speaker = raw
+    .replace(/<[^>]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/\s+\d{1,2}:\d{2}(?::\d{2})?$/, "");
+
+  if (/^interv(?:ie|i)wer$/i.test(speaker)) return "Interviewer";
+  const numbered = speaker.match(/^speaker\s*(\d*)$/i);
+  if (numbered) return numbered[1] ? `Speaker ${numbered[1]}` : "Speaker";
+  return speaker || "Speaker";
+}
+
+/**
+ * Upgrade a turn stored before timestamps were structured, where the offset was folded
+ * into the speaker ("Speaker 1 2:16").
+ */
+export function normalizeTranscriptTurn(turn: TranscriptTurn): TranscriptTurn {
+  if (turn.startTime !== undefined) return { ...turn, speaker: normalizeSpeaker(turn.speaker) };
+  const legacy = turn.speaker.trim().match(/\s(\d{1,2}:\d{2}(?::\d{2})?)$/);
+  const startTime = legacy ? parseTimestamp(legacy[1]) : null;
+  return {
+    ...turn,
+    speaker: normalizeSpeaker(turn.speaker),
+    ...(startTime !== null ? { startTime } : {}),
+  };
+}
+
+/** One line of dialogue for embeddings and prompts: "[1:53] Interviewer: text". */
+export function formatTurnLine(turn: TranscriptTurn): string {
+  const prefix = turn.startTime !== undefined ? `[${formatTimestamp(turn.startTime)}] ` : "";
+  return `${prefix}${turn.speaker}: ${turn.text}`;
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Split "Jane Doe: text" into speaker and text when the prefix looks like a name. */
+function splitSpeakerPrefix(text: string): { speaker: string; text: string } | null {
+  const match = text.match(/^([^\s:][^:]{0,40}?):\s+(.+)$/);
+  if (!match || match[1].split(/\s+/).length > 5) return null;
+  return { speaker: match[1], text: match[2] };
+}
+
+function looksLikeName(line: string): boolean {
+  return (
+    line.length <= 60 &&
+    line.split(/\s+/).length <= 6 &&
+    !/[.!?,;:"]$/.test(line) &&
+    !/^\d/.test(line)
+  );
+}
+
+/** Append a cue, merging it into the previous turn when the speaker is the same. */
+function pushTurn(turns: TranscriptTurn[], turn: TranscriptTurn, merge: boolean): void {
+  if (!turn.text) return;
+  const last = turns[turns.length - 1];
+  if (merge && last && last.speaker === turn.speaker) {
+    last.text = `${last.text} ${turn.text}`;
+    if (turn.endTime !== undefined) last.endTime = turn.endTime;
+    return;
+  }
+  turns.push(turn);
+}
+
+/**
+ * Cue-based formats: WebVTT, SRT and Teams exports. Speakers come from `<v Name>` voice
+ * tags, a "Name: " prefix or (Teams) a name line at the top of the cue.
+ */
+function parseCues(text: string, format: "vtt" | "srt" | "teams"): TranscriptTurn[] {
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const turns: TranscriptTurn[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const timing = lines[i].match(CUE_TIMING);
+    if (!timing) {
+      i++;
+      continue;
+    }
+
+    // Payload runs until a blank line or the next cue's timing line
+    const payload: string[] = [];
+    i++;
+    while (i < lines.length && lines[i].trim() && !CUE_TIMING.test(lines[i])) {
+      payload.push(lines[i].trim());
+      i++;
+    }
+    // A numeric SRT index or cue identifier directly before the next timing line
+    if (i < lines.length && CUE_TIMING.test(lines[i]) && payload.length > 1) {
+      const last = payload[payload.length - 1];
+      if (/^\d+$/.test(last) || /^[0-9a-f-]{8,}\/\d+-\d+$/i.test(last)) payload.pop();
+    }
+    if (payload.length === 0) continue;
+
+    let speaker: string | null = null;
+    const voice = payload[0].match(/^<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    if (voice) {
+      speaker = voice[1];
+    } else if (
+      format === "teams" &&
+      payload.length > 1 &&
+      looksLikeName(payload[0]) &&
+      !splitSpeakerPrefix(payload[0])
+    ) {
+      speaker = payload.shift()!;
+    }
+
+    let body = cleanCueText(payload.join(" "));
+    if (!speaker) {
+      const prefixed = splitSpeakerPrefix(body);
+      if (prefixed) {
+        speaker = prefixed.speaker;
+        body = prefixed.text;
+      }
+    }
+
+    const startTime = parseTimestamp(timing[1]);
+    const endTime = parseTimestamp(timing[2]);
+    pushTurn(
+      turns,
+      {
+        speaker: normalizeSpeaker(speaker ?? ""),
+        text: body,
+        ...(startTime !== null ? { startTime } : {}),
+        ...(endTime !== null ? { endTime } : {}),
+      },
+      // Captions without speaker labels stay one turn per cue
+      speaker !== null
+    );
+  }
+
+  return turns;
+}
+
+/**
+ * Header-style formats where each turn starts with a speaker/time line: Teams .docx/.txt
+ * ("Jane Doe   0:03"), Zoom .txt ("[Jane Doe] 10:02:15" or "00:01:05 Jane Doe: text").
+ * Zoom's bracketed times are wall-clock, so they are rebased to the first turn.
+ */
+function parseHeaderTurns(text: string): TranscriptTurn[] {
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const turns: TranscriptTurn[] = [];
+  let current: { speaker: string; startTime: number | null; text: string[] } | null = null;
+  let wallClock = false;
+
+  const flush = () => {
+    if (!current) return;
+    const body = cleanCueText(current.text.join(" "));
+    if (body) {
+      turns.push({
+        speaker: normalizeSpeaker(current.speaker),
+        text: body,
+        ...(current.startTime !== null ? { startTime: current.startTime } : {}),
+      });
+    }
+    current = null;
+  };
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const bracket = line.match(BRACKET_HEADER);
+    const header = bracket ?? line.match(NAME_TIME_HEADER);
+    if (header) {
+      flush();
+      if (bracket) wallClock = true;
+      current = { speaker: header[1], startTime: parseTimestamp(header[2]), text: [] };
+      continue;
+    }
+
+    const inline = line.match(TIME_NAME_INLINE);
+    if (inline) {
+      flush();
+      current = { speaker: inline[2], startTime: parseTimestamp(inline[1]), text: [inline[3]] };
+      continue;
+    }
+
+    current?.text.push(line);
+  }
+  flush();
+
+  if (wallClock) {
+    const origin = turns.find((t) => t.startTime !== undefined)?.startTime ?? 0;
+    for (const turn of turns) {
+      if (turn.startTime !== undefined) turn.startTime = Math.max(0, turn.startTime - origin);
+    }
+  }
+
+  // Merge consecutive turns from the same speaker
+  const merged: TranscriptTurn[] = [];
+  for (const turn of turns) pushTurn(merged, turn, true);
+  return merged;
+}
+
+/** Identify the export format from the filename and content, or null if unrecognized. */
+export function detectTranscriptFormat(text: string, filename = ""): TranscriptFormat | null {
+  const name = filename.toLowerCase();
+  const body = text.replace(/^\uFEFF/, "").trimStart();
+  const lines = body.split(/\r?\n/);
+  const cueLines = lines.filter((l) => CUE_TIMING.test(l));
+
+  if (body.startsWith("WEBVTT") || name.endsWith(".vtt")) return "vtt";
+  if (name.endsWith(".srt") || cueLines.some((l) => /\d,\d{3}\s*-->/.test(l))) return "srt";
+  if (cueLines.length > 0) return "teams";
+
+  const bracketHeaders = lines.filter((l) => BRACKET_HEADER.test(l.trim())).length;
+  const inlineTurns = lines.filter((l) => TIME_NAME_INLINE.test(l.trim())).length;
+  if (bracketHeaders + inlineTurns >= 2) return "zoom";
+  const nameHeaders = lines.filter((l) => NAME_TIME_HEADER.test(l.trim())).length;
+  if (nameHeaders >= 2) return "teams";
+  return null;
+}
+
+/**
+ * Parse a meeting transcript export into turns. Returns null when the text is not a
+ * recognized export format (callers fall back to the PDF-style "FULL TRANSCRIPT" parser).
+ */
+export function parseTranscriptExport(
+  text: string,
+  filename = ""
+): { format: TranscriptFormat; turns: TranscriptTurn[] } | null {
+  const format = detectTranscriptFormat(text, filename);
+  if (!format || format === "pdf" || format === "json") return null;
+
+  const hasCues = text.split(/\r?\n/).some((l) => CUE_TIMING.test(l));
+  const turns =
+    format === "zoom" || !hasCues
+      ? parseHeaderTurns(text)
+      : parseCues(text, format);
+  return turns.length > 0 ? { format, turns } : null;
+}
@@ -5,7 +5,15 @@
  * Transcript PDFs contain the raw interview dialogue with speaker turns.
  */
 
-import type { Region, Solution, TranscriptTurn } from "@/types";
+import { extractDocxText } from "@/lib/data/docx-parser";
+import {
+  formatTurnLine,
+  normalizeSpeaker,
+  parseTimestamp,
+  parseTranscriptExport,
+} from "@/lib/data/transcript-formats";
+import { DEFAULT_TAXONOMY, parseCodedFilename } from "@/lib/data/taxonomy";
+import type { Region, Solution, Taxonomy, TranscriptFormat, TranscriptTurn } from "@/types";
 
 // --- Filename Parsing ---
 
@@ -18,79 +26,16 @@ export interface TranscriptFilenameMetadata {
   monthYear: string; // "2025-09"
 }
 
-const MONTH_MAP: Record<string, string> = {
-  JAN: "01",
-  FEB: "02",
-  MAR: "03",
-  APR: "04",
-  MAY: "05",
-  JUN: "06",
-  JUL: "07",
-  AUG: "08",
-  SEP: "09",
-  OCT: "10",
-  NOV: "11",
-  DEC: "12",
-};
-
-const SOLUTION_MAP: Record<string, Solution> = {
-  ES: "Executive Search",
-  PS: "Professional Search",
-  CONSULTING: "Consulting",
-};
-
-const ACCOUNT_TYPE_MAP: Record<string, string> = {
-  HOUSE: "House",
-  DIAMOND: "Diamond",
-  MARQUEE: "Marquee",
-  REGIONAL: "Regional",
-};
-
 /**
- * Parse transcript filename to extract metadata.
- * Pattern: T{ID}_NPS{Score}_{Region}_{Solution}_{AccountType}_{MonthYear}.pdf
- * Example: T1_NPS6_EMEA_ES_HOUSE_SEP25.pdf
+ * Parse a coded transcript filename, e.g. T1_NPS6_EMEA_ES_HOUSE_SEP25.pdf (or .docx).
+ * Codes are resolved against the taxonomy; unknown ones throw UnknownTaxonomyValueError.
  */
 export function parseTranscriptFilename(
-  filename: string
+  filename: string,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
 ): TranscriptFilenameMetadata {
-  const basename = filename.replace(/\.pdf$/i, "");
-  const parts = basename.split("_");
-
-  // First part is T{ID}
-  const transcriptCode = parts[0]; // "T1", "T10", etc.
-
-  // Second part is NPS{Score}
-  const scoreStr = parts[1].replace(/^NPS/, "");
-  const score = parseInt(scoreStr, 10);
-
-  // Third part is Region
-  const region = parts[2] as Region;
-
-  // Fourth part is Solution (ES, PS, or CONSULTING)
-  const solutionKey = parts[3];
-  const solution = SOLUTION_MAP[solutionKey] || solutionKey;
-
-  // Fifth part is Account Type
-  const accountTypeKey = parts[4];
-  const accountType = ACCOUNT_TYPE_MAP[accountTypeKey] || accountTypeKey;
-
-  // Sixth part is MonthYear (e.g., SEP25, OCT25, JAN26)
-  const monthYearRaw = parts[5]; // "SEP25"
-  const monthCode = monthYearRaw.slice(0, -2); // "SEP"
-  const yearShort = monthYearRaw.slice(-2); // "25"
-  const year = `20${yearShort}`;
-  const month = MONTH_MAP[monthCode] || "01";
-  const monthYear = `${year}-${month}`;
-
-  return {
-    transcriptCode,
-    score,
-    region,
-    solution: solution as Solution,
-    accountType,
-    monthYear,
-  };
+  const { code, ...meta } = parseCodedFilename(filename, taxonomy);
+  return { transcriptCode: code, ...meta };
 }
 
 /**
@@ -114,6 +59,7 @@ export interface ParsedTranscriptPdf {
   score: number;
   fullTranscript: TranscriptTurn[];
   rawText: string;
+  format: TranscriptFormat;
 }
 
 /**
@@ -145,7 +91,7 @@ export function parseTranscriptPdfText(text: string): ParsedTranscriptPdf {
   const fullTranscript = extractTranscriptTurns(text);
 
   // Build raw text for embeddings
-  const rawText = fullTranscript.map((t) => `${t.speaker}: ${t.text}`).join("\n\n");
+  const rawText = fullTranscript.map(formatTurnLine).join("\n\n");
 
   return {
     client: clientField,
@@ -157,6 +103,39 @@ export function parseTranscriptPdfText(text: string): ParsedTranscriptPdf {
     score,
     fullTranscript,
     rawText,
+    format: "pdf",
+  };
+}
+
+/** A transcript file in which no speaker turns were found. */
+export class TranscriptParseError extends Error {
+  constructor(filename: string) {
+    super(
+      `No speaker turns found in ${filename || "the transcript"}. ` +
+        `Expected a "FULL TRANSCRIPT" section or a Teams, Zoom, VTT or SRT export.`
+    );
+    this.name = "TranscriptParseError";
+  }
+}
+
+/**
+ * Parse transcript text from any supported source: the PDF-style "FULL TRANSCRIPT"
+ * layout, or a Teams/Zoom/VTT/SRT export (see transcript-formats.ts). Header fields
+ * (Interview Date, Client, Project, Score) are picked up when present. Throws
+ * TranscriptParseError when the text has no speaker turns.
+ */
+export function parseTranscriptText(text: string, filename = ""): ParsedTranscriptPdf {
+  const parsed = parseTranscriptPdfText(text);
+  if (/FULL TRANSCRIPT/i.test(text) && parsed.fullTranscript.length > 0) return parsed;
+
+  const exported = parseTranscriptExport(text, filename);
+  if (!exported || exported.turns.length === 0) throw new TranscriptParseError(filename);
+
+  return {
+    ...parsed,
+    fullTranscript: exported.turns,
+    rawText: exported.turns.map(formatTurnLine).join("\n\n"),
+    format: exported.format,
   };
 }
 
@@ -233,6 +212,8 @@ function parseDateField(dateStr: string): string {
  * - "Interviewer 1:53" or "Interviewer" (with or without timestamp)
  * - "Speaker 1 2:16" or "Speaker 1" (numbered speakers)
  * - Sometimes just "Speaker" followed by timestamp
+ *
+ * The timestamp becomes the turn's startTime; the speaker is normalized without it.
  */
 function extractTranscriptTurns(text: string): TranscriptTurn[] {
   // Find the start of the transcript section
@@ -281,14 +262,14 @@ function extractTranscriptTurns(text: string): TranscriptTurn[] {
       .replace(/\s+/g, " ");
 
     if (turnText) {
-      // Format speaker with timestamp if present
-      const speaker = currentMatch.timestamp
-        ? `${currentMatch.speaker} ${currentMatch.timestamp}`
-        : currentMatch.speaker;
+      const startTime = currentMatch.timestamp
+        ? parseTimestamp(currentMatch.timestamp)
+        : null;
 
       turns.push({
-        speaker: cleanSpeakerName(speaker),
+        speaker: normalizeSpeaker(currentMatch.speaker),
         text: cleanText(turnText),
+        ...(startTime !== null ? { startTime } : {}),
       });
     }
   }
@@ -296,13 +277,6 @@ function extractTranscriptTurns(text: string): TranscriptTurn[] {
   return turns;
 }
 
-function cleanSpeakerName(speaker: string): string {
-  // Normalize speaker names
-  // "Speaker 1" -> "Client" or keep as is
-  // "Interviewer" -> "Interviewer"
-  return speaker.trim();
-}
-
 function cleanText(text: string): string {
   return text
     .replace(/\s+/g, " ") // normalize whitespace
@@ -330,3 +304,12 @@ export async function parseTranscriptPdfBuffer(
   const result = await parser.getText();
   return parseTranscriptPdfText(result.text);
 }
+
+// --- DOCX transcripts via mammoth (PDF-style layout or Teams export) ---
+
+export async function parseTranscriptDocxBuffer(
+  buffer: Buffer | Uint8Array,
+  filename = ""
+): Promise<ParsedTranscriptPdf> {
+  return parseTranscriptText(await extractDocxText(buffer), filename);
+}
@@ -0,0 +1,553 @@
+/**
+ * Single-interview upload: parsing the uploaded transcript/report into normalized
+ * documents, building the metadata entry, and checking the form against what the files
+ * say. Nothing here writes to the store, so /api/upload can run it as a dry run.
+ */
+
+import { isDocxFilename } from "@/lib/data/docx-parser";
+import {
+  parseFilenameMetadata,
+  parsePdfBuffer,
+  parseDocxBuffer,
+  type FilenameMetadata,
+} from "@/lib/data/pdf-parser";
+import {
+  parseTranscriptFilename,
+  parseTranscriptPdfBuffer,
+  parseTranscriptDocxBuffer,
+  parseTranscriptText,
+  type TranscriptFilenameMetadata,
+} from "@/lib/data/transcript-parser";
+import { UnknownTaxonomyValueError } from "@/lib/data/taxonomy";
+import { getNPSCategory } from "@/lib/utils/nps";
+import { getMonthYear } from "@/lib/utils/dates";
+import type {
+  InterviewMetadata,
+  MetadataIndex,
+  NormalizedReport,
+  NormalizedTranscript,
+  Taxonomy,
+  UploadConflict,
+  UploadFormData,
+} from "@/types";
+
+// --- File types ---
+
+export function isPdfFile(file: File): boolean {
+  return (
+    file.name.toLowerCase().endsWith(".pdf") ||
+    file.type === "application/pdf"
+  );
+}
+
+export function isDocxFile(file: File): boolean {
+  return (
+    isDocxFilename(file.name) ||
+    file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  );
+}
+
+export function isJsonFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(".json") || file.type === "application/json";
+}
+
+/** Teams/Zoom recording exports: WebVTT, SRT or plain-text transcripts. */
+export function isTranscriptExportFile(file: File): boolean {
+  return /\.(vtt|srt|txt)$/i.test(file.name) || file.type === "text/vtt";
+}
+
+/**
+ * Detect if a PDF or DOCX is a transcript based on filename pattern.
+ * Transcripts use the pattern: T{N}_NPS{Score}_{Region}_{Solution}_{AccountType}_{Month}.pdf|.docx
+ */
+function isTranscriptFile(filename: string): boolean {
+  return /^T\d+_NPS\d+_/.test(filename);
+}
+
+/**
+ * Detect if a PDF or DOCX is a report based on filename pattern.
+ * Reports use the pattern: R{N}_NPS{Score}_{Region}_{Solution}_{AccountType}_{Month}.pdf|.docx
+ */
+function isReportFile(filename: string): boolean {
+  return /^R\d+_NPS\d+_/.test(filename);
+}
+
+/** Error message for a file the upload cannot handle, or null if both are supported. */
+export function unsupportedFileError(
+  transcriptFile: File | null,
+  reportFile: File | null
+): string | null {
+  for (const file of [transcriptFile, reportFile]) {
+    if (!file || isPdfFile(file) || isDocxFile(file) || isJsonFile(file)) continue;
+    if (file === transcriptFile && isTranscriptExportFile(file)) continue;
+    return file === transcriptFile
+      ? `Unsupported file type: ${file.name}. Upload a .json, .pdf, .docx, .vtt, .srt or .txt transcript.`
+      : `Unsupported file type: ${file.name}. Upload a .json, .pdf or .docx report.`;
+  }
+  return null;
+}
+
+// --- Parsing ---
+
+export interface ParsedUpload {
+  transcript: Omit<NormalizedTranscript, "id"> | null;
+  /**
+   * Report as read from the file. Empty client/interviewDate, a null project and a null
+   * score are filled from the form by finalizeUpload.
+   */
+  report: (Omit<NormalizedReport, "id" | "project" | "score"> & {
+    project: string | null;
+    score: number | null;
+  }) | null;
+  /** Originals to save under originals/ when the upload is committed. */
+  originals: { filename: string; data: Buffer }[];
+  originalTranscriptFile: string | null;
+  originalReportFile: string | null;
+  transcriptCode?: string;
+  reportCode?: string;
+  /** Metadata encoded in coded R…/T… filenames. */
+  reportFilenameMeta: FilenameMetadata | null;
+  transcriptFilenameMeta: TranscriptFilenameMetadata | null;
+  /** Header values read from the document content (report first, then transcript). */
+  header: { client: string; company: string; interviewDate: string; score: number | null };
+}
+
+/** Filename metadata, or null for a malformed name. Unknown taxonomy codes still throw. */
+function safeFilenameMeta<T>(parse: () => T): T | null {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof UnknownTaxonomyValueError) throw error;
+    return null;
+  }
+}
+
+/**
+ * Parse the uploaded files. Does not write anything. Throws UnknownTaxonomyValueError
+ * if a coded filename uses a region, solution or account type code not in the taxonomy.
+ */
+export async function parseUploadFiles(
+  transcriptFile: File | null,
+  reportFile: File | null,
+  taxonomy: Taxonomy
+): Promise<ParsedUpload> {
+  const result: ParsedUpload = {
+    transcript: null,
+    report: null,
+    originals: [],
+    originalTranscriptFile: null,
+    originalReportFile: null,
+    reportFilenameMeta: null,
+    transcriptFilenameMeta: null,
+    header: { client: "", company: "", interviewDate: "", score: null },
+  };
+  let transcriptHeader: ParsedUpload["header"] | null = null;
+
+  // --- Transcript ---
+  if (transcriptFile) {
+    const isDocx = isDocxFile(transcriptFile);
+    const isExport = !isDocx && isTranscriptExportFile(transcriptFile);
+    if (
+      isDocx ||
+      isExport ||
+      (isPdfFile(transcriptFile) && isTranscriptFile(transcriptFile.name))
+    ) {
+      // PDF/DOCX/VTT/SRT/TXT transcript: parse turns; the original is kept
+      const arrayBuffer = await transcriptFile.arrayBuffer();
+      const buffer = Buffer.from(arrayBuffer);
+
+      const originalFilename = transcriptFile.name;
+      result.originals.push({ filename: originalFilename, data: Buffer.from(buffer) });
+      result.originalTranscriptFile = `originals/${originalFilename}`;
+
+      // Parse filename metadata
+      if (isTranscriptFile(originalFilename)) {
+        result.transcriptFilenameMeta = safeFilenameMeta(() =>
+          parseTranscriptFilename(originalFilename, taxonomy)
+        );
+        result.transcriptCode = originalFilename.match(/^(T\d+)_/)?.[1];
+      }
+
+      // Word documents may be PDF-style transcripts or Teams exports; text files are
+      // Teams/Zoom VTT, SRT or plain-text exports
+      const parsed = isDocx
+        ? await parseTranscriptDocxBuffer(buffer, originalFilename)
+        : isExport
+          ? parseTranscriptText(buffer.toString("utf-8"), originalFilename)
+          : await parseTranscriptPdfBuffer(buffer);
+      result.transcript = {
+        sourceFile: transcriptFile.name,
+        client: parsed.clientName,
+        interviewDate: parsed.interviewDate,
+        project: parsed.project,
+        score: parsed.score,
+        overview: "",
+        sections: [],
+        fullTranscript: parsed.fullTranscript,
+        rawText: parsed.rawText,
+        format: parsed.format,
+      };
+      transcriptHeader = {
+        client: parsed.clientName,
+        company: parsed.company,
+        interviewDate: parsed.interviewDate,
+        score: parsed.score || null,
+      };
+    } else {
+      // JSON transcript: existing behavior
+      const transcriptText = await transcriptFile.text();
+      const transcriptJSON = JSON.parse(transcriptText);
+
+      let rawText = "";
+      if (Array.isArray(transcriptJSON.paragraphs)) {
+        rawText = transcriptJSON.paragraphs.join("\n\n");
+      } else if (typeof transcriptJSON.text === "string") {
+        rawText = transcriptJSON.text;
+      } else {
+        rawText = transcriptText;
+      }
+
+      result.transcript = {
+        sourceFile: transcriptFile.name,
+        overview: "",
+        sections: [],
+        fullTranscript: [],
+        rawText,
+        format: "json",
+      };
+    }
+  }
+
+  // --- Report ---
+  if (reportFile) {
+    const isDocx = isDocxFile(reportFile);
+    if (isDocx || isPdfFile(reportFile)) {
+      // PDF/DOCX report: parse structured content; the original is kept
+      const arrayBuffer = await reportFile.arrayBuffer();
+      const buffer = Buffer.from(arrayBuffer);
+
+      const originalFilename = reportFile.name;
+      result.originals.push({ filename: originalFilename, data: Buffer.from(buffer) });
+      result.originalReportFile = `originals/${originalFilename}`;
+
+      // Extract report code from filename if it's a coded report
+      if (isReportFile(originalFilename)) {
+        result.reportCode = originalFilename.match(/^(R\d+)_/)?.[1];
+        result.reportFilenameMeta = safeFilenameMeta(() =>
+          parseFilenameMetadata(originalFilename, taxonomy)
+        );
+      }
+
+      // Parse into structured report; Word exports share the PDF section extraction
+      const parsed = isDocx ? await parseDocxBuffer(buffer) : await parsePdfBuffer(buffer);
+      result.report = {
+        client: parsed.client,
+        interviewDate: parsed.interviewDate,
+        project: parsed.engagement || null,
+        score: null, // the form score is authoritative for document reports
+        overview: parsed.overview,
+        whatWentWell: parsed.whatWentWell,
+        challengesPainPoints: parsed.challengesPainPoints,
+        gapsIdentified: parsed.gapsIdentified,
+        keyThemes: parsed.keyThemes,
+        actionsRecommendations: parsed.actionsRecommendations,
+        additionalInsight: parsed.additionalInsight,
+      };
+      result.header = {
+        client: parsed.client,
+        company: parsed.company,
+        interviewDate: parsed.interviewDate,
+        score: parsed.score,
+      };
+    } else {
+      // JSON report: existing behavior
+      const reportText = await reportFile.text();
+      const reportJSON = JSON.parse(reportText);
+
+      result.report = {
+        client: reportJSON.client || "",
+        interviewDate: reportJSON.interview_date || reportJSON.interviewDate || "",
+        project: reportJSON.project || "",
+        score: reportJSON.score ?? null,
+        overview: reportJSON.overview || "",
+        whatWentWell: reportJSON.what_went_well || reportJSON.whatWentWell || [],
+        challengesPainPoints:
+          reportJSON.challenges_pain_points ||
+          reportJSON.challengesPainPoints ||
+          [],
+        gapsIdentified:
+          reportJSON.gaps_identified || reportJSON.gapsIdentified || [],
+        keyThemes: reportJSON.key_themes || reportJSON.keyThemes || [],
+        actionsRecommendations:
+          reportJSON.actions_recommendations ||
+          reportJSON.actionsRecommendations ||
+          [],
+        additionalInsight:
+          reportJSON.additional_insight ||
+          reportJSON.additionalInsight ||
+          "",
+      };
+    }
+  }
+
+  // Report headers win; the transcript fills whatever the report did not have
+  if (transcriptHeader) {
+    const h = result.header;
+    result.header = {
+      client: h.client || transcriptHeader.client,
+      company: h.company || transcriptHeader.company,
+      interviewDate: h.interviewDate || transcriptHeader.interviewDate,
+      score: h.score ?? transcriptHeader.score,
+    };
+  }
+
+  return result;
+}
+
+/** Form values suggested by the filenames and document headers. */
+export function suggestUploadFields(parsed: ParsedUpload): Partial<UploadFormData> {
+  const meta = parsed.reportFilenameMeta ?? parsed.transcriptFilenameMeta;
+  const suggested: Partial<UploadFormData> = {};
+  if (parsed.header.client) suggested.clientName = parsed.header.client;
+  if (parsed.header.company) suggested.companyName = parsed.header.company;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(parsed.header.interviewDate)) {
+    suggested.interviewDate = parsed.header.interviewDate;
+  }
+  const score = meta?.score ?? parsed.header.score;
+  if (score !== null && score !== undefined && !isNaN(score)) suggested.score = score;
+  if (meta) {
+    suggested.region = meta.region;
+    suggested.solution = meta.solution;
+    suggested.accountType = meta.accountType;
+  }
+  return suggested;
+}
+
+// --- Committing ---
+
+/** Normalized documents with the form filling whatever the files did not provide. */
+export function finalizeUpload(
+  parsed: ParsedUpload,
+  fields: UploadFormData
+): {
+  transcript: Omit<NormalizedTranscript, "id"> | null;
+  report: Omit<NormalizedReport, "id"> | null;
+} {
+  const report = parsed.report
+    ? {
+        ...parsed.report,
+        client: parsed.report.client || fields.clientName,
+        interviewDate: parsed.report.interviewDate || fields.interviewDate,
+        project: parsed.report.project ?? fields.solution,
+        score: parsed.report.score ?? fields.score,
+      }
+    : null;
+  return { transcript: parsed.transcript, report };
+}
+
+/** The metadata entry an upload creates. */
+export function buildUploadMetadata(
+  id: string,
+  interviewIdNum: number,
+  fields: UploadFormData,
+  parsed: ParsedUpload,
+  now: string
+): InterviewMetadata {
+  // Determine data status based on what was uploaded
+  const hasTranscript = !!parsed.transcript;
+  const hasReport = !!parsed.report;
+  let dataStatus: "complete" | "transcript_only" | "report_only";
+  if (hasTranscript && hasReport) {
+    dataStatus = "complete";
+  } else if (hasTranscript) {
+    dataStatus = "transcript_only";
+  } else {
+    dataStatus = "report_only";
+  }
+
+  return {
+    id,
+    interviewId: interviewIdNum,
+    client: fields.clientName,
+    company: fields.companyName,
+    interviewDate: fields.interviewDate,
+    score: fields.score,
+    npsCategory: getNPSCategory(fields.score),
+    region: fields.region,
+    solution: fields.solution,
+    accountType: fields.accountType,
+    monthYear: getMonthYear(fields.interviewDate),
+    hasTranscript,
+    hasReport,
+    transcriptFile: hasTranscript ? `transcripts/${id}.json` : "",
+    reportFile: hasReport ? `reports/${id}.json` : null,
+    originalPdfFile: parsed.originalReportFile,
+    // Correlation fields
+    transcriptCode: parsed.transcriptCode,
+    reportCode: parsed.reportCode,
+    originalTranscriptFile: parsed.originalTranscriptFile,
+    originalReportFile: parsed.originalReportFile,
+    dataStatus,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function nextInterviewIdNum(index: MetadataIndex): number {
+  return (
+    [...index.interviews, ...(index.archived ?? [])].reduce((max, item) => {
+      const num = parseInt(item.id.replace("t-", ""));
+      return num > max ? num : max;
+    }, 0) + 1
+  );
+}
+
+// --- Conflict checks ---
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Compare the form with what the files say and with the existing index: filename and
+ * header values that disagree with the form, an interview with the same company and
+ * date, reused R/T codes, and originals that would overwrite another interview's file.
+ */
+export function findUploadConflicts(
+  fields: Partial<UploadFormData>,
+  parsed: ParsedUpload,
+  index: MetadataIndex
+): UploadConflict[] {
+  const conflicts: UploadConflict[] = [];
+  const all = [...index.interviews, ...(index.archived ?? [])];
+
+  const filenameSources = [
+    { label: "report filename", meta: parsed.reportFilenameMeta },
+    { label: "transcript filename", meta: parsed.transcriptFilenameMeta },
+  ];
+  for (const { label, meta } of filenameSources) {
+    if (!meta) continue;
+    if (fields.score !== undefined && meta.score !== fields.score) {
+      conflicts.push({
+        field: "score",
+        message: `The ${label} says NPS ${meta.score}, the form says ${fields.score}.`,
+        suggested: meta.score,
+      });
+    }
+    if (fields.region && meta.region !== fields.region) {
+      conflicts.push({
+        field: "region",
+        message: `The ${label} says region ${meta.region}, the form says ${fields.region}.`,
+        suggested: meta.region,
+      });
+    }
+    if (fields.solution && meta.solution !== fields.solution) {
+      conflicts.push({
+        field: "solution",
+        message: `The ${label} says ${meta.solution}, the form says ${fields.solution}.`,
+        suggested: meta.solution,
+      });
+    }
+    if (fields.accountType && meta.accountType !== fields.accountType) {
+      conflicts.push({
+        field: "accountType",
+        message: `The ${label} says account type ${meta.accountType}, the form says ${fields.accountType}.`,
+        suggested: meta.accountType,
+      });
+    }
+  }
+
+  const { reportFilenameMeta: r, transcriptFilenameMeta: t } = parsed;
+  if (r && t && r.score !== t.score) {
+    conflicts.push({
+      field: "score",
+      message: `The report filename (NPS ${r.score}) and transcript filename (NPS ${t.score}) disagree.`,
+    });
+  }
+
+  const { header } = parsed;
+  if (header.client && fields.clientName && !sameText(header.client, fields.clientName)) {
+    conflicts.push({
+      field: "clientName",
+      message: `The document names the client "${header.client}", the form says "${fields.clientName}".`,
+      suggested: header.client,
+    });
+  }
+  if (header.company && fields.companyName && !sameText(header.company, fields.companyName)) {
+    conflicts.push({
+      field: "companyName",
+      message: `The document names the company "${header.company}", the form says "${fields.companyName}".`,
+      suggested: header.company,
+    });
+  }
+  if (
+    /^\d{4}-\d{2}-\d{2}$/.test(header.interviewDate) &&
+    fields.interviewDate &&
+    header.interviewDate !== fields.interviewDate
+  ) {
+    conflicts.push({
+      field: "interviewDate",
+      message: `The document is dated ${header.interviewDate}, the form says ${fields.interviewDate}.`,
+      suggested: header.interviewDate,
+    });
+  }
+  if (
+    header.score !== null &&
+    !isNaN(header.score) &&
+    fields.score !== undefined &&
+    header.score !== fields.score &&
+    !conflicts.some((c) => c.field === "score" && c.suggested === header.score)
+  ) {
+    conflicts.push({
+      field: "score",
+      message: `The document header says NPS ${header.score}, the form says ${fields.score}.`,
+      suggested: header.score,
+    });
+  }
+
+  if (fields.companyName && fields.interviewDate) {
+    for (const existing of all) {
+      if (
+        sameText(existing.company, fields.companyName) &&
+        existing.interviewDate === fields.interviewDate
+      ) {
+        conflicts.push({
+          field: "duplicate",
+          message: `${existing.id} (${existing.client}, ${existing.company}) already has an interview on ${existing.interviewDate}${existing.archivedAt ? " (archived)" : ""}.`,
+          interviewId: existing.id,
+        });
+      }
+    }
+  }
+
+  for (const code of [parsed.reportCode, parsed.transcriptCode]) {
+    if (!code) continue;
+    const existing = all.find((i) => i.reportCode === code || i.transcriptCode === code);
+    if (existing) {
+      conflicts.push({
+        field: "duplicate",
+        message: `${code} is already used by ${existing.id} (${existing.client}, ${existing.company}).`,
+        interviewId: existing.id,
+      });
+    }
+  }
+
+  for (const original of [parsed.originalReportFile, parsed.originalTranscriptFile]) {
+    if (!original) continue;
+    const existing = all.find(
+      (i) =>
+        i.originalPdfFile === original ||
+        i.originalReportFile === original ||
+        i.originalTranscriptFile === original
+    );
+    if (existing) {
+      conflicts.push({
+        field: "file",
+        message: `${original} already belongs to ${existing.id}; uploading replaces that file.`,
+        interviewId: existing.id,
+      });
+    }
+  }
+
+  return conflicts;
+}
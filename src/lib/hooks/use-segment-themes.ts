@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Job, ThemeAnalysisResponse, ThemeSegment } from "@/types";
+
+/** Query string for GET /api/themes, e.g. "?region=EMEA&from=2025-09"; "" for no filters. */
+export function themeSegmentQuery(segment: ThemeSegment): string {
+  const params = new URLSearchParams();
+  if (segment.region) params.set("region", segment.region);
+  if (segment.solution) params.set("solution", segment.solution);
+  if (segment.accountType) params.set("accountType", segment.accountType);
+  if (segment.npsCategory) params.set("npsCategory", segment.npsCategory);
+  if (segment.monthFrom) params.set("from", segment.monthFrom);
+  if (segment.monthTo) params.set("to", segment.monthTo);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Themes from /api/themes for a segment, refetched when the filters change. A segment
+ * that has not been cached is generated by a background job (202 with a jobId); the hook
+ * stays loading while it follows the job and fetches the themes once it has finished.
+ */
+export function useSegmentThemes(segment: ThemeSegment): {
+  data: ThemeAnalysisResponse | null;
+  isEmpty: boolean;
+  loading: boolean;
+  error: string | null;
+} {
+  const query = themeSegmentQuery(segment);
+  const [data, setData] = useState<ThemeAnalysisResponse | null>(null);
+  const [isEmpty, setIsEmpty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let source: EventSource | null = null;
+    setLoading(true);
+    setError(null);
+
+    const fail = (message: string) => {
+      if (cancelled) return;
+      setError(message);
+      setLoading(false);
+    };
+
+    const load = () =>
+      fetch(`/api/themes${query}`)
+        .then(async (res) => {
+          const json = await res.json();
+          if (cancelled) return;
+          if (res.status === 202 && json.jobId) {
+            follow(json.jobId as string);
+            return;
+          }
+          if (!res.ok) {
+            fail(json.error || "Failed to load themes");
+            return;
+          }
+          setIsEmpty(!!json.empty);
+          setData(json.empty ? null : (json as ThemeAnalysisResponse));
+          setLoading(false);
+        })
+        .catch((err) => fail(err instanceof Error ? err.message : "Failed to load themes"));
+
+    // Wait for the segment's job, then fetch the themes it cached
+    const follow = (jobId: string) => {
+      source = new EventSource(`/api/jobs/${jobId}/events`);
+      source.onmessage = (event) => {
+        const job = JSON.parse(event.data) as Job;
+        if (job.status === "completed") {
+          source?.close();
+          load();
+        } else if (job.status === "failed") {
+          source?.close();
+          fail(job.error || "Failed to generate themes for this segment");
+        }
+      };
+      source.onerror = () => {
+        if (source?.readyState === EventSource.CLOSED) {
+          fail("Lost connection while generating themes for this segment");
+        }
+      };
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  }, [query]);
+
+  return { data, isEmpty, loading, error };
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DEFAULT_TAXONOMY } from "@/lib/data/taxonomy";
+import type { Taxonomy } from "@/types";
+
+/**
+ * The taxonomy from /api/taxonomy for filter and form dropdowns. Starts with the default
+ * taxonomy so the options render straight away, then switches to the stored one.
+ */
+export function useTaxonomy(): Taxonomy {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/taxonomy")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Taxonomy | null) => {
+        if (data && !cancelled) setTaxonomy(data);
+      })
+      .catch(() => {
+        // Keep the default taxonomy
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return taxonomy;
+}
@@ -0,0 +1,274 @@
+/**
+ * Background job queue for reindex, upload post-processing, vector-store sync, the
+ * artifact cleanup of purged interviews and segment theme generation.
+ *
+ * Jobs are persisted to metadata/jobs/{id}.json so progress survives a browser refresh
+ * or request timeout, and run one at a time in the server process. Each job tracks the
+ * reindex steps it covers; retrying a job re-runs only the steps that failed. A job
+ * records the process that runs it, so only jobs whose process is gone are recovered.
+ */
+
+import { EventEmitter } from "events";
+import os from "os";
+import { v4 as uuidv4 } from "uuid";
+import { readJob, writeJob, listJobs } from "@/lib/data/store";
+import { isProcessAlive } from "@/lib/data/lock";
+import { purgeInterviewArtifacts, runReindex, REINDEX_STEPS } from "@/lib/ai/pipeline";
+import { generateSegmentThemeAnalysis } from "@/lib/ai/analysis";
+import { themeSegmentKey } from "@/lib/ai/theme-segments";
+import type { Job, JobOwner, JobType, JobStep, ReindexStepName } from "@/types";
+
+const JOB_STEPS: Record<JobType, ReindexStepName[]> = {
+  reindex: REINDEX_STEPS,
+  upload: REINDEX_STEPS,
+  vector_store_sync: ["vectorStore"],
+  // Not reindexes: one task each, reported in the job's results
+  purge: [],
+  theme_segment: [],
+};
+
+/** Stored on globalThis so dev-mode module reloads share one queue. */
+interface QueueState {
+  tail: Promise<void>;
+  emitter: EventEmitter;
+  active: Set<string>;
+  recovered: boolean;
+  owner: JobOwner;
+}
+
+const globalForQueue = globalThis as unknown as { kfcxJobQueue?: QueueState };
+
+function getQueue(): QueueState {
+  if (!globalForQueue.kfcxJobQueue) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+    globalForQueue.kfcxJobQueue = {
+      tail: Promise.resolve(),
+      emitter,
+      active: new Set(),
+      recovered: false,
+      owner: { pid: process.pid, host: os.hostname(), instance: uuidv4() },
+    };
+  }
+  return globalForQueue.kfcxJobQueue;
+}
+
+export function isJobFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
+
+async function saveJob(job: Job): Promise<void> {
+  await writeJob(job);
+  getQueue().emitter.emit(job.id, job);
+}
+
+/**
+ * Whether the process that scheduled the job is gone. Jobs of other hosts are assumed
+ * alive, as their processes can't be checked; jobs without an owner predate owners.
+ */
+function isOrphaned(job: Job, self: JobOwner): boolean {
+  const owner = job.owner;
+  if (!owner) return true;
+  if (owner.host !== self.host) return false;
+  if (owner.pid === self.pid) return owner.instance !== self.instance;
+  return !isProcessAlive(owner.pid);
+}
+
+/**
+ * Jobs left queued/running by a server process that has exited will never finish; mark
+ * them failed (with their running steps) so they can be retried. Jobs another live
+ * process is running are left alone.
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  const queue = getQueue();
+  if (queue.recovered) return;
+  queue.recovered = true;
+  for (const job of await listJobs()) {
+    if (isJobFinished(job) || queue.active.has(job.id) || !isOrphaned(job, queue.owner)) {
+      continue;
+    }
+    const now = new Date().toISOString();
+    for (const step of job.steps) {
+      if (step.status === "running" || step.status === "pending") {
+        step.status = "failed";
+        step.message = "Interrupted (server restarted)";
+        step.finishedAt = now;
+      }
+    }
+    job.status = "failed";
+    job.error = "Interrupted (server restarted)";
+    job.finishedAt = now;
+    await saveJob(job);
+  }
+}
+
+/** Run a job without reindex steps (purge, theme_segment); returns its result lines. */
+async function runTask(job: Job): Promise<string[]> {
+  if (job.type === "purge") return purgeInterviewArtifacts(job.options.interviewId!);
+  const segment = job.options.segment!;
+  const { sampleSize } = await generateSegmentThemeAnalysis(segment);
+  return [
+    `Themes for segment ${themeSegmentKey(segment)} from ${sampleSize} ` +
+      `interview${sampleSize === 1 ? "" : "s"}`,
+  ];
+}
+
+async function executeJob(id: string): Promise<void> {
+  const job = await readJob(id);
+  if (!job) return;
+
+  const pending = job.steps.filter((s) => s.status === "pending").map((s) => s.name);
+  const stepByName = new Map<ReindexStepName, JobStep>(job.steps.map((s) => [s.name, s]));
+
+  job.status = "running";
+  job.startedAt = job.startedAt ?? new Date().toISOString();
+  job.error = null;
+  await saveJob(job);
+
+  if (JOB_STEPS[job.type].length === 0) {
+    try {
+      job.results = await runTask(job);
+      job.status = "completed";
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+    job.finishedAt = new Date().toISOString();
+    await saveJob(job);
+    return;
+  }
+
+  try {
+    const { success, results } = await runReindex(
+      { full: job.options.full, themes: job.options.themes, steps: pending },
+      {
+        onStepStart: async (name) => {
+          const step = stepByName.get(name);
+          if (!step) return;
+          step.status = "running";
+          step.attempts += 1;
+          step.startedAt = new Date().toISOString();
+          step.message = null;
+          await saveJob(job);
+        },
+        onStepComplete: async (outcome) => {
+          const step = stepByName.get(outcome.step);
+          if (!step) return;
+          step.status = outcome.status;
+          step.message = outcome.message;
+          step.finishedAt = new Date().toISOString();
+          await saveJob(job);
+        },
+      }
+    );
+    job.results = [...job.results, ...results];
+    job.status = success ? "completed" : "failed";
+    job.error = success ? null : "One or more steps failed. Retry to re-run only the failed steps.";
+  } catch (error) {
+    job.status = "failed";
+    job.error = error instanceof Error ? error.message : String(error);
+    for (const step of job.steps) {
+      if (step.status === "pending" || step.status === "running") {
+        step.status = "failed";
+        step.message = job.error;
+      }
+    }
+  }
+
+  job.finishedAt = new Date().toISOString();
+  await saveJob(job);
+}
+
+function schedule(id: string): void {
+  const queue = getQueue();
+  queue.active.add(id);
+  queue.tail = queue.tail
+    .then(() => executeJob(id))
+    .catch((error) => console.error(`Job ${id} crashed:`, error))
+    .finally(() => queue.active.delete(id));
+}
+
+/** Persist a new job and schedule it; returns immediately with the queued job. */
+export async function enqueueJob(
+  type: JobType,
+  options: Job["options"] = {}
+): Promise<Job> {
+  await recoverInterruptedJobs();
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: uuidv4(),
+    type,
+    status: "queued",
+    options,
+    steps: JOB_STEPS[type].map((name) => ({
+      name,
+      status: "pending",
+      message: null,
+      attempts: 0,
+      startedAt: null,
+      finishedAt: null,
+    })),
+    results: [],
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    finishedAt: null,
+    owner: getQueue().owner,
+  };
+  await saveJob(job);
+  schedule(job.id);
+  return job;
+}
+
+/** Re-queue a failed job, resetting only its failed steps. Returns null if the job can't be retried. */
+export async function retryJob(id: string): Promise<Job | null> {
+  await recoverInterruptedJobs();
+  const job = await readJob(id);
+  if (!job || job.status !== "failed") return null;
+
+  for (const step of job.steps) {
+    if (step.status === "failed") {
+      step.status = "pending";
+      step.message = null;
+      step.startedAt = null;
+      step.finishedAt = null;
+    }
+  }
+  job.status = "queued";
+  job.error = null;
+  job.finishedAt = null;
+  job.owner = getQueue().owner;
+  await saveJob(job);
+  schedule(job.id);
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  await recoverInterruptedJobs();
+  return readJob(id);
+}
+
+/** A queued or running job of a type matching `match`, e.g. to reuse instead of a duplicate. */
+export async function findActiveJob(
+  type: JobType,
+  match: (job: Job) => boolean
+): Promise<Job | null> {
+  await recoverInterruptedJobs();
+  const jobs = await listJobs();
+  return jobs.find((job) => job.type === type && !isJobFinished(job) && match(job)) ?? null;
+}
+
+export async function listRecentJobs(limit = 20): Promise<Job[]> {
+  await recoverInterruptedJobs();
+  return (await listJobs()).slice(0, limit);
+}
+
+/** Subscribe to in-process updates for a job; returns an unsubscribe function. */
+export function subscribeToJob(id: string, listener: (job: Job) => void): () => void {
+  const { emitter } = getQueue();
+  emitter.on(id, listener);
+  return () => {
+    emitter.off(id, listener);
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Chat SSE protocol (see ChatStreamEvent): each message is an `event:` line naming the
+ * event and a `data:` line with its JSON payload. Shared by the chat routes, the chat
+ * page and the chat evaluation.
+ */
+
+import type { ChatStreamEvent } from "@/types";
+
+const EVENT_NAMES = new Set<string>(["delta", "status", "source", "citation", "done", "error"]);
+
+export function formatChatEvent(event: ChatStreamEvent): string {
+  return `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+function parseMessage(message: string): ChatStreamEvent | null {
+  let name = "";
+  let data = "";
+  for (const line of message.split("\n")) {
+    if (line.startsWith("event:")) name = line.slice(6).trim();
+    else if (line.startsWith("data:")) data += line.slice(5).trim();
+  }
+  if (!EVENT_NAMES.has(name) || !data) return null;
+  try {
+    return { event: name, data: JSON.parse(data) } as ChatStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/** The events of a chat SSE response body, in order. Unknown or malformed messages are skipped. */
+export async function* readChatEvents(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split("\n\n");
+      buffer = messages.pop() ?? "";
+      for (const message of messages) {
+        const event = parseMessage(message);
+        if (event) yield event;
+      }
+    }
+    const event = parseMessage(buffer);
+    if (event) yield event;
+  } finally {
+    reader.releaseLock();
+  }
+}
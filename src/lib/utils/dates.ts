@@ -40,3 +40,14 @@ export function formatMonthYear(monthYear: string): string {
   const date = new Date(parseInt(year), parseInt(month) - 1);
   return date.toLocaleDateString("en-GB", { month: "short", year: "numeric" });
 }
+
+/**
+ * Format a recording offset in seconds for display: "1:53" or "1:02:03"
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
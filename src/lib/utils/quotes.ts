@@ -0,0 +1,21 @@
+import type { QuoteLocation, QuoteReference } from "@/types";
+
+/** Element id of a quoted passage on the interview detail page. */
+export function quoteAnchorId(location: QuoteLocation): string {
+  return location.source === "transcript"
+    ? `turn-${location.turnIndex}`
+    : `report-${location.section}-${location.itemIndex}`;
+}
+
+/** Link to the interview a quote came from, scrolled to the passage when it was found. */
+export function quoteHref(quote: QuoteReference): string {
+  const base = `/interviews/${quote.interviewId}`;
+  return quote.location ? `${base}#${quoteAnchorId(quote.location)}` : base;
+}
+
+/** Detail page tab holding an anchor from quoteHref, or null for any other hash. */
+export function tabForAnchor(anchor: string): "report" | "transcript" | null {
+  if (/^turn-\d+$/.test(anchor)) return "transcript";
+  if (/^report-[A-Za-z]+-\d+$/.test(anchor)) return "report";
+  return null;
+}
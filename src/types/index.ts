@@ -4,10 +4,30 @@
 
 // --- NPS Categories ---
 export type NPSCategory = "promoter" | "passive" | "detractor";
-export type Region = "NA" | "EMEA" | "APAC" | "LATAM";
-export type Solution = "Executive Search" | "Professional Search" | "Consulting";
+/** Region value from the taxonomy, e.g. "EMEA". */
+export type Region = string;
+/** Solution value from the taxonomy, e.g. "Executive Search". */
+export type Solution = string;
 export type DataStatus = "complete" | "transcript_only" | "report_only";
 
+// --- Taxonomy (regions, solutions, account types) ---
+export type TaxonomyKind = "regions" | "solutions" | "accountTypes";
+
+export interface TaxonomyEntry {
+  value: string; // stored on interviews and shown in filters, e.g. "Executive Search"
+  code: string; // token used in coded filenames, e.g. "ES"
+  parent?: string; // value of the parent entry (sub-regions)
+}
+
+export interface Taxonomy {
+  /** Revision counter, bumped on every write (optimistic concurrency). */
+  version: number;
+  lastUpdated: string;
+  regions: TaxonomyEntry[];
+  solutions: TaxonomyEntry[];
+  accountTypes: TaxonomyEntry[];
+}
+
 // --- Master Metadata Index ---
 export interface InterviewMetadata {
   id: string;
@@ -34,12 +54,16 @@ export interface InterviewMetadata {
   dataStatus?: DataStatus;
   createdAt: string;
   updatedAt: string;
+  archivedAt?: string | null; // set while soft-deleted
 }
 
 export interface MetadataIndex {
+  /** Revision counter, bumped on every write (optimistic concurrency). */
   version: number;
   lastUpdated: string;
   interviews: InterviewMetadata[];
+  /** Soft-deleted interviews: kept for restore, excluded from listings and analysis. */
+  archived?: InterviewMetadata[];
 }
 
 // --- Normalized Transcript ---
@@ -48,9 +72,13 @@ export interface TranscriptSection {
   points: string[];
 }
 
+export type TranscriptFormat = "pdf" | "vtt" | "srt" | "teams" | "zoom" | "json";
+
 export interface TranscriptTurn {
-  speaker: string;
+  speaker: string; // normalized name, e.g. "Interviewer", "Speaker 1", "Jane Doe"
   text: string;
+  startTime?: number; // seconds from the start of the recording
+  endTime?: number; // seconds; only known for cue-based exports (VTT, SRT, Teams)
 }
 
 export interface NormalizedTranscript {
@@ -64,6 +92,7 @@ export interface NormalizedTranscript {
   sections: TranscriptSection[];
   fullTranscript: TranscriptTurn[];
   rawText: string;
+  format?: TranscriptFormat;
 }
 
 // --- Normalized Report ---
@@ -82,7 +111,50 @@ export interface NormalizedReport {
   additionalInsight: string;
 }
 
+// --- Prompt Provenance ---
+/** A prompt template version as used by one generation run. */
+export interface PromptRef {
+  name: string; // e.g. "theme-group"
+  version: string; // e.g. "v1"
+  hash: string; // of the template text and temperature
+  temperature: number;
+}
+
+/** What produced a generated artifact. */
+export interface ArtifactProvenance {
+  provider: string;
+  model: string;
+  prompts: PromptRef[];
+  interviewIds: string[]; // interviews sent to the model (see OpportunitiesAnalysis)
+  inputHash: string; // of those interviews' content
+}
+
 // --- Theme Analysis ---
+export type ReportSectionKey =
+  | "overview"
+  | "whatWentWell"
+  | "challengesPainPoints"
+  | "gapsIdentified"
+  | "keyThemes"
+  | "actionsRecommendations"
+  | "additionalInsight";
+
+/** Where a quote was found in its interview's transcript or report. */
+export type QuoteLocation =
+  | { source: "transcript"; turnIndex: number; speaker: string; startTime?: number }
+  | { source: "report"; section: ReportSectionKey; itemIndex: number };
+
+/** "exact": verbatim in the source; "fuzzy": close paraphrase; "unverified": not found. */
+export type QuoteVerification = "exact" | "fuzzy" | "unverified";
+
+/** Outcome of verifying an analysis's quotes; "dropped" counts unattributable or duplicate quotes. */
+export interface QuoteVerificationStats {
+  exact: number;
+  fuzzy: number;
+  unverified: number;
+  dropped: number;
+}
+
 export interface QuoteReference {
   text: string;
   interviewId: string;
@@ -93,16 +165,21 @@ export interface QuoteReference {
   accountType: string;
   npsCategory: string;
   score: number;
+  // Set by quote verification (analyses generated before it have none of these)
+  verification?: QuoteVerification;
+  matchScore?: number; // 0-1 similarity with the matched passage
+  location?: QuoteLocation | null;
 }
 
 export interface Theme {
-  id: string;
+  id: string; // kept across regenerations when the theme is matched to its predecessor
   label: string;
   description: string;
   frequency: number;
   sentiment: "positive" | "negative" | "neutral";
   supportingQuotes: QuoteReference[];
   interviewIds: string[];
+  firstSeen?: string; // lastGenerated of the analysis that introduced the theme
 }
 
 export interface ThemeGroup {
@@ -111,9 +188,124 @@ export interface ThemeGroup {
   themes: Theme[];
 }
 
+export type TimelineGranularity = "month" | "quarter";
+
+export interface TimelineThemeCount {
+  themeId: string;
+  count: number; // interviews in the period that reference the theme
+  byNpsCategory: Record<NPSCategory, number>;
+}
+
 export interface TimelinePoint {
-  month: string;
-  themes: { themeId: string; count: number }[];
+  period: string; // "2025-09" by month, "2025-Q3" by quarter
+  interviewCount: number; // analysed interviews in the period
+  themes: TimelineThemeCount[];
+  // Theme references in the period, summed over themes of each sentiment
+  bySentiment: Record<Theme["sentiment"], number>;
+}
+
+export interface ThemeTrend {
+  themeId: string;
+  label: string;
+  group: string;
+  sentiment: Theme["sentiment"];
+  fromCount: number;
+  toCount: number;
+  fromShare: number; // 0-1 share of the period's interviews
+  toShare: number;
+  change: number; // toShare - fromShare
+}
+
+export interface ThemeTimelineResponse {
+  granularity: TimelineGranularity;
+  points: TimelinePoint[];
+  themes: { id: string; label: string; group: string; sentiment: Theme["sentiment"] }[];
+  from: string | null;
+  to: string | null;
+  rising: ThemeTrend[];
+  falling: ThemeTrend[];
+}
+
+/**
+ * How a theme relates to the previous analysis: "continued" keeps its predecessor's id,
+ * "merged" absorbed a previous theme that has no successor of its own, "split" is a new
+ * theme carved out of a previous one that continued, "retired" had no successor at all.
+ */
+export type ThemeLineageEventType = "continued" | "new" | "merged" | "split" | "retired";
+
+export interface ThemeLineageEvent {
+  type: ThemeLineageEventType;
+  themeId: string; // theme in this analysis; for "retired", the previous theme
+  label: string;
+  previousIds: string[]; // predecessor ids ("merged": the absorbed themes)
+  previousLabels: string[];
+  similarity?: number; // 0-1, to the (first) predecessor
+}
+
+export interface ThemeLineage {
+  previousGenerated: string; // lastGenerated of the analysis matched against
+  method: "embedding" | "label"; // label similarity is the fallback if embedding fails
+  events: ThemeLineageEvent[];
+}
+
+export interface ThemeSnapshotSummary {
+  id: string;
+  generatedAt: string;
+  themeCount: number;
+  interviewCount: number;
+}
+
+export interface ThemeSnapshotDiff {
+  from: string; // snapshot id
+  to: string; // snapshot id, or "current"
+  added: { id: string; label: string; group: string }[];
+  removed: { id: string; label: string; group: string }[];
+  changed: {
+    id: string;
+    label: string;
+    previousLabel: string;
+    group: string;
+    previousGroup: string;
+    frequency: number;
+    previousFrequency: number;
+    sentiment: Theme["sentiment"];
+    previousSentiment: Theme["sentiment"];
+  }[];
+  unchanged: number;
+}
+
+/**
+ * Theme extraction is map-reduce: candidate themes are extracted per interview (the map
+ * step, cached by input hash) and then clustered into the final groups (the reduce step).
+ * "choose", "valued" and "fallsShort" feed the three fixed groups, "other" the additional
+ * groups.
+ */
+export type ThemeCandidateCategory = "choose" | "valued" | "fallsShort" | "other";
+
+export interface ThemeCandidate {
+  category: ThemeCandidateCategory;
+  label: string;
+  description: string;
+  sentiment: Theme["sentiment"];
+  quotes: string[];
+}
+
+export interface InterviewThemeCandidates {
+  inputHash: string; // extraction prompt version, model and interview text
+  extractedAt: string;
+  candidates: ThemeCandidate[];
+}
+
+export interface ThemeCandidateCache {
+  lastUpdated: string;
+  interviews: Record<string, InterviewThemeCandidates>;
+}
+
+export interface ThemeExtractionStats {
+  interviews: number;
+  extracted: number; // map calls made in this run
+  cached: number; // interviews whose candidates were reused
+  candidates: number;
 }
 
 export interface ThemeAnalysis {
@@ -123,13 +315,49 @@ export interface ThemeAnalysis {
   promoterExperience: ThemeGroup;
   whereFallsShort: ThemeGroup;
   additionalThemes: ThemeGroup[];
-  timelineData: TimelinePoint[];
+  timelineData: TimelinePoint[]; // monthly
+  quoteVerification?: QuoteVerificationStats;
+  lineage?: ThemeLineage; // absent for the first analysis
+  extraction?: ThemeExtractionStats;
+  provenance?: ArtifactProvenance;
+}
+
+/** Interview filters for segment-specific themes; an absent field matches every interview. */
+export interface ThemeSegment {
+  region?: string;
+  solution?: string;
+  accountType?: string;
+  npsCategory?: NPSCategory;
+  monthFrom?: string; // "2025-09", inclusive
+  monthTo?: string; // inclusive
+}
+
+/** Themes reduced from one segment's interviews, cached by segment key. */
+export interface SegmentThemeAnalysis extends ThemeAnalysis {
+  segment: ThemeSegment;
+  segmentKey: string;
+  inputHash: string; // segment interviews and their candidates' input hashes
+  sampleSize: number;
+  lowSample: boolean; // fewer interviews than MIN_SEGMENT_SAMPLE
+}
+
+export interface ThemeSegmentCache {
+  lastUpdated: string;
+  segments: Record<string, SegmentThemeAnalysis>;
 }
 
 // --- Opportunities ---
 export type OpportunityType = "future_need" | "expansion" | "re_engagement" | "improvement";
 export type OpportunityUrgency = "high" | "medium" | "low";
-export type OpportunityStatus = "identified" | "in_progress" | "actioned";
+export type OpportunityStatus = "identified" | "in_progress" | "actioned" | "superseded";
+
+export interface OpportunityHistoryEntry {
+  at: string; // ISO 8601
+  event: "identified" | "refreshed" | "status_changed" | "notes_updated" | "superseded" | "reinstated";
+  status?: OpportunityStatus;
+  from?: OpportunityStatus;
+  note?: string;
+}
 
 export interface Opportunity {
   id: string;
@@ -143,11 +371,24 @@ export interface Opportunity {
   supportingQuote: string;
   suggestedAction: string;
   status: OpportunityStatus;
+  // Identity and user edits preserved across reindex runs
+  fingerprint?: string;
+  notes?: string;
+  history?: OpportunityHistoryEntry[];
+  firstIdentifiedAt?: string;
+  lastSeenAt?: string;
 }
 
 export interface OpportunitiesAnalysis {
   lastGenerated: string;
+  /** Revision counter, bumped on every write (optimistic concurrency). */
+  version?: number;
   opportunities: Opportunity[];
+  /**
+   * Accumulated over runs: every interview the opportunities come from and every prompt
+   * version that produced them; provider and model are the latest run's.
+   */
+  provenance?: ArtifactProvenance;
 }
 
 // --- Embeddings ---
@@ -157,13 +398,250 @@ export interface EmbeddingChunk {
   source: "transcript" | "report";
   sectionType: string;
   text: string;
-  embedding: number[];
+  // Dialogue chunks: first and last fullTranscript index covered (inclusive)
+  turnStart?: number;
+  turnEnd?: number;
 }
 
+/**
+ * Local embedding index. `vectors` holds one L2-normalised row of `dimensions` values per
+ * chunk, in chunk order (row i starts at i * dimensions).
+ */
 export interface EmbeddingIndex {
   model: string;
   lastUpdated: string;
+  chunking?: number; // chunking scheme version; absent for indexes from before versioning
+  dimensions: number;
   chunks: EmbeddingChunk[];
+  vectors: Float32Array;
+}
+
+/** JSON part of the stored embedding index; the vectors are stored as binary. */
+export interface EmbeddingManifest extends Omit<EmbeddingIndex, "vectors"> {
+  format: "float32-le-normalized";
+}
+
+/** BM25 inverted index over the embedding chunks, rebuilt whenever they change. */
+export interface LexicalIndex {
+  lastUpdated: string;
+  sourceUpdated: string; // lastUpdated of the embedding index it was built from
+  avgLength: number; // mean chunk length in tokens
+  chunks: { id: string; length: number }[];
+  postings: Record<string, [number, number][]>; // term -> [position in chunks, term frequency]
+}
+
+/** How chunks are ranked: embeddings, BM25 keywords, or both fused by reciprocal rank. */
+export type RetrievalMode = "semantic" | "keyword" | "hybrid";
+
+// --- AI Usage ---
+export type UsageFeature = "themes" | "opportunities" | "chat" | "embeddings" | "other";
+
+/** One model call, appended to the usage log by the LLM provider. */
+export interface UsageRecord {
+  at: string; // ISO 8601
+  provider: string;
+  model: string;
+  operation: "completion" | "embedding";
+  task: string; // call site, e.g. "theme-candidates"
+  feature: UsageFeature;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number; // at the prices configured when the call was made; 0 if unpriced
+  priced: boolean;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageDay extends UsageTotals {
+  date: string; // "2026-10-19"
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+}
+
+export interface UsageBudgetStatus {
+  limitUsd: number | null; // null: no cap configured
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface UsageResponse {
+  month: string; // "2026-10"
+  totals: UsageTotals & { unpricedCalls: number };
+  byDay: UsageDay[];
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+  budget: UsageBudgetStatus & {
+    features: Partial<Record<UsageFeature, UsageBudgetStatus>>;
+  };
+}
+
+// --- Chat Evaluation ---
+/** Path a chat question can take (see src/app/api/chat/route.ts). */
+export type ChatPath = "exhaustive" | "vector-store" | "local";
+
+export interface ChatEvalQuestion {
+  id: string;
+  question: string;
+  /** Interviews a good answer draws on. */
+  expectedInterviews: string[];
+  /** Facts the answer should state; an array entry accepts any one of its phrasings. */
+  expectedFacts: (string | string[])[];
+  /** Where the chat router should send it: the exhaustive scan or a model path. */
+  expectedRoute?: "exhaustive" | "model";
+  paths?: ChatPath[]; // default: every path
+}
+
+export interface ChatEvalSet {
+  version: string;
+  description?: string;
+  questions: ChatEvalQuestion[];
+}
+
+export interface ChatEvalMetrics {
+  retrievalRecall: number | null; // share of expected interviews retrieved
+  citations: number; // [Client, Company] tags with a quote, plus tags naming no interview
+  correctCitations: number; // tags whose quote is found in the named interview
+  citationAccuracy: number | null;
+  quotes: number;
+  groundedQuotes: number; // quotes found in some interview's text
+  faithfulness: number | null;
+  factRecall: number | null; // share of expected facts stated
+  routedCorrectly: boolean | null;
+}
+
+export interface ChatEvalResult {
+  questionId: string;
+  path: ChatPath;
+  answer: string;
+  retrievedInterviewIds: string[];
+  citedInterviewIds: string[];
+  metrics: ChatEvalMetrics;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ChatEvalPathSummary {
+  path: ChatPath;
+  questions: number;
+  errors: number;
+  skipped: string | null; // reason the path could not run
+  retrievalRecall: number | null; // means over the questions where the metric applies
+  citationAccuracy: number | null;
+  faithfulness: number | null;
+  factRecall: number | null;
+  routerAccuracy: number | null;
+  meanLatencyMs: number | null;
+}
+
+export interface ChatEvalRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  evalSet: { version: string; hash: string; questions: number };
+  provider: string;
+  model: string;
+  embeddingModel: string;
+  retrievalMode: RetrievalMode; // ranking of the local path
+  prompts: PromptRef[];
+  summary: ChatEvalPathSummary[];
+  results: ChatEvalResult[];
+}
+
+export type ChatEvalRunSummary = Omit<ChatEvalRun, "results">;
+
+// --- Reindex Pipeline State ---
+export type PipelineStep = "embeddings" | "vectorStore" | "opportunities";
+
+export interface PipelineStepState {
+  inputHash: string; // contentHash the step last completed for
+  completedAt: string;
+}
+
+export interface InterviewPipelineState {
+  contentHash: string;
+  transcriptHash: string | null;
+  reportHash: string | null;
+  steps: Partial<Record<PipelineStep, PipelineStepState>>;
+  vectorStoreFileId?: string | null;
+}
+
+export interface PipelineState {
+  lastRun: string | null;
+  vectorStoreId: string | null;
+  interviews: Record<string, InterviewPipelineState>;
+  themes: {
+    stale: boolean;
+    staleSince: string | null;
+    lastGenerated: string | null;
+  };
+}
+
+// --- Background Jobs ---
+export type ReindexStepName = "embeddings" | "vectorStore" | "themes" | "opportunities";
+export type JobType = "reindex" | "upload" | "vector_store_sync" | "purge" | "theme_segment";
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+export type JobStepStatus = "pending" | "running" | "completed" | "skipped" | "failed";
+
+export interface JobStep {
+  name: ReindexStepName;
+  status: JobStepStatus;
+  message: string | null;
+  attempts: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  options: {
+    full?: boolean;
+    themes?: boolean;
+    interviewId?: string; // the interview that triggered the run; purge jobs: the one purged
+    segment?: ThemeSegment; // theme_segment jobs: the segment whose themes are generated
+  };
+  steps: JobStep[];
+  results: string[];
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  owner?: JobOwner; // the process that scheduled the job; absent on older jobs
+}
+
+/** Server process that runs a job, so other processes can tell a live job from an orphan. */
+export interface JobOwner {
+  pid: number;
+  host: string;
+  instance: string; // random per process, as a pid can be reused after a restart
+}
+
+// --- Bulk Import ---
+export type BulkImportStatus = "created" | "updated" | "skipped" | "error";
+
+export interface BulkImportFileResult {
+  filename: string;
+  kind: "transcript" | "report" | null;
+  code: string | null; // "T5" / "R5" from the filename
+  interviewId: string | null;
+  status: BulkImportStatus;
+  message: string;
+}
+
+export interface BulkImportResponse {
+  results: BulkImportFileResult[];
+  summary: Record<BulkImportStatus, number>;
+  jobId: string | null; // reindex job, when anything was created or updated
 }
 
 // --- API Request/Response Types ---
@@ -175,6 +653,7 @@ export interface InterviewFilters {
   monthEnd?: string;
   search?: string;
   sort?: "date-desc" | "date-asc" | "score-desc" | "score-asc";
+  archived?: boolean; // list archived interviews instead of active ones
 }
 
 export interface InterviewListResponse {
@@ -200,11 +679,51 @@ export interface StatsResponse {
   byMonth: { month: string; count: number; avgScore: number }[];
 }
 
+export interface ThemeAnalysisResponse extends ThemeAnalysis {
+  stale?: boolean; // content changed since themes were generated
+  staleSince?: string | null;
+  // Set when the request filtered to a segment
+  segment?: ThemeSegment;
+  sampleSize?: number;
+  lowSample?: boolean;
+  sampleNote?: string | null;
+}
+
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
 }
 
+/** An interview a chat answer drew on; `anchor` is "t-006#turn-12" when a dialogue chunk was used. */
+export interface ChatSource {
+  interviewId: string;
+  label: string; // "Client, Company (NPS: 9)"
+  anchor: string;
+}
+
+/** A cited passage; `offset` is where in the answer text the citation applies. */
+export interface ChatCitation {
+  interviewId: string;
+  chunkId: string | null; // null when the passage was not one of our chunks (vector store, exhaustive scan)
+  section: string | null; // chunk section type, e.g. "client_turns", "what_went_well"
+  quote: string | null; // the quoted span, if the answer quoted the interview
+  anchor: string; // as ChatSource.anchor, at the quoted turn or report item when found
+  offset: number;
+}
+
+export type ChatStatus =
+  | { tool: "retrieval"; state: "completed"; message: string }
+  | { tool: "file_search"; state: "searching" | "completed"; message: string };
+
+/** Chat SSE protocol: one `event: <event>` / `data: <JSON>` message per event. */
+export type ChatStreamEvent =
+  | { event: "delta"; data: { text: string } }
+  | { event: "status"; data: ChatStatus }
+  | { event: "source"; data: ChatSource }
+  | { event: "citation"; data: ChatCitation }
+  | { event: "done"; data: Record<string, never> }
+  | { event: "error"; data: { message: string } };
+
 export interface ChatRequest {
   messages: ChatMessage[];
   filters?: {
@@ -212,6 +731,7 @@ export interface ChatRequest {
     solution?: string;
     npsCategory?: string;
   };
+  mode?: RetrievalMode; // local embeddings path only; default hybrid
 }
 
 export interface UploadFormData {
@@ -224,6 +744,24 @@ export interface UploadFormData {
   accountType: string;
 }
 
+export interface UploadConflict {
+  field: keyof UploadFormData | "duplicate" | "file";
+  message: string;
+  suggested?: string | number; // value read from the filename or document
+  interviewId?: string; // existing interview involved in the conflict
+}
+
+/** Response of POST /api/upload with dryRun=true: nothing is written. */
+export interface UploadPreviewResponse {
+  dryRun: true;
+  metadata: InterviewMetadata; // id is the one the upload would get now
+  transcript: NormalizedTranscript | null;
+  report: NormalizedReport | null;
+  suggested: Partial<UploadFormData>; // values read from filenames and document headers
+  conflicts: UploadConflict[];
+  version: number; // index version to send back as expectedVersion
+}
+
 export interface SearchResult {
   interviewId: string;
   client: string;
@@ -231,4 +769,5 @@ export interface SearchResult {
   score: number;
   npsCategory: NPSCategory;
   matches: { text: string; section: string }[];
+  relevance?: number; // ranked modes only: best chunk's retrieval score
 }